@@ -0,0 +1,376 @@
+// Alert episodes.
+//
+// A condition that lasts or repeats (a vehicle speeding for ten minutes, several harsh brakes
+// in a row, a vehicle bouncing on a geofence border) is one alert, not one alert per fix. Each
+// alerts row is an episode keyed by vehicle, alert type and scope (the zone or geofence):
+//   - the first occurrence inserts the row with `status = 'open'`
+//   - further occurrences increment `occurrence_count`, raise `peak_value`, escalate the
+//     severity and are appended to `timeline`; writes are throttled
+//   - the episode closes when the caller resolves it or after a quiet period of its type
+//   - within the type's cooldown after closing, the next occurrence reopens the same row
+//     (marked unread again) instead of inserting a new one
+// Open episodes are reloaded on startup, the cooldown of closed ones does not survive a restart.
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * @typedef {Object} EpisodePolicy
+ * @property {number} quietMs    An open episode without occurrences for this long is closed
+ * @property {number} cooldownMs Occurrences this soon after closing reopen the episode
+ */
+
+/**
+ * @typedef {Object} TimelineEntry
+ * @property {string} at
+ * @property {'opened' | 'occurred' | 'reopened' | 'closed'} event
+ * @property {number | null} value
+ */
+
+/**
+ * @typedef {Object} AlertEpisode
+ * @property {string} key            `${vehicle_id}:${episode_key}`
+ * @property {EpisodePolicy} policy
+ * @property {string | null} alertId alerts row, once inserted
+ * @property {'open' | 'closed'} status
+ * @property {number} lastOccurredAt ms since epoch
+ * @property {number | null} closedAt
+ * @property {number} occurrences
+ * @property {number | null} peak
+ * @property {string} severity
+ * @property {TimelineEntry[]} timeline
+ * @property {Record<string, any>} changes alert columns not written yet
+ * @property {boolean} dirty
+ * @property {number} persistedAt    last write, server time
+ */
+
+/**
+ * @typedef {Object} Occurrence
+ * @property {string} [scope]       Separates episodes of the same type, e.g. the geofence id
+ * @property {number | null} [value] Measured value, the highest one is kept as the peak
+ * @property {number} [at]          ms since epoch, defaults to now
+ */
+
+const MINUTE = 60 * 1000;
+
+// Per alert_type; short quiet periods for conditions the caller resolves itself
+export const EPISODE_POLICIES = /** @type {Record<string, EpisodePolicy>} */ ({
+  speed_limit: { quietMs: 2 * MINUTE, cooldownMs: 10 * MINUTE },
+  harsh_acceleration: { quietMs: 5 * MINUTE, cooldownMs: 15 * MINUTE },
+  harsh_braking: { quietMs: 5 * MINUTE, cooldownMs: 15 * MINUTE },
+  harsh_cornering: { quietMs: 5 * MINUTE, cooldownMs: 15 * MINUTE },
+  idle_too_long: { quietMs: 30 * MINUTE, cooldownMs: 60 * MINUTE },
+  geofence_enter: { quietMs: 10 * MINUTE, cooldownMs: 30 * MINUTE },
+  geofence_exit: { quietMs: 10 * MINUTE, cooldownMs: 30 * MINUTE },
+  // Kept open by the fuel analyser until the level recovers, devices may report rarely while parked
+  low_fuel: { quietMs: 6 * 60 * MINUTE, cooldownMs: 12 * 60 * MINUTE },
+  fuel_drop: { quietMs: 30 * MINUTE, cooldownMs: 60 * MINUTE },
+  // Kept open by the health monitor until power or the GPS position comes back
+  battery_disconnect: { quietMs: 6 * 60 * MINUTE, cooldownMs: 12 * 60 * MINUTE },
+  no_gps_signal: { quietMs: 60 * MINUTE, cooldownMs: 2 * 60 * MINUTE },
+});
+const DEFAULT_POLICY = { quietMs: 10 * MINUTE, cooldownMs: 30 * MINUTE };
+
+// The first entry and the most recent ones are kept
+const MAX_TIMELINE_ENTRIES = 50;
+
+const SEVERITY_RANK = /** @type {Record<string, number>} */ ({ low: 0, medium: 1, high: 2, critical: 3 });
+
+/**
+ * @param {string} alertType
+ * @returns {EpisodePolicy}
+ */
+export function episodePolicy(alertType) {
+  return EPISODE_POLICIES[alertType] || DEFAULT_POLICY;
+}
+
+/**
+ * @typedef {Object} AlertEpisodesOptions
+ * @property {(organizationId: string, event: string, row: Record<string, unknown>) => void} [emit] Notifies the dashboards of the alert's organization
+ * @property {number} [persistIntervalMs] Minimum time between writes of an open episode
+ * @property {number} [sweepIntervalMs]   How often quiet episodes are closed
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {AlertEpisodesOptions} [options]
+ */
+export function createAlertEpisodes(supabase, options = {}) {
+  const { emit = () => {}, persistIntervalMs = 15000, sweepIntervalMs = 10000 } = options;
+
+  /** @type {Map<string, AlertEpisode>} */
+  const episodes = new Map();
+  /** @type {Promise<void>} */
+  let ready = Promise.resolve();
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let sweeping = false;
+
+  /**
+   * @param {AlertEpisode} episode
+   * @param {TimelineEntry} entry
+   */
+  const addToTimeline = (episode, entry) => {
+    episode.timeline.push(entry);
+    if (episode.timeline.length > MAX_TIMELINE_ENTRIES) episode.timeline.splice(1, 1);
+  };
+
+  /**
+   * Takes the latest content of an occurrence, returns whether the severity went up.
+   * @param {AlertEpisode} episode
+   * @param {Record<string, any>} alertData
+   * @param {number | null} value
+   * @param {number} at
+   */
+  const apply = (episode, alertData, value, at) => {
+    const { severity, ...content } = alertData;
+    // The identity of an episode never changes
+    delete content.user_id;
+    delete content.organization_id;
+    delete content.vehicle_id;
+    delete content.alert_type;
+    Object.assign(episode.changes, content);
+    episode.dirty = true;
+    episode.lastOccurredAt = Math.max(episode.lastOccurredAt, at);
+    if (value !== null && (episode.peak === null || value > episode.peak)) episode.peak = value;
+
+    const escalated = (SEVERITY_RANK[severity] ?? 0) > (SEVERITY_RANK[episode.severity] ?? 0);
+    if (escalated) episode.severity = severity;
+    return escalated;
+  };
+
+  /** @param {AlertEpisode} episode */
+  const persist = async (episode) => {
+    // The insert has not returned yet, it writes the pending changes when it does
+    if (!episode.alertId) return;
+
+    const changes = {
+      ...episode.changes,
+      status: episode.status,
+      severity: episode.severity,
+      last_occurred_at: new Date(episode.lastOccurredAt).toISOString(),
+      closed_at: episode.closedAt !== null ? new Date(episode.closedAt).toISOString() : null,
+      occurrence_count: episode.occurrences,
+      peak_value: episode.peak,
+      timeline: episode.timeline,
+    };
+    episode.changes = {};
+    episode.dirty = false;
+    episode.persistedAt = Date.now();
+
+    try {
+      const { data, error } = await supabase
+        .from('alerts')
+        .update(changes)
+        .eq('id', episode.alertId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      emit(data.organization_id, 'alert_updated', data);
+    } catch (error) {
+      console.error('Error updating alert episode:', error);
+    }
+  };
+
+  /**
+   * @param {AlertEpisode} episode
+   * @param {Record<string, any>} row
+   */
+  const insert = async (episode, row) => {
+    try {
+      const { data, error } = await supabase
+        .from('alerts')
+        .insert([row])
+        .select()
+        .single();
+
+      if (error) throw error;
+      episode.alertId = data.id;
+      episode.persistedAt = Date.now();
+      emit(data.organization_id, 'new_alert', data);
+    } catch (error) {
+      console.error('Error creating alert:', error);
+      // Forget the episode so the next occurrence tries again
+      if (episodes.get(episode.key) === episode) episodes.delete(episode.key);
+      return;
+    }
+
+    if (episode.dirty) await persist(episode);
+  };
+
+  /**
+   * Records an occurrence: opens an episode, reopens one closed within the cooldown or adds
+   * to the open one.
+   * @param {Record<string, any>} alertData alerts columns (user_id, vehicle_id, alert_type, severity, title, message...)
+   * @param {Occurrence} [occurrence]
+   * @returns {Promise<AlertEpisode>}
+   */
+  const raise = async (alertData, { scope = 'vehicle', value = null, at = Date.now() } = {}) => {
+    await ready;
+
+    const episodeKey = `${alertData.alert_type}:${scope}`;
+    const key = `${alertData.vehicle_id}:${episodeKey}`;
+    const time = new Date(at).toISOString();
+    const existing = episodes.get(key);
+
+    if (existing && (existing.status === 'open' || at - (existing.closedAt ?? 0) <= existing.policy.cooldownMs)) {
+      const reopened = existing.status === 'closed';
+      const escalated = apply(existing, alertData, value, at);
+      existing.occurrences++;
+      addToTimeline(existing, { at: time, event: reopened ? 'reopened' : 'occurred', value });
+
+      if (reopened) {
+        existing.status = 'open';
+        existing.closedAt = null;
+        // A reopened alert needs attention again, and escalates again until acknowledged
+        Object.assign(existing.changes, {
+          is_read: false,
+          is_acknowledged: false,
+          acknowledged_at: null,
+          acknowledged_by: null,
+        });
+      }
+      if (reopened || escalated || Date.now() - existing.persistedAt >= persistIntervalMs) {
+        await persist(existing);
+      }
+      return existing;
+    }
+
+    /** @type {AlertEpisode} */
+    const episode = {
+      key,
+      policy: episodePolicy(alertData.alert_type),
+      alertId: null,
+      status: 'open',
+      lastOccurredAt: at,
+      closedAt: null,
+      occurrences: 1,
+      peak: value,
+      severity: alertData.severity,
+      timeline: [{ at: time, event: 'opened', value }],
+      changes: {},
+      dirty: false,
+      persistedAt: 0,
+    };
+    episodes.set(key, episode);
+
+    await insert(episode, {
+      ...alertData,
+      episode_key: episodeKey,
+      status: 'open',
+      first_occurred_at: time,
+      last_occurred_at: time,
+      occurrence_count: 1,
+      peak_value: value,
+      timeline: episode.timeline,
+    });
+    return episode;
+  };
+
+  /**
+   * Refreshes the content of an open episode without counting a new occurrence, for
+   * conditions that last (e.g. the duration of a speeding episode).
+   * @param {AlertEpisode} episode
+   * @param {Record<string, any>} alertData
+   * @param {Occurrence} [occurrence]
+   */
+  const update = async (episode, alertData, { value = null, at = Date.now() } = {}) => {
+    if (episode.status !== 'open') return;
+    const escalated = apply(episode, alertData, value, at);
+    if (escalated || Date.now() - episode.persistedAt >= persistIntervalMs) await persist(episode);
+  };
+
+  /**
+   * Closes an open episode, it can still be reopened within the cooldown.
+   * @param {AlertEpisode} episode
+   * @param {Record<string, any>} [alertData] final content
+   * @param {number} [at]
+   */
+  const resolve = async (episode, alertData = {}, at = Date.now()) => {
+    if (episode.status !== 'open') return;
+    apply(episode, alertData, null, episode.lastOccurredAt);
+    episode.status = 'closed';
+    episode.closedAt = at;
+    addToTimeline(episode, { at: new Date(at).toISOString(), event: 'closed', value: null });
+    await persist(episode);
+  };
+
+  /**
+   * Closes quiet episodes, forgets those past their cooldown and writes throttled changes.
+   * @param {number} now
+   */
+  const sweep = async (now) => {
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      for (const [key, episode] of episodes) {
+        if (episode.status === 'open' && now - episode.lastOccurredAt > episode.policy.quietMs) {
+          await resolve(episode, {}, now);
+        } else if (episode.status === 'closed' && now - (episode.closedAt ?? 0) > episode.policy.cooldownMs) {
+          episodes.delete(key);
+        } else if (episode.dirty && now - episode.persistedAt >= persistIntervalMs) {
+          await persist(episode);
+        }
+      }
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const loadOpenEpisodes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('alerts')
+        .select('id, vehicle_id, alert_type, episode_key, severity, last_occurred_at, occurrence_count, peak_value, timeline')
+        .eq('status', 'open')
+        .not('episode_key', 'is', null);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const key = `${row.vehicle_id}:${row.episode_key}`;
+        episodes.set(key, {
+          key,
+          policy: episodePolicy(row.alert_type),
+          alertId: row.id,
+          status: 'open',
+          lastOccurredAt: Date.parse(row.last_occurred_at),
+          closedAt: null,
+          occurrences: row.occurrence_count,
+          peak: row.peak_value !== null ? Number(row.peak_value) : null,
+          severity: row.severity,
+          timeline: Array.isArray(row.timeline) ? row.timeline : [],
+          changes: {},
+          dirty: false,
+          persistedAt: Date.now(),
+        });
+      }
+
+      if (episodes.size > 0) console.log(`Alert episodes: ${episodes.size} open episode(s) resumed`);
+    } catch (error) {
+      console.error('Error loading open alert episodes:', error);
+    }
+  };
+
+  return {
+    raise,
+    update,
+    resolve,
+    sweep,
+    start: () => {
+      if (timer) return;
+      ready = loadOpenEpisodes();
+      timer = setInterval(() => sweep(Date.now()), sweepIntervalMs);
+      timer.unref();
+    },
+    // Writes throttled changes, open episodes stay open for the next start
+    stop: async () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      await Promise.all([...episodes.values()].filter((episode) => episode.dirty).map(persist));
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createAlertEpisodes>} AlertEpisodes */
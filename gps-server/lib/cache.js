@@ -0,0 +1,103 @@
+// Small in-memory TTL cache used to avoid hitting Supabase on every fix.
+// Keys often come from the network (device ids, tokens), so the cache also holds at most
+// `maxEntries` entries and evicts the least recently used one past that.
+
+/**
+ * @template V
+ * @typedef {Object} TtlCache
+ * @property {(key: string) => V | undefined} get
+ * @property {(key: string, value: V) => void} set
+ * @property {(key: string) => void} delete
+ * @property {() => void} clear
+ * @property {(key: string, loader: () => Promise<V>) => Promise<V>} getOrLoad
+ *   Returns the cached value or loads it once, concurrent callers share the same pending load
+ * @property {() => number} size
+ */
+
+/**
+ * @typedef {Object} TtlCacheOptions
+ * @property {number} [maxEntries] Least recently used entries are evicted past this size
+ */
+
+/**
+ * @template V
+ * @param {number} ttlMs
+ * @param {TtlCacheOptions} [options]
+ * @returns {TtlCache<V>}
+ */
+export function createTtlCache(ttlMs, options = {}) {
+  const { maxEntries = 10000 } = options;
+
+  // Map iteration follows insertion order, entries are re-inserted when used so the
+  // first key is always the least recently used one
+  /** @type {Map<string, { value: V, expiresAt: number }>} */
+  const entries = new Map();
+  /** @type {Map<string, Promise<V>>} */
+  const pending = new Map();
+
+  /**
+   * Returns the live entry of a key and marks it as recently used.
+   * @param {string} key
+   */
+  const lookup = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    entries.set(key, entry);
+    return entry;
+  };
+
+  /** @param {string} key */
+  const get = (key) => lookup(key)?.value;
+
+  /**
+   * @param {string} key
+   * @param {V} value
+   */
+  const set = (key, value) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next();
+      if (oldest.done) break;
+      entries.delete(oldest.value);
+    }
+  };
+
+  /**
+   * @param {string} key
+   * @param {() => Promise<V>} loader
+   * @returns {Promise<V>}
+   */
+  const getOrLoad = async (key, loader) => {
+    // Check presence rather than truthiness, null is a valid cached value ("not found")
+    const entry = lookup(key);
+    if (entry) return entry.value;
+
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const load = loader()
+      .then((value) => {
+        set(key, value);
+        return value;
+      })
+      .finally(() => pending.delete(key));
+
+    pending.set(key, load);
+    return load;
+  };
+
+  return {
+    get,
+    set,
+    delete: (key) => { entries.delete(key); },
+    clear: () => entries.clear(),
+    getOrLoad,
+    size: () => entries.size,
+  };
+}
@@ -0,0 +1,54 @@
+// Local wall-clock time in IANA time zones, for rules and schedules that are written in the
+// time of the fleet rather than UTC.
+
+/** @type {Map<string, Intl.DateTimeFormat>} */
+const clockFormats = new Map();
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Weekday (0 = Sunday) and minutes since local midnight in a time zone, UTC when the zone
+ * is unknown.
+ * @param {number} time
+ * @param {string} timezone
+ * @returns {{ weekday: number, minutes: number }}
+ */
+export function localClock(time, timezone) {
+  let format = clockFormats.get(timezone);
+  if (!format) {
+    const options = /** @type {const} */ ({ weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    try {
+      format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone });
+    } catch {
+      format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' });
+    }
+    clockFormats.set(timezone, format);
+  }
+
+  /** @type {Record<string, string>} */
+  const parts = {};
+  for (const part of format.formatToParts(new Date(time))) parts[part.type] = part.value;
+  return {
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** @param {string} value "HH:MM" */
+export function parseClock(value) {
+  const [hours, minutes] = String(value || '').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whether `minutes` falls in the window [from, to); windows like 22:00-05:00 wrap around
+ * midnight.
+ * @param {number} minutes
+ * @param {string} from "HH:MM"
+ * @param {string} to "HH:MM"
+ */
+export function inClockWindow(minutes, from, to) {
+  const start = parseClock(from);
+  const end = parseClock(to);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
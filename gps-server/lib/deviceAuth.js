@@ -0,0 +1,165 @@
+// Authentication of fixes submitted over HTTP.
+//
+// Every gps_devices row can have a secret in gps_device_tokens, issued from the dashboard
+// through the rotate_gps_device_token function. A request is accepted when it either
+//   - carries the secret as a bearer token: `Authorization: Bearer <token>`, an
+//     `X-Device-Token` header or a `token` parameter for devices that can only set the URL
+//   - or is signed: `X-Signature: <hex HMAC-SHA256 of "<X-Timestamp>.<payload>">` with
+//     `X-Timestamp` in unix seconds, where the payload is the raw JSON body, or the query
+//     string for requests without a body
+// TCP protocols identify devices by the IMEI in their login packet and are not covered here.
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { createTtlCache } from './cache.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * @typedef {Object} DeviceAuthOptions
+ * @property {(deviceId: string) => Promise<{ device: any } | null>} resolveDevice gps_devices lookup, shared with the ingestion pipeline
+ * @property {number} [cacheTtlMs] How long secrets are cached, a rotated token is accepted until the entry expires
+ * @property {number} [maxSkewMs]  Signed requests with an X-Timestamp further than this from the server clock are rejected
+ */
+
+/**
+ * @typedef {Object} AuthRequest
+ * @property {Record<string, string | string[] | undefined>} headers
+ * @property {Record<string, any>} [query]
+ * @property {Record<string, any>} [body]
+ * @property {string} [rawBody]     Body as received, captured by the JSON parser
+ * @property {string} [originalUrl]
+ */
+
+/**
+ * @typedef {Object} AuthResult
+ * @property {boolean} ok
+ * @property {string} [reason] Why the request was rejected, for the server log
+ */
+
+/**
+ * Constant time string comparison, hashing first so inputs of different length compare too.
+ * @param {string} a
+ * @param {string} b
+ */
+function safeEqual(a, b) {
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * @param {AuthRequest} req
+ * @param {string} name lower case header name
+ * @returns {string | undefined}
+ */
+function header(req, name) {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * @param {AuthRequest} req
+ * @returns {string | undefined}
+ */
+function bearerToken(req) {
+  const authorization = header(req, 'authorization');
+  if (authorization && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim();
+  }
+  return header(req, 'x-device-token') || req.query?.token || req.body?.token || undefined;
+}
+
+// Headers and parameters carrying device or user credentials
+const CREDENTIAL_KEYS = new Set(['authorization', 'cookie', 'x-device-token', 'x-signature', 'token']);
+
+/**
+ * Copy of request headers, query or body safe to write to the log: credentials are masked.
+ * @param {Record<string, any> | undefined} values
+ * @returns {Record<string, any>}
+ */
+export function redactCredentials(values) {
+  /** @type {Record<string, any>} */
+  const redacted = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    redacted[key] = CREDENTIAL_KEYS.has(key.toLowerCase()) ? '[redacted]' : value;
+  }
+  return redacted;
+}
+
+/**
+ * Bytes covered by the HMAC signature.
+ * @param {AuthRequest} req
+ * @returns {string}
+ */
+function signedPayload(req) {
+  if (req.rawBody) return req.rawBody;
+  const url = req.originalUrl || '';
+  const queryStart = url.indexOf('?');
+  return queryStart === -1 ? '' : url.substring(queryStart + 1);
+}
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {DeviceAuthOptions} options
+ */
+export function createDeviceAuthenticator(supabase, options) {
+  const { resolveDevice, cacheTtlMs = 60000, maxSkewMs = 5 * 60 * 1000 } = options;
+
+  /** @type {import('./cache.js').TtlCache<string | null>} */
+  const secrets = createTtlCache(cacheTtlMs);
+
+  /**
+   * @param {string} gpsDeviceId gps_devices.id
+   * @returns {Promise<string | null>}
+   */
+  const getSecret = (gpsDeviceId) => secrets.getOrLoad(gpsDeviceId, async () => {
+    const { data, error } = await supabase
+      .from('gps_device_tokens')
+      .select('secret')
+      .eq('gps_device_id', gpsDeviceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? data.secret : null;
+  });
+
+  /**
+   * @param {AuthRequest} req
+   * @param {string} deviceId device_id claimed by the request
+   * @returns {Promise<AuthResult>}
+   */
+  const authenticate = async (req, deviceId) => {
+    if (!deviceId) return { ok: false, reason: 'missing device id' };
+
+    const context = await resolveDevice(String(deviceId));
+    if (!context) return { ok: false, reason: 'unknown device' };
+
+    const secret = await getSecret(context.device.id);
+    if (!secret) return { ok: false, reason: 'device has no token, generate one in GPS Device Configuration' };
+
+    const signature = header(req, 'x-signature');
+    if (signature) {
+      const timestamp = header(req, 'x-timestamp');
+      const seconds = timestamp ? parseInt(timestamp, 10) : NaN;
+      if (isNaN(seconds) || Math.abs(Date.now() - seconds * 1000) > maxSkewMs) {
+        return { ok: false, reason: 'missing or expired X-Timestamp' };
+      }
+
+      const expected = createHmac('sha256', secret)
+        .update(`${timestamp}.${signedPayload(req)}`)
+        .digest('hex');
+      const provided = signature.replace(/^sha256=/, '').toLowerCase();
+
+      return safeEqual(provided, expected) ? { ok: true } : { ok: false, reason: 'invalid signature' };
+    }
+
+    const token = bearerToken(req);
+    if (!token) return { ok: false, reason: 'unsigned request' };
+
+    return safeEqual(String(token), secret) ? { ok: true } : { ok: false, reason: 'invalid token' };
+  };
+
+  return { authenticate };
+}
+
+/** @typedef {ReturnType<typeof createDeviceAuthenticator>} DeviceAuthenticator */
@@ -0,0 +1,141 @@
+// Positions reported by the driver app.
+//
+// Drivers share their location from the phone's browser (Geolocation API) while they drive.
+// Requests carry the Supabase access token of the driver's session instead of a device token:
+//   - the token is verified with Supabase Auth on every request, so a revoked session stops
+//     immediately
+//   - the account has to be a member with the `driver` role in its current organization, and is
+//     the drivers row with the same email there (the same link as current_driver_id() in the
+//     database)
+//   - the fix goes to the vehicle of that driver's active vehicle_assignments row
+// Phones have no gps_devices row; their fixes use the device id `driver:<driver id>` and the
+// device watchdog does not cover them. Drivers and assignments are cached per user id for
+// `cacheTtlMs`, so a new assignment or role applies within that time.
+
+import { createTtlCache } from './cache.js';
+import { toOne } from './embed.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./ingestion.js').DeviceContext} DeviceContext */
+
+/**
+ * @typedef {Object} DriverTrackingOptions
+ * @property {number} [cacheTtlMs]       How long drivers and assignments are cached
+ * @property {number} [cacheMaxEntries]  Drivers kept in memory
+ */
+
+/**
+ * Vehicle embedded in the active assignment
+ * @typedef {DeviceContext['vehicle']} AssignedVehicle
+ */
+
+/**
+ * @typedef {Object} DriverResolution
+ * @property {boolean} ok
+ * @property {number} [status]   HTTP status of a rejected request
+ * @property {string} [reason]   Why the request was rejected, returned to the app
+ * @property {string} [deviceId] Device id of the driver's phone
+ * @property {DeviceContext} [context]
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {DriverTrackingOptions} [options]
+ */
+export function createDriverTracking(supabase, options = {}) {
+  const { cacheTtlMs = 60 * 1000, cacheMaxEntries = 10000 } = options;
+
+  // user id -> driver and vehicle, null when the account is not a driver
+  /** @type {import('./cache.js').TtlCache<{ driverId: string, vehicle: AssignedVehicle | null } | null>} */
+  const assignments = createTtlCache(cacheTtlMs, { maxEntries: cacheMaxEntries });
+
+  /**
+   * Account of a valid, unrevoked access token.
+   * @param {string} token
+   * @returns {Promise<{ id: string, email: string } | null>}
+   */
+  const accountOf = async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user || !data.user.email) return null;
+    return { id: data.user.id, email: data.user.email };
+  };
+
+  /** @param {{ id: string, email: string }} account */
+  const assignmentOf = (account) => assignments.getOrLoad(account.id, async () => {
+    const { data: membership, error: membershipError } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', account.id)
+      .eq('is_active', true)
+      .order('is_current', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (membershipError) throw membershipError;
+    if (!membership || membership.role !== 'driver') return null;
+
+    const { data: drivers, error: driversError } = await supabase
+      .from('drivers')
+      .select('id, email')
+      .eq('organization_id', membership.organization_id)
+      .ilike('email', account.email)
+      .order('created_at', { ascending: true });
+
+    if (driversError) throw driversError;
+    // ilike treats `_` as a wildcard, compare the exact address
+    const driver = (drivers || []).find((row) => row.email && row.email.toLowerCase() === account.email.toLowerCase());
+    if (!driver) return null;
+
+    const { data: assignment, error: assignmentError } = await supabase
+      .from('vehicle_assignments')
+      .select('vehicle:vehicles(id, user_id, organization_id, type)')
+      .eq('driver_id', driver.id)
+      .eq('status', 'active')
+      .order('assigned_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (assignmentError) throw assignmentError;
+    /** @type {AssignedVehicle | null} */
+    const vehicle = assignment ? toOne(assignment.vehicle) : null;
+    return { driverId: driver.id, vehicle };
+  });
+
+  /**
+   * Finds the driver and vehicle of an access token.
+   * @param {string | undefined} token
+   * @returns {Promise<DriverResolution>}
+   */
+  const resolve = async (token) => {
+    if (!token) return { ok: false, status: 401, reason: 'Missing access token' };
+
+    const account = await accountOf(token);
+    if (!account) return { ok: false, status: 401, reason: 'Invalid access token' };
+
+    const assignment = await assignmentOf(account);
+    if (!assignment) return { ok: false, status: 403, reason: 'You are not a driver with this email in your organization' };
+    if (!assignment.vehicle) return { ok: false, status: 409, reason: 'No vehicle is assigned to you' };
+
+    return {
+      ok: true,
+      deviceId: `driver:${assignment.driverId}`,
+      context: { device: null, vehicle: assignment.vehicle },
+    };
+  };
+
+  /**
+   * Vehicle of the active assignment of a verified account, null when it is not a driver or
+   * has no vehicle.
+   * @param {{ id: string, email: string }} account
+   * @returns {Promise<string | null>}
+   */
+  const assignedVehicleId = async (account) => {
+    const assignment = await assignmentOf(account);
+    return assignment && assignment.vehicle ? assignment.vehicle.id : null;
+  };
+
+  return { resolve, assignedVehicleId };
+}
+
+/** @typedef {ReturnType<typeof createDriverTracking>} DriverTracking */
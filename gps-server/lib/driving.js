@@ -0,0 +1,194 @@
+// Driving behaviour analysis.
+//
+// Consecutive live fixes of a vehicle give its longitudinal acceleration (speed change over
+// time) and its lateral acceleration in curves (speed times turn rate). Values above the
+// thresholds of the vehicle class are harsh acceleration, braking or cornering. GPS jitter
+// is dropped: fixes with poor accuracy, gaps too short or too long to derive a rate from,
+// position jumps and accelerations no road vehicle can reach. Events are attributed to the
+// driver of the vehicle's active assignment.
+
+import { haversineDistance } from '../../shared/geometry.js';
+import { createTtlCache } from './cache.js';
+import { toOne } from './embed.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * Driver embedded in a vehicle_assignments row
+ * @typedef {Object} AssignedDriver
+ * @property {string | null} name
+ */
+
+/**
+ * @typedef {Object} DrivingFix
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed    km/h
+ * @property {number} heading  degrees
+ * @property {number} accuracy meters
+ * @property {string} timestamp
+ */
+
+/**
+ * @typedef {Object} DrivingThresholds
+ * @property {number} acceleration m/s²
+ * @property {number} braking      m/s², as a positive deceleration
+ * @property {number} cornering    m/s² lateral
+ */
+
+/**
+ * @typedef {Object} HarshEvent
+ * @property {'harsh_acceleration' | 'harsh_braking' | 'harsh_cornering'} type
+ * @property {number} value      m/s²
+ * @property {number} threshold  m/s²
+ * @property {'medium' | 'high'} severity
+ * @property {DrivingFix[]} fixes the two fixes the value was derived from
+ */
+
+// Thresholds per vehicles.type, heavier vehicles are held to lower limits
+export const DRIVING_THRESHOLDS = /** @type {Record<string, DrivingThresholds>} */ ({
+  car: { acceleration: 3.0, braking: 3.5, cornering: 4.0 },
+  van: { acceleration: 2.5, braking: 3.0, cornering: 3.5 },
+  truck: { acceleration: 2.0, braking: 2.5, cornering: 3.0 },
+  trailer: { acceleration: 2.0, braking: 2.5, cornering: 3.0 },
+  bus: { acceleration: 1.8, braking: 2.5, cornering: 2.8 },
+});
+
+// Rates are only derived from fixes this far apart
+const MIN_INTERVAL_MS = 1000;
+const MAX_INTERVAL_MS = 10000;
+// Fixes less accurate than this are ignored
+const MAX_ACCURACY_METERS = 30;
+// Beyond these values the fixes are wrong, not the driver
+const MAX_PLAUSIBLE_ACCELERATION = 10;
+const MAX_PLAUSIBLE_SPEED_KMH = 250;
+// Headings are unreliable at low speed
+const MIN_CORNERING_SPEED_KMH = 20;
+// Events at or above this multiple of the threshold are high severity
+const HIGH_SEVERITY_FACTOR = 1.5;
+// One manoeuvre spans several fixes, the same event type is reported once per window
+const EVENT_COOLDOWN_MS = 30000;
+
+/**
+ * @param {string | undefined} vehicleType
+ * @returns {DrivingThresholds}
+ */
+export function drivingThresholds(vehicleType) {
+  return DRIVING_THRESHOLDS[vehicleType || ''] || DRIVING_THRESHOLDS.car;
+}
+
+/**
+ * Harsh events between two consecutive fixes, empty when the pair looks like jitter.
+ * @param {DrivingFix} previous
+ * @param {DrivingFix} current
+ * @param {DrivingThresholds} thresholds
+ * @returns {HarshEvent[]}
+ */
+export function detectHarshEvents(previous, current, thresholds) {
+  const intervalMs = Date.parse(current.timestamp) - Date.parse(previous.timestamp);
+  if (intervalMs < MIN_INTERVAL_MS || intervalMs > MAX_INTERVAL_MS) return [];
+  if (previous.accuracy > MAX_ACCURACY_METERS || current.accuracy > MAX_ACCURACY_METERS) return [];
+
+  const seconds = intervalMs / 1000;
+  const distance = haversineDistance(previous.latitude, previous.longitude, current.latitude, current.longitude);
+  if ((distance / seconds) * 3.6 > MAX_PLAUSIBLE_SPEED_KMH) return [];
+
+  /** @type {HarshEvent[]} */
+  const events = [];
+  /**
+   * @param {HarshEvent['type']} type
+   * @param {number} value
+   * @param {number} threshold
+   */
+  const report = (type, value, threshold) => {
+    if (value < threshold || value > MAX_PLAUSIBLE_ACCELERATION) return;
+    events.push({
+      type,
+      value: Math.round(value * 100) / 100,
+      threshold,
+      severity: value >= threshold * HIGH_SEVERITY_FACTOR ? 'high' : 'medium',
+      fixes: [previous, current],
+    });
+  };
+
+  const longitudinal = (current.speed - previous.speed) / 3.6 / seconds;
+  if (longitudinal > 0) report('harsh_acceleration', longitudinal, thresholds.acceleration);
+  else report('harsh_braking', -longitudinal, thresholds.braking);
+
+  if (previous.speed >= MIN_CORNERING_SPEED_KMH && current.speed >= MIN_CORNERING_SPEED_KMH) {
+    const turn = Math.abs((((current.heading - previous.heading) % 360) + 540) % 360 - 180);
+    const turnRate = (turn * Math.PI) / 180 / seconds;
+    const averageSpeed = (previous.speed + current.speed) / 2 / 3.6;
+    report('harsh_cornering', averageSpeed * turnRate, thresholds.cornering);
+  }
+
+  return events;
+}
+
+/**
+ * @typedef {Object} DrivingAnalyserOptions
+ * @property {number} [cacheTtlMs] How long active assignments are cached
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {DrivingAnalyserOptions} [options]
+ */
+export function createDrivingAnalyser(supabase, options = {}) {
+  const { cacheTtlMs = 60000 } = options;
+
+  // vehicle_id -> previous live fix
+  /** @type {Map<string, DrivingFix>} */
+  const previousFixes = new Map();
+  // `${vehicle_id}:${type}` -> time of the last reported event
+  /** @type {Map<string, number>} */
+  const lastEvents = new Map();
+  /** @type {import('./cache.js').TtlCache<{ id: string, name: string | null } | null>} */
+  const drivers = createTtlCache(cacheTtlMs);
+
+  /**
+   * Driver of the vehicle's active assignment.
+   * @param {string} vehicleId
+   */
+  const getActiveDriver = (vehicleId) => drivers.getOrLoad(vehicleId, async () => {
+    const { data, error } = await supabase
+      .from('vehicle_assignments')
+      .select('driver_id, driver:drivers(name)')
+      .eq('vehicle_id', vehicleId)
+      .eq('status', 'active')
+      .order('assigned_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    /** @type {AssignedDriver | null} */
+    const driver = toOne(data.driver);
+    return { id: data.driver_id, name: driver ? driver.name : null };
+  });
+
+  /**
+   * Compares a live fix with the previous one of the vehicle.
+   * @param {{ id: string, type?: string }} vehicle
+   * @param {DrivingFix} fix
+   * @returns {HarshEvent[]}
+   */
+  const analyse = (vehicle, { latitude, longitude, speed, heading, accuracy, timestamp }) => {
+    const fix = { latitude, longitude, speed, heading, accuracy, timestamp };
+    const previous = previousFixes.get(vehicle.id);
+    previousFixes.set(vehicle.id, fix);
+    if (!previous) return [];
+
+    const time = Date.parse(fix.timestamp);
+    return detectHarshEvents(previous, fix, drivingThresholds(vehicle.type)).filter((event) => {
+      const key = `${vehicle.id}:${event.type}`;
+      if (time - (lastEvents.get(key) || 0) < EVENT_COOLDOWN_MS) return false;
+      lastEvents.set(key, time);
+      return true;
+    });
+  };
+
+  return { analyse, getActiveDriver };
+}
+
+/** @typedef {ReturnType<typeof createDrivingAnalyser>} DrivingAnalyser */
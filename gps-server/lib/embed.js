@@ -0,0 +1,14 @@
+// Embedded relations of PostgREST selects, e.g. `vehicle:vehicles(id, user_id)`.
+// Without generated database types supabase-js can't tell a to-one relation from a to-many
+// one and types every embed as an array. At runtime a to-one embed is an object or null.
+
+/**
+ * Narrows a to-one embed to its row.
+ * @template T
+ * @param {T | T[] | null | undefined} embed
+ * @returns {T | null}
+ */
+export function toOne(embed) {
+  if (Array.isArray(embed)) return embed[0] ?? null;
+  return embed ?? null;
+}
@@ -0,0 +1,283 @@
+// Alert escalation.
+//
+// An escalation policy (`escalation_policies`) applies to the alerts of its organization with
+// one of its severities. Its steps are ordered by `delay_minutes`, counted from the first
+// occurrence of the alert: while the alert is not acknowledged, each step whose delay has passed
+// notifies a member or every member with a role (`organization_members`) through a channel of
+// notifiers.js.
+// A step may be limited to weekdays and an hour window in the policy's time zone; outside it
+// the step is passed over, so steps with the same delay and different schedules route the
+// alert to whoever is on call. Each delivery is logged in `alert_notifications`, and the
+// alert records its policy and how many steps have been handled (`escalation_level`).
+// A periodic job does the work, one step per alert and run, so a restart picks up where it
+// stopped.
+
+import { createTtlCache } from './cache.js';
+import { inClockWindow, localClock } from './clock.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./notifiers.js').Notifier} Notifier */
+
+/**
+ * @typedef {Object} EscalationStep
+ * @property {number} delay_minutes   after the first occurrence of the alert
+ * @property {'user' | 'role'} target_type
+ * @property {string} [target_user_id]
+ * @property {string} [target_role]
+ * @property {string} channel          key of a notifier, e.g. 'email' or 'webhook'
+ * @property {string} [webhook_url]
+ * @property {number[]} [days]         weekdays, 0 = Sunday; every day when empty
+ * @property {string} [from]           "HH:MM", with `until`; all day when unset
+ * @property {string} [until]
+ */
+
+/**
+ * @typedef {Object} EscalationPolicy
+ * @property {string} id
+ * @property {string} organization_id
+ * @property {string} name
+ * @property {string[]} severities
+ * @property {string} timezone
+ * @property {EscalationStep[]} steps
+ */
+
+/**
+ * @typedef {Object} EscalationOptions
+ * @property {Record<string, Notifier>} notifiers  by channel
+ * @property {number} [intervalMs]  Time between runs
+ * @property {number} [lookbackMs]  Older unacknowledged alerts are no longer escalated
+ */
+
+/**
+ * Whether a step is in its schedule at `time`.
+ * @param {EscalationStep} step
+ * @param {number} time
+ * @param {string} timezone
+ */
+export function stepIsActive(step, time, timezone) {
+  const { weekday, minutes } = localClock(time, timezone);
+  if (step.days && step.days.length > 0 && !step.days.includes(weekday)) return false;
+  if (step.from && step.until) return inClockWindow(minutes, step.from, step.until);
+  return true;
+}
+
+/**
+ * @param {any} alert  alert row with its vehicle
+ * @param {EscalationPolicy} policy
+ * @param {number} index  of the step
+ * @param {{ email: string, role: string }[]} recipients
+ * @param {number} now
+ */
+function escalationContent(alert, policy, index, recipients, now) {
+  const vehicle = alert.vehicle ? `${alert.vehicle.name} (${alert.vehicle.license_plate})` : 'Unknown vehicle';
+  const minutes = Math.round((now - Date.parse(alert.first_occurred_at)) / 60000);
+
+  const subject = `[${String(alert.severity).toUpperCase()}] ${alert.title} - ${vehicle}`;
+  const text = [
+    alert.message,
+    '',
+    `Vehicle: ${vehicle}`,
+    `First occurred: ${alert.first_occurred_at}`,
+    `Occurrences: ${alert.occurrence_count || 1}${alert.status === 'open' ? ' (ongoing)' : ''}`,
+    '',
+    `Not acknowledged after ${minutes} min. Step ${index + 1} of ${policy.steps.length} of the escalation policy "${policy.name}".`,
+  ].join('\n');
+
+  const payload = {
+    event: 'alert.escalated',
+    alert: {
+      id: alert.id,
+      vehicle_id: alert.vehicle_id,
+      vehicle: alert.vehicle || null,
+      alert_type: alert.alert_type,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      status: alert.status,
+      first_occurred_at: alert.first_occurred_at,
+      last_occurred_at: alert.last_occurred_at,
+      occurrence_count: alert.occurrence_count,
+    },
+    policy: { id: policy.id, name: policy.name },
+    step: index + 1,
+    recipients,
+  };
+
+  return { subject, text, payload };
+}
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {EscalationOptions} options
+ */
+export function createEscalation(supabase, options) {
+  const { notifiers, intervalMs = 30 * 1000, lookbackMs = 24 * 60 * 60 * 1000 } = options;
+
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let running = false;
+
+  // organization_id -> members
+  /** @type {import('./cache.js').TtlCache<{ user_id: string, email: string, role: string }[]>} */
+  const members = createTtlCache(60 * 1000);
+
+  /** @param {string} organizationId */
+  const membersOf = (organizationId) => members.getOrLoad(organizationId, async () => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('user_id, email, role')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return data || [];
+  });
+
+  /**
+   * @param {EscalationStep} step
+   * @param {string} organizationId
+   * @returns {Promise<{ email: string, role: string }[]>}
+   */
+  const recipientsOf = async (step, organizationId) => {
+    const users = await membersOf(organizationId);
+    return users
+      .filter((u) => (step.target_type === 'role' ? u.role === step.target_role : u.user_id === step.target_user_id))
+      .filter((u) => u.email)
+      .map(({ email, role }) => ({ email, role }));
+  };
+
+  /**
+   * Sends one step and logs the delivery.
+   * @param {any} alert
+   * @param {EscalationPolicy} policy
+   * @param {number} index
+   * @param {number} now
+   */
+  const notify = async (alert, policy, index, now) => {
+    const step = policy.steps[index];
+    const recipients = await recipientsOf(step, policy.organization_id);
+    const { subject, text, payload } = escalationContent(alert, policy, index, recipients, now);
+
+    let status = 'sent';
+    /** @type {string | null} */
+    let failure = null;
+    try {
+      const notifier = notifiers[step.channel];
+      if (!notifier) throw new Error(`No notifier configured for channel "${step.channel}"`);
+      await notifier.send({ to: recipients.map((r) => r.email), url: step.webhook_url, subject, text, payload });
+    } catch (error) {
+      status = 'failed';
+      failure = error instanceof Error ? error.message : String(error);
+      console.error(`Error sending escalation of alert ${alert.id} (${step.channel}):`, failure);
+    }
+
+    const { error } = await supabase.from('alert_notifications').insert([{
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      policy_id: policy.id,
+      step: index + 1,
+      channel: step.channel,
+      recipients: step.channel === 'webhook' && step.webhook_url ? [step.webhook_url] : recipients.map((r) => r.email),
+      status,
+      error: failure,
+    }]);
+    if (error) console.error('Error logging alert notification:', error);
+  };
+
+  /**
+   * Handles the next due step of an alert, if any.
+   * @param {any} alert
+   * @param {EscalationPolicy} policy
+   * @param {number} now
+   * @returns {Promise<boolean>} whether the alert moved on
+   */
+  const escalate = async (alert, policy, now) => {
+    const elapsedMs = now - Date.parse(alert.first_occurred_at);
+    const start = alert.escalation_policy_id === policy.id ? alert.escalation_level || 0 : 0;
+    let level = start;
+
+    // Steps out of their schedule are passed over until one is sent
+    while (level < policy.steps.length && elapsedMs >= policy.steps[level].delay_minutes * 60 * 1000) {
+      const index = level++;
+      if (stepIsActive(policy.steps[index], now, policy.timezone)) {
+        await notify(alert, policy, index, now);
+        break;
+      }
+    }
+    if (level === start) return false;
+
+    const { error } = await supabase
+      .from('alerts')
+      .update({ escalation_policy_id: policy.id, escalation_level: level, escalated_at: new Date(now).toISOString() })
+      .eq('id', alert.id);
+
+    if (error) throw error;
+    return true;
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { data: policies, error: policiesError } = await supabase
+        .from('escalation_policies')
+        .select('id, organization_id, name, severities, timezone, steps')
+        .eq('is_enabled', true)
+        .order('created_at', { ascending: true });
+
+      if (policiesError) throw policiesError;
+      if (!policies || policies.length === 0) return;
+
+      const now = Date.now();
+      const { data: alerts, error: alertsError } = await supabase
+        .from('alerts')
+        .select('*, vehicle:vehicles(name, license_plate)')
+        .eq('is_acknowledged', false)
+        .in('organization_id', [...new Set(policies.map((p) => p.organization_id))])
+        .gte('first_occurred_at', new Date(now - lookbackMs).toISOString())
+        .order('first_occurred_at', { ascending: true })
+        .limit(1000);
+
+      if (alertsError) throw alertsError;
+
+      let escalated = 0;
+      for (const alert of alerts || []) {
+        // The policy an alert started with keeps it; otherwise the oldest policy for its severity
+        const policy = /** @type {EscalationPolicy | undefined} */ (
+          policies.find((p) => p.id === alert.escalation_policy_id) ||
+          policies.find((p) => p.organization_id === alert.organization_id && (p.severities || []).includes(alert.severity))
+        );
+        if (!policy || !Array.isArray(policy.steps) || policy.steps.length === 0) continue;
+
+        try {
+          if (await escalate(alert, policy, now)) escalated++;
+        } catch (error) {
+          console.error(`Error escalating alert ${alert.id}:`, error);
+        }
+      }
+
+      if (escalated > 0) console.log(`Escalation: ${escalated} alert(s) escalated`);
+    } catch (error) {
+      console.error('Error running alert escalation:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createEscalation>} Escalation */
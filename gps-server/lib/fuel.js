@@ -0,0 +1,284 @@
+// Fuel level analytics.
+//
+// Fuel level sensors are noisy: fuel sloshes while driving and on slopes, and probes jitter by
+// a few percent. Every reading (`fuel_level` of the device status, percent) is smoothed with
+// the median of the last readings before anything is derived from it:
+//   - a refuel is a rise of the smoothed level of at least `refuelMinPercent` above its lowest
+//     value of the last `eventWindowMs`
+//   - a drop is a fall of at least `dropMinPercent` below the highest value since the vehicle
+//     parked (within the same window). A standing vehicle does not burn that much fuel, so
+//     this is a possible siphoning or leak and raises a fuel_drop alert
+//   - both are recorded in fuel_events once the level has settled (or the vehicle drives off
+//     during a drop) and still differs from where it started, with the smoothed levels before
+//     and after and the volume when the tank capacity is known
+//   - the smoothed level below low_fuel_threshold_percent keeps a low_fuel alert open until it
+//     is back above the threshold
+// Alerts follow `enable_fuel_alerts` of vehicle_settings, events are always recorded.
+// The state lives in memory, the first readings after a restart only fill the window.
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./alertEpisodes.js').AlertEpisodes} AlertEpisodes */
+/** @typedef {import('./alertEpisodes.js').AlertEpisode} AlertEpisode */
+
+/**
+ * @typedef {Object} FuelOptions
+ * @property {AlertEpisodes} alertEpisodes
+ * @property {(vehicleId: string) => Promise<any>} getVehicleSettings
+ * @property {number} [windowSize]       Readings in the median
+ * @property {number} [refuelMinPercent] Smallest rise recorded as a refuel
+ * @property {number} [dropMinPercent]   Smallest fall while parked recorded as a drop
+ * @property {number} [eventWindowMs]    Time over which a rise or fall is measured
+ * @property {number} [settleMs]         A refuel or drop ends when the level stops moving this long
+ * @property {number} [minSpeedKmh]      Fixes at or above this speed are moving
+ */
+
+/**
+ * @typedef {Object} LevelSample
+ * @property {number} at    ms since epoch
+ * @property {number} level percent
+ */
+
+/**
+ * @typedef {Object} PendingEvent
+ * @property {'refuel' | 'drop'} kind
+ * @property {LevelSample} from    level before the change
+ * @property {LevelSample} extreme highest level of a refuel, lowest of a drop
+ */
+
+/**
+ * @typedef {Object} FuelState
+ * @property {LevelSample[]} readings  raw, last `windowSize`
+ * @property {LevelSample[]} history   smoothed, last `eventWindowMs`
+ * @property {PendingEvent | null} pending
+ * @property {number | null} parkedSince first stationary fix, null while moving
+ * @property {{ latitude: number, longitude: number } | null} position last fix
+ * @property {AlertEpisode | null} lowFuel open low_fuel episode
+ */
+
+// The low_fuel alert closes this far above the threshold, so that noise around it does not
+// open and close it repeatedly
+const LOW_FUEL_HYSTERESIS_PERCENT = 3;
+// Readings older than this are not smoothed together with new ones
+const MAX_READING_AGE_MS = 15 * 60 * 1000;
+
+/**
+ * Median of the levels.
+ * @param {number[]} levels
+ */
+export function medianLevel(levels) {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Volume of a level change, null when the tank capacity is unknown.
+ * @param {number} percent
+ * @param {any} settings vehicle_settings row
+ */
+function litersOf(percent, settings) {
+  const capacity = settings?.fuel_tank_capacity_liters != null ? Number(settings.fuel_tank_capacity_liters) : 0;
+  return capacity > 0 ? Math.round(percent * capacity) / 100 : null;
+}
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {FuelOptions} options
+ */
+export function createFuelAnalyser(supabase, options) {
+  const {
+    alertEpisodes,
+    getVehicleSettings,
+    windowSize = 5,
+    refuelMinPercent = 8,
+    dropMinPercent = 5,
+    eventWindowMs = 30 * 60 * 1000,
+    settleMs = 3 * 60 * 1000,
+    minSpeedKmh = 5,
+  } = options;
+
+  /** @type {Map<string, FuelState>} */
+  const states = new Map();
+
+  /** @param {string} vehicleId */
+  const getState = (vehicleId) => {
+    let state = states.get(vehicleId);
+    if (!state) {
+      state = { readings: [], history: [], pending: null, parkedSince: null, position: null, lowFuel: null };
+      states.set(vehicleId, state);
+    }
+    return state;
+  };
+
+  /**
+   * Follows the live fixes, a vehicle is parked from its first stationary fix.
+   * @param {string} vehicleId
+   * @param {{ latitude: number, longitude: number, speed: number }} location
+   * @param {number} at
+   */
+  const recordMotion = (vehicleId, location, at) => {
+    const state = getState(vehicleId);
+    state.position = { latitude: location.latitude, longitude: location.longitude };
+    if (location.speed >= minSpeedKmh) {
+      state.parkedSince = null;
+    } else if (state.parkedSince === null) {
+      state.parkedSince = at;
+    }
+  };
+
+  /**
+   * Stores a settled refuel or drop and raises the fuel_drop alert of a drop.
+   * @param {{ id: string, user_id: string }} vehicle
+   * @param {FuelState} state
+   * @param {PendingEvent} event
+   * @param {any} settings
+   */
+  const record = async (vehicle, state, event, settings) => {
+    const change = Math.abs(event.extreme.level - event.from.level);
+    const liters = litersOf(change, settings);
+    const amount = liters !== null ? `${liters.toFixed(1)} L` : `${change.toFixed(1)}%`;
+
+    /** @type {string | null} */
+    let alertId = null;
+    if (event.kind === 'drop' && settings?.enable_fuel_alerts !== false) {
+      const episode = await alertEpisodes.raise({
+        user_id: vehicle.user_id,
+        vehicle_id: vehicle.id,
+        alert_type: 'fuel_drop',
+        severity: 'high',
+        title: 'Possible Fuel Theft',
+        message: `Fuel dropped by ${amount} while parked (${event.from.level.toFixed(0)}% to ${event.extreme.level.toFixed(0)}%)`,
+        location_lat: state.position?.latitude,
+        location_lon: state.position?.longitude,
+        metadata: {
+          level_before: event.from.level,
+          level_after: event.extreme.level,
+          volume_liters: liters,
+          started_at: new Date(event.from.at).toISOString(),
+        },
+      }, { value: change, at: event.extreme.at });
+      alertId = episode.alertId;
+    }
+
+    const { error } = await supabase.from('fuel_events').insert([{
+      vehicle_id: vehicle.id,
+      user_id: vehicle.user_id,
+      event_type: event.kind,
+      level_before: event.from.level,
+      level_after: event.extreme.level,
+      volume_liters: liters,
+      location_lat: state.position?.latitude,
+      location_lon: state.position?.longitude,
+      started_at: new Date(event.from.at).toISOString(),
+      ended_at: new Date(event.extreme.at).toISOString(),
+      alert_id: alertId,
+    }]);
+
+    if (error) throw error;
+    console.log(`Fuel ${event.kind} of ${amount} recorded for vehicle ${vehicle.id}`);
+  };
+
+  /**
+   * Opens, follows and closes the low_fuel alert.
+   * @param {{ id: string, user_id: string }} vehicle
+   * @param {FuelState} state
+   * @param {number} level smoothed
+   * @param {any} settings
+   * @param {number} at
+   */
+  const checkLowFuel = async (vehicle, state, level, settings, at) => {
+    const threshold = settings?.low_fuel_threshold_percent != null ? Number(settings.low_fuel_threshold_percent) : null;
+    const open = state.lowFuel && state.lowFuel.status === 'open' ? state.lowFuel : null;
+
+    if (threshold === null || settings.enable_fuel_alerts === false) {
+      if (open) await alertEpisodes.resolve(open, {}, at);
+      state.lowFuel = null;
+      return;
+    }
+
+    if (level >= threshold + LOW_FUEL_HYSTERESIS_PERCENT) {
+      if (open) await alertEpisodes.resolve(open, { message: `Fuel level back to ${level.toFixed(0)}%` }, at);
+      state.lowFuel = null;
+      return;
+    }
+    if (level >= threshold && !open) return;
+
+    const liters = litersOf(level, settings);
+    const alertData = {
+      user_id: vehicle.user_id,
+      vehicle_id: vehicle.id,
+      alert_type: 'low_fuel',
+      severity: level <= threshold / 2 ? 'high' : 'medium',
+      title: 'Low Fuel',
+      message: `Fuel level at ${level.toFixed(0)}%` + (liters !== null ? ` (${liters.toFixed(1)} L)` : '') +
+        ` (threshold: ${threshold}%)`,
+      location_lat: state.position?.latitude,
+      location_lon: state.position?.longitude,
+      metadata: { level, threshold, volume_liters: liters },
+    };
+
+    if (open) {
+      await alertEpisodes.update(open, alertData, { at });
+    } else {
+      state.lowFuel = await alertEpisodes.raise(alertData, { at });
+    }
+  };
+
+  /**
+   * Takes a fuel level reading, returns the smoothed level.
+   * @param {{ id: string, user_id: string }} vehicle
+   * @param {number} level percent
+   * @param {number} at ms since epoch
+   * @returns {Promise<number>}
+   */
+  const observe = async (vehicle, level, at) => {
+    const state = getState(vehicle.id);
+
+    state.readings = state.readings.filter((reading) => at - reading.at <= MAX_READING_AGE_MS);
+    state.readings.push({ at, level });
+    if (state.readings.length > windowSize) state.readings.shift();
+    const smoothed = medianLevel(state.readings.map((reading) => reading.level));
+    const sample = { at, level: smoothed };
+
+    const settings = await getVehicleSettings(vehicle.id);
+    const parked = state.parkedSince !== null;
+
+    const pending = state.pending;
+    if (pending) {
+      const extended = pending.kind === 'refuel' ? smoothed > pending.extreme.level : smoothed < pending.extreme.level;
+      if (extended) {
+        pending.extreme = sample;
+      } else if (at - pending.extreme.at >= settleMs || (pending.kind === 'drop' && !parked)) {
+        state.pending = null;
+        state.history = [sample];
+        // A level that went back (sensor tilted on a slope) was not a refuel or a drop
+        const minChange = pending.kind === 'refuel' ? refuelMinPercent : dropMinPercent;
+        if (Math.abs(smoothed - pending.from.level) >= minChange) {
+          await record(vehicle, state, pending, settings);
+        }
+      }
+    } else {
+      state.history = state.history.filter((entry) => at - entry.at <= eventWindowMs);
+      state.history.push(sample);
+
+      const lowest = state.history.reduce((min, entry) => (entry.level < min.level ? entry : min));
+      const sinceParked = parked ? state.history.filter((entry) => entry.at >= /** @type {number} */ (state.parkedSince)) : [];
+      const highest = sinceParked.length > 0
+        ? sinceParked.reduce((max, entry) => (entry.level > max.level ? entry : max))
+        : null;
+
+      if (smoothed - lowest.level >= refuelMinPercent) {
+        state.pending = { kind: 'refuel', from: lowest, extreme: sample };
+      } else if (highest && highest.level - smoothed >= dropMinPercent) {
+        state.pending = { kind: 'drop', from: highest, extreme: sample };
+      }
+    }
+
+    await checkLowFuel(vehicle, state, smoothed, settings, at);
+    return smoothed;
+  };
+
+  return { recordMotion, observe };
+}
+
+/** @typedef {ReturnType<typeof createFuelAnalyser>} FuelAnalyser */
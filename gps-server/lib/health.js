@@ -0,0 +1,192 @@
+// Vehicle health.
+//
+// Follows the device status and fixes of every vehicle for the health alerts:
+//   - battery_disconnect: the external supply falls below DISCONNECT_VOLTAGE (the tracker runs
+//     on its backup battery) or the tracker reports a power cut alarm; resolved once the supply
+//     is back above it
+//   - no_gps_signal: live fixes without a valid position (or fewer than `minSatellites`) for
+//     `noGpsMs`, or status packets with the ignition on and no valid fix for as long; resolved
+//     by the next valid fix. Trackers switch the GPS off while parked, so status packets with
+//     the ignition off do not count
+// The vehicle battery status of vehicle_health comes from the external voltage, 12 V or 24 V
+// systems are told apart by the voltage itself. The satellites of the last fix are kept to be
+// stored with the next health row. The state is kept in memory.
+
+/** @typedef {import('./alertEpisodes.js').AlertEpisodes} AlertEpisodes */
+/** @typedef {import('./alertEpisodes.js').AlertEpisode} AlertEpisode */
+/** @typedef {import('../protocols/types.js').DeviceStatus} DeviceStatus */
+
+/**
+ * @typedef {Object} HealthOptions
+ * @property {AlertEpisodes} alertEpisodes
+ * @property {number} [noGpsMs]        Time without a valid fix before no_gps_signal
+ * @property {number} [minSatellites]  Fixes with fewer satellites are not valid
+ */
+
+/**
+ * @typedef {Object} HealthState
+ * @property {number | null} satellites   of the last fix
+ * @property {number | null} lastValidAt  last valid fix
+ * @property {number | null} invalidSince first fix without a valid position since then
+ * @property {boolean | undefined} ignition
+ * @property {number | null} ignitionSince ignition switched on
+ * @property {AlertEpisode | null} disconnected open battery_disconnect episode
+ * @property {AlertEpisode | null} noGps  open no_gps_signal episode
+ */
+
+// Below this the external supply is cut
+const DISCONNECT_VOLTAGE = 6;
+// Supplies above this are 24 V systems
+const SYSTEM_24V_FROM = 18;
+
+/**
+ * Battery status of the vehicle from the external (vehicle) voltage.
+ * @param {number | undefined} volts
+ * @returns {'good' | 'low' | 'critical' | 'disconnected' | undefined}
+ */
+export function batteryStatusFromVoltage(volts) {
+  if (volts === undefined || isNaN(volts)) return undefined;
+  if (volts < DISCONNECT_VOLTAGE) return 'disconnected';
+  const nominal = volts > SYSTEM_24V_FROM ? 24 : 12;
+  // A resting 12 V battery at 11.8 V is about 20% charged, 12.2 V about 60%
+  if (volts < nominal * 0.983) return 'critical';
+  if (volts < nominal * 1.017) return 'low';
+  return 'good';
+}
+
+/**
+ * @param {HealthOptions} options
+ */
+export function createHealthMonitor(options) {
+  const { alertEpisodes, noGpsMs = 10 * 60 * 1000, minSatellites = 3 } = options;
+
+  /** @type {Map<string, HealthState>} */
+  const states = new Map();
+
+  /** @param {string} vehicleId */
+  const getState = (vehicleId) => {
+    let state = states.get(vehicleId);
+    if (!state) {
+      state = { satellites: null, lastValidAt: null, invalidSince: null, ignition: undefined, ignitionSince: null, disconnected: null, noGps: null };
+      states.set(vehicleId, state);
+    }
+    return state;
+  };
+
+  /**
+   * @param {any} vehicle
+   * @param {HealthState} state
+   * @param {number} since  start of the outage
+   * @param {number} at
+   */
+  const raiseNoGps = async (vehicle, state, since, at) => {
+    const minutes = Math.round((at - since) / 60000);
+    if (state.noGps && state.noGps.status === 'open') {
+      await alertEpisodes.update(state.noGps, {}, { value: minutes, at });
+      return;
+    }
+    state.noGps = await alertEpisodes.raise({
+      user_id: vehicle.user_id,
+      vehicle_id: vehicle.id,
+      alert_type: 'no_gps_signal',
+      severity: 'medium',
+      title: 'No GPS Signal',
+      message: `No valid GPS position for ${minutes} min` + (state.satellites !== null ? ` (${state.satellites} satellites)` : ''),
+      metadata: {
+        since: new Date(since).toISOString(),
+        satellites: state.satellites,
+      },
+    }, { value: minutes, at });
+  };
+
+  /**
+   * @param {any} vehicle
+   * @param {HealthState} state
+   * @param {string} reason
+   * @param {number | undefined} volts
+   * @param {number} at
+   */
+  const raiseDisconnected = async (vehicle, state, reason, volts, at) => {
+    if (state.disconnected && state.disconnected.status === 'open') {
+      await alertEpisodes.update(state.disconnected, {}, { value: volts ?? null, at });
+      return;
+    }
+    state.disconnected = await alertEpisodes.raise({
+      user_id: vehicle.user_id,
+      vehicle_id: vehicle.id,
+      alert_type: 'battery_disconnect',
+      severity: 'high',
+      title: 'Battery Disconnected',
+      message: reason,
+      metadata: { external_voltage: volts ?? null },
+    }, { value: volts ?? null, at });
+  };
+
+  return {
+    /**
+     * Satellites of the last fix of a vehicle, null when unknown.
+     * @param {string} vehicleId
+     */
+    satellites: (vehicleId) => states.get(vehicleId)?.satellites ?? null,
+
+    /**
+     * Live fix of a vehicle; `valid` and `satellites` are left out by protocols without them.
+     * @param {any} vehicle
+     * @param {{ valid?: boolean, satellites?: number }} fix
+     * @param {number} at
+     */
+    observeFix: async (vehicle, fix, at) => {
+      const state = getState(vehicle.id);
+      if (fix.satellites !== undefined) state.satellites = fix.satellites;
+
+      const valid = fix.valid !== false && (fix.satellites === undefined || fix.satellites >= minSatellites);
+      if (valid) {
+        state.lastValidAt = at;
+        state.invalidSince = null;
+        if (state.noGps && state.noGps.status === 'open') {
+          await alertEpisodes.resolve(state.noGps, { message: 'GPS position restored' }, at);
+        }
+        state.noGps = null;
+        return;
+      }
+
+      if (state.invalidSince === null) state.invalidSince = at;
+      if (at - state.invalidSince >= noGpsMs) await raiseNoGps(vehicle, state, state.invalidSince, at);
+    },
+
+    /**
+     * Status packet of a vehicle, with the alarm of alarm packets.
+     * @param {any} vehicle
+     * @param {DeviceStatus} status
+     * @param {string | undefined} alarm
+     * @param {number} at
+     */
+    observeStatus: async (vehicle, status, alarm, at) => {
+      const state = getState(vehicle.id);
+      if (status.ignition !== undefined) {
+        if (status.ignition && state.ignition !== true) state.ignitionSince = at;
+        state.ignition = status.ignition;
+      }
+
+      const volts = status.external_voltage;
+      if (alarm === 'power_cut') {
+        await raiseDisconnected(vehicle, state, 'Tracker reported a power cut', volts, at);
+      } else if (volts !== undefined && volts < DISCONNECT_VOLTAGE) {
+        await raiseDisconnected(vehicle, state, `External power lost (${volts.toFixed(1)} V)`, volts, at);
+      } else if (volts !== undefined && state.disconnected && state.disconnected.status === 'open') {
+        await alertEpisodes.resolve(state.disconnected, { message: `External power restored (${volts.toFixed(1)} V)` }, at);
+        state.disconnected = null;
+      }
+
+      // Heartbeats of a running vehicle whose tracker sends no valid fixes, counted from the
+      // ignition at the earliest so the GPS gets time to find a position after parking
+      const lastFix = state.invalidSince ?? state.lastValidAt;
+      const since = lastFix !== null && state.ignitionSince !== null ? Math.max(lastFix, state.ignitionSince) : null;
+      if (state.ignition === true && since !== null && at - since >= noGpsMs) {
+        await raiseNoGps(vehicle, state, since, at);
+      }
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createHealthMonitor>} HealthMonitor */
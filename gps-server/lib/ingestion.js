@@ -0,0 +1,370 @@
+// Ingestion pipeline for GPS fixes.
+//
+// Per fix the server used to look up the device, update it, insert the location, read the
+// vehicle settings and query the last geofence event for every geofence. This module keeps
+// devices, settings, geofences, geofence membership and the newest fix time per vehicle in
+// memory and writes gps_locations in batches, flushed when the buffer reaches `batchSize`
+// or every `flushIntervalMs`. A row the database rejects is isolated and dropped, the rest of
+// its batch is still inserted.
+
+import { createTtlCache } from './cache.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * @typedef {Object} DeviceContext
+ * @property {any} device   gps_devices row
+ * @property {{ id: string, user_id: string, organization_id: string, type?: string }} vehicle
+ */
+
+/**
+ * @typedef {Object} LocationRow
+ * @property {string} vehicle_id
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed
+ * @property {number} heading
+ * @property {number} accuracy
+ * @property {string} timestamp     Time of the fix as reported by the device
+ * @property {boolean} [is_replayed] Fix was uploaded late, see processGPSData in server.js
+ * @property {string} [received_at]  Time the server received the fix
+ */
+
+/**
+ * @typedef {Object} IngestionOptions
+ * @property {number} [batchSize]                 Flush once this many locations are buffered
+ * @property {number} [flushIntervalMs]           Flush at least this often
+ * @property {number} [maxBufferSize]             Oldest rows are dropped past this size when inserts keep failing
+ * @property {number} [cacheTtlMs]                How long devices, settings and geofences are cached
+ * @property {number} [cacheMaxEntries]           Devices, settings and geofence lists kept in memory
+ * @property {number} [connectionWriteIntervalMs] Minimum time between gps_devices.last_connection writes per device
+ */
+
+/**
+ * @typedef {Object} IngestionStats
+ * @property {number} received
+ * @property {number} inserted
+ * @property {number} batches
+ * @property {number} failedBatches
+ * @property {number} dropped
+ * @property {number} pending
+ */
+
+/**
+ * Checks the values of a fix before it is queued. NaN would be sent as null and make the
+ * insert fail, out of range coordinates can't be drawn or matched against geofences.
+ * @param {{ latitude: number, longitude: number, speed?: number, heading?: number, accuracy?: number }} fix
+ * @returns {string | null} Why the fix is rejected, null when it is valid
+ */
+export function validateFix(fix) {
+  if (!Number.isFinite(fix.latitude) || Math.abs(fix.latitude) > 90) return 'Invalid latitude';
+  if (!Number.isFinite(fix.longitude) || Math.abs(fix.longitude) > 180) return 'Invalid longitude';
+  if (fix.speed !== undefined && (!Number.isFinite(fix.speed) || fix.speed < 0)) return 'Invalid speed';
+  if (fix.heading !== undefined && !Number.isFinite(fix.heading)) return 'Invalid heading';
+  if (fix.accuracy !== undefined && !Number.isFinite(fix.accuracy)) return 'Invalid accuracy';
+  return null;
+}
+
+// Postgres data exceptions (22xxx) and constraint violations (23xxx) come from the rows
+// themselves, inserting the same batch again would fail again
+/** @param {{ code?: string }} error */
+const isRowError = (error) => /^2[23]/.test(error.code || '');
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {IngestionOptions} [options]
+ */
+export function createIngestionPipeline(supabase, options = {}) {
+  const {
+    batchSize = 100,
+    flushIntervalMs = 1000,
+    maxBufferSize = 10000,
+    cacheTtlMs = 60000,
+    cacheMaxEntries = 10000,
+    connectionWriteIntervalMs = 30000,
+  } = options;
+
+  // Unknown device ids are cached as null, the size limit keeps random ids from growing it
+  /** @type {import('./cache.js').TtlCache<DeviceContext | null>} */
+  const devices = createTtlCache(cacheTtlMs, { maxEntries: cacheMaxEntries });
+  /** @type {import('./cache.js').TtlCache<any>} */
+  const settings = createTtlCache(cacheTtlMs, { maxEntries: cacheMaxEntries });
+  /** @type {import('./cache.js').TtlCache<any[]>} */
+  const geofences = createTtlCache(cacheTtlMs, { maxEntries: cacheMaxEntries });
+
+  // vehicle_id -> (geofence_id -> inside), seeded once per vehicle from geofence_events
+  /** @type {Map<string, Promise<Map<string, boolean>>>} */
+  const geofenceStates = new Map();
+  // vehicle_id -> time (ms) of the newest fix seen, seeded once per vehicle from gps_locations
+  /** @type {Map<string, Promise<{ time: number }>>} */
+  const latestFixes = new Map();
+  /** @type {Map<string, number>} */
+  const lastConnectionWrites = new Map();
+
+  /** @type {LocationRow[]} */
+  let buffer = [];
+  /** @type {Promise<void> | null} */
+  let flushing = null;
+
+  /** @type {IngestionStats} */
+  const stats = { received: 0, inserted: 0, batches: 0, failedBatches: 0, dropped: 0, pending: 0 };
+
+  /**
+   * @param {string} deviceId
+   * @returns {Promise<DeviceContext | null>}
+   */
+  const resolveDevice = (deviceId) => devices.getOrLoad(deviceId, async () => {
+    const { data: gpsDevice, error } = await supabase
+      .from('gps_devices')
+      .select('*, vehicle:vehicles(id, user_id, organization_id, type)')
+      .eq('device_id', deviceId)
+      .maybeSingle();
+
+    // A failed lookup is not cached as an unknown device
+    if (error) throw error;
+    if (!gpsDevice || !gpsDevice.vehicle) return null;
+    return { device: gpsDevice, vehicle: gpsDevice.vehicle };
+  });
+
+  /**
+   * Marks the device active, at most once per `connectionWriteIntervalMs`.
+   * @param {string} deviceId
+   */
+  const touchDevice = async (deviceId) => {
+    const now = Date.now();
+    const lastWrite = lastConnectionWrites.get(deviceId) || 0;
+    if (now - lastWrite < connectionWriteIntervalMs) return;
+
+    lastConnectionWrites.set(deviceId, now);
+    const { error } = await supabase
+      .from('gps_devices')
+      .update({
+        status: 'active',
+        last_connection: new Date(now).toISOString()
+      })
+      .eq('device_id', deviceId);
+
+    if (error) console.error('Error updating device connection:', error);
+  };
+
+  /**
+   * @param {string} vehicleId
+   * @returns {Promise<any>} vehicle_settings row or null
+   */
+  const getVehicleSettings = (vehicleId) => settings.getOrLoad(vehicleId, async () => {
+    const { data, error } = await supabase
+      .from('vehicle_settings')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || null;
+  });
+
+  /**
+   * @param {string} organizationId
+   * @returns {Promise<any[]>} active geofences of the organization
+   */
+  const getActiveGeofences = (organizationId) => geofences.getOrLoad(organizationId, async () => {
+    const { data, error } = await supabase
+      .from('geofences')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return data || [];
+  });
+
+  /**
+   * Geofence membership for a vehicle. The first call reads the latest event per geofence,
+   * afterwards the map is kept up to date by the caller.
+   * @param {string} vehicleId
+   * @returns {Promise<Map<string, boolean>>}
+   */
+  const getGeofenceState = (vehicleId) => {
+    let state = geofenceStates.get(vehicleId);
+    if (state) return state;
+
+    state = (async () => {
+      /** @type {Map<string, boolean>} */
+      const inside = new Map();
+      const { data: events, error } = await supabase
+        .from('geofence_events')
+        .select('geofence_id, event_type')
+        .eq('vehicle_id', vehicleId)
+        .order('created_at', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+
+      for (const event of events || []) {
+        if (!inside.has(event.geofence_id)) {
+          inside.set(event.geofence_id, event.event_type === 'enter');
+        }
+      }
+      return inside;
+    })();
+
+    // Let a failed seed be retried on the next fix
+    state.catch(() => geofenceStates.delete(vehicleId));
+    geofenceStates.set(vehicleId, state);
+    return state;
+  };
+
+  /**
+   * @param {string} vehicleId
+   * @returns {Promise<{ time: number }>}
+   */
+  const getLatestFix = (vehicleId) => {
+    let latest = latestFixes.get(vehicleId);
+    if (latest) return latest;
+
+    latest = (async () => {
+      const { data, error } = await supabase
+        .from('gps_locations')
+        .select('timestamp')
+        .eq('vehicle_id', vehicleId)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return { time: data ? Date.parse(data.timestamp) : 0 };
+    })();
+
+    latest.catch(() => latestFixes.delete(vehicleId));
+    latestFixes.set(vehicleId, latest);
+    return latest;
+  };
+
+  /**
+   * Records the time of a fix and tells whether it is newer than every fix seen so far for
+   * the vehicle. Backlog uploaded after a coverage gap is usually older and returns false.
+   * While the newest stored fix cannot be read the fix is taken as the newest, so that it is
+   * still buffered for insertion.
+   * @param {string} vehicleId
+   * @param {number} time Fix time in ms
+   * @returns {Promise<boolean>}
+   */
+  const advanceLatestFix = async (vehicleId, time) => {
+    let latest;
+    try {
+      latest = await getLatestFix(vehicleId);
+    } catch (error) {
+      console.error(`Error reading the latest GPS fix of vehicle ${vehicleId}:`, error);
+      return true;
+    }
+    if (time <= latest.time) return false;
+    latest.time = time;
+    return true;
+  };
+
+  /**
+   * Inserts rows, splitting them in halves when one is rejected until the bad rows are
+   * isolated and dropped.
+   * @param {LocationRow[]} rows
+   * @returns {Promise<LocationRow[]>} Rows to insert again later, the database could not be reached
+   */
+  const insertRows = async (rows) => {
+    const { error } = await supabase.from('gps_locations').insert(rows);
+
+    if (!error) {
+      stats.inserted += rows.length;
+      return [];
+    }
+
+    if (!isRowError(error)) {
+      console.error(`Error inserting ${rows.length} GPS locations:`, error);
+      return rows;
+    }
+
+    if (rows.length === 1) {
+      console.error(`Dropping GPS location of vehicle ${rows[0].vehicle_id} rejected by the database:`, error.message);
+      stats.dropped++;
+      return [];
+    }
+
+    const middle = Math.ceil(rows.length / 2);
+    const retryFirst = await insertRows(rows.slice(0, middle));
+    const retrySecond = await insertRows(rows.slice(middle));
+    return [...retryFirst, ...retrySecond];
+  };
+
+  const flush = async () => {
+    if (flushing) return flushing;
+    if (buffer.length === 0) return;
+
+    const batch = buffer;
+    buffer = [];
+
+    flushing = (async () => {
+      const retry = await insertRows(batch);
+
+      if (retry.length > 0) {
+        stats.failedBatches++;
+
+        // Keep the rows for the next flush, dropping the oldest if the backlog grows too large
+        buffer = [...retry, ...buffer];
+        if (buffer.length > maxBufferSize) {
+          const overflow = buffer.length - maxBufferSize;
+          buffer = buffer.slice(overflow);
+          stats.dropped += overflow;
+        }
+        return;
+      }
+
+      stats.batches++;
+    })().finally(() => {
+      flushing = null;
+      stats.pending = buffer.length;
+    });
+
+    return flushing;
+  };
+
+  /**
+   * Buffers a location for the next batch insert.
+   * @param {LocationRow} row
+   * @returns {LocationRow}
+   */
+  const enqueueLocation = (row) => {
+    buffer.push(row);
+    stats.received++;
+    stats.pending = buffer.length;
+
+    if (buffer.length >= batchSize) {
+      flush().catch((error) => console.error('Error flushing GPS locations:', error));
+    }
+
+    return row;
+  };
+
+  const timer = setInterval(() => {
+    flush().catch((error) => console.error('Error flushing GPS locations:', error));
+  }, flushIntervalMs);
+  timer.unref();
+
+  // Flushes what is left and stops the timer, used on shutdown
+  const close = async () => {
+    clearInterval(timer);
+    if (flushing) await flushing;
+    await flush();
+  };
+
+  return {
+    resolveDevice,
+    touchDevice,
+    getVehicleSettings,
+    getActiveGeofences,
+    getGeofenceState,
+    advanceLatestFix,
+    enqueueLocation,
+    flush,
+    close,
+    getStats: () => ({ ...stats }),
+  };
+}
+
+/** @typedef {ReturnType<typeof createIngestionPipeline>} IngestionPipeline */
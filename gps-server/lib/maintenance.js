@@ -0,0 +1,351 @@
+// Preventive maintenance scheduling.
+//
+// Service plans (maintenance_plans) apply to the vehicles of a type and define a kilometer,
+// engine hour and calendar interval, whichever is reached first. For every active plan and
+// vehicle the scheduler keeps one upcoming maintenance_records row (`auto_generated`):
+//   - the due values count from the last completed record of the plan (its odometer_reading,
+//     engine_hours and completed_date); without one from vehicle_settings.last_maintenance_km,
+//     or the current values when the plan is first applied
+//   - the current values are the virtual odometer and engine hours (lib/odometer.js)
+//   - scheduled_date is the forecast: the earliest of the due date and the dates at which the
+//     average daily distance and engine hours of the last FORECAST_DAYS reach the due values
+//   - a `maintenance_due` alert is raised when the service is within the plan's lead distance,
+//     hours or days, and again with high severity once it is overdue, unless
+//     vehicle_settings.enable_maintenance_alerts is off
+// Completing the record makes the next run schedule the following service from its readings,
+// cancelling it skips the service: the following one counts from its due values.
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./alertEpisodes.js').AlertEpisodes} AlertEpisodes */
+
+/**
+ * @typedef {Object} MaintenanceOptions
+ * @property {AlertEpisodes} alertEpisodes
+ * @property {number} [intervalMs] Time between runs
+ */
+
+/**
+ * @typedef {Object} DueValues
+ * @property {number | null} km
+ * @property {number | null} engineHours
+ * @property {string | null} date  YYYY-MM-DD
+ */
+
+/**
+ * @typedef {Object} Forecast
+ * @property {string} date          YYYY-MM-DD, the forecast service date
+ * @property {'km' | 'engine_hours' | 'calendar'} reason  the interval reached first
+ * @property {number | null} remainingKm
+ * @property {number | null} remainingEngineHours
+ * @property {number} daysLeft      until the forecast date, negative when overdue
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+// Average daily usage is measured over this many days
+const FORECAST_DAYS = 30;
+// Shorter histories do not give a usable average
+const MIN_FORECAST_DAYS = 3;
+// Forecasts further out are capped, a vehicle that does not move is not due in a century
+const MAX_FORECAST_DAYS = 3 * 365;
+
+const ALERT_LEVEL_RANK = /** @type {Record<string, number>} */ ({ due_soon: 1, overdue: 2 });
+
+/** @param {number} time */
+const toDate = (time) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Service date forecast from the due values, the current values and the average daily usage.
+ * @param {DueValues} due
+ * @param {{ km: number | null, engineHours: number | null }} current
+ * @param {{ km: number | null, engineHours: number | null }} daily
+ * @param {number} now
+ * @returns {Forecast}
+ */
+export function forecastDue(due, current, daily, now) {
+  const remainingKm = due.km !== null && current.km !== null ? due.km - current.km : null;
+  const remainingEngineHours = due.engineHours !== null && current.engineHours !== null
+    ? due.engineHours - current.engineHours
+    : null;
+
+  /** @type {{ days: number, reason: Forecast['reason'] }[]} */
+  const candidates = [];
+  if (due.date) candidates.push({ days: (Date.parse(due.date) - Date.parse(toDate(now))) / DAY, reason: 'calendar' });
+  if (remainingKm !== null) {
+    if (remainingKm <= 0) candidates.push({ days: 0, reason: 'km' });
+    else if (daily.km) candidates.push({ days: Math.ceil(remainingKm / daily.km), reason: 'km' });
+  }
+  if (remainingEngineHours !== null) {
+    if (remainingEngineHours <= 0) candidates.push({ days: 0, reason: 'engine_hours' });
+    else if (daily.engineHours) candidates.push({ days: Math.ceil(remainingEngineHours / daily.engineHours), reason: 'engine_hours' });
+  }
+
+  const first = candidates.reduce(
+    (best, candidate) => (candidate.days < best.days ? candidate : best),
+    { days: MAX_FORECAST_DAYS, reason: /** @type {Forecast['reason']} */ ('calendar') }
+  );
+
+  return {
+    date: toDate(now + first.days * DAY),
+    reason: first.reason,
+    remainingKm,
+    remainingEngineHours,
+    daysLeft: first.days,
+  };
+}
+
+/**
+ * Alert level of a forecast under the lead values of its plan.
+ * @param {Forecast} forecast
+ * @param {{ lead_km: number, lead_engine_hours: number, lead_days: number }} plan
+ * @returns {'due_soon' | 'overdue' | null}
+ */
+export function alertLevel(forecast, plan) {
+  const { remainingKm, remainingEngineHours, daysLeft } = forecast;
+  if ((remainingKm !== null && remainingKm <= 0)
+    || (remainingEngineHours !== null && remainingEngineHours <= 0)
+    || daysLeft < 0) {
+    return 'overdue';
+  }
+  if ((remainingKm !== null && remainingKm <= plan.lead_km)
+    || (remainingEngineHours !== null && remainingEngineHours <= plan.lead_engine_hours)
+    || daysLeft <= plan.lead_days) {
+    return 'due_soon';
+  }
+  return null;
+}
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {MaintenanceOptions} options
+ */
+export function createMaintenanceScheduler(supabase, options) {
+  const { alertEpisodes, intervalMs = 60 * 60 * 1000 } = options;
+
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let running = false;
+
+  /**
+   * Average daily distance and engine hours of a vehicle over the last FORECAST_DAYS.
+   * @param {string} vehicleId
+   * @param {any} odometer vehicle_odometers row
+   * @param {number} now
+   */
+  const dailyUsage = async (vehicleId, odometer, now) => {
+    if (!odometer) return { km: null, engineHours: null };
+
+    const since = new Date(now - FORECAST_DAYS * DAY).toISOString();
+    const { data: base } = await supabase
+      .from('odometer_snapshots')
+      .select('gps_distance_km, engine_hours')
+      .eq('vehicle_id', vehicleId)
+      .lte('at', since)
+      .order('at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Without a snapshot before the window the vehicle is tracked for less, from 0
+    const from = base ? now - FORECAST_DAYS * DAY : odometer.tracking_since ? Date.parse(odometer.tracking_since) : now;
+    const days = (now - from) / DAY;
+    if (days < MIN_FORECAST_DAYS) return { km: null, engineHours: null };
+
+    const km = Number(odometer.gps_distance_km) - (base ? Number(base.gps_distance_km) : 0);
+    const engineHours = Number(odometer.engine_hours) - (base?.engine_hours != null ? Number(base.engine_hours) : 0);
+    return {
+      km: km > 0 ? km / days : null,
+      engineHours: odometer.engine_status_at && engineHours > 0 ? engineHours / days : null,
+    };
+  };
+
+  /**
+   * @param {any} plan
+   * @param {any} vehicle
+   * @param {any} record     open record of the plan, if any
+   * @param {any} last       last completed or cancelled record of the plan, if any
+   * @param {any} settings
+   * @param {{ km: number | null, engineHours: number | null }} current
+   * @param {{ km: number | null, engineHours: number | null }} daily
+   * @param {number} now
+   */
+  const schedule = async (plan, vehicle, record, last, settings, current, daily, now) => {
+    /** @type {DueValues} */
+    let due;
+    if (record) {
+      due = {
+        km: record.due_km != null ? Number(record.due_km) : null,
+        engineHours: record.due_engine_hours != null ? Number(record.due_engine_hours) : null,
+        date: record.due_date,
+      };
+    } else {
+      const skipped = last?.status === 'cancelled';
+      const baseKm = (skipped ? last.due_km : last?.odometer_reading) ?? (last ? null : settings?.last_maintenance_km) ?? current.km;
+      const baseHours = (skipped ? last.due_engine_hours : last?.engine_hours) ?? current.engineHours;
+      const baseDay = skipped ? last.due_date : last?.completed_date;
+      const baseDate = baseDay ? Date.parse(baseDay) : now;
+      due = {
+        km: plan.interval_km && baseKm !== null ? Number(baseKm) + plan.interval_km : null,
+        engineHours: plan.interval_engine_hours && baseHours !== null ? Number(baseHours) + plan.interval_engine_hours : null,
+        date: plan.interval_days ? toDate(baseDate + plan.interval_days * DAY) : null,
+      };
+    }
+
+    const forecast = forecastDue(due, current, daily, now);
+    const level = alertLevel(forecast, plan);
+
+    if (!record) {
+      const { data, error } = await supabase
+        .from('maintenance_records')
+        .insert([{
+          vehicle_id: vehicle.id,
+          plan_id: plan.id,
+          auto_generated: true,
+          type: plan.maintenance_type,
+          description: plan.description ? `${plan.name}: ${plan.description}` : plan.name,
+          status: 'scheduled',
+          scheduled_date: forecast.date,
+          due_km: due.km,
+          due_engine_hours: due.engineHours,
+          due_date: due.date,
+        }])
+        .select('id, alert_level')
+        .single();
+
+      if (error) throw error;
+      record = data;
+    } else if (record.auto_generated && record.status === 'scheduled' && record.scheduled_date !== forecast.date) {
+      const { error } = await supabase
+        .from('maintenance_records')
+        .update({ scheduled_date: forecast.date, updated_at: new Date().toISOString() })
+        .eq('id', record.id);
+
+      if (error) throw error;
+    }
+
+    if (!level || (ALERT_LEVEL_RANK[level] ?? 0) <= (ALERT_LEVEL_RANK[record.alert_level] ?? 0)) return;
+    if (settings?.enable_maintenance_alerts === false) return;
+
+    const reasons = [];
+    if (forecast.remainingKm !== null) {
+      reasons.push(forecast.remainingKm <= 0
+        ? `${Math.round(-forecast.remainingKm)} km over`
+        : `${Math.round(forecast.remainingKm)} km left`);
+    }
+    if (forecast.remainingEngineHours !== null) {
+      reasons.push(forecast.remainingEngineHours <= 0
+        ? `${Math.round(-forecast.remainingEngineHours)} engine hours over`
+        : `${Math.round(forecast.remainingEngineHours)} engine hours left`);
+    }
+    reasons.push(`${level === 'overdue' ? 'due' : 'expected'} ${forecast.date}`);
+
+    const episode = await alertEpisodes.raise({
+      user_id: vehicle.user_id,
+      vehicle_id: vehicle.id,
+      alert_type: 'maintenance_due',
+      severity: level === 'overdue' ? 'high' : 'medium',
+      title: level === 'overdue' ? `${plan.name} Overdue` : `${plan.name} Due Soon`,
+      message: `${vehicle.name}: ${plan.name} (${reasons.join(', ')})`,
+      metadata: {
+        maintenance_record_id: record.id,
+        plan_id: plan.id,
+        due_km: due.km,
+        due_engine_hours: due.engineHours,
+        due_date: due.date,
+        forecast_date: forecast.date,
+        forecast_reason: forecast.reason,
+      },
+    }, { scope: record.id, at: now });
+
+    const { error } = await supabase
+      .from('maintenance_records')
+      .update({ alert_level: level, alert_id: episode.alertId, updated_at: new Date().toISOString() })
+      .eq('id', record.id);
+
+    if (error) throw error;
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { data: plans, error } = await supabase
+        .from('maintenance_plans')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) throw error;
+      if (!plans || plans.length === 0) return;
+
+      const organizationIds = [...new Set(plans.map((plan) => plan.organization_id))];
+      const { data: vehicles, error: vehiclesError } = await supabase
+        .from('vehicles')
+        .select('id, user_id, organization_id, name, type, odometer')
+        .in('organization_id', organizationIds)
+        .neq('status', 'inactive');
+
+      if (vehiclesError) throw vehiclesError;
+
+      const now = Date.now();
+      for (const vehicle of vehicles || []) {
+        const vehiclePlans = plans.filter((plan) =>
+          plan.organization_id === vehicle.organization_id && (!plan.vehicle_type || plan.vehicle_type === vehicle.type)
+        );
+        if (vehiclePlans.length === 0) continue;
+
+        try {
+          const [{ data: odometer }, { data: settings }, { data: records, error: recordsError }] = await Promise.all([
+            supabase.from('vehicle_odometers').select('*').eq('vehicle_id', vehicle.id).maybeSingle(),
+            supabase
+              .from('vehicle_settings')
+              .select('last_maintenance_km, enable_maintenance_alerts')
+              .eq('vehicle_id', vehicle.id)
+              .maybeSingle(),
+            supabase
+              .from('maintenance_records')
+              .select('id, plan_id, status, auto_generated, scheduled_date, completed_date, odometer_reading, engine_hours, due_km, due_engine_hours, due_date, alert_level, updated_at')
+              .eq('vehicle_id', vehicle.id)
+              .not('plan_id', 'is', null)
+              .order('updated_at', { ascending: false }),
+          ]);
+
+          if (recordsError) throw recordsError;
+
+          const current = {
+            km: odometer ? Number(odometer.virtual_odometer_km) : Number(vehicle.odometer) || null,
+            engineHours: odometer?.engine_status_at ? Number(odometer.engine_hours) : null,
+          };
+          const daily = await dailyUsage(vehicle.id, odometer, now);
+
+          for (const plan of vehiclePlans) {
+            const planRecords = (records || []).filter((record) => record.plan_id === plan.id);
+            const open = planRecords.find((record) => record.status === 'scheduled' || record.status === 'in_progress');
+            const last = planRecords.find((record) => record.status === 'completed' || record.status === 'cancelled');
+            await schedule(plan, vehicle, open || null, last || null, settings, current, daily, now);
+          }
+        } catch (error) {
+          console.error(`Error scheduling maintenance of vehicle ${vehicle.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error running maintenance scheduler:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createMaintenanceScheduler>} MaintenanceScheduler */
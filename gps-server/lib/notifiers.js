@@ -0,0 +1,118 @@
+// Outgoing notifications.
+//
+// A notifier delivers one message on one channel and throws when delivery fails, so that the
+// caller can record the failure. Channels are looked up by name in the map returned by
+// createNotifiers(), which makes it possible to add channels (SMS, chat...) or swap one for a
+// stand-in without touching the escalation logic:
+//   - email: SMTP through nodemailer, enabled when SMTP_HOST is set
+//   - webhook: JSON POST to the URL of the escalation step, which must be a public http(s) address
+//     (lib/outboundUrl.js); WEBHOOK_ALLOW_PRIVATE_URLS=true accepts local targets for testing
+// `npm run notify:sink` starts a local SMTP and HTTP server that prints what it receives
+// (scripts/notification-sink.js); point SMTP_HOST and the webhook URL at it to try a policy.
+
+import nodemailer from 'nodemailer';
+import { fetch } from 'undici';
+import { assertPublicUrl, createOutboundAgent } from './outboundUrl.js';
+
+/**
+ * @typedef {Object} Notification
+ * @property {string[]} to  Recipient addresses, used by the email channel
+ * @property {string} [url]  Target of the webhook channel
+ * @property {string} subject
+ * @property {string} text
+ * @property {Record<string, any>} payload  Structured content (alert, policy, step, recipients)
+ */
+
+/**
+ * @typedef {Object} Notifier
+ * @property {(notification: Notification) => Promise<void>} send
+ */
+
+/**
+ * @typedef {Object} SmtpOptions
+ * @property {string} host
+ * @property {number} [port]
+ * @property {boolean} [secure]  Implicit TLS (port 465); otherwise STARTTLS is used when offered
+ * @property {string} [user]
+ * @property {string} [pass]
+ * @property {string} [from]
+ */
+
+/**
+ * @param {SmtpOptions} options
+ * @returns {Notifier}
+ */
+export function createSmtpNotifier(options) {
+  const { host, port = 587, secure = false, user, pass, from = 'Fleet Alerts <alerts@localhost>' } = options;
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+  });
+
+  return {
+    send: async (notification) => {
+      if (notification.to.length === 0) throw new Error('No email recipients');
+      await transport.sendMail({
+        from,
+        to: notification.to,
+        subject: notification.subject,
+        text: notification.text,
+      });
+    },
+  };
+}
+
+/**
+ * @param {{ timeoutMs?: number, allowPrivate?: boolean }} [options]
+ * @returns {Notifier}
+ */
+export function createWebhookNotifier(options = {}) {
+  const { timeoutMs = 10000, allowPrivate = false } = options;
+  const agent = createOutboundAgent({ allowPrivate });
+
+  return {
+    send: async (notification) => {
+      if (!notification.url) throw new Error('No webhook URL');
+      const url = await assertPublicUrl(notification.url, { allowPrivate });
+      const response = await fetch(url, {
+        method: 'POST',
+        redirect: 'manual',
+        dispatcher: agent,
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'fleet-gps-server' },
+        body: JSON.stringify({ subject: notification.subject, text: notification.text, ...notification.payload }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+    },
+  };
+}
+
+/**
+ * Notifiers configured from the environment, keyed by channel.
+ * @param {NodeJS.ProcessEnv} env
+ * @returns {Record<string, Notifier>}
+ */
+export function createNotifiers(env) {
+  /** @type {Record<string, Notifier>} */
+  const notifiers = {
+    webhook: createWebhookNotifier({
+      timeoutMs: parseInt(env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+      allowPrivate: env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+    }),
+  };
+
+  if (env.SMTP_HOST) {
+    notifiers.email = createSmtpNotifier({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '587', 10),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.SMTP_FROM,
+    });
+  }
+
+  return notifiers;
+}
@@ -0,0 +1,452 @@
+// Virtual odometer.
+//
+// A periodic job adds up the distance between each vehicle's stored gps_locations, filtered for
+// GPS noise:
+//   - fixes less accurate than MAX_ACCURACY_METERS are skipped
+//   - a fix implying more than MAX_SPEED_KMH from the last kept one is a jump and is skipped;
+//     after MAX_JUMPS in a row the vehicle really is elsewhere (towed, device moved) and the new
+//     position is taken without adding distance
+//   - while both fixes report standing still, moves under STATIONARY_JITTER_METERS are drift
+// Fixes are read up to `settleMs` ago so that store-and-forward backlog has arrived, later ones
+// are not counted. vehicle_odometers keeps the running GPS distance and a calibration: the latest
+// reported reading (vehicles.odometer when tracking starts, then odometer_reading of fuel logs)
+// with the GPS distance at that time, so that
+//   virtual_odometer_km = calibration_km + gps_distance_km - calibration_gps_km
+// The difference between a new reading and the virtual odometer is kept as `last_drift_km`.
+// Fuel logs are stamped with the GPS distance at their time (`fuel_logs.gps_distance_km`), the
+// dashboard computes consumption between fill-ups from it. odometer_snapshots (the distance at
+// the last fix of every SNAPSHOT_MINUTES) serve logs entered after their time was processed.
+//
+// Engine hours are added up the same way from the ignition states in vehicle_health: the time
+// from an 'on' or 'idle' reading to the next reading, at most MAX_ENGINE_GAP_MINUTES when the
+// tracker went silent. They stay 0 for trackers that do not report ignition.
+
+import { haversineDistance } from '../../shared/geometry.js';
+import { toOne } from './embed.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * Vehicle embedded in the gps_devices rows read by the job
+ * @typedef {Object} OdometerVehicle
+ * @property {string} id
+ * @property {string} user_id
+ * @property {number | null} odometer  reading entered in the dashboard, km
+ */
+
+/**
+ * @typedef {Object} OdometerOptions
+ * @property {number} [intervalMs]  Time between runs
+ * @property {number} [settleMs]    Fixes younger than this are left for the next run
+ * @property {number} [lookbackMs]  How far back a vehicle without an odometer starts
+ */
+
+/**
+ * @typedef {Object} OdometerPoint
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed     km/h
+ * @property {number} time      ms since epoch
+ * @property {number | null} accuracy meters
+ */
+
+/**
+ * @typedef {Object} DistanceState
+ * @property {number} km
+ * @property {{ latitude: number, longitude: number, speed: number, time: number } | null} last  last kept fix
+ * @property {number} jumps  consecutive fixes rejected as jumps
+ */
+
+/**
+ * @typedef {Object} OdometerRow  a vehicle_odometers row
+ * @property {string} vehicle_id
+ * @property {string} user_id
+ * @property {number} gps_distance_km
+ * @property {number | null} last_latitude
+ * @property {number | null} last_longitude
+ * @property {string | null} last_fix_at
+ * @property {string | null} tracking_since
+ * @property {number} calibration_km
+ * @property {number | null} calibration_gps_km
+ * @property {string} calibrated_at
+ * @property {number | null} last_reported_km
+ * @property {number | null} last_drift_km
+ * @property {number} engine_hours
+ * @property {string | null} engine_status   last ignition state read
+ * @property {string | null} engine_status_at
+ */
+
+/**
+ * @typedef {Object} EngineState
+ * @property {number} hours
+ * @property {string | null} status
+ * @property {number | null} since  ms since epoch of the status
+ */
+
+const MAX_ACCURACY_METERS = 100;
+const MAX_SPEED_KMH = 250;
+const MAX_JUMPS = 3;
+const STATIONARY_SPEED_KMH = 3;
+const STATIONARY_JITTER_METERS = 30;
+const SNAPSHOT_MINUTES = 15;
+const MAX_ENGINE_GAP_MINUTES = 30;
+// Upper bound on fixes read per vehicle and run
+const MAX_POINTS_PER_RUN = 10000;
+// Stored state, virtual_odometer_km is computed by the database
+const ODOMETER_COLUMNS = 'vehicle_id, user_id, gps_distance_km, last_latitude, last_longitude, last_fix_at, '
+  + 'tracking_since, calibration_km, calibration_gps_km, calibrated_at, last_reported_km, last_drift_km, '
+  + 'engine_hours, engine_status, engine_status_at';
+
+/**
+ * Adds a fix to the filtered distance, returns whether the distance grew.
+ * @param {DistanceState} state
+ * @param {OdometerPoint} point
+ */
+export function addFix(state, point) {
+  if (point.accuracy !== null && point.accuracy > MAX_ACCURACY_METERS) return false;
+
+  const last = state.last;
+  if (!last) {
+    state.last = point;
+    return false;
+  }
+
+  const meters = haversineDistance(last.latitude, last.longitude, point.latitude, point.longitude);
+  const hours = (point.time - last.time) / (60 * 60 * 1000);
+  if (meters > 0 && (hours <= 0 || meters / 1000 / hours > MAX_SPEED_KMH)) {
+    state.jumps++;
+    if (state.jumps >= MAX_JUMPS) {
+      state.last = point;
+      state.jumps = 0;
+    }
+    return false;
+  }
+  state.jumps = 0;
+
+  if (point.speed < STATIONARY_SPEED_KMH && last.speed < STATIONARY_SPEED_KMH && meters < STATIONARY_JITTER_METERS) {
+    return false;
+  }
+
+  state.km += meters / 1000;
+  state.last = point;
+  return true;
+}
+
+/**
+ * Adds the running time up to an ignition reading.
+ * @param {EngineState} state
+ * @param {{ status: string, time: number }} reading
+ */
+export function addEngineReading(state, reading) {
+  if ((state.status === 'on' || state.status === 'idle') && state.since !== null && reading.time > state.since) {
+    state.hours += Math.min(reading.time - state.since, MAX_ENGINE_GAP_MINUTES * 60 * 1000) / (60 * 60 * 1000);
+  }
+  state.status = reading.status;
+  state.since = reading.time;
+}
+
+/** @param {number} time */
+const snapshotBucket = (time) => {
+  const size = SNAPSHOT_MINUTES * 60 * 1000;
+  return new Date(Math.floor(time / size) * size).toISOString();
+};
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {OdometerOptions} [options]
+ */
+export function createOdometer(supabase, options = {}) {
+  const { intervalMs = 10 * 60 * 1000, settleMs = 10 * 60 * 1000, lookbackMs = 30 * 24 * 60 * 60 * 1000 } = options;
+
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let running = false;
+
+  /**
+   * GPS distance of a vehicle at a time already processed, interpolated between snapshots.
+   * @param {string} vehicleId
+   * @param {number} time
+   * @returns {Promise<number>}
+   */
+  const distanceAt = async (vehicleId, time) => {
+    const iso = new Date(time).toISOString();
+    const [{ data: before }, { data: after }] = await Promise.all([
+      supabase
+        .from('odometer_snapshots')
+        .select('at, gps_distance_km')
+        .eq('vehicle_id', vehicleId)
+        .lte('at', iso)
+        .order('at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('odometer_snapshots')
+        .select('at, gps_distance_km')
+        .eq('vehicle_id', vehicleId)
+        .gt('at', iso)
+        .order('at', { ascending: true })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const beforeKm = before ? Number(before.gps_distance_km) : 0;
+    if (!after) return beforeKm;
+
+    // The snapshot after holds everything driven up to its last fix of the period
+    const from = before ? Date.parse(before.at) : Date.parse(after.at) - SNAPSHOT_MINUTES * 60 * 1000;
+    const to = Date.parse(after.at);
+    const share = to > from ? Math.min(Math.max((time - from) / (to - from), 0), 1) : 1;
+    return beforeKm + (Number(after.gps_distance_km) - beforeKm) * share;
+  };
+
+  /**
+   * @param {OdometerVehicle} vehicle
+   * @returns {Promise<boolean>} whether the odometer moved
+   */
+  const processVehicle = async (vehicle) => {
+    const until = Date.now() - settleMs;
+
+    const { data: stored, error: loadError } = await supabase
+      .from('vehicle_odometers')
+      .select(ODOMETER_COLUMNS)
+      .eq('vehicle_id', vehicle.id)
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+
+    /** @type {OdometerRow} */
+    const row = /** @type {OdometerRow | null} */ (/** @type {unknown} */ (stored)) || {
+      vehicle_id: vehicle.id,
+      user_id: vehicle.user_id,
+      gps_distance_km: 0,
+      last_latitude: null,
+      last_longitude: null,
+      last_fix_at: null,
+      tracking_since: null,
+      // Anchored to the odometer of the vehicle form as of now, reached once the backlog is read
+      calibration_km: Number(vehicle.odometer) || 0,
+      calibration_gps_km: null,
+      calibrated_at: new Date(until).toISOString(),
+      last_reported_km: null,
+      last_drift_km: null,
+      engine_hours: 0,
+      engine_status: null,
+      engine_status_at: null,
+    };
+
+    const cursor = row.last_fix_at ? Date.parse(row.last_fix_at) : until - lookbackMs;
+    if (cursor >= until) return false;
+
+    // A reported reading newer than the calibration re-anchors the virtual odometer
+    const { data: reading } = await supabase
+      .from('fuel_logs')
+      .select('odometer_reading, recorded_at')
+      .eq('vehicle_id', vehicle.id)
+      .gt('odometer_reading', 0)
+      .gt('recorded_at', row.calibrated_at)
+      .lte('recorded_at', new Date(until).toISOString())
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (reading) {
+      const readAt = Date.parse(reading.recorded_at);
+      const reported = Number(reading.odometer_reading);
+      const gpsKm = readAt <= cursor ? await distanceAt(vehicle.id, readAt) : null;
+      if (gpsKm !== null && row.calibration_gps_km !== null) {
+        const virtual = Number(row.calibration_km) + gpsKm - Number(row.calibration_gps_km);
+        row.last_reported_km = reported;
+        row.last_drift_km = Math.round((reported - virtual) * 10) / 10;
+      }
+      row.calibration_km = reported;
+      row.calibration_gps_km = gpsKm;
+      row.calibrated_at = reading.recorded_at;
+    }
+
+    const { data: fixes, error } = await supabase
+      .from('gps_locations')
+      .select('latitude, longitude, speed, accuracy, timestamp')
+      .eq('vehicle_id', vehicle.id)
+      .gt('timestamp', new Date(cursor).toISOString())
+      .lte('timestamp', new Date(until).toISOString())
+      .order('timestamp', { ascending: true })
+      .limit(MAX_POINTS_PER_RUN);
+
+    if (error) throw error;
+
+    const { data: ignition, error: ignitionError } = await supabase
+      .from('vehicle_health')
+      .select('engine_status, recorded_at')
+      .eq('vehicle_id', vehicle.id)
+      .not('engine_status', 'is', null)
+      .gt('recorded_at', new Date(cursor).toISOString())
+      .lte('recorded_at', new Date(until).toISOString())
+      .order('recorded_at', { ascending: true })
+      .limit(MAX_POINTS_PER_RUN);
+
+    if (ignitionError) throw ignitionError;
+
+    /** @type {EngineState} */
+    const engine = {
+      hours: Number(row.engine_hours),
+      status: row.engine_status,
+      since: row.engine_status_at ? Date.parse(row.engine_status_at) : null,
+    };
+    const readings = (ignition || []).map((reading) => ({
+      status: reading.engine_status,
+      time: Date.parse(reading.recorded_at),
+    }));
+    let nextReading = 0;
+    /** @param {number} time */
+    const advanceEngine = (time) => {
+      while (nextReading < readings.length && readings[nextReading].time <= time) {
+        addEngineReading(engine, readings[nextReading++]);
+      }
+    };
+
+    /** @type {DistanceState} */
+    const state = {
+      km: Number(row.gps_distance_km),
+      last: row.last_latitude !== null
+        ? { latitude: Number(row.last_latitude), longitude: Number(row.last_longitude), speed: 0, time: cursor }
+        : null,
+      jumps: 0,
+    };
+    const calibratedAt = Date.parse(row.calibrated_at);
+    /** @type {Map<string, { at: string, km: number, engineHours: number }>} */
+    const snapshots = new Map();
+
+    for (const fix of fixes || []) {
+      const time = Date.parse(fix.timestamp);
+      if (row.calibration_gps_km === null && time > calibratedAt) row.calibration_gps_km = state.km;
+      if (row.tracking_since === null) row.tracking_since = fix.timestamp;
+
+      const moved = addFix(state, {
+        latitude: Number(fix.latitude),
+        longitude: Number(fix.longitude),
+        speed: Number(fix.speed) || 0,
+        time,
+        accuracy: fix.accuracy != null ? Number(fix.accuracy) : null,
+      });
+      advanceEngine(time);
+      if (moved) snapshots.set(snapshotBucket(time), { at: fix.timestamp, km: state.km, engineHours: engine.hours });
+    }
+
+    // A full page is continued from its last fix, otherwise everything up to `until` is settled
+    const processedUntil = fixes && fixes.length === MAX_POINTS_PER_RUN
+      ? Date.parse(fixes[fixes.length - 1].timestamp)
+      : until;
+    if (row.calibration_gps_km === null && processedUntil >= calibratedAt) row.calibration_gps_km = state.km;
+    advanceEngine(processedUntil);
+
+    if (snapshots.size > 0) {
+      const { error: snapshotError } = await supabase
+        .from('odometer_snapshots')
+        .upsert([...snapshots].map(([bucket, snapshot]) => ({
+          vehicle_id: vehicle.id,
+          bucket,
+          at: snapshot.at,
+          gps_distance_km: Math.round(snapshot.km * 1000) / 1000,
+          engine_hours: Math.round(snapshot.engineHours * 100) / 100,
+        })), { onConflict: 'vehicle_id,bucket' });
+
+      if (snapshotError) throw snapshotError;
+    }
+
+    const { error: saveError } = await supabase
+      .from('vehicle_odometers')
+      .upsert({
+        ...row,
+        gps_distance_km: Math.round(state.km * 1000) / 1000,
+        last_latitude: state.last ? state.last.latitude : null,
+        last_longitude: state.last ? state.last.longitude : null,
+        last_fix_at: new Date(processedUntil).toISOString(),
+        engine_hours: Math.round(engine.hours * 100) / 100,
+        engine_status: engine.status,
+        engine_status_at: engine.since !== null ? new Date(engine.since).toISOString() : null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'vehicle_id' });
+
+    if (saveError) throw saveError;
+
+    await stampFuelLogs(vehicle.id, row.tracking_since, processedUntil);
+    return snapshots.size > 0;
+  };
+
+  /**
+   * Writes the GPS distance at their time into fuel logs that have none yet.
+   * @param {string} vehicleId
+   * @param {string | null} trackingSince
+   * @param {number} processedUntil
+   */
+  const stampFuelLogs = async (vehicleId, trackingSince, processedUntil) => {
+    if (!trackingSince) return;
+
+    const { data: logs, error } = await supabase
+      .from('fuel_logs')
+      .select('id, recorded_at')
+      .eq('vehicle_id', vehicleId)
+      .is('gps_distance_km', null)
+      .gte('recorded_at', trackingSince)
+      .lte('recorded_at', new Date(processedUntil).toISOString());
+
+    if (error) throw error;
+
+    for (const log of logs || []) {
+      const km = await distanceAt(vehicleId, Date.parse(log.recorded_at));
+      const { error: updateError } = await supabase
+        .from('fuel_logs')
+        .update({ gps_distance_km: Math.round(km * 1000) / 1000 })
+        .eq('id', log.id);
+
+      if (updateError) throw updateError;
+    }
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { data: devices, error } = await supabase
+        .from('gps_devices')
+        .select('vehicle:vehicles(id, user_id, odometer)');
+
+      if (error) throw error;
+
+      let moved = 0;
+      for (const device of devices || []) {
+        /** @type {OdometerVehicle | null} */
+        const vehicle = toOne(device.vehicle);
+        if (!vehicle) continue;
+        try {
+          if (await processVehicle(vehicle)) moved++;
+        } catch (error) {
+          console.error(`Error updating odometer of vehicle ${vehicle.id}:`, error);
+        }
+      }
+
+      if (moved > 0) console.log(`Virtual odometer: ${moved} vehicle(s) moved`);
+    } catch (error) {
+      console.error('Error running virtual odometer:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createOdometer>} Odometer */
@@ -0,0 +1,139 @@
+// Checks on URLs the server POSTs to on behalf of users (escalation webhooks, webhook
+// subscriptions).
+//
+// Such a URL must not point into the network of the server: only http(s) is accepted and every
+// address the host resolves to has to be public, so a URL cannot reach loopback services, the
+// private network or the cloud metadata endpoint (169.254.169.254). assertPublicUrl() checks
+// the URL up front; the requests themselves go through createOutboundAgent(), whose
+// connections check the addresses they connect to, because a host name can resolve to a public
+// address for the check and to a private one for the request (DNS rebinding). Callers also
+// refuse redirects, which would otherwise lead to an unchecked URL. `allowPrivate` lifts the
+// address checks for local testing, e.g. against `npm run notify:sink`.
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent } from 'undici';
+
+/**
+ * Addresses of a host name
+ * @callback Resolver
+ * @param {string} hostname
+ * @returns {Promise<string[]>}
+ */
+
+/**
+ * @typedef {Object} OutboundOptions
+ * @property {boolean} [allowPrivate]  Accept loopback and private addresses (local testing)
+ * @property {Resolver} [resolve]      DNS resolution, replaced in tests
+ */
+
+// Addresses that are not reachable on the public internet. IPv4-mapped IPv6 addresses
+// (::ffff:10.0.0.1) are matched against the IPv4 ranges.
+const blocked = new BlockList();
+for (const [network, prefix] of /** @type {[string, number][]} */ ([
+  ['0.0.0.0', 8],        // "this" network, unspecified
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, cloud metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved, broadcast
+])) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of /** @type {[string, number][]} */ ([
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['64:ff9b::', 96],     // NAT64, embeds an IPv4 address
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8],         // multicast
+])) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public.
+ * @param {string} address
+ */
+export function isPrivateAddress(address) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return blocked.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** @type {Resolver} */
+const resolveHost = async (hostname) => (await lookup(hostname, { all: true })).map((entry) => entry.address);
+
+/**
+ * @param {string} hostname
+ * @param {string[]} addresses
+ */
+const assertPublicAddresses = (hostname, addresses) => {
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`${hostname} is not a public address`);
+  }
+};
+
+/**
+ * Parses a user-supplied target URL and rejects it unless it is http(s) on a public host.
+ * @param {string} value
+ * @param {OutboundOptions} [options]
+ * @returns {Promise<URL>}
+ */
+export async function assertPublicUrl(value, options = {}) {
+  const { resolve = resolveHost } = options;
+
+  /** @type {URL} */
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Unsupported URL scheme ${url.protocol}`);
+  }
+  if (options.allowPrivate) return url;
+
+  // IPv6 literals keep their brackets in `hostname`
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  assertPublicAddresses(url.hostname, isIP(host) ? [host] : await resolve(host));
+
+  return url;
+}
+
+/**
+ * Dispatcher for requests to URLs checked by assertPublicUrl(). Each connection resolves the
+ * host once and connects only if every address is public, so the address used is the address
+ * checked. IP literals are not resolved by the socket; assertPublicUrl() has checked them.
+ * @param {OutboundOptions} [options]
+ * @returns {Agent}
+ */
+export function createOutboundAgent(options = {}) {
+  const { allowPrivate = false, resolve = resolveHost } = options;
+
+  return new Agent({
+    connect: {
+      lookup: (hostname, lookupOptions, callback) => {
+        resolve(hostname)
+          .then((addresses) => {
+            if (!allowPrivate) assertPublicAddresses(hostname, addresses);
+            if (addresses.length === 0) throw new Error(`${hostname} has no address`);
+
+            if (lookupOptions.all) {
+              callback(null, addresses.map((address) => ({ address, family: isIP(address) })));
+            } else {
+              callback(null, addresses[0], isIP(addresses[0]));
+            }
+          })
+          .catch((error) => callback(error, '', 0));
+      },
+    },
+  });
+}
@@ -0,0 +1,230 @@
+// Socket.IO rooms for the dashboard.
+//
+// Browsers connect with their Supabase access token (`auth: { token }`). Each socket joins
+// the room of its user, the room of the organization the user currently works in, which
+// receives alerts, and the rooms of the vehicles it subscribes to, which receive positions.
+// Subscriptions are checked against the vehicles of that organization and the membership, as
+// the vehicles policies do: members need `can_view_vehicles`, drivers only follow the vehicle
+// of their active assignment. The membership is read on every subscription, so a removed
+// permission applies to the next one. The organization is read on connection, as
+// current_organization_id() does; dashboards reconnect after switching.
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('socket.io').Server} SocketServer */
+/** @typedef {import('socket.io').Socket} ClientSocket */
+
+/**
+ * @typedef {Object} RealtimeOptions
+ * @property {(account: { id: string, email: string }) => Promise<string | null>} assignedVehicleId
+ *   Vehicle a driver account follows (driverTracking.assignedVehicleId)
+ */
+
+/**
+ * Vehicles a member may follow: all of the organization, only one, or none
+ * @typedef {{ all: true } | { all: false, vehicleId: string | null }} VehicleAccess
+ */
+
+// A single subscribe call never covers more vehicles than this
+const MAX_SUBSCRIPTIONS = 500;
+
+/** @param {string} userId */
+export const userRoom = (userId) => `user:${userId}`;
+
+/** @param {string} organizationId */
+export const organizationRoom = (organizationId) => `organization:${organizationId}`;
+
+/** @param {string} vehicleId */
+export const vehicleRoom = (vehicleId) => `vehicle:${vehicleId}`;
+
+/**
+ * @param {ClientSocket} socket
+ * @returns {string | undefined}
+ */
+function handshakeToken(socket) {
+  const token = socket.handshake.auth && socket.handshake.auth.token;
+  if (token) return token;
+
+  const authorization = socket.handshake.headers.authorization;
+  if (authorization && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim();
+  }
+  return undefined;
+}
+
+/**
+ * @param {SocketServer} io
+ * @param {SupabaseClient} supabase
+ * @param {RealtimeOptions} options
+ */
+export function createRealtimeRooms(io, supabase, options) {
+  const { assignedVehicleId } = options;
+
+  /**
+   * Active membership picked in the switcher, else the oldest active one.
+   * @param {string} userId
+   * @returns {Promise<string | null>}
+   */
+  const currentOrganizationOf = async (userId) => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('is_current', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? data.organization_id : null;
+  };
+
+  /**
+   * What the membership of a user in an organization allows to follow, with the permissions of
+   * has_organization_permission(): the defaults of the role and the member's overrides.
+   * @param {{ id: string, email: string }} account
+   * @param {string} organizationId
+   * @returns {Promise<VehicleAccess>}
+   */
+  const vehicleAccessOf = async (account, organizationId) => {
+    const { data: member, error } = await supabase
+      .from('organization_members')
+      .select('role, permissions')
+      .eq('organization_id', organizationId)
+      .eq('user_id', account.id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!member) return { all: false, vehicleId: null };
+    if (member.role === 'driver') return { all: false, vehicleId: await assignedVehicleId(account) };
+
+    const { data: defaults, error: defaultsError } = await supabase.rpc('role_permissions', { p_role: member.role });
+    if (defaultsError) throw defaultsError;
+    const permissions = { ...defaults, ...member.permissions };
+    return permissions.can_view_vehicles === true ? { all: true } : { all: false, vehicleId: null };
+  };
+
+  /**
+   * Subset of `vehicleIds` the user is allowed to follow.
+   * @param {{ id: string, email: string }} account
+   * @param {string | null} organizationId
+   * @param {string[]} vehicleIds
+   * @returns {Promise<string[]>}
+   */
+  const visibleVehicleIds = async (account, organizationId, vehicleIds) => {
+    if (!organizationId) return [];
+
+    const access = await vehicleAccessOf(account, organizationId);
+    const candidates = access.all
+      ? vehicleIds
+      : vehicleIds.filter((vehicleId) => vehicleId === access.vehicleId);
+    if (candidates.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .in('id', candidates);
+
+    if (error) throw error;
+    return (data || []).map((vehicle) => vehicle.id);
+  };
+
+  io.use(async (socket, next) => {
+    const token = handshakeToken(socket);
+    if (!token) return next(new Error('Unauthorized'));
+
+    try {
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data.user) return next(new Error('Unauthorized'));
+
+      socket.data.userId = data.user.id;
+      socket.data.email = data.user.email || '';
+      socket.data.organizationId = await currentOrganizationOf(data.user.id);
+      next();
+    } catch (error) {
+      console.error('Error authenticating socket:', error);
+      next(new Error('Unauthorized'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    /** @type {string} */
+    const userId = socket.data.userId;
+    /** @type {string | null} */
+    const organizationId = socket.data.organizationId;
+    const account = { id: userId, email: /** @type {string} */ (socket.data.email) };
+    console.log('Client connected:', socket.id, `(user ${userId})`);
+    socket.join(userRoom(userId));
+    if (organizationId) socket.join(organizationRoom(organizationId));
+
+    /**
+     * @param {unknown} ids
+     * @param {unknown} ack
+     */
+    const subscribe = async (ids, ack) => {
+      const requested = (Array.isArray(ids) ? ids : [ids])
+        .filter((id) => typeof id === 'string' && id.length > 0)
+        .slice(0, MAX_SUBSCRIPTIONS);
+
+      try {
+        const allowed = requested.length > 0 ? await visibleVehicleIds(account, organizationId, requested) : [];
+        for (const vehicleId of allowed) socket.join(vehicleRoom(vehicleId));
+
+        if (allowed.length < requested.length) {
+          console.warn(`Client ${socket.id} denied ${requested.length - allowed.length} vehicle subscription(s)`);
+        }
+        if (typeof ack === 'function') ack({ subscribed: allowed });
+      } catch (error) {
+        console.error('Error subscribing to vehicles:', error);
+        if (typeof ack === 'function') ack({ subscribed: [], error: 'Subscription failed' });
+      }
+    };
+
+    socket.on('subscribe_vehicles', subscribe);
+    socket.on('subscribe_vehicle', subscribe);
+
+    socket.on('unsubscribe_vehicle', (vehicleId) => {
+      if (typeof vehicleId === 'string') socket.leave(vehicleRoom(vehicleId));
+    });
+
+    socket.on('disconnect', () => {
+      console.log('Client disconnected:', socket.id);
+    });
+  });
+
+  return {
+    /**
+     * Sends to the sockets subscribed to a vehicle.
+     * @param {string} vehicleId
+     * @param {string} event
+     * @param {Record<string, unknown>} payload
+     */
+    emitToVehicle: (vehicleId, event, payload) => {
+      io.to(vehicleRoom(vehicleId)).emit(event, payload);
+    },
+
+    /**
+     * Sends to every socket of a user.
+     * @param {string} userId
+     * @param {string} event
+     * @param {Record<string, unknown>} payload
+     */
+    emitToUser: (userId, event, payload) => {
+      io.to(userRoom(userId)).emit(event, payload);
+    },
+
+    /**
+     * Sends to the sockets working in an organization.
+     * @param {string} organizationId
+     * @param {string} event
+     * @param {Record<string, unknown>} payload
+     */
+    emitToOrganization: (organizationId, event, payload) => {
+      io.to(organizationRoom(organizationId)).emit(event, payload);
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createRealtimeRooms>} RealtimeRooms */
@@ -0,0 +1,436 @@
+// Alert rules.
+//
+// Rules are stored in `alert_rules` and edited in the dashboard. Each one is a tree of
+// conditions over the live telemetry of a vehicle, combined with AND/OR:
+//   - speed and speed_over_limit (km/h above the zone or vehicle limit, see speeding.js)
+//   - fuel_percent, battery_voltage and engine_status
+//   - time_of_day, in the rule's time zone
+//   - geofence membership (inside/outside) and crossings (enters/exits, true on one fix only)
+// Telemetry is merged per vehicle from GPS fixes, status packets and the latest vehicle_health
+// row. The enabled rules in scope (all vehicles, the vehicle, or a group it belongs to) are
+// evaluated on every update. A rule fires once its conditions have held for
+// `duration_seconds`: its alert episode (alertEpisodes.js) stays open while they hold and is
+// closed as soon as they do not. Durations are checked when telemetry arrives, so a rule fires
+// with the first update after its duration has elapsed.
+
+import { createTtlCache } from './cache.js';
+import { inClockWindow, localClock } from './clock.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * @typedef {Object} RuleCondition
+ * @property {string} field
+ * @property {string} op
+ * @property {any} value
+ */
+
+/**
+ * @typedef {Object} RuleGroup
+ * @property {'and' | 'or'} operator
+ * @property {Array<RuleCondition | RuleGroup>} conditions
+ */
+
+/**
+ * @typedef {Object} AlertRule
+ * @property {string} id
+ * @property {string} user_id
+ * @property {string} organization_id
+ * @property {string} name
+ * @property {string} alert_type
+ * @property {'low' | 'medium' | 'high' | 'critical'} severity
+ * @property {'all' | 'vehicle' | 'group'} scope_type
+ * @property {string | null} vehicle_id
+ * @property {string | null} group_id
+ * @property {RuleGroup} conditions
+ * @property {number} duration_seconds
+ * @property {string} timezone
+ */
+
+/**
+ * @typedef {Object} Telemetry
+ * @property {number} [at]                    ms since epoch
+ * @property {number} [latitude]
+ * @property {number} [longitude]
+ * @property {number} [speed]                 km/h
+ * @property {number | null} [speed_limit]    limit in force, km/h
+ * @property {string | null} [speed_limit_zone] name of the zone setting it
+ * @property {number | null} [fuel_percent]
+ * @property {number | null} [battery_voltage]
+ * @property {'on' | 'off' | 'idle' | null} [engine_status]
+ * @property {Map<string, string>} [geofences] geofences the vehicle is inside, id -> name
+ * @property {Map<string, { event: 'enter' | 'exit', name: string }>} [crossings] geofences crossed by this fix
+ */
+
+/**
+ * @typedef {Object} RuleState
+ * @property {number} since   when the conditions started to hold
+ * @property {number} lastAt  last update they held
+ * @property {import('./alertEpisodes.js').AlertEpisode | null} episode
+ */
+
+// Fields compared with gt/gte/lt/lte
+const NUMERIC_FIELDS = new Set(['speed', 'speed_over_limit', 'fuel_percent', 'battery_voltage']);
+// Conditions that held before a longer silence start over
+const MAX_GAP_MS = 5 * 60 * 1000;
+
+/**
+ * @param {string} field
+ * @param {Telemetry} telemetry
+ * @returns {number | null}
+ */
+function numericValue(field, telemetry) {
+  /** @type {number | null | undefined} */
+  let value;
+  switch (field) {
+    case 'speed_over_limit':
+      if (telemetry.speed_limit == null || telemetry.speed == null) return null;
+      return telemetry.speed - telemetry.speed_limit;
+    case 'speed': value = telemetry.speed; break;
+    case 'fuel_percent': value = telemetry.fuel_percent; break;
+    case 'battery_voltage': value = telemetry.battery_voltage; break;
+    default: return null;
+  }
+  return typeof value === 'number' && isFinite(value) ? value : null;
+}
+
+/**
+ * @param {RuleCondition | RuleGroup} node
+ * @returns {node is RuleGroup}
+ */
+function isGroup(node) {
+  return 'conditions' in node && Array.isArray(node.conditions);
+}
+
+/**
+ * @param {RuleCondition} condition
+ * @param {Telemetry} telemetry
+ * @param {string} timezone
+ */
+function evaluateCondition(condition, telemetry, timezone) {
+  const { field, op, value } = condition;
+
+  if (NUMERIC_FIELDS.has(field)) {
+    const actual = numericValue(field, telemetry);
+    const expected = Number(value);
+    if (actual === null || !isFinite(expected)) return false;
+    switch (op) {
+      case 'gt': return actual > expected;
+      case 'gte': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'lte': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  if (field === 'engine_status') {
+    if (!telemetry.engine_status) return false;
+    return op === 'neq' ? telemetry.engine_status !== value : telemetry.engine_status === value;
+  }
+
+  if (field === 'time_of_day') {
+    if (!Array.isArray(value) || value.length !== 2) return false;
+    return inClockWindow(localClock(telemetry.at ?? Date.now(), timezone).minutes, value[0], value[1]);
+  }
+
+  if (field === 'geofence') {
+    const crossing = telemetry.crossings ? telemetry.crossings.get(value) : undefined;
+    switch (op) {
+      case 'inside': return Boolean(telemetry.geofences && telemetry.geofences.has(value));
+      // Membership is unknown before the first fix
+      case 'outside': return Boolean(telemetry.geofences && !telemetry.geofences.has(value));
+      case 'enters': return crossing !== undefined && crossing.event === 'enter';
+      case 'exits': return crossing !== undefined && crossing.event === 'exit';
+      default: return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether a condition tree holds, an empty group never does.
+ * @param {RuleCondition | RuleGroup} node
+ * @param {Telemetry} telemetry
+ * @param {string} [timezone]
+ * @returns {boolean}
+ */
+export function evaluateConditions(node, telemetry, timezone = 'UTC') {
+  if (!node) return false;
+  if (!isGroup(node)) return evaluateCondition(node, telemetry, timezone);
+  if (node.conditions.length === 0) return false;
+  return node.operator === 'or'
+    ? node.conditions.some((child) => evaluateConditions(child, telemetry, timezone))
+    : node.conditions.every((child) => evaluateConditions(child, telemetry, timezone));
+}
+
+/**
+ * Leaf conditions of a tree, depth first.
+ * @param {RuleCondition | RuleGroup} node
+ * @returns {RuleCondition[]}
+ */
+function leaves(node) {
+  if (!node) return [];
+  return isGroup(node) ? node.conditions.flatMap(leaves) : [node];
+}
+
+/**
+ * Human readable value of the field a condition looks at.
+ * @param {RuleCondition} condition
+ * @param {Telemetry} telemetry
+ * @param {string} timezone
+ */
+function describeCondition(condition, telemetry, timezone) {
+  const { field, op, value } = condition;
+  switch (field) {
+    case 'speed':
+      return `speed ${telemetry.speed?.toFixed(1)} km/h`;
+    case 'speed_over_limit': {
+      const over = numericValue(field, telemetry) ?? 0;
+      const where = telemetry.speed_limit_zone ? ` in ${telemetry.speed_limit_zone}` : '';
+      return `${telemetry.speed?.toFixed(1)} km/h, ${over.toFixed(1)} km/h over the ${telemetry.speed_limit} km/h limit${where}`;
+    }
+    case 'fuel_percent':
+      return `fuel ${telemetry.fuel_percent?.toFixed(0)}%`;
+    case 'battery_voltage':
+      return `battery ${telemetry.battery_voltage?.toFixed(1)} V`;
+    case 'engine_status':
+      return `engine ${telemetry.engine_status}`;
+    case 'time_of_day': {
+      const minutes = localClock(telemetry.at ?? Date.now(), timezone).minutes;
+      return `at ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    }
+    case 'geofence': {
+      const name = telemetry.crossings?.get(value)?.name || telemetry.geofences?.get(value) || 'geofence';
+      if (op === 'enters') return `entered ${name}`;
+      if (op === 'exits') return `left ${name}`;
+      return op === 'outside' ? `outside ${name}` : `inside ${name}`;
+    }
+    default:
+      return field;
+  }
+}
+
+/** @param {number} seconds */
+function formatDuration(seconds) {
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${Math.floor(seconds / 3600)} h ${Math.round((seconds % 3600) / 60)} min`;
+}
+
+/**
+ * Columns of the alert a rule raises for a vehicle.
+ * @param {AlertRule} rule
+ * @param {{ id: string, user_id: string }} vehicle
+ * @param {Telemetry} telemetry
+ * @param {number} since when the conditions started to hold
+ */
+export function ruleAlert(rule, vehicle, telemetry, since) {
+  const conditions = leaves(rule.conditions)
+    .filter((condition) => evaluateCondition(condition, telemetry, rule.timezone));
+  const details = [...new Set(conditions.map((condition) => describeCondition(condition, telemetry, rule.timezone)))];
+  const heldSeconds = Math.round(((telemetry.at ?? Date.now()) - since) / 1000);
+  const geofence = conditions.find((condition) => condition.field === 'geofence');
+  const message = details.join(', ') + (rule.duration_seconds > 0 ? ` for ${formatDuration(heldSeconds)}` : '');
+
+  return {
+    user_id: vehicle.user_id,
+    vehicle_id: vehicle.id,
+    rule_id: rule.id,
+    alert_type: rule.alert_type,
+    severity: rule.severity,
+    title: rule.name,
+    message: message.charAt(0).toUpperCase() + message.slice(1),
+    geofence_id: geofence ? geofence.value : null,
+    location_lat: telemetry.latitude ?? null,
+    location_lon: telemetry.longitude ?? null,
+    speed: telemetry.speed ?? null,
+    metadata: {
+      rule_name: rule.name,
+      conditions_met: details,
+      held_since: new Date(since).toISOString(),
+      held_seconds: heldSeconds,
+      speed_limit_kmh: telemetry.speed_limit ?? null,
+      fuel_percent: telemetry.fuel_percent ?? null,
+      battery_voltage: telemetry.battery_voltage ?? null,
+      engine_status: telemetry.engine_status ?? null,
+    },
+  };
+}
+
+/**
+ * Fields of a telemetry update that are set, the others keep their last value.
+ * @param {Omit<Telemetry, 'crossings'>} update
+ * @returns {Telemetry}
+ */
+function definedValues(update) {
+  return /** @type {Telemetry} */ (Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)));
+}
+
+/**
+ * Value kept as the episode peak: the first numeric field the rule looks at.
+ * @param {AlertRule} rule
+ * @param {Telemetry} telemetry
+ * @returns {number | null}
+ */
+function peakValue(rule, telemetry) {
+  const numeric = leaves(rule.conditions).find((condition) => NUMERIC_FIELDS.has(condition.field));
+  return numeric ? numericValue(numeric.field, telemetry) : null;
+}
+
+/**
+ * @typedef {Object} RuleEngineOptions
+ * @property {import('./alertEpisodes.js').AlertEpisodes} alertEpisodes
+ * @property {number} [cacheTtlMs] How long rules and vehicle_health rows are cached, rules
+ *   edited in the dashboard apply within this delay
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {RuleEngineOptions} options
+ */
+export function createRuleEngine(supabase, options) {
+  const { alertEpisodes, cacheTtlMs = 60000 } = options;
+
+  /** @type {import('./cache.js').TtlCache<{ rules: AlertRule[], groups: Map<string, Set<string>> }>} */
+  const rules = createTtlCache(cacheTtlMs);
+  /** @type {import('./cache.js').TtlCache<Telemetry>} */
+  const health = createTtlCache(cacheTtlMs);
+  // vehicle_id -> telemetry received live, without the crossings of the last fix
+  /** @type {Map<string, Telemetry>} */
+  const live = new Map();
+  // `${rule_id}:${vehicle_id}` -> state of rules whose conditions hold
+  /** @type {Map<string, RuleState>} */
+  const states = new Map();
+
+  /**
+   * Enabled rules of an organization, with the members of the groups they target.
+   * @param {string} organizationId
+   */
+  const getRules = (organizationId) => rules.getOrLoad(organizationId, async () => {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('is_enabled', true);
+
+    if (error) throw error;
+
+    /** @type {Map<string, Set<string>>} */
+    const groups = new Map();
+    const groupIds = [...new Set((data || []).map((rule) => rule.group_id).filter(Boolean))];
+    if (groupIds.length > 0) {
+      const { data: members, error: membersError } = await supabase
+        .from('vehicle_group_members')
+        .select('group_id, vehicle_id')
+        .in('group_id', groupIds);
+
+      if (membersError) throw membersError;
+      for (const member of members || []) {
+        if (!groups.has(member.group_id)) groups.set(member.group_id, new Set());
+        /** @type {Set<string>} */ (groups.get(member.group_id)).add(member.vehicle_id);
+      }
+    }
+
+    return { rules: /** @type {AlertRule[]} */ (data || []), groups };
+  });
+
+  /**
+   * Latest vehicle_health values, the source of fuel levels.
+   * @param {string} vehicleId
+   */
+  const getHealth = (vehicleId) => health.getOrLoad(vehicleId, async () => {
+    const { data } = await supabase
+      .from('vehicle_health')
+      .select('engine_status, battery_voltage, fuel_level_percent')
+      .eq('vehicle_id', vehicleId)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    /** @type {Telemetry} */
+    const telemetry = {};
+    if (!data) return telemetry;
+    if (data.engine_status) telemetry.engine_status = data.engine_status;
+    if (data.battery_voltage != null) telemetry.battery_voltage = Number(data.battery_voltage);
+    if (data.fuel_level_percent != null) telemetry.fuel_percent = Number(data.fuel_level_percent);
+    return telemetry;
+  });
+
+  /**
+   * @param {AlertRule} rule
+   * @param {string} vehicleId
+   * @param {Map<string, Set<string>>} groups
+   */
+  const inScope = (rule, vehicleId, groups) => {
+    if (rule.scope_type === 'vehicle') return rule.vehicle_id === vehicleId;
+    if (rule.scope_type === 'group') return Boolean(rule.group_id && groups.get(rule.group_id)?.has(vehicleId));
+    return true;
+  };
+
+  /**
+   * @param {AlertRule} rule
+   * @param {{ id: string, user_id: string }} vehicle
+   * @param {Telemetry} telemetry
+   * @param {number} at
+   */
+  const evaluate = async (rule, vehicle, telemetry, at) => {
+    const key = `${rule.id}:${vehicle.id}`;
+    let state = states.get(key);
+
+    if (!evaluateConditions(rule.conditions, telemetry, rule.timezone)) {
+      if (!state) return;
+      states.delete(key);
+      if (state.episode) await alertEpisodes.resolve(state.episode, {}, at);
+      return;
+    }
+
+    if (!state || at - state.lastAt > MAX_GAP_MS) {
+      state = { since: at, lastAt: at, episode: state ? state.episode : null };
+      states.set(key, state);
+    }
+    state.lastAt = at;
+    if (at - state.since < rule.duration_seconds * 1000) return;
+
+    const alert = ruleAlert(rule, vehicle, telemetry, state.since);
+    const value = peakValue(rule, telemetry);
+
+    if (!state.episode || state.episode.status === 'closed') {
+      state.episode = await alertEpisodes.raise(alert, { scope: rule.id, value, at });
+    } else {
+      await alertEpisodes.update(state.episode, alert, { value, at });
+    }
+  };
+
+  /**
+   * Merges new telemetry of a vehicle and evaluates the rules in scope.
+   * @param {{ id: string, user_id: string, organization_id: string }} vehicle
+   * @param {Telemetry} update
+   */
+  const observe = async (vehicle, update) => {
+    const [config, stored] = await Promise.all([getRules(vehicle.organization_id), getHealth(vehicle.id)]);
+    if (config.rules.length === 0) return;
+
+    const { crossings, ...values } = update;
+    /** @type {Telemetry} */
+    const current = { ...(live.get(vehicle.id) || {}), ...definedValues(values) };
+    live.set(vehicle.id, current);
+
+    const at = update.at ?? Date.now();
+    /** @type {Telemetry} */
+    const telemetry = { ...stored, ...current, crossings, at };
+
+    for (const rule of config.rules) {
+      if (!inScope(rule, vehicle.id, config.groups)) continue;
+      try {
+        await evaluate(rule, vehicle, telemetry, at);
+      } catch (error) {
+        console.error(`Error evaluating alert rule ${rule.id}:`, error);
+      }
+    }
+  };
+
+  return { observe };
+}
+
+/** @typedef {ReturnType<typeof createRuleEngine>} RuleEngine */
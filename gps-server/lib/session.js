@@ -0,0 +1,112 @@
+// Per-connection state for devices speaking a TCP protocol.
+//
+// A session buffers partial frames across `data` events, remembers which device logged in on
+// the socket (GT06 and Teltonika only send the IMEI once, in the login packet) and writes the
+// protocol level responses devices wait for before sending more data.
+
+import { decode, encodeGt06Response, encodeTeltonikaImeiAck, encodeTeltonikaRecordAck } from '../protocols/index.js';
+
+/** @typedef {import('../protocols/types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('../protocols/types.js').ProtocolName} ProtocolName */
+
+/**
+ * @typedef {Object} DeviceSession
+ * @property {string} remoteAddr
+ * @property {() => string | null} getDeviceId
+ * @property {() => ProtocolName | null} getProtocol
+ * @property {() => Date} getLastSeen
+ * @property {(data: Buffer) => DecodedMessage[]} receive Decodes a chunk, answers the device and returns messages with `device_id` filled in
+ */
+
+// Some devices flood the socket with garbage, never keep more than this many unparsed bytes
+// unless they start a frame whose header declares a larger size (the decoders bound that size)
+const MAX_PENDING_BYTES = 4096;
+
+/**
+ * @param {import('net').Socket} socket
+ * @returns {DeviceSession}
+ */
+export function createDeviceSession(socket) {
+  const remoteAddr = socket.remoteAddress || 'unknown';
+
+  /** @type {string | null} */
+  let deviceId = null;
+  /** @type {ProtocolName | null} */
+  let protocol = null;
+  let pending = Buffer.alloc(0);
+  let lastSeen = new Date();
+
+  /**
+   * @param {DecodedMessage} message
+   */
+  const reply = (message) => {
+    switch (message.protocol) {
+      case 'gt06':
+        // Location packets are not acknowledged, only login, heartbeat and alarm packets
+        if (message.type !== 'location' && message.packet !== undefined && message.serial !== null) {
+          socket.write(encodeGt06Response(message.packet, message.serial));
+        }
+        break;
+
+      case 'teltonika':
+        if (message.type === 'login') socket.write(encodeTeltonikaImeiAck(true));
+        break;
+
+      case 'tk103':
+        // Xexun dialect expects LOAD after login and ON after heartbeats
+        if (message.type === 'login') socket.write('LOAD');
+        if (message.type === 'heartbeat') socket.write('ON');
+        break;
+
+      default:
+        break;
+    }
+  };
+
+  /**
+   * @param {Buffer} data
+   * @returns {DecodedMessage[]}
+   */
+  const receive = (data) => {
+    lastSeen = new Date();
+
+    const chunk = pending.length > 0 ? Buffer.concat([pending, data]) : data;
+    // A chunk that fails to decode is dropped with the bytes it was prepended with
+    pending = Buffer.alloc(0);
+    const result = decode(chunk);
+
+    const maxPending = Math.max(MAX_PENDING_BYTES, result.frameSize ?? 0);
+    pending = result.remaining.length <= maxPending ? Buffer.from(result.remaining) : Buffer.alloc(0);
+
+    if (!result.protocol) return [];
+    protocol = result.protocol;
+
+    for (const message of result.messages) {
+      if (message.type === 'login' && message.device_id) {
+        deviceId = message.device_id;
+      }
+
+      // Protocols without an identifier in every frame inherit the one from the login packet
+      if (!message.device_id) {
+        message.device_id = deviceId;
+      }
+
+      reply(message);
+    }
+
+    const locations = result.messages.filter((message) => message.type !== 'login');
+    if (protocol === 'teltonika' && locations.length > 0) {
+      socket.write(encodeTeltonikaRecordAck(locations.length));
+    }
+
+    return result.messages;
+  };
+
+  return {
+    remoteAddr,
+    getDeviceId: () => deviceId,
+    getProtocol: () => protocol,
+    getLastSeen: () => lastSeen,
+    receive,
+  };
+}
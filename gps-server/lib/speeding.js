@@ -0,0 +1,79 @@
+// Speed limit in force at a position.
+//
+// Speed-limit zones are geofences with `purpose = 'speed_limit'` and a `speed_limit_kmh`,
+// drawn in the dashboard or imported from OpenStreetMap (scripts/import-osm-speed-limits.js).
+// Where zones overlap the lowest limit applies, outside all zones the vehicle's own
+// `max_speed_limit` does. Alert rules compare the speed with it through the
+// `speed_over_limit` field (see rules.js).
+
+import { isPointInGeofence } from '../../shared/geometry.js';
+
+/**
+ * @typedef {Object} SpeedLimit
+ * @property {number} limit    km/h
+ * @property {'zone' | 'vehicle'} source
+ * @property {any} [zone]      geofences row of the applicable zone
+ */
+
+// Degrees of latitude per meter, for the bounding band of circle zones
+const DEGREES_PER_METER = 1 / 111320;
+
+/**
+ * Latitude band of a zone, used to skip zones far from a fix before the exact test.
+ * @param {any} zone
+ * @returns {[number, number]}
+ */
+function latitudeBand(zone) {
+  if (zone.zone_type === 'circle') {
+    const margin = Number(zone.radius_meters || 0) * DEGREES_PER_METER;
+    return [Number(zone.center_lat) - margin, Number(zone.center_lat) + margin];
+  }
+
+  const rings = Array.isArray(zone.polygon_coordinates) ? zone.polygon_coordinates : [];
+  const points = rings.length > 0 && Array.isArray(rings[0]) ? rings.flat() : rings;
+  if (points.length === 0) return [Infinity, -Infinity];
+  let min = Infinity;
+  let max = -Infinity;
+  for (const point of points) {
+    min = Math.min(min, point.lat);
+    max = Math.max(max, point.lat);
+  }
+  return [min, max];
+}
+
+/** @type {WeakMap<object, [number, number]>} */
+const bands = new WeakMap();
+
+/**
+ * Limit in force at a position.
+ * @param {number} latitude
+ * @param {number} longitude
+ * @param {any[]} geofences active geofences of the owner, speed-limit zones are picked out
+ * @param {any} settings vehicle_settings row
+ * @returns {SpeedLimit | null}
+ */
+export function applicableSpeedLimit(latitude, longitude, geofences, settings) {
+  /** @type {SpeedLimit | null} */
+  let best = null;
+
+  for (const zone of geofences) {
+    if (zone.purpose !== 'speed_limit' || !zone.speed_limit_kmh) continue;
+
+    let band = bands.get(zone);
+    if (!band) {
+      band = latitudeBand(zone);
+      bands.set(zone, band);
+    }
+    if (latitude < band[0] || latitude > band[1]) continue;
+    if (!isPointInGeofence(latitude, longitude, zone)) continue;
+
+    const limit = Number(zone.speed_limit_kmh);
+    if (!best || limit < best.limit) best = { limit, source: 'zone', zone };
+  }
+
+  if (best) return best;
+  if (settings && settings.enable_speed_alerts && settings.max_speed_limit) {
+    return { limit: Number(settings.max_speed_limit), source: 'vehicle' };
+  }
+  return null;
+}
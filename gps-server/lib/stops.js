@@ -0,0 +1,253 @@
+// Stop and idle detection.
+//
+// A stop is a run of consecutive fixes below the moving speed that stay within
+// STOP_RADIUS_METERS of their centroid. Each stop records where the vehicle stood, when it
+// arrived and left, and for how long the engine kept running meanwhile (idle time). The
+// trip detector stores the stops inside a trip in trip_routes.stops_data, the idle monitor
+// follows the live stream and raises idle_too_long alerts.
+
+import { haversineDistance } from '../../shared/geometry.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./trips.js').TripPoint} TripPoint */
+/** @typedef {import('./trips.js').IgnitionEvent} IgnitionEvent */
+
+/**
+ * @typedef {Object} StopRecord
+ * @property {number} latitude    centroid of the stationary fixes
+ * @property {number} longitude
+ * @property {number} arrivedAt   ms since epoch
+ * @property {number | null} departedAt first moving fix, null while the vehicle is still there
+ * @property {number} durationMs  until departure, or until the last fix of an open stop
+ * @property {number | null} idleMs time with the engine running, null without ignition data
+ */
+
+/**
+ * @typedef {Object} StopOptions
+ * @property {number} minSpeedKmh Fixes at or above this speed are moving
+ * @property {number} minStopMs   Shorter stops are dropped, open stops are always kept
+ */
+
+// Stationary fixes drifting further than this from the stop centroid start a new stop
+export const STOP_RADIUS_METERS = 50;
+
+/**
+ * Time the engine was on within [from, to], null when no ignition state is known.
+ * @param {IgnitionEvent[]} ignition time ordered
+ * @param {number} from
+ * @param {number} to
+ * @returns {number | null}
+ */
+export function engineOnDuration(ignition, from, to) {
+  let state = null;
+  let index = 0;
+  while (index < ignition.length && ignition[index].time <= from) {
+    state = ignition[index].on;
+    index++;
+  }
+  if (state === null && (index >= ignition.length || ignition[index].time > to)) return null;
+
+  let onMs = 0;
+  let cursor = from;
+  for (; index < ignition.length && ignition[index].time < to; index++) {
+    if (state) onMs += ignition[index].time - cursor;
+    cursor = ignition[index].time;
+    state = ignition[index].on;
+  }
+  if (state) onMs += to - cursor;
+  return onMs;
+}
+
+/**
+ * Clusters stationary fixes into stops.
+ * @param {TripPoint[]} points time ordered
+ * @param {IgnitionEvent[]} ignition time ordered
+ * @param {StopOptions} options
+ * @returns {StopRecord[]}
+ */
+export function clusterStops(points, ignition, options) {
+  /** @type {StopRecord[]} */
+  const stops = [];
+
+  /** @type {{ first: TripPoint, last: TripPoint, latSum: number, lonSum: number, count: number } | null} */
+  let cluster = null;
+
+  /** @param {number | null} departedAt */
+  const close = (departedAt) => {
+    if (!cluster) return;
+    const arrivedAt = cluster.first.time;
+    const until = departedAt ?? cluster.last.time;
+    const durationMs = until - arrivedAt;
+
+    if (departedAt === null || durationMs >= options.minStopMs) {
+      stops.push({
+        latitude: cluster.latSum / cluster.count,
+        longitude: cluster.lonSum / cluster.count,
+        arrivedAt,
+        departedAt,
+        durationMs,
+        idleMs: engineOnDuration(ignition, arrivedAt, until),
+      });
+    }
+    cluster = null;
+  };
+
+  for (const point of points) {
+    if (point.speed >= options.minSpeedKmh) {
+      close(point.time);
+      continue;
+    }
+
+    if (cluster) {
+      const distance = haversineDistance(
+        cluster.latSum / cluster.count,
+        cluster.lonSum / cluster.count,
+        point.latitude,
+        point.longitude
+      );
+      if (distance > STOP_RADIUS_METERS) close(point.time);
+    }
+
+    if (!cluster) {
+      cluster = { first: point, last: point, latSum: 0, lonSum: 0, count: 0 };
+    }
+    cluster.last = point;
+    cluster.latSum += point.latitude;
+    cluster.lonSum += point.longitude;
+    cluster.count++;
+  }
+
+  close(null);
+  return stops;
+}
+
+/**
+ * trip_routes.stops_data entry for a completed stop.
+ * @param {StopRecord} stop
+ */
+export function stopRow(stop) {
+  return {
+    latitude: Math.round(stop.latitude * 1e6) / 1e6,
+    longitude: Math.round(stop.longitude * 1e6) / 1e6,
+    started_at: new Date(stop.arrivedAt).toISOString(),
+    ended_at: new Date(stop.arrivedAt + stop.durationMs).toISOString(),
+    duration_minutes: Math.round(stop.durationMs / 60000),
+    idle_minutes: stop.idleMs === null ? null : Math.round(stop.idleMs / 60000),
+  };
+}
+
+/**
+ * @typedef {Object} IdleMonitorOptions
+ * @property {(vehicleId: string) => Promise<any>} getVehicleSettings vehicle_settings lookup, shared with the ingestion pipeline
+ * @property {number} [minSpeedKmh] Fixes below this speed count as standing still
+ */
+
+/**
+ * @typedef {Object} IdleEvent
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} arrivedAt
+ * @property {number} idleMinutes
+ * @property {number} limitMinutes
+ */
+
+/**
+ * Live idle tracking. Fixes and ignition changes of each vehicle are fed in as they arrive,
+ * a vehicle standing still with the engine on for longer than `max_idle_time_minutes`
+ * yields one idle event per stop.
+ * @param {SupabaseClient} supabase
+ * @param {IdleMonitorOptions} options
+ */
+export function createIdleMonitor(supabase, options) {
+  const { getVehicleSettings, minSpeedKmh = 5 } = options;
+
+  /** @type {Map<string, { latitude: number, longitude: number, arrivedAt: number, alerted: boolean }>} */
+  const stationary = new Map();
+  /** @type {Map<string, IgnitionEvent[]>} */
+  const ignitionByVehicle = new Map();
+
+  /**
+   * Ignition changes since the vehicle was last seen moving, seeded from vehicle_health.
+   * @param {string} vehicleId
+   * @returns {Promise<IgnitionEvent[]>}
+   */
+  const getIgnition = async (vehicleId) => {
+    const known = ignitionByVehicle.get(vehicleId);
+    if (known) return known;
+
+    const { data } = await supabase
+      .from('vehicle_health')
+      .select('engine_status, recorded_at')
+      .eq('vehicle_id', vehicleId)
+      .in('engine_status', ['on', 'off', 'idle'])
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const events = data ? [{ time: Date.parse(data.recorded_at), on: data.engine_status !== 'off' }] : [];
+    if (!ignitionByVehicle.has(vehicleId)) ignitionByVehicle.set(vehicleId, events);
+    return /** @type {IgnitionEvent[]} */ (ignitionByVehicle.get(vehicleId));
+  };
+
+  /**
+   * @param {string} vehicleId
+   * @param {boolean} on
+   * @param {number} time
+   */
+  const recordIgnition = async (vehicleId, on, time) => {
+    const events = await getIgnition(vehicleId);
+    const last = events[events.length - 1];
+    if (last && last.on === on) return;
+    events.push({ time, on });
+  };
+
+  /**
+   * Evaluates a live fix, returns an event when the vehicle has just idled too long.
+   * @param {{ id: string }} vehicle
+   * @param {{ latitude: number, longitude: number, speed: number, timestamp: string }} location
+   * @returns {Promise<IdleEvent | null>}
+   */
+  const check = async (vehicle, location) => {
+    const time = Date.parse(location.timestamp);
+    const current = stationary.get(vehicle.id);
+
+    const moved = location.speed >= minSpeedKmh || (current && haversineDistance(
+      current.latitude, current.longitude, location.latitude, location.longitude
+    ) > STOP_RADIUS_METERS);
+
+    if (moved || !current) {
+      stationary.delete(vehicle.id);
+      const events = await getIgnition(vehicle.id);
+      // Only the state at the start of the next stop matters
+      if (events.length > 1) events.splice(0, events.length - 1);
+      if (location.speed < minSpeedKmh) {
+        stationary.set(vehicle.id, { latitude: location.latitude, longitude: location.longitude, arrivedAt: time, alerted: false });
+      }
+      return null;
+    }
+
+    if (current.alerted) return null;
+
+    const settings = await getVehicleSettings(vehicle.id);
+    if (!settings || !settings.enable_idle_alerts || !settings.max_idle_time_minutes) return null;
+
+    const idleMs = engineOnDuration(await getIgnition(vehicle.id), current.arrivedAt, time);
+    if (idleMs === null) return null;
+
+    const idleMinutes = idleMs / 60000;
+    if (idleMinutes < settings.max_idle_time_minutes) return null;
+
+    current.alerted = true;
+    return {
+      latitude: current.latitude,
+      longitude: current.longitude,
+      arrivedAt: current.arrivedAt,
+      idleMinutes: Math.round(idleMinutes),
+      limitMinutes: settings.max_idle_time_minutes,
+    };
+  };
+
+  return { recordIgnition, check };
+}
+
+/** @typedef {ReturnType<typeof createIdleMonitor>} IdleMonitor */
@@ -0,0 +1,516 @@
+// Automatic trip detection.
+//
+// A periodic job reads the gps_locations of every vehicle (trackers and driver phones) since
+// the last detected trip and cuts them into trips:
+//   - a trip starts with the first fix at or above `trip_min_speed_kmh` while the ignition
+//     is not known to be off
+//   - it ends when the ignition turns off, when the vehicle stays below that speed for
+//     `trip_end_dwell_minutes`, or when the device goes silent for that long
+//   - shorter stationary periods of at least `trip_min_stop_minutes` are recorded as stops,
+//     with their engine-on idle time (see stops.js)
+//   - trips shorter than `trip_min_distance_km` or `trip_min_duration_minutes` are dropped
+// Completed trips are written to trip_routes and linked to the scheduled trip of the same
+// vehicle whose departure/arrival window overlaps them the most. Fixes uploaded late by
+// store-and-forward trackers can be older than the point detection had reached: when fixes
+// received since the last run predate it, the vehicle is read again from the start of the
+// detected trip before them, and the trips of that span are rewritten (routes replaced by a
+// trip with another start are deleted).
+
+import { haversineDistance } from '../../shared/geometry.js';
+import { clusterStops, stopRow } from './stops.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * vehicles row read by the job
+ * @typedef {Object} TripVehicle
+ * @property {string} id
+ * @property {string} user_id
+ */
+
+/**
+ * @typedef {Object} TripPoint
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed  km/h
+ * @property {number} time   ms since epoch
+ */
+
+/**
+ * @typedef {Object} IgnitionEvent
+ * @property {number} time
+ * @property {boolean} on
+ */
+
+/**
+ * @typedef {Object} TripThresholds
+ * @property {boolean} useIgnition
+ * @property {number} minSpeedKmh
+ * @property {number} endDwellMs
+ * @property {number} minStopMs
+ * @property {number} minDistanceKm
+ * @property {number} minDurationMs
+ */
+
+/** @typedef {ReturnType<typeof stopRow>} TripStop */
+
+/**
+ * @typedef {Object} DetectedTrip
+ * @property {TripPoint[]} points
+ * @property {TripStop[]} stops
+ * @property {number} startedAt
+ * @property {number} endedAt
+ * @property {number} distanceKm
+ * @property {number} maxSpeed
+ */
+
+/**
+ * @typedef {Object} SegmentResult
+ * @property {DetectedTrip[]} trips   Completed trips that passed the minimum distance and duration
+ * @property {number | null} openSince Start of a trip still in progress, to be read again on the next run
+ */
+
+// Scheduled trips are matched when their window overlaps the detected trip, allowing this much slack
+const LINK_TOLERANCE_MS = 30 * 60 * 1000;
+// Upper bound on fixes read per vehicle and run
+const MAX_POINTS_PER_RUN = 10000;
+// Route points stored per trip, longer trips are thinned out evenly
+const MAX_ROUTE_POINTS = 2000;
+
+/**
+ * Thresholds from a vehicle_settings row, with defaults for vehicles without settings.
+ * @param {any} settings
+ * @returns {TripThresholds}
+ */
+export function tripThresholds(settings) {
+  /** @param {string} key @param {number} fallback */
+  const value = (key, fallback) => (settings && settings[key] != null ? Number(settings[key]) : fallback);
+  return {
+    useIgnition: !settings || settings.trip_use_ignition !== false,
+    minSpeedKmh: value('trip_min_speed_kmh', 5),
+    endDwellMs: value('trip_end_dwell_minutes', 5) * 60 * 1000,
+    minStopMs: value('trip_min_stop_minutes', 2) * 60 * 1000,
+    minDistanceKm: value('trip_min_distance_km', 0.3),
+    minDurationMs: value('trip_min_duration_minutes', 2) * 60 * 1000,
+  };
+}
+
+/**
+ * @param {TripPoint[]} points
+ * @returns {number}
+ */
+function pathLengthKm(points) {
+  let meters = 0;
+  for (let i = 1; i < points.length; i++) {
+    meters += haversineDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude);
+  }
+  return meters / 1000;
+}
+
+/**
+ * Splits time ordered fixes into trips.
+ * @param {TripPoint[]} points
+ * @param {IgnitionEvent[]} ignition time ordered, the first event may predate the first point
+ * @param {TripThresholds} thresholds
+ * @param {number} now
+ * @returns {SegmentResult}
+ */
+export function segmentTrips(points, ignition, thresholds, now) {
+  /** @type {DetectedTrip[]} */
+  const trips = [];
+
+  let ignitionIndex = -1;
+  /** @param {number} time @returns {boolean | null} */
+  const ignitionAt = (time) => {
+    if (!thresholds.useIgnition) return null;
+    while (ignitionIndex + 1 < ignition.length && ignition[ignitionIndex + 1].time <= time) ignitionIndex++;
+    return ignitionIndex >= 0 ? ignition[ignitionIndex].on : null;
+  };
+
+  /** @type {{ points: TripPoint[], stationaryIndex: number } | null} */
+  let current = null;
+
+  /** @param {number} endIndex last point of the trip */
+  const close = (endIndex) => {
+    if (!current) return;
+    const tripPoints = current.points.slice(0, endIndex + 1);
+    const startedAt = tripPoints[0].time;
+    const endedAt = tripPoints[tripPoints.length - 1].time;
+    const distanceKm = pathLengthKm(tripPoints);
+
+    if (distanceKm >= thresholds.minDistanceKm && endedAt - startedAt >= thresholds.minDurationMs) {
+      const stops = clusterStops(tripPoints, ignition, { minSpeedKmh: thresholds.minSpeedKmh, minStopMs: thresholds.minStopMs })
+        .filter((stop) => stop.departedAt !== null);
+
+      trips.push({
+        points: tripPoints,
+        stops: stops.map(stopRow),
+        startedAt,
+        endedAt,
+        distanceKm,
+        maxSpeed: Math.max(...tripPoints.map((point) => point.speed)),
+      });
+    }
+    current = null;
+  };
+
+  for (const point of points) {
+    const ignitionOn = ignitionAt(point.time);
+    const moving = point.speed >= thresholds.minSpeedKmh && ignitionOn !== false;
+
+    if (current) {
+      const last = current.points[current.points.length - 1];
+
+      // The device went silent long enough for the vehicle to have parked
+      if (point.time - last.time >= thresholds.endDwellMs) {
+        close(current.stationaryIndex >= 0 ? current.stationaryIndex : current.points.length - 1);
+      }
+    }
+
+    if (!current) {
+      if (moving) current = { points: [point], stationaryIndex: -1 };
+      continue;
+    }
+
+    current.points.push(point);
+
+    if (ignitionOn === false) {
+      close(current.points.length - 1);
+      continue;
+    }
+
+    if (!moving) {
+      if (current.stationaryIndex < 0) current.stationaryIndex = current.points.length - 1;
+      const stationary = current.points[current.stationaryIndex];
+      if (point.time - stationary.time >= thresholds.endDwellMs) close(current.stationaryIndex);
+      continue;
+    }
+
+    current.stationaryIndex = -1;
+  }
+
+  if (current) {
+    const last = current.points[current.points.length - 1];
+    const stationarySince = current.stationaryIndex >= 0 ? current.points[current.stationaryIndex].time : last.time;
+
+    if (ignitionAt(now) === false || now - stationarySince >= thresholds.endDwellMs) {
+      close(current.stationaryIndex >= 0 ? current.stationaryIndex : current.points.length - 1);
+    }
+  }
+
+  return { trips, openSince: current ? current.points[0].time : null };
+}
+
+/**
+ * @param {TripPoint[]} points
+ * @returns {TripPoint[]}
+ */
+function thinOut(points) {
+  if (points.length <= MAX_ROUTE_POINTS) return points;
+  const step = (points.length - 1) / (MAX_ROUTE_POINTS - 1);
+  return Array.from({ length: MAX_ROUTE_POINTS }, (_, i) => points[Math.round(i * step)]);
+}
+
+/**
+ * trip_routes row for a detected trip.
+ * @param {TripVehicle} vehicle
+ * @param {DetectedTrip} trip
+ * @param {string | null} scheduledTripId
+ */
+export function tripRouteRow(vehicle, trip, scheduledTripId) {
+  const durationMinutes = (trip.endedAt - trip.startedAt) / 60000;
+  const first = trip.points[0];
+  const last = trip.points[trip.points.length - 1];
+
+  return {
+    trip_id: scheduledTripId,
+    vehicle_id: vehicle.id,
+    user_id: vehicle.user_id,
+    source: 'detected',
+    started_at: new Date(trip.startedAt).toISOString(),
+    ended_at: new Date(trip.endedAt).toISOString(),
+    start_latitude: first.latitude,
+    start_longitude: first.longitude,
+    end_latitude: last.latitude,
+    end_longitude: last.longitude,
+    route_points: thinOut(trip.points).map((point) => ({
+      lat: point.latitude,
+      lon: point.longitude,
+      timestamp: new Date(point.time).toISOString(),
+      speed: point.speed,
+    })),
+    total_distance_km: Math.round(trip.distanceKm * 100) / 100,
+    total_duration_minutes: Math.round(durationMinutes),
+    average_speed: durationMinutes > 0 ? Math.round((trip.distanceKm / (durationMinutes / 60)) * 100) / 100 : 0,
+    max_speed: trip.maxSpeed,
+    stops_count: trip.stops.length,
+    stops_data: trip.stops,
+  };
+}
+
+/**
+ * @typedef {Object} TripDetectorOptions
+ * @property {(vehicleId: string) => Promise<any>} getVehicleSettings vehicle_settings lookup, shared with the ingestion pipeline
+ * @property {number} [intervalMs] Time between runs
+ * @property {number} [lookbackMs] How far back the first run of a vehicle reads, and late fixes are looked for
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {TripDetectorOptions} options
+ */
+export function createTripDetector(supabase, options) {
+  const { getVehicleSettings, intervalMs = 5 * 60 * 1000, lookbackMs = 24 * 60 * 60 * 1000 } = options;
+
+  // vehicle_id -> time (ms) fixes have been processed up to
+  /** @type {Map<string, number>} */
+  const cursors = new Map();
+  // vehicle_id -> reception time (ms) up to which fixes older than the cursor have been looked for
+  /** @type {Map<string, number>} */
+  const receivedCursors = new Map();
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let running = false;
+
+  /**
+   * @param {string} vehicleId
+   * @returns {Promise<number>}
+   */
+  const loadCursor = async (vehicleId) => {
+    const known = cursors.get(vehicleId);
+    if (known !== undefined) return known;
+
+    const { data } = await supabase
+      .from('trip_routes')
+      .select('ended_at')
+      .eq('vehicle_id', vehicleId)
+      .eq('source', 'detected')
+      .order('ended_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const floor = Date.now() - lookbackMs;
+    return data ? Math.max(Date.parse(data.ended_at), floor) : floor;
+  };
+
+  /**
+   * Where to read from when fixes received since the last run predate the cursor: the start of
+   * the detected trip before the oldest of them, or that fix when no trip precedes it.
+   * @param {string} vehicleId
+   * @param {number} since  cursor
+   * @param {number} receivedSince
+   * @param {number} now
+   * @returns {Promise<number | null>} null when there are no such fixes
+   */
+  const findRewind = async (vehicleId, since, receivedSince, now) => {
+    const floor = now - lookbackMs;
+    if (since <= floor) return null;
+
+    const { data: late, error } = await supabase
+      .from('gps_locations')
+      .select('timestamp')
+      .eq('vehicle_id', vehicleId)
+      .gt('received_at', new Date(receivedSince).toISOString())
+      .lte('received_at', new Date(now).toISOString())
+      .gt('timestamp', new Date(floor).toISOString())
+      .lte('timestamp', new Date(since).toISOString())
+      .order('timestamp', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!late) return null;
+
+    const oldest = Date.parse(late.timestamp);
+    const { data: previous, error: previousError } = await supabase
+      .from('trip_routes')
+      .select('started_at')
+      .eq('vehicle_id', vehicleId)
+      .eq('source', 'detected')
+      .lte('started_at', late.timestamp)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previousError) throw previousError;
+    const start = previous ? Date.parse(previous.started_at) : oldest;
+    return Math.max(start, floor) - 1;
+  };
+
+  /**
+   * @param {string} vehicleId
+   * @param {number} since
+   * @returns {Promise<IgnitionEvent[]>}
+   */
+  const loadIgnition = async (vehicleId, since) => {
+    const sinceIso = new Date(since).toISOString();
+    const [{ data: before }, { data: after }] = await Promise.all([
+      supabase
+        .from('vehicle_health')
+        .select('engine_status, recorded_at')
+        .eq('vehicle_id', vehicleId)
+        .in('engine_status', ['on', 'off', 'idle'])
+        .lte('recorded_at', sinceIso)
+        .order('recorded_at', { ascending: false })
+        .limit(1),
+      supabase
+        .from('vehicle_health')
+        .select('engine_status, recorded_at')
+        .eq('vehicle_id', vehicleId)
+        .in('engine_status', ['on', 'off', 'idle'])
+        .gt('recorded_at', sinceIso)
+        .order('recorded_at', { ascending: true })
+        .limit(MAX_POINTS_PER_RUN),
+    ]);
+
+    return [...(before || []), ...(after || [])].map((row) => ({
+      time: Date.parse(row.recorded_at),
+      on: row.engine_status !== 'off',
+    }));
+  };
+
+  /**
+   * Scheduled trip of the vehicle overlapping the detected one the most.
+   * @param {string} vehicleId
+   * @param {DetectedTrip} trip
+   * @returns {Promise<string | null>}
+   */
+  const findScheduledTrip = async (vehicleId, trip) => {
+    const { data } = await supabase
+      .from('trips')
+      .select('id, departure_time, arrival_time')
+      .eq('vehicle_id', vehicleId)
+      .neq('status', 'cancelled')
+      .lte('departure_time', new Date(trip.endedAt + LINK_TOLERANCE_MS).toISOString())
+      .gte('arrival_time', new Date(trip.startedAt - LINK_TOLERANCE_MS).toISOString());
+
+    let best = null;
+    let bestOverlap = -Infinity;
+    for (const scheduled of data || []) {
+      const overlap = Math.min(trip.endedAt, Date.parse(scheduled.arrival_time)) -
+        Math.max(trip.startedAt, Date.parse(scheduled.departure_time));
+      if (overlap > bestOverlap) {
+        best = scheduled.id;
+        bestOverlap = overlap;
+      }
+    }
+    return best;
+  };
+
+  /**
+   * @param {TripVehicle} vehicle
+   * @returns {Promise<number>} number of trips written
+   */
+  const processVehicle = async (vehicle) => {
+    const settings = await getVehicleSettings(vehicle.id);
+    if (settings && settings.enable_trip_detection === false) return 0;
+
+    const now = Date.now();
+    const cursor = await loadCursor(vehicle.id);
+    const rewind = await findRewind(vehicle.id, cursor, receivedCursors.get(vehicle.id) ?? cursor, now);
+    receivedCursors.set(vehicle.id, now);
+    const since = rewind ?? cursor;
+
+    const { data: rows, error } = await supabase
+      .from('gps_locations')
+      .select('latitude, longitude, speed, timestamp')
+      .eq('vehicle_id', vehicle.id)
+      .gt('timestamp', new Date(since).toISOString())
+      .order('timestamp', { ascending: true })
+      .limit(MAX_POINTS_PER_RUN);
+
+    if (error) throw error;
+    if (!rows || rows.length === 0) return 0;
+
+    /** @type {TripPoint[]} */
+    const points = rows.map((row) => ({
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      speed: Number(row.speed) || 0,
+      time: Date.parse(row.timestamp),
+    }));
+
+    const thresholds = tripThresholds(settings);
+    const ignition = await loadIgnition(vehicle.id, since);
+    // A full page with a trip still open would be read again forever, end that trip here
+    const truncated = rows.length === MAX_POINTS_PER_RUN;
+    const { trips, openSince } = segmentTrips(points, ignition, thresholds, truncated ? Infinity : now);
+
+    // Resume from the open trip, otherwise everything read so far is settled
+    const settled = openSince !== null ? openSince - 1 : points[points.length - 1].time;
+
+    if (rewind !== null) {
+      // Routes of the span read again that no longer start a completed trip were merged into
+      // another one or are part of the open trip, which is written again once it ends
+      let stale = supabase
+        .from('trip_routes')
+        .delete()
+        .eq('vehicle_id', vehicle.id)
+        .eq('source', 'detected')
+        .gt('started_at', new Date(since).toISOString());
+      if (trips.length > 0) {
+        stale = stale.not('started_at', 'in', `(${trips.map((trip) => new Date(trip.startedAt).toISOString()).join(',')})`);
+      }
+      const { error: deleteError } = await stale;
+      if (deleteError) throw deleteError;
+    }
+
+    for (const trip of trips) {
+      const scheduledTripId = await findScheduledTrip(vehicle.id, trip);
+      // A trip read again after a rewind replaces the route with the same start
+      const { error: insertError } = await supabase
+        .from('trip_routes')
+        .upsert(tripRouteRow(vehicle, trip, scheduledTripId), { onConflict: 'vehicle_id,started_at', ignoreDuplicates: rewind === null });
+
+      if (insertError) throw insertError;
+    }
+
+    cursors.set(vehicle.id, settled);
+    return trips.length;
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      // Every vehicle, also those only tracked by the driver app's phone
+      const { data: vehicles, error } = await supabase
+        .from('vehicles')
+        .select('id, user_id');
+
+      if (error) throw error;
+
+      let detected = 0;
+      for (const vehicle of vehicles || []) {
+        try {
+          detected += await processVehicle(vehicle);
+        } catch (error) {
+          console.error(`Error detecting trips for vehicle ${vehicle.id}:`, error);
+        }
+      }
+
+      if (detected > 0) console.log(`Trip detection: ${detected} trip(s) recorded`);
+    } catch (error) {
+      console.error('Error running trip detection:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createTripDetector>} TripDetector */
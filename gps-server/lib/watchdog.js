@@ -0,0 +1,201 @@
+// Device watchdog.
+//
+// Trackers report every few minutes, heartbeats included, while they have power and coverage;
+// a tracker that goes silent has been unplugged, lost its supply or left network coverage. Every
+// `intervalMs` the watchdog looks for active gps_devices whose last_connection is older than
+// `offlineAfterMs`:
+//   - the device is marked `inactive` (ingestion marks it active again on its next packet)
+//   - a `no_gps_signal` alert is raised for its vehicle (scope `offline`, apart from the GPS
+//     outages of lib/health.js) with the last known position, and kept open while the device
+//     stays silent
+//   - subscribed dashboards get a `device_status` event
+// Once the device reports again the alert is resolved and `device_status` sent with `active`.
+// The open alerts are kept in memory; after a restart they close after their quiet period.
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+/** @typedef {import('./alertEpisodes.js').AlertEpisodes} AlertEpisodes */
+/** @typedef {import('./alertEpisodes.js').AlertEpisode} AlertEpisode */
+
+/**
+ * @typedef {Object} WatchdogOptions
+ * @property {AlertEpisodes} alertEpisodes
+ * @property {(vehicleId: string, event: string, payload: Record<string, unknown>) => void} [emit] Notifies the vehicle's subscribers
+ * @property {number} [intervalMs]     Time between runs
+ * @property {number} [offlineAfterMs] Silence after which a device is offline
+ */
+
+/**
+ * @typedef {Object} OfflineDevice
+ * @property {string} deviceId
+ * @property {string} vehicleId
+ * @property {number} since       last connection, ms since epoch
+ * @property {AlertEpisode | null} episode
+ */
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {WatchdogOptions} options
+ */
+export function createDeviceWatchdog(supabase, options) {
+  const { alertEpisodes, emit = () => {}, intervalMs = 60 * 1000, offlineAfterMs = 15 * 60 * 1000 } = options;
+
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  let running = false;
+
+  // gps_devices.id -> devices this server marked offline
+  /** @type {Map<string, OfflineDevice>} */
+  const offline = new Map();
+
+  /**
+   * @param {string} vehicleId
+   * @returns {Promise<{ latitude: number, longitude: number, speed: number, timestamp: string } | null>}
+   */
+  const lastPosition = async (vehicleId) => {
+    const { data, error } = await supabase
+      .from('gps_locations')
+      .select('latitude, longitude, speed, timestamp')
+      .eq('vehicle_id', vehicleId)
+      .order('timestamp', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  /**
+   * @param {any} device gps_devices row with its vehicle
+   * @param {number} now
+   */
+  const markOffline = async (device, now) => {
+    const since = Date.parse(device.last_connection);
+
+    // Only this run marks it, ingestion may have touched it since the query
+    const { data: updated, error } = await supabase
+      .from('gps_devices')
+      .update({ status: 'inactive' })
+      .eq('id', device.id)
+      .eq('status', 'active')
+      .lt('last_connection', new Date(now - offlineAfterMs).toISOString())
+      .select('id');
+
+    if (error) throw error;
+    if (!updated || updated.length === 0) return;
+
+    console.log(`Device ${device.device_id} offline since ${device.last_connection}`);
+    if (!device.vehicle) return;
+
+    const vehicle = device.vehicle;
+    const position = await lastPosition(vehicle.id);
+    const minutes = Math.round((now - since) / 60000);
+
+    const episode = await alertEpisodes.raise({
+      user_id: vehicle.user_id,
+      vehicle_id: vehicle.id,
+      alert_type: 'no_gps_signal',
+      severity: 'medium',
+      title: 'Tracker Offline',
+      message: `${vehicle.name || 'Vehicle'} has not reported for ${minutes} min` +
+        (position ? `, last position ${Number(position.latitude).toFixed(5)}, ${Number(position.longitude).toFixed(5)}` : ''),
+      location_lat: position?.latitude ?? null,
+      location_lon: position?.longitude ?? null,
+      metadata: {
+        device_id: device.device_id,
+        last_connection: device.last_connection,
+        last_fix_at: position?.timestamp ?? null,
+      },
+    }, { scope: 'offline', value: minutes, at: now });
+
+    offline.set(device.id, { deviceId: device.device_id, vehicleId: vehicle.id, since, episode });
+    emit(vehicle.id, 'device_status', {
+      device_id: device.device_id,
+      vehicle_id: vehicle.id,
+      status: 'inactive',
+      last_connection: device.last_connection,
+    });
+  };
+
+  /**
+   * Resolves the alerts of devices that reported again, keeps the others open.
+   * @param {number} now
+   */
+  const checkOffline = async (now) => {
+    if (offline.size === 0) return;
+
+    const { data: devices, error } = await supabase
+      .from('gps_devices')
+      .select('id, status, last_connection')
+      .in('id', [...offline.keys()]);
+
+    if (error) throw error;
+
+    for (const [id, entry] of offline) {
+      const device = (devices || []).find((row) => row.id === id);
+      if (!device) {
+        // Deleted
+        if (entry.episode && entry.episode.status === 'open') await alertEpisodes.resolve(entry.episode, {}, now);
+        offline.delete(id);
+      } else if (device.status === 'active') {
+        if (entry.episode && entry.episode.status === 'open') {
+          await alertEpisodes.resolve(entry.episode, { message: 'Tracker reporting again' }, now);
+        }
+        offline.delete(id);
+        emit(entry.vehicleId, 'device_status', {
+          device_id: entry.deviceId,
+          vehicle_id: entry.vehicleId,
+          status: 'active',
+          last_connection: device.last_connection,
+        });
+      } else if (entry.episode && entry.episode.status === 'open') {
+        await alertEpisodes.update(entry.episode, {}, { value: Math.round((now - entry.since) / 60000), at: now });
+      }
+    }
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const now = Date.now();
+      await checkOffline(now);
+
+      const { data: devices, error } = await supabase
+        .from('gps_devices')
+        .select('id, device_id, last_connection, vehicle:vehicles(id, user_id, name)')
+        .eq('status', 'active')
+        .lt('last_connection', new Date(now - offlineAfterMs).toISOString());
+
+      if (error) throw error;
+
+      for (const device of devices || []) {
+        try {
+          await markOffline(device, now);
+        } catch (error) {
+          console.error(`Error marking device ${device.device_id} offline:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error running device watchdog:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createDeviceWatchdog>} DeviceWatchdog */
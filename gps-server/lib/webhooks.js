@@ -0,0 +1,332 @@
+// Outbound webhooks.
+//
+// Events reach `webhook_deliveries` in two ways: database triggers queue table changes
+// (alerts, geofence events, trip status, detected trips, assignments; see the
+// add_webhooks migration) and publishPosition() queues the live `gps_update` of a vehicle
+// when its organization has a subscription to it. Positions are coalesced: the latest fix of
+// each vehicle is queued every `gpsIntervalMs`, superseding the position deliveries of the
+// vehicle that are still pending, so a subscription has at most one queued position per
+// vehicle. A periodic job POSTs pending deliveries:
+//   - other events are sent before positions, then batches are sent until the queue is empty
+//     or the next run is due
+//   - the subscription URL must be a public http(s) address (lib/outboundUrl.js), requests
+//     connect only to checked addresses and redirects are not followed; a refused URL fails
+//     the delivery without retries
+//   - the body is the stored payload `{ id, type, created_at, data }`, `id` being the event id
+//     shared by all deliveries and replays of the event
+//   - `X-Fleet-Signature: sha256=<hex>` is the HMAC-SHA256 of `<X-Fleet-Timestamp>.<body>`
+//     with the subscription secret
+//   - a 2xx response marks the delivery delivered; anything else schedules a retry with
+//     exponential backoff (30 s doubling up to 6 h, with jitter) until `maxAttempts`, after
+//     which it is marked failed
+// Replays and test pings are new pending rows inserted by the dashboard.
+
+import { createHmac } from 'crypto';
+import { fetch } from 'undici';
+import { createTtlCache } from './cache.js';
+import { assertPublicUrl, createOutboundAgent } from './outboundUrl.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * @typedef {Object} WebhookOptions
+ * @property {number} [intervalMs]   Time between delivery runs
+ * @property {number} [batchSize]    Deliveries sent in parallel
+ * @property {number} [timeoutMs]    Request timeout
+ * @property {number} [maxAttempts]  Attempts before a delivery is marked failed
+ * @property {number} [cacheTtlMs]   How long subscriptions are cached for publishPosition()
+ * @property {number} [gpsIntervalMs]  Time between two queued positions of a vehicle
+ * @property {boolean} [allowPrivate]  Accept URLs on loopback and private networks (local testing)
+ */
+
+/**
+ * @typedef {Object} SendResult
+ * @property {boolean} ok
+ * @property {number | null} status
+ * @property {string | null} error
+ * @property {boolean} [final]  The delivery cannot succeed, retries are skipped
+ */
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// Stored response excerpt of failed attempts
+const MAX_ERROR_LENGTH = 500;
+// Vehicle ids per supersede request, keeps the query string short
+const SUPERSEDE_CHUNK = 200;
+
+/**
+ * Signature header value of a body.
+ * @param {string} secret
+ * @param {number} timestamp  seconds since epoch
+ * @param {string} body
+ */
+export function signWebhook(secret, timestamp, body) {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones.
+ * @param {number} attempts
+ */
+export function retryDelay(attempts) {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * @param {SupabaseClient} supabase
+ * @param {WebhookOptions} [options]
+ */
+export function createWebhookDispatcher(supabase, options = {}) {
+  const {
+    intervalMs = 5000,
+    batchSize = 50,
+    timeoutMs = 10000,
+    maxAttempts = 10,
+    cacheTtlMs = 60 * 1000,
+    gpsIntervalMs = 15000,
+    allowPrivate = false,
+  } = options;
+
+  /** @type {NodeJS.Timeout | null} */
+  let timer = null;
+  /** @type {NodeJS.Timeout | null} */
+  let gpsTimer = null;
+  let running = false;
+  let flushing = false;
+
+  const agent = createOutboundAgent({ allowPrivate });
+
+  // vehicle_id -> latest fix not queued yet
+  /** @type {Map<string, { organizationId: string, data: Record<string, any> }>} */
+  const latestPositions = new Map();
+
+  // organization_id -> subscriptions of the organization to gps_update, looked up on every live fix
+  /** @type {import('./cache.js').TtlCache<{ id: string, user_id: string }[]>} */
+  const gpsSubscribers = createTtlCache(cacheTtlMs);
+
+  /** @param {string} organizationId */
+  const loadGpsSubscribers = (organizationId) => gpsSubscribers.getOrLoad(organizationId, async () => {
+    const { data: rows, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id, user_id')
+      .eq('organization_id', organizationId)
+      .eq('is_enabled', true)
+      .contains('event_types', ['gps_update']);
+
+    if (error) throw error;
+    return rows || [];
+  });
+
+  /**
+   * Queues the `gps_update` event of a live fix for the subscriptions of its organization; other
+   * events are queued by database triggers. The position is queued by the next
+   * flushPositions(), replacing the previous one of the vehicle.
+   * @param {string} organizationId
+   * @param {Record<string, any>} data  with the `vehicle_id` the position belongs to
+   */
+  const publishPosition = async (organizationId, data) => {
+    const subscriptions = await loadGpsSubscribers(organizationId);
+    if (subscriptions.length === 0) return;
+    latestPositions.set(data.vehicle_id, { organizationId, data });
+  };
+
+  /**
+   * Queues the latest position of each vehicle published since the last flush. Pending
+   * position deliveries of these vehicles are superseded: their receiver only gets the newest.
+   */
+  const flushPositions = async () => {
+    if (flushing || latestPositions.size === 0) return;
+    flushing = true;
+
+    const positions = [...latestPositions.entries()];
+    latestPositions.clear();
+
+    try {
+      /** @type {Record<string, any>[]} */
+      const rows = [];
+      for (const [, { organizationId, data }] of positions) {
+        const subscriptions = await loadGpsSubscribers(organizationId);
+        if (subscriptions.length === 0) continue;
+
+        const eventId = crypto.randomUUID();
+        const payload = { id: eventId, type: 'gps_update', created_at: new Date().toISOString(), data };
+        for (const subscription of subscriptions) {
+          rows.push({
+            subscription_id: subscription.id,
+            user_id: subscription.user_id,
+            organization_id: organizationId,
+            event_type: 'gps_update',
+            event_id: eventId,
+            payload,
+          });
+        }
+      }
+      if (rows.length === 0) return;
+
+      const vehicleIds = positions.map(([vehicleId]) => vehicleId);
+      for (let i = 0; i < vehicleIds.length; i += SUPERSEDE_CHUNK) {
+        const { error } = await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'failed', last_error: 'Superseded by a newer position' })
+          .eq('status', 'pending')
+          .eq('event_type', 'gps_update')
+          .in('payload->data->>vehicle_id', vehicleIds.slice(i, i + SUPERSEDE_CHUNK));
+        if (error) throw error;
+      }
+
+      const { error } = await supabase.from('webhook_deliveries').insert(rows);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error queueing gps_update webhooks:', error);
+    } finally {
+      flushing = false;
+    }
+  };
+
+  /**
+   * @param {any} delivery  row with its subscription
+   * @returns {Promise<SendResult>}
+   */
+  const send = async (delivery) => {
+    const subscription = delivery.subscription;
+    if (!subscription || !subscription.is_enabled) {
+      return { ok: false, status: null, error: 'Subscription disabled', final: true };
+    }
+
+    /** @type {URL} */
+    let url;
+    try {
+      url = await assertPublicUrl(subscription.url, { allowPrivate });
+    } catch (error) {
+      return { ok: false, status: null, error: error instanceof Error ? error.message : String(error), final: true };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        redirect: 'manual',
+        dispatcher: agent,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'fleet-gps-server',
+          'X-Fleet-Event': delivery.event_type,
+          'X-Fleet-Delivery': delivery.id,
+          'X-Fleet-Timestamp': String(timestamp),
+          'X-Fleet-Signature': signWebhook(subscription.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (response.ok) return { ok: true, status: response.status, error: null };
+      const text = await response.text().catch(() => '');
+      return { ok: false, status: response.status, error: text.slice(0, MAX_ERROR_LENGTH) || response.statusText };
+    } catch (error) {
+      return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  /** @param {any} delivery */
+  const attempt = async (delivery) => {
+    const result = await send(delivery);
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+
+    /** @type {Record<string, any>} */
+    const update = { attempts, response_status: result.status, last_error: result.error };
+    if (result.ok) {
+      update.status = 'delivered';
+      update.delivered_at = new Date(now).toISOString();
+    } else if (attempts >= maxAttempts || result.final) {
+      update.status = 'failed';
+    } else {
+      update.next_attempt_at = new Date(now + retryDelay(attempts)).toISOString();
+    }
+
+    const { error } = await supabase.from('webhook_deliveries').update(update).eq('id', delivery.id);
+    if (error) throw error;
+    return result.ok;
+  };
+
+  /**
+   * Due deliveries, events before positions.
+   * @param {number} limit
+   * @returns {Promise<any[]>}
+   */
+  const loadDue = async (limit) => {
+    /** @param {number} count */
+    const due = (count) => supabase
+      .from('webhook_deliveries')
+      .select('id, event_type, payload, attempts, subscription:webhook_subscriptions(url, secret, is_enabled)')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(count);
+
+    const { data: events, error } = await due(limit).neq('event_type', 'gps_update');
+    if (error) throw error;
+    if (events.length >= limit) return events;
+
+    const { data: positions, error: positionsError } = await due(limit - events.length).eq('event_type', 'gps_update');
+    if (positionsError) throw positionsError;
+    return [...events, ...positions];
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+    const startedAt = Date.now();
+
+    try {
+      let delivered = 0;
+      let failed = 0;
+
+      // Full batches mean a backlog: keep sending until it is cleared or the next run is due
+      for (;;) {
+        const deliveries = await loadDue(batchSize);
+        if (deliveries.length === 0) break;
+
+        const results = await Promise.all(deliveries.map((delivery) => attempt(delivery).catch((err) => {
+          console.error(`Error delivering webhook ${delivery.id}:`, err);
+          return false;
+        })));
+
+        const batchFailed = results.filter((ok) => !ok).length;
+        failed += batchFailed;
+        delivered += results.length - batchFailed;
+        if (deliveries.length < batchSize || Date.now() - startedAt >= intervalMs) break;
+      }
+
+      if (failed > 0) console.log(`Webhooks: ${delivered} delivered, ${failed} to retry or failed`);
+    } catch (error) {
+      console.error('Error running webhook deliveries:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    publishPosition,
+    runOnce,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(runOnce, intervalMs);
+      timer.unref();
+      gpsTimer = setInterval(flushPositions, gpsIntervalMs);
+      gpsTimer.unref();
+      runOnce();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      if (gpsTimer) clearInterval(gpsTimer);
+      timer = null;
+      gpsTimer = null;
+    },
+  };
+}
+
+/** @typedef {ReturnType<typeof createWebhookDispatcher>} WebhookDispatcher */
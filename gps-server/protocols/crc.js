@@ -0,0 +1,55 @@
+// CRC helpers used to validate binary frames
+
+/**
+ * CRC-ITU (CRC-16/X-25) as used by GT06 frames.
+ * GT06 computes it from the length byte up to and including the serial number.
+ * @param {Buffer} buffer
+ * @param {number} [start]
+ * @param {number} [end]
+ * @returns {number}
+ */
+export function crc16Itu(buffer, start = 0, end = buffer.length) {
+  let crc = 0xFFFF;
+
+  for (let i = start; i < end; i++) {
+    crc ^= buffer[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+
+  return (crc ^ 0xFFFF) & 0xFFFF;
+}
+
+/**
+ * CRC-16/IBM (CRC-16/ARC) as used by Teltonika AVL packets.
+ * @param {Buffer} buffer
+ * @param {number} [start]
+ * @param {number} [end]
+ * @returns {number}
+ */
+export function crc16Ibm(buffer, start = 0, end = buffer.length) {
+  let crc = 0x0000;
+
+  for (let i = start; i < end; i++) {
+    crc ^= buffer[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xA001 : crc >>> 1;
+    }
+  }
+
+  return crc & 0xFFFF;
+}
+
+/**
+ * XOR checksum of an NMEA sentence body (between `$` and `*`).
+ * @param {string} body
+ * @returns {number}
+ */
+export function nmeaChecksum(body) {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum;
+}
@@ -0,0 +1,242 @@
+// GT06 / Concox binary protocol
+//
+// Frame layout (short form, long form uses 0x79 0x79 and a 2 byte length):
+//   0x78 0x78 | length | protocol | content... | serial (2) | crc (2) | 0x0D 0x0A
+// `length` counts protocol + content + serial + crc. The CRC-ITU covers length..serial.
+
+import { crc16Itu } from './crc.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('./types.js').DeviceStatus} DeviceStatus */
+/** @typedef {import('./types.js').AlarmType} AlarmType */
+
+export const GT06_LOGIN = 0x01;
+export const GT06_LOCATION = 0x12;
+export const GT06_HEARTBEAT = 0x13;
+export const GT06_ALARM = 0x16;
+export const GT06_LOCATION_EXTENDED = 0x22;
+export const GT06_ALARM_EXTENDED = 0x26;
+
+/** @type {Record<number, AlarmType>} */
+const ALARM_CODES = {
+  0x01: 'sos',
+  0x02: 'power_cut',
+  0x03: 'shock',
+  0x04: 'fence_in',
+  0x05: 'fence_out',
+};
+
+/** @type {Record<number, AlarmType>} */
+const TERMINAL_ALARMS = {
+  0b100: 'sos',
+  0b011: 'low_battery',
+  0b010: 'power_cut',
+  0b001: 'shock',
+};
+
+/**
+ * @param {Buffer} buffer
+ * @returns {boolean}
+ */
+export function isGt06(buffer) {
+  return buffer.length >= 2 &&
+    ((buffer[0] === 0x78 && buffer[1] === 0x78) || (buffer[0] === 0x79 && buffer[1] === 0x79));
+}
+
+/**
+ * Splits a TCP chunk into complete GT06 frames. Devices often send several frames in one chunk.
+ * @param {Buffer} buffer
+ * @returns {{ frames: Buffer[], remaining: Buffer }}
+ */
+export function splitGt06Frames(buffer) {
+  /** @type {Buffer[]} */
+  const frames = [];
+  let offset = 0;
+
+  while (offset + 5 <= buffer.length) {
+    const isLong = buffer[offset] === 0x79 && buffer[offset + 1] === 0x79;
+    const isShort = buffer[offset] === 0x78 && buffer[offset + 1] === 0x78;
+
+    if (!isLong && !isShort) {
+      throw new Error(`GT06: unexpected start bytes at offset ${offset}`);
+    }
+
+    const length = isLong ? buffer.readUInt16BE(offset + 2) : buffer[offset + 2];
+    const frameSize = (isLong ? 4 : 3) + length + 2;
+
+    if (offset + frameSize > buffer.length) break;
+
+    frames.push(buffer.subarray(offset, offset + frameSize));
+    offset += frameSize;
+  }
+
+  return { frames, remaining: buffer.subarray(offset) };
+}
+
+/**
+ * @param {Buffer} content
+ * @param {number} offset
+ * @returns {string}
+ */
+function readDateTime(content, offset) {
+  return new Date(Date.UTC(
+    2000 + content[offset],
+    content[offset + 1] - 1,
+    content[offset + 2],
+    content[offset + 3],
+    content[offset + 4],
+    content[offset + 5]
+  )).toISOString();
+}
+
+/**
+ * Reads the 18 byte GPS block shared by location and alarm packets.
+ * @param {Buffer} content
+ * @param {number} offset
+ */
+function readGpsBlock(content, offset) {
+  const courseStatus = content.readUInt16BE(offset + 16);
+  const north = (courseStatus & 0x0400) !== 0;
+  const west = (courseStatus & 0x0800) !== 0;
+
+  const latitude = content.readUInt32BE(offset + 7) / 1800000;
+  const longitude = content.readUInt32BE(offset + 11) / 1800000;
+
+  return {
+    timestamp: readDateTime(content, offset),
+    satellites: content[offset + 6] & 0x0F,
+    latitude: north ? latitude : -latitude,
+    longitude: west ? -longitude : longitude,
+    speed: content[offset + 15],
+    heading: courseStatus & 0x03FF,
+    valid: (courseStatus & 0x1000) !== 0,
+  };
+}
+
+/**
+ * Reads terminal information, voltage level and GSM signal.
+ * @param {Buffer} content
+ * @param {number} offset
+ * @returns {{ status: DeviceStatus, alarm?: AlarmType }}
+ */
+function readStatusBlock(content, offset) {
+  const terminalInfo = content[offset];
+  const voltageLevel = content[offset + 1];
+  const gsmLevel = content[offset + 2];
+
+  /** @type {DeviceStatus} */
+  const status = {
+    ignition: (terminalInfo & 0x02) !== 0,
+    charging: (terminalInfo & 0x04) !== 0,
+    gps_tracking: (terminalInfo & 0x40) !== 0,
+    fuel_cut: (terminalInfo & 0x80) !== 0,
+    battery_level: Math.round(Math.min(voltageLevel, 6) / 6 * 100),
+    gsm_signal: Math.min(gsmLevel, 4) * 25,
+  };
+
+  const alarm = TERMINAL_ALARMS[(terminalInfo >> 3) & 0b111];
+  return alarm ? { status, alarm } : { status };
+}
+
+/**
+ * Decodes a single, complete GT06 frame.
+ * @param {Buffer} frame
+ * @returns {DecodedMessage | null} null for packet types we don't handle
+ */
+export function decodeGt06Frame(frame) {
+  const isLong = frame[0] === 0x79;
+  const headerSize = isLong ? 4 : 3;
+  const length = isLong ? frame.readUInt16BE(2) : frame[2];
+  const crcIndex = headerSize + length - 2;
+
+  if (frame.length !== crcIndex + 4 || frame[crcIndex + 2] !== 0x0D || frame[crcIndex + 3] !== 0x0A) {
+    throw new Error('GT06: malformed frame');
+  }
+
+  const expectedCrc = frame.readUInt16BE(crcIndex);
+  const actualCrc = crc16Itu(frame, 2, crcIndex);
+  if (expectedCrc !== actualCrc) {
+    throw new Error(`GT06: CRC mismatch (expected ${expectedCrc.toString(16)}, got ${actualCrc.toString(16)})`);
+  }
+
+  const protocolNumber = frame[headerSize];
+  const serial = frame.readUInt16BE(crcIndex - 2);
+  const content = frame.subarray(headerSize + 1, crcIndex - 2);
+
+  switch (protocolNumber) {
+    case GT06_LOGIN: {
+      const imei = content.subarray(0, 8).toString('hex').replace(/^0/, '');
+      return { protocol: 'gt06', type: 'login', device_id: imei, serial, packet: protocolNumber };
+    }
+
+    case GT06_LOCATION:
+    case GT06_LOCATION_EXTENDED: {
+      /** @type {DecodedMessage} */
+      const message = {
+        protocol: 'gt06',
+        type: 'location',
+        device_id: null,
+        serial,
+        packet: protocolNumber,
+        accuracy: 10,
+        ...readGpsBlock(content, 0),
+      };
+
+      // 0x22 adds ACC, data upload mode and the real-time / re-upload flag after the LBS block
+      if (protocolNumber === GT06_LOCATION_EXTENDED && content.length >= 29) {
+        message.status = { ignition: content[26] === 0x01 };
+        message.historical = content[28] === 0x01;
+      }
+
+      return message;
+    }
+
+    case GT06_HEARTBEAT: {
+      const { status, alarm } = readStatusBlock(content, 0);
+      return {
+        protocol: 'gt06',
+        type: 'heartbeat',
+        device_id: null,
+        serial,
+        packet: protocolNumber,
+        status,
+        ...(alarm && { alarm }),
+      };
+    }
+
+    case GT06_ALARM:
+    case GT06_ALARM_EXTENDED: {
+      const gps = readGpsBlock(content, 0);
+      const statusOffset = 18 + Math.max(content[18], 1);
+      const { status, alarm: terminalAlarm } = readStatusBlock(content, statusOffset);
+      const alarm = ALARM_CODES[content[statusOffset + 3]] || terminalAlarm || 'unknown';
+
+      return {
+        protocol: 'gt06',
+        type: 'alarm',
+        device_id: null,
+        serial,
+        packet: protocolNumber,
+        accuracy: 10,
+        ...gps,
+        status,
+        alarm,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Server response to login, heartbeat and alarm packets: echoes the protocol number and serial.
+ * @param {number} protocolNumber
+ * @param {number} serial
+ * @returns {Buffer}
+ */
+export function encodeGt06Response(protocolNumber, serial) {
+  const response = Buffer.from([0x78, 0x78, 0x05, protocolNumber, (serial >> 8) & 0xFF, serial & 0xFF, 0, 0, 0x0D, 0x0A]);
+  response.writeUInt16BE(crc16Itu(response, 2, 6), 6);
+  return response;
+}
@@ -0,0 +1,101 @@
+// H02 text protocol (Sinotrack and many cheap trackers):
+//   *HQ,865205030330012,V1,145452,A,2240.55181,N,11358.32389,E,0.00,0.00,191219,FFFFFBFF#
+// The trailing status word uses inverted logic: a cleared bit means the condition is active.
+
+import { knotsToKmh, parseNmeaCoordinate, toUtcIso } from './utils.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('./types.js').AlarmType} AlarmType */
+
+const POSITION = /(\d{6}),([AVB]),(\d+\.\d+),([NS]),(\d+\.\d+),([EW]),([\d.]*),([\d.]*),(\d{6})(?:,([0-9A-Fa-f]{8}))?/;
+
+/** @type {[number, AlarmType][]} */
+const STATUS_ALARMS = [
+  [1, 'sos'],
+  [2, 'overspeed'],
+  [19, 'power_cut'],
+  [0, 'shock'],
+];
+
+/**
+ * @param {string} text
+ * @returns {boolean}
+ */
+export function isH02(text) {
+  return /\*[A-Z]{2},\d+,/.test(text);
+}
+
+/**
+ * @param {number} status
+ * @param {number} bit
+ * @returns {boolean}
+ */
+const isActive = (status, bit) => (status & (1 << bit)) === 0;
+
+/**
+ * @param {string} sentence Without the leading `*` and trailing `#`
+ * @returns {DecodedMessage | null}
+ */
+function decodeSentence(sentence) {
+  const [, deviceId, command] = sentence.split(',');
+  if (!deviceId || !command) return null;
+
+  if (command === 'XT' || command === 'HTBT' || command === 'LINK') {
+    return { protocol: 'h02', type: 'heartbeat', device_id: deviceId, serial: null };
+  }
+
+  const position = sentence.match(POSITION);
+  if (!position) return null;
+
+  const [, time, validity, lat, latHemisphere, lon, lonHemisphere, speed, course, date, statusHex] = position;
+
+  /** @type {DecodedMessage} */
+  const message = {
+    protocol: 'h02',
+    type: 'location',
+    device_id: deviceId,
+    serial: null,
+    latitude: parseNmeaCoordinate(lat, latHemisphere),
+    longitude: parseNmeaCoordinate(lon, lonHemisphere),
+    speed: knotsToKmh(speed || '0'),
+    heading: parseFloat(course) || 0,
+    accuracy: 10,
+    valid: validity === 'A',
+    timestamp: toUtcIso(
+      parseInt(date.slice(4, 6), 10),
+      parseInt(date.slice(2, 4), 10),
+      parseInt(date.slice(0, 2), 10),
+      time
+    ),
+  };
+
+  if (statusHex) {
+    const status = parseInt(statusHex, 16);
+    message.status = { ignition: isActive(status, 10) };
+
+    const alarm = STATUS_ALARMS.find(([bit]) => isActive(status, bit));
+    if (alarm) {
+      message.type = 'alarm';
+      message.alarm = alarm[1];
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Decodes every `*..#` sentence in an H02 chunk.
+ * @param {string} text
+ * @returns {DecodedMessage[]}
+ */
+export function decodeH02(text) {
+  /** @type {DecodedMessage[]} */
+  const messages = [];
+
+  for (const match of text.matchAll(/\*([^#]+)#/g)) {
+    const message = decodeSentence(match[1]);
+    if (message) messages.push(message);
+  }
+
+  return messages;
+}
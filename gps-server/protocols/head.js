@@ -0,0 +1,131 @@
+// HEAD protocol: loosely structured text, either an HTTP HEAD request carrying the fix
+// in its query string or comma separated values (HEAD,deviceId,lat,lon,speed,...).
+// It carries no device time, so fixes are stamped with the time they were received.
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+
+/**
+ * @param {string} text
+ * @returns {boolean}
+ */
+export function isHead(text) {
+  return text.includes('HEAD');
+}
+
+/**
+ * @param {string} deviceId
+ * @param {number} latitude
+ * @param {number} longitude
+ * @param {number} speed
+ * @param {number} heading
+ * @returns {DecodedMessage}
+ */
+function locationMessage(deviceId, latitude, longitude, speed, heading) {
+  return {
+    protocol: 'head',
+    type: 'location',
+    device_id: deviceId,
+    serial: null,
+    latitude,
+    longitude,
+    speed,
+    heading,
+    accuracy: 10,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * @param {string} data
+ * @returns {DecodedMessage | null}
+ */
+function decodeHttpRequest(data) {
+  // Example: HEAD /gps?id=123&lat=33.5&lon=-7.6 HTTP/1.1
+  const requestLine = data.split('\n')[0];
+  const urlMatch = requestLine.match(/HEAD\s+([^\s]+)\s+HTTP/i);
+  const queryMatch = urlMatch && urlMatch[1].match(/\?(.+)/);
+
+  // No query string, this is most likely a health check
+  if (!queryMatch) return null;
+
+  const params = new URLSearchParams(queryMatch[1]);
+  const deviceId = params.get('id') || params.get('device_id') || params.get('imei');
+  const lat = params.get('lat') || params.get('latitude');
+  const lon = params.get('lon') || params.get('lng') || params.get('longitude');
+  const speed = params.get('speed') || params.get('spd') || '0';
+  const heading = params.get('heading') || params.get('course') || '0';
+
+  if (!deviceId || !lat || !lon) return null;
+
+  return locationMessage(deviceId, parseFloat(lat), parseFloat(lon), parseFloat(speed), parseFloat(heading));
+}
+
+/**
+ * @param {string} data
+ * @returns {DecodedMessage | null}
+ */
+function decodeCommaSeparated(data) {
+  const parts = data.split(',');
+  if (parts.length < 3) return null;
+
+  // Device ID is usually in the first or second part
+  let deviceId = null;
+  for (let i = 0; i < Math.min(3, parts.length); i++) {
+    const match = parts[i].match(/(\d{8,})/);
+    if (match) {
+      deviceId = match[1];
+      break;
+    }
+  }
+
+  if (!deviceId) return null;
+
+  /** @type {number | null} */
+  let latitude = null;
+  /** @type {number | null} */
+  let longitude = null;
+  let speed = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i].trim();
+
+    // Hemisphere prefixed coordinates (N/S followed by number)
+    if (part.match(/^[NS]/) && parts[i + 1]) {
+      latitude = parseFloat(part.substring(1) || parts[i + 1]);
+      if (part[0] === 'S') latitude *= -1;
+    }
+
+    if (part.match(/^[EW]/) && parts[i + 1]) {
+      longitude = parseFloat(part.substring(1) || parts[i + 1]);
+      if (part[0] === 'W') longitude *= -1;
+    }
+
+    // Plain decimal coordinates, followed by speed
+    const num = parseFloat(part);
+    if (!isNaN(num)) {
+      if (num >= -90 && num <= 90 && latitude === null) {
+        latitude = num;
+      } else if (num >= -180 && num <= 180 && longitude === null && latitude !== null) {
+        longitude = num;
+      } else if (num >= 0 && num <= 300 && latitude !== null && longitude !== null && speed === 0) {
+        speed = num;
+      }
+    }
+  }
+
+  if (latitude === null || longitude === null) return null;
+
+  return locationMessage(deviceId, latitude, longitude, speed, 0);
+}
+
+/**
+ * @param {string} text
+ * @returns {DecodedMessage[]}
+ */
+export function decodeHead(text) {
+  const message = text.includes('HTTP/1.1') || text.includes('HTTP/1.0')
+    ? decodeHttpRequest(text)
+    : decodeCommaSeparated(text);
+
+  return message ? [message] : [];
+}
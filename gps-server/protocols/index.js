@@ -0,0 +1,97 @@
+// Protocol detection and decoding for data received on the TCP port.
+// Every decoder returns the same DecodedMessage shape, see types.js.
+
+import { decodeGt06Frame, isGt06, splitGt06Frames } from './gt06.js';
+import { decodeH02, isH02 } from './h02.js';
+import { decodeHead, isHead } from './head.js';
+import { decodeNmea, isNmea } from './nmea.js';
+import { decodeTeltonikaAvl, decodeTeltonikaImei, isTeltonikaAvl, isTeltonikaImei, teltonikaPacketSize } from './teltonika.js';
+import { decodeTk103, isTk103 } from './tk103.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('./types.js').ProtocolName} ProtocolName */
+
+/**
+ * @typedef {Object} DecodeResult
+ * @property {ProtocolName | null} protocol
+ * @property {DecodedMessage[]} messages
+ * @property {Buffer} remaining Trailing bytes of an incomplete binary frame, to prepend to the next chunk
+ * @property {number} [frameSize] Size the header of that frame declares, when it has been received
+ */
+
+/**
+ * @param {Buffer} buffer
+ * @returns {ProtocolName | null}
+ */
+export function detectProtocol(buffer) {
+  if (isGt06(buffer)) return 'gt06';
+  if (isTeltonikaAvl(buffer) || isTeltonikaImei(buffer)) return 'teltonika';
+
+  const text = buffer.toString('utf8');
+  if (isHead(text)) return 'head';
+  if (isNmea(text)) return 'nmea';
+  if (isH02(text)) return 'h02';
+  if (isTk103(text)) return 'tk103';
+
+  return null;
+}
+
+/**
+ * Decodes one chunk of data received from a device.
+ * Frames that fail validation (bad CRC, truncated) throw, callers should log and drop the chunk.
+ * @param {Buffer} buffer
+ * @returns {DecodeResult}
+ */
+export function decode(buffer) {
+  const protocol = detectProtocol(buffer);
+  const empty = Buffer.alloc(0);
+
+  switch (protocol) {
+    case 'gt06': {
+      const { frames, remaining } = splitGt06Frames(buffer);
+      /** @type {DecodedMessage[]} */
+      const messages = [];
+      for (const frame of frames) {
+        const message = decodeGt06Frame(frame);
+        if (message) messages.push(message);
+      }
+      return { protocol, messages, remaining };
+    }
+
+    case 'teltonika': {
+      if (isTeltonikaImei(buffer)) {
+        return { protocol, messages: [decodeTeltonikaImei(buffer)], remaining: empty };
+      }
+
+      const packetSize = teltonikaPacketSize(buffer);
+      if (buffer.length < packetSize) {
+        return { protocol, messages: [], remaining: buffer, frameSize: packetSize };
+      }
+
+      return {
+        protocol,
+        messages: decodeTeltonikaAvl(buffer.subarray(0, packetSize)),
+        remaining: buffer.subarray(packetSize),
+      };
+    }
+
+    case 'head':
+      return { protocol, messages: decodeHead(buffer.toString('utf8')), remaining: empty };
+
+    case 'nmea':
+      return { protocol, messages: decodeNmea(buffer.toString('utf8')), remaining: empty };
+
+    case 'h02':
+      return { protocol, messages: decodeH02(buffer.toString('utf8')), remaining: empty };
+
+    case 'tk103':
+      return { protocol, messages: decodeTk103(buffer.toString('utf8')), remaining: empty };
+
+    default:
+      return { protocol: null, messages: [], remaining: empty };
+  }
+}
+
+export { crc16Itu, crc16Ibm } from './crc.js';
+export { encodeGt06Response } from './gt06.js';
+export { encodeTeltonikaImeiAck, encodeTeltonikaRecordAck } from './teltonika.js';
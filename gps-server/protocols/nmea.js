@@ -0,0 +1,110 @@
+// Raw NMEA 0183 sentences ($GPRMC / $GPGGA and their GN/GL variants), usually
+// prefixed by the device with `ID:<id>` or its IMEI.
+
+import { nmeaChecksum } from './crc.js';
+import { knotsToKmh, parseNmeaCoordinate, toUtcIso } from './utils.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+
+const SENTENCE = /\$(G[PNL](RMC|GGA)),([^*\r\n]*)(?:\*([0-9A-Fa-f]{2}))?/g;
+
+/**
+ * @param {string} text
+ * @returns {boolean}
+ */
+export function isNmea(text) {
+  return /\$G[PNL](RMC|GGA),/.test(text);
+}
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function findDeviceId(text) {
+  const match = text.match(/ID:(\w+)/i) || text.match(/(\d{10,})/);
+  return match ? match[1] : 'UNKNOWN';
+}
+
+/**
+ * Decodes a chunk of NMEA sentences. A GGA sentence following an RMC adds altitude
+ * and satellite count to that fix; a GGA on its own is reported with today's date.
+ * @param {string} text
+ * @returns {DecodedMessage[]}
+ */
+export function decodeNmea(text) {
+  const deviceId = findDeviceId(text.replace(/\$G[PNL](RMC|GGA),[^\r\n]*/g, ''));
+
+  /** @type {DecodedMessage[]} */
+  const messages = [];
+  /** @type {DecodedMessage | null} */
+  let lastRmc = null;
+
+  for (const match of text.matchAll(SENTENCE)) {
+    const [, talker, kind, body, checksum] = match;
+
+    if (checksum && nmeaChecksum(`${talker},${body}`) !== parseInt(checksum, 16)) {
+      throw new Error(`NMEA: checksum mismatch in ${talker} sentence`);
+    }
+
+    const fields = body.split(',');
+
+    if (kind === 'RMC') {
+      // time, status, lat, N/S, lon, E/W, speed (knots), course, date (ddmmyy)
+      if (fields.length < 9 || !fields[2] || !fields[4] || !fields[8]) continue;
+
+      const date = fields[8];
+      lastRmc = {
+        protocol: 'nmea',
+        type: 'location',
+        device_id: deviceId,
+        serial: null,
+        latitude: parseNmeaCoordinate(fields[2], fields[3]),
+        longitude: parseNmeaCoordinate(fields[4], fields[5]),
+        speed: knotsToKmh(fields[6] || '0'),
+        heading: parseFloat(fields[7]) || 0,
+        accuracy: 10,
+        valid: fields[1] === 'A',
+        timestamp: toUtcIso(
+          parseInt(date.slice(4, 6), 10),
+          parseInt(date.slice(2, 4), 10),
+          parseInt(date.slice(0, 2), 10),
+          fields[0]
+        ),
+      };
+      messages.push(lastRmc);
+      continue;
+    }
+
+    // GGA: time, lat, N/S, lon, E/W, fix quality, satellites, HDOP, altitude
+    if (fields.length < 9 || !fields[1] || !fields[3]) continue;
+
+    const satellites = parseInt(fields[6], 10) || 0;
+    const altitude = parseFloat(fields[8]) || 0;
+
+    if (lastRmc) {
+      lastRmc.satellites = satellites;
+      lastRmc.altitude = altitude;
+      lastRmc = null;
+      continue;
+    }
+
+    const now = new Date();
+    messages.push({
+      protocol: 'nmea',
+      type: 'location',
+      device_id: deviceId,
+      serial: null,
+      latitude: parseNmeaCoordinate(fields[1], fields[2]),
+      longitude: parseNmeaCoordinate(fields[3], fields[4]),
+      speed: 0,
+      heading: 0,
+      accuracy: 10,
+      satellites,
+      altitude,
+      valid: fields[5] !== '0',
+      timestamp: toUtcIso(now.getUTCFullYear() - 2000, now.getUTCMonth() + 1, now.getUTCDate(), fields[0]),
+    });
+  }
+
+  return messages;
+}
@@ -0,0 +1,241 @@
+// Teltonika Codec 8 and Codec 8 Extended over TCP.
+//
+// The device first sends its IMEI (2 byte length + ASCII digits) and waits for 0x01.
+// AVL packets follow:
+//   0x00000000 | data length (4) | codec 0x08/0x8E | count (1) | records... | count (1) | crc (4)
+// Codec 8E widens IO ids and counts to 2 bytes and adds variable length IO elements.
+// The server acknowledges each packet with the number of accepted records (4 bytes).
+
+import { crc16Ibm } from './crc.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('./types.js').DeviceStatus} DeviceStatus */
+
+export const CODEC_8 = 0x08;
+export const CODEC_8E = 0x8E;
+
+// Up to 255 records, Codec 8E ones with variable length IO elements (CAN frames, BLE sensors...),
+// run to a few kilobytes. A larger data length is a corrupt header, not a packet worth waiting for.
+export const MAX_AVL_DATA_LENGTH = 64 * 1024;
+
+// IO element ids we map onto DeviceStatus, everything else stays in `attributes`
+const IO_IGNITION = 239;
+const IO_GSM_SIGNAL = 21;
+const IO_EXTERNAL_VOLTAGE = 66;
+const IO_BATTERY_VOLTAGE = 67;
+// Fuel level in percent, from the CAN adapter or else from OBD
+const IO_CAN_FUEL_LEVEL = 89;
+const IO_OBD_FUEL_LEVEL = 48;
+// OBD values: coolant temperature (signed °C), number of stored trouble codes
+const IO_OBD_COOLANT_TEMPERATURE = 32;
+const IO_OBD_DTC_COUNT = 30;
+// Odometer, from the CAN adapter in metres or else from OBD in km
+const IO_CAN_MILEAGE = 87;
+const IO_OBD_MILEAGE = 389;
+
+/**
+ * @param {Buffer} buffer
+ * @returns {boolean}
+ */
+export function isTeltonikaImei(buffer) {
+  if (buffer.length < 17) return false;
+  const length = buffer.readUInt16BE(0);
+  return length >= 15 && length <= 17 && buffer.length === length + 2 &&
+    /^\d+$/.test(buffer.toString('ascii', 2));
+}
+
+/**
+ * @param {Buffer} buffer
+ * @returns {boolean}
+ */
+export function isTeltonikaAvl(buffer) {
+  return buffer.length >= 12 && buffer.readUInt32BE(0) === 0 && (buffer[8] === CODEC_8 || buffer[8] === CODEC_8E);
+}
+
+/**
+ * @param {Buffer} buffer
+ * @returns {DecodedMessage}
+ */
+export function decodeTeltonikaImei(buffer) {
+  return {
+    protocol: 'teltonika',
+    type: 'login',
+    device_id: buffer.toString('ascii', 2).trim(),
+    serial: null,
+  };
+}
+
+/**
+ * Reads the IO element section of a record.
+ * @param {Buffer} buffer
+ * @param {number} offset
+ * @param {boolean} extended Codec 8E: 2 byte ids and counts, followed by variable length elements
+ * @returns {{ attributes: Record<string, number>, offset: number }}
+ */
+function readIoElements(buffer, offset, extended) {
+  /** @type {Record<string, number>} */
+  const attributes = {};
+  const fieldSize = extended ? 2 : 1;
+  /** @param {number} at */
+  const readField = (at) => (extended ? buffer.readUInt16BE(at) : buffer[at]);
+
+  // Event IO id and total element count
+  offset += 2 * fieldSize;
+
+  for (const size of [1, 2, 4, 8]) {
+    const count = readField(offset);
+    offset += fieldSize;
+
+    for (let i = 0; i < count; i++) {
+      const id = readField(offset);
+      offset += fieldSize;
+
+      let value;
+      if (size === 1) value = buffer.readUInt8(offset);
+      else if (size === 2) value = buffer.readUInt16BE(offset);
+      else if (size === 4) value = buffer.readUInt32BE(offset);
+      else value = Number(buffer.readBigUInt64BE(offset));
+
+      attributes[`io${id}`] = value;
+      offset += size;
+    }
+  }
+
+  // Variable length elements (ICCID, CAN frames...) are not numeric values, skip them
+  if (extended) {
+    const count = buffer.readUInt16BE(offset);
+    offset += 2;
+    for (let i = 0; i < count; i++) {
+      offset += 4 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  return { attributes, offset };
+}
+
+/**
+ * @param {Record<string, number>} attributes
+ * @returns {DeviceStatus}
+ */
+function statusFromIo(attributes) {
+  /** @type {DeviceStatus} */
+  const status = {};
+
+  if (`io${IO_IGNITION}` in attributes) status.ignition = attributes[`io${IO_IGNITION}`] === 1;
+  if (`io${IO_GSM_SIGNAL}` in attributes) status.gsm_signal = Math.min(attributes[`io${IO_GSM_SIGNAL}`], 5) * 20;
+  if (`io${IO_EXTERNAL_VOLTAGE}` in attributes) status.external_voltage = attributes[`io${IO_EXTERNAL_VOLTAGE}`] / 1000;
+  if (`io${IO_BATTERY_VOLTAGE}` in attributes) status.battery_voltage = attributes[`io${IO_BATTERY_VOLTAGE}`] / 1000;
+  if (`io${IO_CAN_FUEL_LEVEL}` in attributes) {
+    status.fuel_level = attributes[`io${IO_CAN_FUEL_LEVEL}`];
+  } else if (`io${IO_OBD_FUEL_LEVEL}` in attributes) {
+    status.fuel_level = attributes[`io${IO_OBD_FUEL_LEVEL}`];
+  }
+  if (`io${IO_OBD_COOLANT_TEMPERATURE}` in attributes) {
+    const raw = attributes[`io${IO_OBD_COOLANT_TEMPERATURE}`];
+    status.engine_temperature = raw > 127 ? raw - 256 : raw;
+  }
+  if (`io${IO_OBD_DTC_COUNT}` in attributes) status.dtc_count = attributes[`io${IO_OBD_DTC_COUNT}`];
+  if (`io${IO_CAN_MILEAGE}` in attributes) {
+    status.odometer = attributes[`io${IO_CAN_MILEAGE}`] / 1000;
+  } else if (`io${IO_OBD_MILEAGE}` in attributes) {
+    status.odometer = attributes[`io${IO_OBD_MILEAGE}`];
+  }
+
+  return status;
+}
+
+/**
+ * Size of the AVL packet at the start of `buffer`, from its data length field:
+ * preamble + data length field + data + CRC.
+ * @param {Buffer} buffer
+ * @returns {number}
+ */
+export function teltonikaPacketSize(buffer) {
+  const dataLength = buffer.readUInt32BE(4);
+  if (dataLength > MAX_AVL_DATA_LENGTH) {
+    throw new Error(`Teltonika: data length ${dataLength} exceeds ${MAX_AVL_DATA_LENGTH} bytes`);
+  }
+  return 8 + dataLength + 4;
+}
+
+/**
+ * Decodes a complete Codec 8 or Codec 8E AVL packet. The device id isn't part of the packet,
+ * callers fill it in from the IMEI packet received on the same connection.
+ * @param {Buffer} buffer
+ * @returns {DecodedMessage[]}
+ */
+export function decodeTeltonikaAvl(buffer) {
+  const dataLength = buffer.readUInt32BE(4);
+  const dataEnd = 8 + dataLength;
+
+  if (buffer.length < dataEnd + 4) {
+    throw new Error('Teltonika: incomplete AVL packet');
+  }
+
+  const expectedCrc = buffer.readUInt32BE(dataEnd);
+  const actualCrc = crc16Ibm(buffer, 8, dataEnd);
+  if (expectedCrc !== actualCrc) {
+    throw new Error(`Teltonika: CRC mismatch (expected ${expectedCrc.toString(16)}, got ${actualCrc.toString(16)})`);
+  }
+
+  const extended = buffer[8] === CODEC_8E;
+  const recordCount = buffer[9];
+  if (buffer[dataEnd - 1] !== recordCount) {
+    throw new Error('Teltonika: record count mismatch');
+  }
+
+  /** @type {DecodedMessage[]} */
+  const messages = [];
+  let offset = 10;
+
+  for (let i = 0; i < recordCount; i++) {
+    const timestamp = new Date(Number(buffer.readBigUInt64BE(offset))).toISOString();
+    const longitude = buffer.readInt32BE(offset + 9) / 1e7;
+    const latitude = buffer.readInt32BE(offset + 13) / 1e7;
+    const altitude = buffer.readInt16BE(offset + 17);
+    const heading = buffer.readUInt16BE(offset + 19);
+    const satellites = buffer[offset + 21];
+    const speed = buffer.readUInt16BE(offset + 22);
+
+    const io = readIoElements(buffer, offset + 24, extended);
+    offset = io.offset;
+
+    messages.push({
+      protocol: 'teltonika',
+      type: 'location',
+      device_id: null,
+      serial: null,
+      latitude,
+      longitude,
+      altitude,
+      heading,
+      satellites,
+      speed,
+      accuracy: 10,
+      valid: satellites > 0 && (latitude !== 0 || longitude !== 0),
+      timestamp,
+      status: statusFromIo(io.attributes),
+      attributes: io.attributes,
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * @param {boolean} accepted
+ * @returns {Buffer}
+ */
+export function encodeTeltonikaImeiAck(accepted) {
+  return Buffer.from([accepted ? 0x01 : 0x00]);
+}
+
+/**
+ * @param {number} recordCount
+ * @returns {Buffer}
+ */
+export function encodeTeltonikaRecordAck(recordCount) {
+  const ack = Buffer.alloc(4);
+  ack.writeUInt32BE(recordCount);
+  return ack;
+}
@@ -0,0 +1,161 @@
+// TK103 text protocols. Two unrelated dialects ship under the TK103 name:
+//   Xexun style:  imei:359586015829802,tracker,151117120000,,F,120000.000,A,3000.0000,N,03000.0000,E,0.00,0;
+//   Coban style:  (027028641389BR00080612A2232.9828N11404.9297E000.0022828000.0000000000L000230AA)
+
+import { knotsToKmh, parseNmeaCoordinate, toUtcIso } from './utils.js';
+
+/** @typedef {import('./types.js').DecodedMessage} DecodedMessage */
+/** @typedef {import('./types.js').AlarmType} AlarmType */
+
+/** @type {Record<string, AlarmType>} */
+const XEXUN_ALARMS = {
+  'help me': 'sos',
+  'low battery': 'low_battery',
+  'ac alarm': 'power_cut',
+  'speed': 'overspeed',
+  'stockade': 'fence_out',
+  'move': 'shock',
+};
+
+/** @type {Record<string, AlarmType>} */
+const COBAN_ALARMS = {
+  '0': 'power_cut',
+  '2': 'sos',
+  '3': 'shock',
+  '5': 'overspeed',
+  '6': 'fence_out',
+};
+
+const COBAN_FRAME = /^\((\d{12})(B[A-Z]\d{2})(.*)\)$/;
+const COBAN_LOCATION = /(\d{2})(\d{2})(\d{2})([AV])(\d{4}\.\d{4})([NS])(\d{5}\.\d{4})([EW])(\d{3}\.\d)(\d{6})(\d{3}\.\d{2})/;
+
+/**
+ * @param {string} text
+ * @returns {boolean}
+ */
+export function isTk103(text) {
+  return /imei:\d{15}/i.test(text) || COBAN_FRAME.test(text.trim()) || /^\d{15};?$/.test(text.trim());
+}
+
+/**
+ * @param {string} sentence
+ * @returns {DecodedMessage | null}
+ */
+function decodeXexun(sentence) {
+  const imeiMatch = sentence.match(/imei:(\d{15})/i);
+
+  // Heartbeat is the bare IMEI
+  if (!imeiMatch) {
+    const heartbeat = sentence.match(/^(\d{15})$/);
+    return heartbeat
+      ? { protocol: 'tk103', type: 'heartbeat', device_id: heartbeat[1], serial: null }
+      : null;
+  }
+
+  const deviceId = imeiMatch[1];
+
+  // Login: ##,imei:359586015829802,A
+  if (sentence.startsWith('##')) {
+    return { protocol: 'tk103', type: 'login', device_id: deviceId, serial: null };
+  }
+
+  const parts = sentence.split(',');
+  if (parts.length < 11) return null;
+
+  const keyword = parts[1].trim().toLowerCase();
+  const localDate = parts[2];
+  const time = parts[5];
+
+  if (!/^\d{6}/.test(localDate) || !/^\d{6}/.test(time) || !parts[7] || !parts[9]) {
+    return null;
+  }
+
+  const alarm = XEXUN_ALARMS[keyword];
+
+  return {
+    protocol: 'tk103',
+    type: alarm ? 'alarm' : 'location',
+    device_id: deviceId,
+    serial: null,
+    latitude: parseNmeaCoordinate(parts[7], parts[8]),
+    longitude: parseNmeaCoordinate(parts[9], parts[10]),
+    speed: knotsToKmh(parts[11] || '0'),
+    heading: parseFloat(parts[12]) || 0,
+    accuracy: 10,
+    valid: parts[6] === 'A',
+    timestamp: toUtcIso(
+      parseInt(localDate.slice(0, 2), 10),
+      parseInt(localDate.slice(2, 4), 10),
+      parseInt(localDate.slice(4, 6), 10),
+      time
+    ),
+    ...(alarm && { alarm }),
+  };
+}
+
+/**
+ * @param {string} sentence
+ * @returns {DecodedMessage | null}
+ */
+function decodeCoban(sentence) {
+  const frame = sentence.match(COBAN_FRAME);
+  if (!frame) return null;
+
+  const [, deviceId, command, data] = frame;
+
+  if (command === 'BP05') {
+    return { protocol: 'tk103', type: 'login', device_id: deviceId, serial: null };
+  }
+
+  if (command === 'BP00') {
+    return { protocol: 'tk103', type: 'heartbeat', device_id: deviceId, serial: null };
+  }
+
+  if (command !== 'BR00' && command !== 'BR01' && command !== 'BO01') return null;
+
+  const location = data.match(COBAN_LOCATION);
+  if (!location) return null;
+
+  const [, year, month, day, validity, lat, latHemisphere, lon, lonHemisphere, speed, time, course] = location;
+  const alarm = command === 'BO01' ? COBAN_ALARMS[data[0]] || 'unknown' : undefined;
+
+  return {
+    protocol: 'tk103',
+    type: alarm ? 'alarm' : 'location',
+    device_id: deviceId,
+    serial: null,
+    latitude: parseNmeaCoordinate(lat, latHemisphere),
+    longitude: parseNmeaCoordinate(lon, lonHemisphere),
+    speed: parseFloat(speed),
+    heading: parseFloat(course),
+    accuracy: 10,
+    valid: validity === 'A',
+    timestamp: toUtcIso(parseInt(year, 10), parseInt(month, 10), parseInt(day, 10), time),
+    ...(alarm && { alarm }),
+  };
+}
+
+/**
+ * Decodes every sentence in a TK103 chunk.
+ * @param {string} text
+ * @returns {DecodedMessage[]}
+ */
+export function decodeTk103(text) {
+  /** @type {DecodedMessage[]} */
+  const messages = [];
+
+  // Coban frames are wrapped in parentheses, Xexun sentences end with ';'
+  const sentences = text.includes('(')
+    ? text.match(/\([^)]*\)/g) || []
+    : text.split(';');
+
+  for (const raw of sentences) {
+    const sentence = raw.trim();
+    if (!sentence) continue;
+
+    const message = sentence.startsWith('(') ? decodeCoban(sentence) : decodeXexun(sentence);
+    if (message) messages.push(message);
+  }
+
+  return messages;
+}
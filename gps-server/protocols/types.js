@@ -0,0 +1,56 @@
+// Shared result type for every protocol decoder.
+// This file only holds JSDoc typedefs, decoders import them with `import('./types.js')`.
+
+/**
+ * @typedef {'gt06' | 'tk103' | 'nmea' | 'h02' | 'teltonika' | 'head'} ProtocolName
+ */
+
+/**
+ * @typedef {'login' | 'location' | 'heartbeat' | 'alarm'} MessageType
+ */
+
+/**
+ * @typedef {'sos' | 'power_cut' | 'shock' | 'fence_in' | 'fence_out' | 'low_battery' | 'overspeed' | 'unknown'} AlarmType
+ */
+
+/**
+ * Device status carried by heartbeat and alarm packets
+ * @typedef {Object} DeviceStatus
+ * @property {boolean} [ignition]
+ * @property {boolean} [charging]
+ * @property {boolean} [gps_tracking]
+ * @property {boolean} [fuel_cut]
+ * @property {number} [battery_level]    Battery level as a percentage (0-100)
+ * @property {number} [battery_voltage]  Volts
+ * @property {number} [external_voltage] Volts
+ * @property {number} [gsm_signal]       Signal strength as a percentage (0-100)
+ * @property {number} [fuel_level]       Fuel level sensor reading as a percentage (0-100)
+ * @property {number} [engine_temperature] Coolant temperature in °C (OBD / CAN)
+ * @property {number} [odometer]         Vehicle odometer in km (OBD / CAN)
+ * @property {number} [dtc_count]        Number of stored diagnostic trouble codes
+ * @property {string[]} [dtc_codes]      Diagnostic trouble codes, e.g. "P0301"
+ */
+
+/**
+ * @typedef {Object} DecodedMessage
+ * @property {ProtocolName} protocol
+ * @property {MessageType} type
+ * @property {string | null} device_id   IMEI or device identifier, null when the frame doesn't carry one
+ * @property {number | null} serial      Frame serial number, used to build acknowledgments
+ * @property {number} [packet]           Protocol specific packet type (e.g. GT06 protocol number)
+ * @property {number} [latitude]
+ * @property {number} [longitude]
+ * @property {number} [speed]            km/h
+ * @property {number} [heading]          Degrees (0-360)
+ * @property {number} [accuracy]         Meters
+ * @property {number} [altitude]         Meters
+ * @property {number} [satellites]
+ * @property {boolean} [valid]           Whether the device reported a GPS fix
+ * @property {boolean} [historical]      Fix was buffered by the device and re-uploaded later
+ * @property {string} [timestamp]        ISO 8601 time of the fix as reported by the device
+ * @property {AlarmType} [alarm]
+ * @property {DeviceStatus} [status]
+ * @property {Record<string, number>} [attributes] Protocol specific values (e.g. Teltonika IO elements)
+ */
+
+export {};
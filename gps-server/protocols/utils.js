@@ -0,0 +1,43 @@
+// Conversions shared by the text based decoders
+
+const KNOTS_TO_KMH = 1.852;
+
+/**
+ * Converts an NMEA style `(d)ddmm.mmmm` value and hemisphere to decimal degrees.
+ * @param {string} value
+ * @param {string} hemisphere N, S, E or W
+ * @returns {number}
+ */
+export function parseNmeaCoordinate(value, hemisphere) {
+  const raw = parseFloat(value);
+  const degrees = Math.floor(raw / 100);
+  const minutes = raw - degrees * 100;
+  const coordinate = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate;
+}
+
+/**
+ * @param {string | number} knots
+ * @returns {number}
+ */
+export function knotsToKmh(knots) {
+  const value = typeof knots === 'number' ? knots : parseFloat(knots);
+  return Number.isFinite(value) ? value * KNOTS_TO_KMH : 0;
+}
+
+/**
+ * Builds an ISO timestamp from `ddmmyy` / `yymmdd` date parts and an `hhmmss(.sss)` time, in UTC.
+ * @param {number} year Two digit year
+ * @param {number} month
+ * @param {number} day
+ * @param {string} time
+ * @returns {string}
+ */
+export function toUtcIso(year, month, day, time) {
+  const hours = parseInt(time.slice(0, 2), 10);
+  const minutes = parseInt(time.slice(2, 4), 10);
+  const seconds = parseFloat(time.slice(4)) || 0;
+  const date = new Date(Date.UTC(2000 + year, month - 1, day, hours, minutes, 0));
+  date.setUTCMilliseconds(Math.round(seconds * 1000));
+  return date.toISOString();
+}
@@ -0,0 +1,160 @@
+// Imports speed limits from a local OpenStreetMap extract as speed-limit zones.
+//
+// The input is GeoJSON with one LineString per way, as written by
+//   osmium tags-filter region.osm.pbf w/maxspeed -o roads.osm.pbf
+//   osmium export roads.osm.pbf --geometry-types=linestring --add-unique-id=type_id -o roads.geojson
+// Every way with a numeric `maxspeed` becomes a polygon corridor around the road, stored as a
+// geofence with purpose 'speed_limit'. Re-importing updates the zones in place (one zone per
+// user and OSM way).
+//
+//   node scripts/import-osm-speed-limits.js --file=roads.geojson --user=<user uuid>
+//
+// Options (all --name=value):
+//   --file     GeoJSON file to import
+//   --user     owner of the zones (auth.users id)
+//   --width    corridor width in meters (default 20)
+//   --dry-run  parse and report without writing
+
+import { readFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '../.env' });
+
+// Rows per upsert request
+const BATCH_SIZE = 500;
+const METERS_PER_DEGREE = 111320;
+const KMH_PER_MPH = 1.609344;
+
+/** @returns {Record<string, string>} */
+function parseArgs() {
+  /** @type {Record<string, string>} */
+  const args = {};
+  for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) args[match[1]] = match[2] ?? 'true';
+  }
+  return args;
+}
+
+// "50", "50 km/h", "30 mph" -> km/h, null for "none", "signals", "RU:urban" and the like
+function parseMaxspeed(value) {
+  const match = String(value || '').trim().match(/^(\d+(?:\.\d+)?)\s*(km\/h|kmh|kph|mph)?$/i);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  const kmh = match[2] && match[2].toLowerCase() === 'mph' ? speed * KMH_PER_MPH : speed;
+  return kmh > 0 ? Math.round(kmh) : null;
+}
+
+// OSM way id from the feature id ("w123", "way/123") or its properties
+function wayId(feature) {
+  const candidates = [feature.id, feature.properties?.['@id'], feature.properties?.id, feature.properties?.osm_id];
+  for (const candidate of candidates) {
+    const match = String(candidate ?? '').match(/^(?:w|way\/)?(\d+)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// Closed ring around a line, `halfWidth` meters on each side, in a local flat projection
+function bufferLine(coordinates, halfWidth) {
+  const [lon0, lat0] = coordinates[0];
+  const scaleX = Math.cos(lat0 * Math.PI / 180) * METERS_PER_DEGREE;
+  const points = coordinates.map(([lon, lat]) => ({ x: (lon - lon0) * scaleX, y: (lat - lat0) * METERS_PER_DEGREE }));
+
+  const left = [];
+  const right = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const previous = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const dx = next.x - previous.x;
+    const dy = next.y - previous.y;
+    const length = Math.hypot(dx, dy) || 1;
+    // Normal of the averaged direction, stretched a little on bends so the corridor keeps its width
+    const stretch = i > 0 && i < points.length - 1 ? 1.2 : 1;
+    const nx = (-dy / length) * halfWidth * stretch;
+    const ny = (dx / length) * halfWidth * stretch;
+
+    left.push({ x: points[i].x + nx, y: points[i].y + ny });
+    right.push({ x: points[i].x - nx, y: points[i].y - ny });
+  }
+
+  return [...left, ...right.reverse()].map(({ x, y }) => ({
+    lat: Math.round((lat0 + y / METERS_PER_DEGREE) * 1e7) / 1e7,
+    lon: Math.round((lon0 + x / scaleX) * 1e7) / 1e7,
+  }));
+}
+
+async function main() {
+  const args = parseArgs();
+  if (!args.file || !args.user) {
+    console.error('Usage: node scripts/import-osm-speed-limits.js --file=roads.geojson --user=<user uuid> [--width=20] [--dry-run]');
+    process.exit(1);
+  }
+
+  const halfWidth = parseFloat(args.width || '20') / 2;
+  const dryRun = args['dry-run'] === 'true';
+  const collection = JSON.parse(readFileSync(args.file, 'utf8'));
+
+  const rows = [];
+  let skipped = 0;
+
+  for (const feature of collection.features || []) {
+    const properties = feature.properties || {};
+    const tags = properties.tags || properties;
+    const limit = parseMaxspeed(tags.maxspeed);
+    const id = wayId(feature);
+    const geometry = feature.geometry;
+
+    if (!limit || !id || !geometry || geometry.type !== 'LineString' || geometry.coordinates.length < 2) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      user_id: args.user,
+      name: `${tags.name || tags.ref || tags.highway || 'Road'} (${limit} km/h)`,
+      description: `OpenStreetMap way ${id}`,
+      zone_type: 'polygon',
+      polygon_coordinates: bufferLine(geometry.coordinates, halfWidth),
+      purpose: 'speed_limit',
+      speed_limit_kmh: limit,
+      source: 'osm',
+      osm_way_id: id,
+      alert_on_enter: false,
+      alert_on_exit: false,
+      is_active: true,
+      color: '#f59e0b',
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  console.log(`${rows.length} speed-limit zone(s) parsed, ${skipped} feature(s) skipped`);
+  if (dryRun || rows.length === 0) return;
+
+  const key = process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    console.error('VITE_SUPABASE_SERVICE_ROLE_KEY is required to write zones for a user');
+    process.exit(1);
+  }
+  const supabase = createClient(process.env.VITE_SUPABASE_URL, key);
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase
+      .from('geofences')
+      .upsert(batch, { onConflict: 'user_id,osm_way_id' });
+
+    if (error) {
+      console.error(`Error importing zones ${i + 1}-${i + batch.length}:`, error);
+      process.exit(1);
+    }
+    console.log(`Imported ${Math.min(i + BATCH_SIZE, rows.length)} / ${rows.length}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,251 @@
+// Load test for GPS ingestion.
+//
+// Two modes:
+//   node scripts/load-test.js                      drives the ingestion pipeline in-process
+//                                                   against a simulated Supabase with latency
+//   node scripts/load-test.js --url=http://host:3001 --devices=ID1,ID2
+//                                                   POSTs fixes to a running server's /gps/update
+//
+// Options (all --name=value):
+//   --devices      number of synthetic devices, or a comma separated list of device ids
+//   --tokens       comma separated device tokens in the order of --devices, HTTP mode only
+//   --fixes        fixes sent per device (default 50)
+//   --concurrency  requests in flight at once (default 50)
+//   --latency      simulated database latency in ms, in-process mode only (default 20)
+//   --batch        pipeline batch size, in-process mode only (default 100)
+
+import { isPointInGeofence } from '../../shared/geometry.js';
+import { createIngestionPipeline } from '../lib/ingestion.js';
+
+/** @typedef {import('@supabase/supabase-js').SupabaseClient} SupabaseClient */
+
+/**
+ * A fix as a tracker posts it to /gps/update
+ * @typedef {Object} Fix
+ * @property {string} device_id
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed
+ * @property {number} heading
+ * @property {number} accuracy
+ * @property {string} timestamp
+ */
+
+/** @returns {Record<string, string>} */
+function parseArgs() {
+  /** @type {Record<string, string>} */
+  const args = {};
+  for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+const args = parseArgs();
+const fixesPerDevice = parseInt(args.fixes || '50', 10);
+const concurrency = parseInt(args.concurrency || '50', 10);
+const latencyMs = parseInt(args.latency || '20', 10);
+const batchSize = parseInt(args.batch || '100', 10);
+
+const deviceIds = args.devices && args.devices.includes(',')
+  ? args.devices.split(',').map((id) => id.trim())
+  : Array.from({ length: parseInt(args.devices || '200', 10) }, (_, i) => `LOADTEST${String(i).padStart(7, '0')}`);
+
+const tokens = new Map((args.tokens ? args.tokens.split(',') : []).map((token, i) => [deviceIds[i], token.trim()]));
+
+/** @param {number} ms */
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Each device starts somewhere around Casablanca and wanders a few meters per fix
+function createFixGenerator() {
+  const positions = new Map(deviceIds.map((id) => [id, {
+    latitude: 33.57 + (Math.random() - 0.5) * 0.2,
+    longitude: -7.59 + (Math.random() - 0.5) * 0.2,
+    heading: Math.random() * 360,
+  }]));
+
+  /**
+   * @param {string} deviceId
+   * @returns {Fix}
+   */
+  return (deviceId) => {
+    const position = /** @type {{ latitude: number, longitude: number, heading: number }} */ (positions.get(deviceId));
+    position.heading = (position.heading + (Math.random() - 0.5) * 30 + 360) % 360;
+    const radians = position.heading * Math.PI / 180;
+    position.latitude += Math.cos(radians) * 0.0002;
+    position.longitude += Math.sin(radians) * 0.0002;
+
+    return {
+      device_id: deviceId,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      speed: Math.round(Math.random() * 100),
+      heading: Math.round(position.heading),
+      accuracy: 10,
+      timestamp: new Date().toISOString(),
+    };
+  };
+}
+
+/**
+ * Runs `task` for every fix with at most `concurrency` in flight and records latencies.
+ * @param {(fix: Fix) => Promise<void>} task
+ */
+async function run(task) {
+  const nextFix = createFixGenerator();
+  /** @type {string[]} */
+  const queue = [];
+  for (let i = 0; i < fixesPerDevice; i++) {
+    for (const deviceId of deviceIds) queue.push(deviceId);
+  }
+
+  /** @type {number[]} */
+  const latencies = [];
+  let errors = 0;
+  const startedAt = Date.now();
+
+  const worker = async () => {
+    for (let deviceId = queue.shift(); deviceId !== undefined; deviceId = queue.shift()) {
+      const fix = nextFix(deviceId);
+      const start = performance.now();
+      try {
+        await task(fix);
+      } catch (error) {
+        errors++;
+        if (errors <= 5) console.error('Fix failed:', error instanceof Error ? error.message : error);
+      }
+      latencies.push(performance.now() - start);
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  const elapsed = (Date.now() - startedAt) / 1000;
+  latencies.sort((a, b) => a - b);
+  /** @param {number} p */
+  const percentile = (p) => latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * p))] || 0;
+
+  console.log(`Fixes:        ${latencies.length} from ${deviceIds.length} devices`);
+  console.log(`Errors:       ${errors}`);
+  console.log(`Elapsed:      ${elapsed.toFixed(2)}s`);
+  console.log(`Throughput:   ${(latencies.length / elapsed).toFixed(0)} fixes/s`);
+  console.log(`Latency p50:  ${percentile(0.5).toFixed(1)}ms`);
+  console.log(`Latency p95:  ${percentile(0.95).toFixed(1)}ms`);
+  console.log(`Latency p99:  ${percentile(0.99).toFixed(1)}ms`);
+}
+
+// Minimal stand-in for the Supabase query builder: every query resolves after `latencyMs`
+// and counts towards the per-table query totals printed at the end.
+/** @returns {{ client: SupabaseClient, queries: Record<string, number> }} */
+function createSimulatedSupabase() {
+  /** @type {Record<string, number>} */
+  const queries = {};
+  const geofences = [{
+    id: 'loadtest-zone',
+    name: 'Load test zone',
+    zone_type: 'circle',
+    center_latitude: 33.57,
+    center_longitude: -7.59,
+    radius_meters: 2000,
+    alert_on_entry: true,
+    alert_on_exit: true,
+  }];
+
+  /** @param {string} table */
+  const from = (table) => {
+    /** @type {Record<string, unknown>} */
+    const filters = {};
+    const builder = {
+      select: () => builder,
+      insert: () => builder,
+      update: () => builder,
+      /** @param {string} column @param {unknown} value */
+      eq: (column, value) => { filters[column] = value; return builder; },
+      order: () => builder,
+      limit: () => builder,
+      maybeSingle: () => builder,
+      /**
+       * @param {(result: { data: unknown, error: null }) => unknown} resolve
+       * @param {(reason: unknown) => unknown} reject
+       */
+      then: (resolve, reject) => sleep(latencyMs).then(() => {
+        queries[table] = (queries[table] || 0) + 1;
+        switch (table) {
+          case 'gps_devices':
+            return { data: { device_id: filters.device_id, vehicle: { id: `vehicle-${filters.device_id}`, user_id: 'loadtest-user' } }, error: null };
+          case 'geofences':
+            return { data: geofences, error: null };
+          case 'vehicle_settings':
+            return { data: { enable_speed_alerts: true, max_speed_limit: 120 }, error: null };
+          default:
+            return { data: [], error: null };
+        }
+      }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  // Only from() is implemented, which is all the ingestion pipeline calls
+  return { client: /** @type {SupabaseClient} */ (/** @type {unknown} */ ({ from })), queries };
+}
+
+async function runInProcess() {
+  const { client, queries } = createSimulatedSupabase();
+  const ingestion = createIngestionPipeline(client, { batchSize });
+
+  console.log(`In-process pipeline, ${latencyMs}ms simulated latency, batch size ${batchSize}\n`);
+
+  // Mirrors the database access of processGPSData and checkAlerts in server.js
+  await run(async (fix) => {
+    const context = await ingestion.resolveDevice(fix.device_id);
+    if (!context) throw new Error(`Unknown device ${fix.device_id}`);
+
+    ingestion.touchDevice(fix.device_id);
+    const isLatest = await ingestion.advanceLatestFix(context.vehicle.id, Date.parse(fix.timestamp));
+    const { device_id: _deviceId, ...row } = fix;
+    const location = ingestion.enqueueLocation({ vehicle_id: context.vehicle.id, ...row, is_replayed: !isLatest });
+    if (!isLatest) return;
+
+    await ingestion.getVehicleSettings(context.vehicle.id);
+    const zones = await ingestion.getActiveGeofences(context.vehicle.user_id);
+    const state = await ingestion.getGeofenceState(context.vehicle.id);
+    for (const zone of zones) {
+      state.set(zone.id, isPointInGeofence(location.latitude, location.longitude, zone));
+    }
+  });
+
+  await ingestion.close();
+  console.log('\nPipeline:    ', ingestion.getStats());
+  console.log('Queries:     ', queries);
+}
+
+/** @param {string} url */
+async function runHttp(url) {
+  console.log(`POST ${url}/gps/update\n`);
+
+  await run(async (fix) => {
+    const response = await fetch(`${url}/gps/update`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(tokens.has(fix.device_id) ? { Authorization: `Bearer ${tokens.get(fix.device_id)}` } : {}),
+      },
+      body: JSON.stringify(fix),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  });
+
+  try {
+    const response = await fetch(`${url}/ingestion/stats`);
+    if (response.ok) console.log('\nServer:      ', await response.json());
+  } catch {
+    // Older servers have no stats endpoint
+  }
+}
+
+const main = args.url ? runHttp(args.url.replace(/\/$/, '')) : runInProcess();
+main.catch((error) => {
+  console.error('Load test failed:', error);
+  process.exit(1);
+});
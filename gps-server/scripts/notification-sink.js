@@ -0,0 +1,145 @@
+// Local stand-in for the notification channels of alert escalation.
+//
+// Two modes:
+//   node scripts/notification-sink.js                 starts an SMTP server and an HTTP server
+//                                                     that print every email and webhook call
+//   node scripts/notification-sink.js --send=email --to=ops@example.com
+//   node scripts/notification-sink.js --send=webhook --url=http://localhost:8025/hook
+//                                                     sends a sample escalation through the
+//                                                     notifiers configured in ../.env
+//
+// Options (all --name=value):
+//   --smtp-port  port of the SMTP sink (default 2525)
+//   --http-port  port of the webhook sink (default 8025)
+//
+// To route a running GPS server to the sink, set SMTP_HOST=localhost, SMTP_PORT=2525 and
+// WEBHOOK_ALLOW_PRIVATE_URLS=true, and use http://localhost:8025/<anything> as webhook URL of
+// the escalation step. --send always accepts local URLs.
+
+import dotenv from 'dotenv';
+import { createServer } from 'http';
+import net from 'net';
+import { createNotifiers } from '../lib/notifiers.js';
+
+dotenv.config({ path: '../.env' });
+
+/** @returns {Record<string, string>} */
+function parseArgs() {
+  /** @type {Record<string, string>} */
+  const args = {};
+  for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+const args = parseArgs();
+
+// Just enough SMTP for a client to hand over a message: no authentication, no TLS
+function startSmtpSink(port) {
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let envelope = { from: '', to: [] };
+
+    const reply = (line) => socket.write(`${line}\r\n`);
+    reply('220 notification-sink ESMTP');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          const message = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          console.log(`\n[email] ${new Date().toISOString()} from ${envelope.from} to ${envelope.to.join(', ')}`);
+          console.log(message);
+          envelope = { from: '', to: [] };
+          reply('250 OK: queued');
+          continue;
+        }
+
+        const newline = buffer.indexOf('\r\n');
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') reply('250 notification-sink');
+        else if (command === 'MAIL') {
+          envelope.from = line.replace(/^MAIL FROM:\s*/i, '');
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else reply('250 OK');
+      }
+    });
+    socket.on('error', () => {});
+  });
+
+  server.listen(port, () => console.log(`SMTP sink listening on port ${port}`));
+}
+
+function startWebhookSink(port) {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      console.log(`\n[webhook] ${new Date().toISOString()} ${req.method} ${req.url}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"ok":true}');
+    });
+  });
+
+  server.listen(port, () => console.log(`Webhook sink listening on http://localhost:${port}`));
+}
+
+async function sendSample(channel) {
+  const notifier = createNotifiers({ ...process.env, WEBHOOK_ALLOW_PRIVATE_URLS: 'true' })[channel];
+  if (!notifier) {
+    console.error(`No notifier for channel "${channel}" (email needs SMTP_HOST)`);
+    process.exit(1);
+  }
+
+  const alert = {
+    id: '00000000-0000-0000-0000-000000000000',
+    alert_type: 'speed_limit',
+    severity: 'critical',
+    title: 'Speeding',
+    message: 'Speed over limit > 0 km/h for 10 s',
+  };
+  await notifier.send({
+    to: args.to ? args.to.split(',') : [],
+    url: args.url,
+    subject: `[CRITICAL] ${alert.title} - Test vehicle`,
+    text: `${alert.message}\n\nThis is a test notification.`,
+    payload: { event: 'alert.escalated', alert, policy: { id: null, name: 'Test' }, step: 1, recipients: [] },
+  });
+  console.log(`Sample ${channel} notification sent`);
+}
+
+if (args.send) {
+  sendSample(args.send).catch((error) => {
+    console.error('Sending failed:', error.message);
+    process.exit(1);
+  });
+} else {
+  startSmtpSink(parseInt(args['smtp-port'] || '2525', 10));
+  startWebhookSink(parseInt(args['http-port'] || '8025', 10));
+}
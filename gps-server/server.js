@@ -4,6 +4,46 @@ import { Server } from 'socket.io';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import net from 'net';
+import { isPointInGeofence } from '../shared/geometry.js';
+import { createAlertEpisodes } from './lib/alertEpisodes.js';
+import { createDeviceAuthenticator, redactCredentials } from './lib/deviceAuth.js';
+import { createDrivingAnalyser } from './lib/driving.js';
+import { createDriverTracking } from './lib/driverTracking.js';
+import { createEscalation } from './lib/escalation.js';
+import { createFuelAnalyser } from './lib/fuel.js';
+import { batteryStatusFromVoltage, createHealthMonitor } from './lib/health.js';
+import { applicableSpeedLimit } from './lib/speeding.js';
+import { createIngestionPipeline, validateFix } from './lib/ingestion.js';
+import { createNotifiers } from './lib/notifiers.js';
+import { createRealtimeRooms } from './lib/realtime.js';
+import { createRuleEngine } from './lib/rules.js';
+import { createIdleMonitor } from './lib/stops.js';
+import { createTripDetector } from './lib/trips.js';
+import { createOdometer } from './lib/odometer.js';
+import { createMaintenanceScheduler } from './lib/maintenance.js';
+import { createDeviceSession } from './lib/session.js';
+import { createDeviceWatchdog } from './lib/watchdog.js';
+import { createWebhookDispatcher } from './lib/webhooks.js';
+
+/** @typedef {import('./protocols/types.js').AlarmType} AlarmType */
+/** @typedef {import('./protocols/types.js').DeviceStatus} DeviceStatus */
+/** @typedef {import('./lib/ingestion.js').DeviceContext} DeviceContext */
+/** @typedef {import('./lib/ingestion.js').LocationRow} LocationRow */
+
+/**
+ * A fix from any source, before it is stored
+ * @typedef {Object} GpsData
+ * @property {string} device_id
+ * @property {number} latitude
+ * @property {number} longitude
+ * @property {number} speed      km/h
+ * @property {number} heading    degrees
+ * @property {number} accuracy   meters
+ * @property {string} timestamp  ISO 8601 time of the fix
+ * @property {boolean} [historical] Flagged as buffered by the device
+ * @property {number} [satellites]
+ * @property {boolean} [valid]   Whether the device reported a GPS fix
+ */
 
 dotenv.config({ path: '../.env' });
 
@@ -17,26 +57,153 @@ const io = new Server(httpServer, {
 });
 
 // Supabase client with service role key (bypasses RLS for server operations)
-const supabase = createClient(
-  process.env.VITE_SUPABASE_URL,
-  process.env.VITE_SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
-);
+const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY = process.env.VITE_SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+if (!SUPABASE_URL || !SUPABASE_KEY) {
+  console.error('VITE_SUPABASE_URL and VITE_SUPABASE_SERVICE_ROLE_KEY are required');
+  process.exit(1);
+}
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+// Device/vehicle caches and batched gps_locations inserts
+const ingestion = createIngestionPipeline(supabase, {
+  batchSize: parseInt(process.env.GPS_BATCH_SIZE || '100', 10),
+  flushIntervalMs: parseInt(process.env.GPS_FLUSH_INTERVAL_MS || '1000', 10)
+});
+
+// Cuts stored GPS fixes into trips (trip_routes), thresholds come from vehicle_settings
+const tripDetector = createTripDetector(supabase, {
+  getVehicleSettings: ingestion.getVehicleSettings,
+  intervalMs: parseInt(process.env.TRIP_DETECTION_INTERVAL_MS || '300000', 10)
+});
+
+// Filtered GPS distance per vehicle (vehicle_odometers), calibrated by reported odometer readings
+const odometer = createOdometer(supabase, {
+  intervalMs: parseInt(process.env.ODOMETER_INTERVAL_MS || '600000', 10)
+});
+
+// Stationary vehicles with the engine running, for idle_too_long alerts
+const idleMonitor = createIdleMonitor(supabase, {
+  getVehicleSettings: ingestion.getVehicleSettings
+});
+
+// Harsh acceleration, braking and cornering from consecutive fixes
+const drivingAnalyser = createDrivingAnalyser(supabase);
+
+// Driver app positions, authenticated with the driver's Supabase session
+const driverTracking = createDriverTracking(supabase);
+
+// Dashboard sockets authenticate with their Supabase token and only join their own rooms
+const realtime = createRealtimeRooms(io, supabase, { assignedVehicleId: driverTracking.assignedVehicleId });
+
+// Repeated alerts of a vehicle are grouped into one alert per episode, see lib/alertEpisodes.js
+const alertEpisodes = createAlertEpisodes(supabase, { emit: realtime.emitToOrganization });
+
+// Service plans: upcoming maintenance records from odometer and engine hours, maintenance_due alerts
+const maintenanceScheduler = createMaintenanceScheduler(supabase, {
+  alertEpisodes,
+  intervalMs: parseInt(process.env.MAINTENANCE_INTERVAL_MS || '3600000', 10)
+});
+
+// User-defined alert rules (alert_rules) over speed, fuel, battery, engine, time and geofences
+const ruleEngine = createRuleEngine(supabase, { alertEpisodes });
+
+// Smoothed fuel levels: refuels and drops while parked (fuel_events), low_fuel and fuel_drop alerts
+const fuelAnalyser = createFuelAnalyser(supabase, {
+  alertEpisodes,
+  getVehicleSettings: ingestion.getVehicleSettings,
+  refuelMinPercent: parseFloat(process.env.FUEL_REFUEL_MIN_PERCENT || '8'),
+  dropMinPercent: parseFloat(process.env.FUEL_DROP_MIN_PERCENT || '5')
+});
+
+// Vehicle health from status packets and fixes: battery_disconnect and no_gps_signal alerts
+const healthMonitor = createHealthMonitor({
+  alertEpisodes,
+  noGpsMs: parseInt(process.env.NO_GPS_SIGNAL_MS || '600000', 10)
+});
+
+// Silent trackers: marked inactive with a no_gps_signal alert at their last known position
+const deviceWatchdog = createDeviceWatchdog(supabase, {
+  alertEpisodes,
+  emit: realtime.emitToVehicle,
+  intervalMs: parseInt(process.env.DEVICE_WATCHDOG_INTERVAL_MS || '60000', 10),
+  offlineAfterMs: parseInt(process.env.DEVICE_OFFLINE_MS || '900000', 10)
+});
+
+// Unacknowledged alerts notify the people of escalation_policies by email (SMTP_*) or webhook
+const escalation = createEscalation(supabase, {
+  notifiers: createNotifiers(process.env),
+  intervalMs: parseInt(process.env.ESCALATION_INTERVAL_MS || '30000', 10)
+});
+
+// Signed outbound webhooks (webhook_subscriptions); table events are queued by database triggers
+const webhooks = createWebhookDispatcher(supabase, {
+  intervalMs: parseInt(process.env.WEBHOOK_INTERVAL_MS || '5000', 10),
+  batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '50', 10),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  gpsIntervalMs: parseInt(process.env.WEBHOOK_GPS_INTERVAL_MS || '15000', 10),
+  allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true'
+});
+
+// Per-device tokens for the HTTP endpoints, GPS_DEVICE_AUTH=off disables the check (local testing only)
+const deviceAuth = createDeviceAuthenticator(supabase, { resolveDevice: ingestion.resolveDevice });
+const DEVICE_AUTH_ENABLED = process.env.GPS_DEVICE_AUTH !== 'off';
+if (!DEVICE_AUTH_ENABLED) {
+  console.warn('⚠️  GPS_DEVICE_AUTH=off: HTTP fixes are accepted without a device token');
+}
 
 // CORS middleware
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Device-Token, X-Signature, X-Timestamp');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
   next();
 });
 
-app.use(express.json());
+// Keep the raw body, HMAC signatures are computed over the bytes the device sent
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    /** @type {import('./lib/deviceAuth.js').AuthRequest} */ (req).rawBody = buf.toString('utf8');
+  }
+}));
+
+// Checks the device token or signature, answers 401 and returns false when it is not valid
+/**
+ * @param {express.Request} req
+ * @param {express.Response} res
+ * @param {string} deviceId
+ */
+async function authorizeDevice(req, res, deviceId) {
+  if (!DEVICE_AUTH_ENABLED) return true;
+
+  const result = await deviceAuth.authenticate(req, deviceId);
+  if (result.ok) return true;
+
+  console.warn(`Rejected fix for device ${deviceId} from ${req.ip}: ${result.reason}`);
+  res.status(401).send('Unauthorized');
+  return false;
+}
+
+// First of the named parameters that is set, firmwares name them differently
+/**
+ * @param {Record<string, unknown>} params
+ * @param {...string} names
+ * @returns {string | undefined}
+ */
+function param(params, ...names) {
+  for (const name of names) {
+    const value = params[name];
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'string' && value !== '') return value;
+  }
+  return undefined;
+}
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
@@ -44,19 +211,22 @@ app.get('/health', (req, res) => {
 app.get('/', async (req, res) => {
   try {
     console.log('Root GET request received');
-    console.log('Query params:', req.query);
-    console.log('Headers:', req.headers);
+    console.log('Query params:', redactCredentials(req.query));
+    console.log('Headers:', redactCredentials(req.headers));
     
     // If there are query parameters, treat as GPS data
     if (Object.keys(req.query).length > 0) {
-      const device_id = req.query.id || req.query.device_id || req.query.imei || req.query.deviceid;
-      const latitude = req.query.lat || req.query.latitude;
-      const longitude = req.query.lon || req.query.lng || req.query.longitude;
-      const speed = req.query.speed || req.query.spd || '0';
-      const heading = req.query.heading || req.query.course || req.query.dir || '0';
-      const accuracy = req.query.accuracy || req.query.acc || '10';
+      const device_id = param(req.query, 'id', 'device_id', 'imei', 'deviceid');
+      const latitude = param(req.query, 'lat', 'latitude');
+      const longitude = param(req.query, 'lon', 'lng', 'longitude');
+      const speed = param(req.query, 'speed', 'spd') || '0';
+      const heading = param(req.query, 'heading', 'course', 'dir') || '0';
+      const accuracy = param(req.query, 'accuracy', 'acc') || '10';
+      const timestamp = param(req.query, 'timestamp', 'time', 'fixtime');
 
       if (device_id && latitude && longitude) {
+        if (!(await authorizeDevice(req, res, device_id))) return;
+
         const gpsData = {
           device_id,
           latitude: parseFloat(latitude),
@@ -64,7 +234,7 @@ app.get('/', async (req, res) => {
           speed: parseFloat(speed),
           heading: parseFloat(heading),
           accuracy: parseFloat(accuracy),
-          timestamp: new Date().toISOString()
+          timestamp: deviceTimestamp(timestamp)
         };
 
         console.log('Processing GPS data from root path:', gpsData);
@@ -82,8 +252,8 @@ app.get('/', async (req, res) => {
 // HEAD request handler - some GPS devices use HEAD to check server
 app.head('/', (req, res) => {
   console.log('HEAD request received');
-  console.log('Query params:', req.query);
-  console.log('Headers:', req.headers);
+  console.log('Query params:', redactCredentials(req.query));
+  console.log('Headers:', redactCredentials(req.headers));
   res.status(200).end();
 });
 
@@ -91,8 +261,8 @@ app.head('/', (req, res) => {
 app.post('/', async (req, res) => {
   try {
     console.log('Root POST request received (Traccar)');
-    console.log('Body:', req.body);
-    console.log('Query params:', req.query);
+    console.log('Body:', redactCredentials(req.body));
+    console.log('Query params:', redactCredentials(req.query));
     
     // Traccar sends data in body or query params
     const data = { ...req.query, ...req.body };
@@ -103,12 +273,13 @@ app.post('/', async (req, res) => {
     const speed = data.speed || data.spd || '0';
     const heading = data.heading || data.course || data.bearing || '0';
     const accuracy = data.accuracy || data.acc || '10';
-    const altitude = data.altitude || data.alt || '0';
-    const battery = data.battery || data.batt || '100';
+    const timestamp = data.timestamp || data.time || data.fixtime;
 
     console.log('Extracted Traccar data:', { device_id, latitude, longitude, speed, heading });
 
     if (device_id && latitude && longitude) {
+      if (!(await authorizeDevice(req, res, device_id))) return;
+
       const gpsData = {
         device_id,
         latitude: parseFloat(latitude),
@@ -116,7 +287,7 @@ app.post('/', async (req, res) => {
         speed: parseFloat(speed),
         heading: parseFloat(heading),
         accuracy: parseFloat(accuracy),
-        timestamp: new Date().toISOString()
+        timestamp: deviceTimestamp(timestamp)
       };
 
       console.log('Processing Traccar GPS data:', gpsData);
@@ -133,8 +304,13 @@ app.post('/', async (req, res) => {
   }
 });
 
+// Ingestion pipeline counters (buffered, inserted and failed locations)
+app.get('/ingestion/stats', (_req, res) => {
+  res.json(ingestion.getStats());
+});
+
 // Get connected devices
-app.get('/devices/connected', (req, res) => {
+app.get('/devices/connected', (_req, res) => {
   const devices = Array.from(connectedDevices.entries()).map(([deviceId, info]) => ({
     device_id: deviceId,
     remote_address: info.remoteAddr,
@@ -149,9 +325,9 @@ app.all('/traccar', async (req, res) => {
   try {
     console.log('=== TRACCAR REQUEST ===');
     console.log('Method:', req.method);
-    console.log('Query:', req.query);
-    console.log('Body:', req.body);
-    console.log('Headers:', req.headers);
+    console.log('Query:', redactCredentials(req.query));
+    console.log('Body:', redactCredentials(req.body));
+    console.log('Headers:', redactCredentials(req.headers));
     
     // Combine query and body parameters
     const data = { ...req.query, ...req.body };
@@ -165,11 +341,13 @@ app.all('/traccar', async (req, res) => {
     const accuracy = data.accuracy || data.acc || data.hacc || '10';
     const altitude = data.altitude || data.alt || '0';
     const battery = data.battery || data.batt || '100';
-    const timestamp = data.timestamp || data.time || new Date().toISOString();
+    const timestamp = data.timestamp || data.time || data.fixtime;
 
     console.log('Extracted data:', { device_id, latitude, longitude, speed, heading });
 
     if (latitude && longitude) {
+      if (!(await authorizeDevice(req, res, device_id))) return;
+
       const gpsData = {
         device_id,
         latitude: parseFloat(latitude),
@@ -179,19 +357,13 @@ app.all('/traccar', async (req, res) => {
         accuracy: parseFloat(accuracy),
         altitude: parseFloat(altitude),
         battery: parseFloat(battery),
-        timestamp: new Date(timestamp).toISOString()
+        timestamp: deviceTimestamp(timestamp)
       };
 
       console.log('✅ Processing Traccar GPS data:', gpsData);
+      // processGPSData broadcasts gps_update, skipping fixes older than the live position
       await processGPSData(gpsData);
       
-      // Broadcast to connected clients via WebSocket
-      io.emit('gps_update', {
-        device_id: gpsData.device_id,
-        location: gpsData,
-        timestamp: gpsData.timestamp
-      });
-      
       res.status(200).send('OK');
     } else {
       console.log('❌ Missing coordinates in Traccar data');
@@ -206,21 +378,24 @@ app.all('/traccar', async (req, res) => {
 // HTTP GET endpoint for GPS devices (many devices send data via GET with query params)
 app.get('/gps', async (req, res) => {
   try {
-    console.log('GPS GET request received:', req.query);
+    console.log('GPS GET request received:', redactCredentials(req.query));
     
     // Extract parameters (different devices use different parameter names)
-    const device_id = req.query.id || req.query.device_id || req.query.imei || req.query.deviceid;
-    const latitude = req.query.lat || req.query.latitude;
-    const longitude = req.query.lon || req.query.lng || req.query.longitude;
-    const speed = req.query.speed || req.query.spd || '0';
-    const heading = req.query.heading || req.query.course || req.query.dir || '0';
-    const accuracy = req.query.accuracy || req.query.acc || '10';
+    const device_id = param(req.query, 'id', 'device_id', 'imei', 'deviceid');
+    const latitude = param(req.query, 'lat', 'latitude');
+    const longitude = param(req.query, 'lon', 'lng', 'longitude');
+    const speed = param(req.query, 'speed', 'spd') || '0';
+    const heading = param(req.query, 'heading', 'course', 'dir') || '0';
+    const accuracy = param(req.query, 'accuracy', 'acc') || '10';
+    const timestamp = param(req.query, 'timestamp', 'time', 'fixtime');
 
     if (!device_id || !latitude || !longitude) {
       console.log('Missing GPS data in GET request');
       return res.status(200).send('OK'); // Some devices expect 200 even without data
     }
 
+    if (!(await authorizeDevice(req, res, device_id))) return;
+
     const gpsData = {
       device_id,
       latitude: parseFloat(latitude),
@@ -228,19 +403,12 @@ app.get('/gps', async (req, res) => {
       speed: parseFloat(speed),
       heading: parseFloat(heading),
       accuracy: parseFloat(accuracy),
-      timestamp: new Date().toISOString()
+      timestamp: deviceTimestamp(timestamp)
     };
 
     console.log('Processing GPS data from GET:', gpsData);
     await processGPSData(gpsData);
 
-    // Broadcast to connected clients
-    io.emit('gps_update', {
-      device_id: gpsData.device_id,
-      location: gpsData,
-      timestamp: gpsData.timestamp
-    });
-
     res.status(200).send('OK');
   } catch (error) {
     console.error('Error processing GPS GET request:', error);
@@ -251,12 +419,17 @@ app.get('/gps', async (req, res) => {
 // HTTP POST endpoint for GPS data (for testing or HTTP-based GPS devices)
 app.post('/gps/update', async (req, res) => {
   try {
-    const { device_id, latitude, longitude, speed, heading, accuracy } = req.body;
+    const {
+      device_id, latitude, longitude, speed, heading, accuracy, timestamp, satellites,
+      fuel_level, battery_voltage, engine_temperature, odometer, dtc_codes
+    } = req.body;
 
     if (!device_id || !latitude || !longitude) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (!(await authorizeDevice(req, res, device_id))) return;
+
     const gpsData = {
       device_id,
       latitude: parseFloat(latitude),
@@ -264,25 +437,94 @@ app.post('/gps/update', async (req, res) => {
       speed: parseFloat(speed) || 0,
       heading: parseFloat(heading) || 0,
       accuracy: parseFloat(accuracy) || 10,
-      timestamp: new Date().toISOString()
+      timestamp: deviceTimestamp(timestamp),
+      satellites: satellites !== undefined && !isNaN(parseInt(satellites, 10)) ? parseInt(satellites, 10) : undefined
     };
 
+    const invalid = validateFix(gpsData);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
     await processGPSData(gpsData);
 
+    // Optional sensor and OBD readings: fuel level (percent), vehicle battery voltage,
+    // coolant temperature (°C), odometer (km) and trouble codes (array or comma separated)
+    /** @type {DeviceStatus} */
+    const status = {};
+    /** @type {Record<'fuel_level' | 'external_voltage' | 'engine_temperature' | 'odometer', unknown>} */
+    const readings = { fuel_level, external_voltage: battery_voltage, engine_temperature, odometer };
+    for (const [key, value] of /** @type {[keyof typeof readings, unknown][]} */ (Object.entries(readings))) {
+      if (value !== undefined && value !== null && !isNaN(parseFloat(String(value)))) status[key] = parseFloat(String(value));
+    }
+    if (dtc_codes !== undefined && dtc_codes !== null) {
+      const codes = (Array.isArray(dtc_codes) ? dtc_codes : String(dtc_codes).split(','))
+        .map((code) => String(code).trim().toUpperCase())
+        .filter(Boolean);
+      status.dtc_codes = codes;
+      status.dtc_count = codes.length;
+    }
+    if (Object.keys(status).length > 0) {
+      await processDeviceStatus(device_id, status);
+    }
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error processing GPS update:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Positions shared from the driver app: the phone's browser posts its Geolocation fixes with
+// `Authorization: Bearer <Supabase access token>`, they go to the driver's assigned vehicle
+app.post('/driver/position', async (req, res) => {
+  try {
+    const authorization = req.headers.authorization;
+    const token = authorization && /^Bearer\s+/i.test(authorization)
+      ? authorization.replace(/^Bearer\s+/i, '').trim()
+      : undefined;
+
+    const result = await driverTracking.resolve(token);
+    if (!result.ok || !result.context || !result.deviceId) {
+      return res.status(result.status || 401).json({ error: result.reason });
+    }
+
+    const { latitude, longitude, speed, heading, accuracy, timestamp } = req.body;
+    if (latitude === undefined || longitude === undefined || isNaN(parseFloat(latitude)) || isNaN(parseFloat(longitude))) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const gpsData = {
+      device_id: result.deviceId,
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+      speed: parseFloat(speed) || 0,
+      heading: parseFloat(heading) || 0,
+      accuracy: parseFloat(accuracy) || 10,
+      timestamp: deviceTimestamp(timestamp)
+    };
+
+    const invalid = validateFix(gpsData);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    await processGPSData(gpsData, result.context);
+
+    res.json({ success: true, vehicle_id: result.context.vehicle.id });
+  } catch (error) {
+    console.error('Error processing driver position:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
   }
 });
 
 // TCP server for GPS devices (common protocols: GT06, TK103, etc.)
-const GPS_PORT = process.env.GPS_TCP_PORT || 5023;
+const GPS_PORT = parseInt(process.env.GPS_TCP_PORT || '5023', 10);
 const connectedDevices = new Map(); // Track connected devices
 
 const tcpServer = net.createServer((socket) => {
-  const remoteAddr = socket.remoteAddress;
-  let deviceId = null;
+  const session = createDeviceSession(socket);
+  const remoteAddr = session.remoteAddr;
   
   // Only log actual GPS device connections (not localhost health checks)
   if (remoteAddr && !remoteAddr.includes('127.0.0.1') && !remoteAddr.includes('::1')) {
@@ -291,25 +533,48 @@ const tcpServer = net.createServer((socket) => {
 
   socket.on('data', async (data) => {
     try {
-      // Parse GPS data (this is a simplified example)
-      // Real implementation would parse specific GPS device protocols
-      const gpsData = parseGPSData(data);
-      
-      if (gpsData) {
-        deviceId = gpsData.device_id;
-        connectedDevices.set(deviceId, { socket, remoteAddr, lastSeen: new Date() });
-        
-        // Process the GPS data
-        await processGPSData(gpsData);
-        
-        // Send acknowledgment (GT06 protocol)
-        if (data[0] === 0x78 && data[1] === 0x78) {
-          const serialNumber = data.readUInt16BE(data[2] - 2);
-          const ack = Buffer.from([0x78, 0x78, 0x05, 0x01, 
-            (serialNumber >> 8) & 0xFF, serialNumber & 0xFF, 
-            0x0D, 0x0A]);
-          socket.write(ack);
+      const hex = data.toString('hex');
+      console.log('Received GPS data (hex):', hex.substring(0, 100) + (hex.length > 100 ? '...' : ''));
+
+      const messages = session.receive(data);
+      const protocol = session.getProtocol();
+
+      if (!protocol) {
+        console.log('Unable to parse GPS data - unknown protocol');
+        return;
+      }
+
+      for (const message of messages) {
+        if (!message.device_id) {
+          console.log(`${protocol}: ${message.type} packet received before login, dropping`);
+          continue;
         }
+
+        connectedDevices.set(message.device_id, { socket, remoteAddr, lastSeen: session.getLastSeen() });
+
+        if (message.type === 'login') {
+          console.log(`${protocol}: device login - ID:`, message.device_id);
+          continue;
+        }
+
+        if (message.type === 'heartbeat' || message.status || message.alarm) {
+          await processDeviceStatus(message.device_id, message.status || {}, message.alarm);
+        }
+
+        if (message.latitude === undefined || message.longitude === undefined) continue;
+
+        await processGPSData({
+          device_id: message.device_id,
+          latitude: message.latitude,
+          longitude: message.longitude,
+          speed: message.speed ?? 0,
+          heading: message.heading ?? 0,
+          accuracy: message.accuracy ?? 10,
+          timestamp: deviceTimestamp(message.timestamp),
+          historical: message.historical,
+          satellites: message.satellites,
+          valid: message.valid
+        });
       }
     } catch (error) {
       console.error('Error processing GPS data:', error);
@@ -318,12 +583,14 @@ const tcpServer = net.createServer((socket) => {
 
   socket.on('error', (error) => {
     console.error('Socket error:', error);
+    const deviceId = session.getDeviceId();
     if (deviceId) {
       connectedDevices.delete(deviceId);
     }
   });
 
   socket.on('close', () => {
+    const deviceId = session.getDeviceId();
     // Only log actual GPS device disconnections (not localhost health checks)
     if (remoteAddr && !remoteAddr.includes('127.0.0.1') && !remoteAddr.includes('::1')) {
       console.log('GPS device disconnected:', remoteAddr, deviceId ? `(${deviceId})` : '');
@@ -334,356 +601,157 @@ const tcpServer = net.createServer((socket) => {
   });
 });
 
-// Parse GPS data from device (supports multiple protocols)
-function parseGPSData(buffer) {
-  try {
-    const hex = buffer.toString('hex');
-    const text = buffer.toString('utf8');
-    
-    console.log('Received GPS data (hex):', hex.substring(0, 100) + (hex.length > 100 ? '...' : ''));
-    console.log('Received GPS data (text):', text.substring(0, 100) + (text.length > 100 ? '...' : ''));
-    
-    // Protocol 1: HEAD protocol (text-based)
-    if (text.includes('HEAD')) {
-      console.log('Detected HEAD protocol');
-      return parseHEADProtocol(text);
-    }
-    
-    // Protocol 2: GT06 protocol (binary)
-    if (buffer[0] === 0x78 && buffer[1] === 0x78) {
-      console.log('Detected GT06 protocol');
-      return parseGT06Protocol(buffer);
-    }
-    
-    // Protocol 3: NMEA GPRMC sentence
-    if (text.includes('$GPRMC') || text.includes('$GPGGA')) {
-      console.log('Detected NMEA protocol');
-      return parseNMEAProtocol(text);
-    }
-    
-    // Protocol 4: TK103 protocol
-    if (text.includes('imei:') || text.match(/\d{15}/)) {
-      console.log('Detected TK103-like protocol');
-      return parseTK103Protocol(text);
-    }
-    
-    console.log('Unable to parse GPS data - unknown protocol');
-    return null;
-  } catch (error) {
-    console.error('Error parsing GPS data:', error);
-    return null;
-  }
+// Battery level (percent) to the vehicle_health battery_status scale
+/** @param {number | undefined} level */
+function batteryStatusFromLevel(level) {
+  if (level === undefined) return undefined;
+  if (level <= 10) return 'critical';
+  if (level <= 30) return 'low';
+  return 'good';
 }
 
-// Parse HEAD protocol (text-based, including HTTP requests)
-function parseHEADProtocol(data) {
+// Heartbeat, status and alarm packets: refresh the device connection and record vehicle health
+/**
+ * @param {string} deviceId
+ * @param {DeviceStatus} status
+ * @param {AlarmType} [alarm]
+ */
+async function processDeviceStatus(deviceId, status, alarm) {
   try {
-    console.log('Parsing HEAD protocol, data length:', data.length);
-    
-    // If it's an HTTP request, extract the path/query
-    if (data.includes('HTTP/1.1') || data.includes('HTTP/1.0')) {
-      console.log('Detected HTTP request in HEAD protocol');
-      // Extract the request line (first line)
-      const lines = data.split('\n');
-      const requestLine = lines[0];
-      console.log('HTTP Request line:', requestLine);
-      
-      // Try to extract GPS data from URL path or query
-      // Example: HEAD /gps?id=123&lat=33.5&lon=-7.6 HTTP/1.1
-      const urlMatch = requestLine.match(/HEAD\s+([^\s]+)\s+HTTP/i);
-      if (urlMatch) {
-        const path = urlMatch[1];
-        console.log('Extracted path:', path);
-        
-        // Parse query parameters
-        const queryMatch = path.match(/\?(.+)/);
-        if (queryMatch) {
-          const params = new URLSearchParams(queryMatch[1]);
-          const deviceId = params.get('id') || params.get('device_id') || params.get('imei');
-          const lat = params.get('lat') || params.get('latitude');
-          const lon = params.get('lon') || params.get('lng') || params.get('longitude');
-          const speed = params.get('speed') || params.get('spd') || '0';
-          const heading = params.get('heading') || params.get('course') || '0';
-          
-          if (deviceId && lat && lon) {
-            console.log('HEAD HTTP parsed:', { deviceId, lat, lon, speed });
-            return {
-              device_id: deviceId,
-              latitude: parseFloat(lat),
-              longitude: parseFloat(lon),
-              speed: parseFloat(speed),
-              heading: parseFloat(heading),
-              accuracy: 10,
-              timestamp: new Date().toISOString()
-            };
-          }
-        }
-      }
-      
-      // If no query params, this might just be a health check
-      console.log('HEAD HTTP request has no GPS data (might be health check)');
-      return null;
-    }
-    
-    // Parse comma-separated format: HEAD,deviceId,lat,lon,speed,...
-    const parts = data.split(',');
-    console.log('HEAD protocol parts count:', parts.length);
-    
-    if (parts.length < 3) {
-      console.log('HEAD protocol: insufficient data parts');
-      return null;
-    }
-    
-    // Extract device ID (usually in first or second part)
-    let deviceId = null;
-    for (let i = 0; i < Math.min(3, parts.length); i++) {
-      const match = parts[i].match(/(\d{8,})/);
-      if (match) {
-        deviceId = match[1];
-        break;
-      }
-    }
-    
-    if (!deviceId) {
-      console.log('HEAD protocol: device ID not found in parts:', parts.slice(0, 3));
-      return null;
-    }
-    
-    // Try to find latitude and longitude
-    let latitude = null;
-    let longitude = null;
-    let speed = 0;
-    let heading = 0;
-    
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i].trim();
-      
-      // Look for coordinates (format: N/S followed by number or just decimal)
-      if (part.match(/^[NS]/) && parts[i + 1]) {
-        const latStr = part.substring(1) || parts[i + 1];
-        latitude = parseFloat(latStr);
-        if (part[0] === 'S') latitude *= -1;
-      }
-      
-      if (part.match(/^[EW]/) && parts[i + 1]) {
-        const lonStr = part.substring(1) || parts[i + 1];
-        longitude = parseFloat(lonStr);
-        if (part[0] === 'W') longitude *= -1;
-      }
-      
-      // Look for decimal coordinates
-      const num = parseFloat(part);
-      if (!isNaN(num)) {
-        if (num >= -90 && num <= 90 && latitude === null) {
-          latitude = num;
-        } else if (num >= -180 && num <= 180 && longitude === null && latitude !== null) {
-          longitude = num;
-        } else if (num >= 0 && num <= 300 && latitude !== null && longitude !== null && speed === 0) {
-          speed = num;
-        }
-      }
-    }
-    
-    if (latitude !== null && longitude !== null) {
-      console.log('HEAD protocol parsed:', { deviceId, latitude, longitude, speed });
-      return {
-        device_id: deviceId,
-        latitude,
-        longitude,
-        speed,
-        heading,
-        accuracy: 10,
-        timestamp: new Date().toISOString()
-      };
-    }
-    
-    console.log('HEAD protocol: coordinates not found in parts');
-    return null;
-  } catch (error) {
-    console.error('Error parsing HEAD protocol:', error);
-    return null;
-  }
-}
+    const context = await ingestion.resolveDevice(deviceId);
 
-// Parse GT06 protocol (binary)
-function parseGT06Protocol(buffer) {
-  try {
-    const length = buffer[2];
-    const protocolNumber = buffer[3];
-    
-    // Login packet (0x01) - contains IMEI
-    if (protocolNumber === 0x01) {
-      const imei = buffer.slice(4, 12).toString('hex');
-      console.log('GT06: Device login - IMEI:', imei);
-      return null;
+    if (!context) {
+      console.log('GPS device not found:', deviceId);
+      return;
     }
-    
-    // Location packet (0x12 or 0x22)
-    if (protocolNumber === 0x12 || protocolNumber === 0x22) {
-      const serialNumber = buffer.readUInt16BE(length - 4);
-      const deviceId = serialNumber.toString();
-      
-      const latitude = buffer.readUInt32BE(11) / 1800000;
-      const longitude = buffer.readUInt32BE(15) / 1800000;
-      const speed = buffer[19];
-      const course = buffer.readUInt16BE(20);
-      
-      console.log('GT06 parsed:', { deviceId, latitude, longitude, speed });
-      
-      return {
-        device_id: deviceId,
-        latitude,
-        longitude,
-        speed,
-        heading: course,
-        accuracy: 10,
-        timestamp: new Date().toISOString()
-      };
+
+    await ingestion.touchDevice(deviceId);
+
+    if (Object.keys(status).length === 0 && !alarm) return;
+
+    if (status.ignition !== undefined) {
+      await idleMonitor.recordIgnition(context.vehicle.id, status.ignition, Date.now());
     }
-    
-    return null;
+
+    await healthMonitor.observeStatus(context.vehicle, status, alarm, Date.now());
+
+    if (Object.keys(status).length === 0) return;
+
+    // The vehicle battery is rated from the external voltage, trackers without one report
+    // the level of their own battery
+    const { error } = await supabase
+      .from('vehicle_health')
+      .insert([{
+        vehicle_id: context.vehicle.id,
+        engine_status: status.ignition === undefined ? undefined : (status.ignition ? 'on' : 'off'),
+        engine_temperature: status.engine_temperature,
+        battery_voltage: status.external_voltage ?? status.battery_voltage,
+        battery_status: status.external_voltage !== undefined
+          ? batteryStatusFromVoltage(status.external_voltage)
+          : batteryStatusFromLevel(status.battery_level),
+        battery_level_percent: status.battery_level,
+        gsm_signal_strength: status.gsm_signal,
+        satellites_count: healthMonitor.satellites(context.vehicle.id) ?? undefined,
+        fuel_level_percent: status.fuel_level,
+        odometer_reading: status.odometer === undefined ? undefined : Math.round(status.odometer),
+        error_codes: status.dtc_codes,
+        dtc_count: status.dtc_count ?? status.dtc_codes?.length,
+        recorded_at: new Date().toISOString()
+      }]);
+
+    if (error) throw error;
+
+    const fuelLevel = status.fuel_level === undefined
+      ? undefined
+      : await fuelAnalyser.observe(context.vehicle, status.fuel_level, Date.now());
+
+    await ruleEngine.observe(context.vehicle, {
+      engine_status: status.ignition === undefined ? undefined : (status.ignition ? 'on' : 'off'),
+      battery_voltage: status.external_voltage ?? status.battery_voltage,
+      fuel_percent: fuelLevel
+    });
   } catch (error) {
-    console.error('Error parsing GT06:', error);
-    return null;
+    console.error('Error processing device status:', error);
   }
 }
 
-// Parse NMEA protocol
-function parseNMEAProtocol(data) {
-  try {
-    if (data.includes('$GPRMC')) {
-      const parts = data.split(',');
-      
-      if (parts.length >= 10) {
-        const lat = parseCoordinate(parts[3], parts[4]);
-        const lon = parseCoordinate(parts[5], parts[6]);
-        const speed = parseFloat(parts[7]) * 1.852;
-        const heading = parseFloat(parts[8]);
-        
-        const deviceIdMatch = data.match(/ID:(\w+)/i) || data.match(/(\d{10,})/);
-        const deviceId = deviceIdMatch ? deviceIdMatch[1] : 'UNKNOWN';
-        
-        console.log('NMEA parsed:', { deviceId, lat, lon, speed });
-        
-        return {
-          device_id: deviceId,
-          latitude: lat,
-          longitude: lon,
-          speed,
-          heading,
-          accuracy: 10,
-          timestamp: new Date().toISOString()
-        };
-      }
-    }
-    return null;
-  } catch (error) {
-    console.error('Error parsing NMEA:', error);
-    return null;
+// Fixes received this long after they were taken are treated as replayed backlog
+const REPLAY_AGE_MS = parseInt(process.env.GPS_REPLAY_AGE_MS || '300000', 10);
+// Device clocks ahead of the server by more than this are not trusted
+const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+
+// Device reported fix time (ISO 8601, unix seconds or unix milliseconds) as ISO 8601.
+// Falls back to the time of reception when the value is missing, invalid or in the future.
+/** @param {unknown} value */
+function deviceTimestamp(value) {
+  const now = Date.now();
+  if (value === undefined || value === null || value === '') return new Date(now).toISOString();
+
+  let time;
+  if (/^\d+(\.\d+)?$/.test(String(value))) {
+    const number = parseFloat(String(value));
+    time = number < 1e12 ? number * 1000 : number;
+  } else {
+    time = Date.parse(String(value));
   }
+
+  if (isNaN(time) || time > now + MAX_CLOCK_SKEW_MS) return new Date(now).toISOString();
+  return new Date(time).toISOString();
 }
 
-// Parse TK103-like protocol
-function parseTK103Protocol(data) {
+/**
+ * @param {GpsData} gpsData
+ * @param {DeviceContext | null} [resolvedContext] vehicle of a fix that does not come from a gps_devices row
+ */
+async function processGPSData(gpsData, resolvedContext = null) {
   try {
-    // Example: imei:123456789012345,tracker,151117120000,,F,120000.000,A,3000.0000,N,03000.0000,E,0.00,0;
-    const imeiMatch = data.match(/imei:(\d{15})/i) || data.match(/(\d{15})/);
-    if (!imeiMatch) return null;
-    
-    const deviceId = imeiMatch[1];
-    const parts = data.split(',');
-    
-    let latitude = null;
-    let longitude = null;
-    let speed = 0;
-    
-    for (let i = 0; i < parts.length - 1; i++) {
-      if (parts[i].match(/^\d{4}\.\d{4}$/) && parts[i + 1] === 'N' || parts[i + 1] === 'S') {
-        const coord = parseFloat(parts[i]);
-        latitude = Math.floor(coord / 100) + (coord % 100) / 60;
-        if (parts[i + 1] === 'S') latitude *= -1;
-      }
-      
-      if (parts[i].match(/^\d{5}\.\d{4}$/) && parts[i + 1] === 'E' || parts[i + 1] === 'W') {
-        const coord = parseFloat(parts[i]);
-        longitude = Math.floor(coord / 100) + (coord % 100) / 60;
-        if (parts[i + 1] === 'W') longitude *= -1;
-      }
-    }
-    
-    if (latitude !== null && longitude !== null) {
-      console.log('TK103 parsed:', { deviceId, latitude, longitude, speed });
-      return {
-        device_id: deviceId,
-        latitude,
-        longitude,
-        speed,
-        heading: 0,
-        accuracy: 10,
-        timestamp: new Date().toISOString()
-      };
+    // NaN or out of range values would be rejected by the insert or corrupt the live views
+    const invalid = validateFix(gpsData);
+    if (invalid) {
+      console.warn(`Dropping fix from device ${gpsData.device_id}: ${invalid}`);
+      return;
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Error parsing TK103:', error);
-    return null;
-  }
-}
 
-function parseCoordinate(value, direction) {
-  const degrees = Math.floor(parseFloat(value) / 100);
-  const minutes = parseFloat(value) % 100;
-  let coordinate = degrees + (minutes / 60);
-  
-  if (direction === 'S' || direction === 'W') {
-    coordinate *= -1;
-  }
-  
-  return coordinate;
-}
+    // Find GPS device configuration (cached), the driver app resolves its vehicle itself
+    const context = resolvedContext || await ingestion.resolveDevice(gpsData.device_id);
 
-async function processGPSData(gpsData) {
-  try {
-    // Find GPS device configuration
-    const { data: gpsDevice } = await supabase
-      .from('gps_devices')
-      .select('*, vehicle:vehicles(id, user_id)')
-      .eq('device_id', gpsData.device_id)
-      .single();
-
-    if (!gpsDevice || !gpsDevice.vehicle) {
+    if (!context) {
       console.log('GPS device not found:', gpsData.device_id);
       return;
     }
 
-    const vehicle = gpsDevice.vehicle;
+    const { vehicle } = context;
+    const receivedAt = Date.now();
+    const fixTime = Date.parse(gpsData.timestamp);
 
-    // Update device status to 'active' and last_connection
-    await supabase
-      .from('gps_devices')
-      .update({
-        status: 'active',
-        last_connection: new Date().toISOString()
-      })
-      .eq('device_id', gpsData.device_id);
+    // Update device status to 'active' and last_connection (throttled per device), phones
+    // of the driver app have no gps_devices row
+    if (context.device) {
+      ingestion.touchDevice(gpsData.device_id)
+        .catch((error) => console.error('Error updating device connection:', error));
+    }
 
-    // Insert GPS location
-    const { data: location, error } = await supabase
-      .from('gps_locations')
-      .insert([{
-        vehicle_id: vehicle.id,
-        latitude: gpsData.latitude,
-        longitude: gpsData.longitude,
-        speed: gpsData.speed,
-        heading: gpsData.heading,
-        accuracy: gpsData.accuracy,
-        timestamp: gpsData.timestamp
-      }])
-      .select()
-      .single();
+    // Store-and-forward: backlog uploaded after a coverage gap is flagged by the device
+    // (GT06 historical packets), arrives out of order or simply arrives late
+    const isLatest = await ingestion.advanceLatestFix(vehicle.id, fixTime);
+    const replayed = Boolean(gpsData.historical) || !isLatest || receivedAt - fixTime > REPLAY_AGE_MS;
 
-    if (error) throw error;
+    // Buffer GPS location, inserted with the next batch
+    const location = ingestion.enqueueLocation({
+      vehicle_id: vehicle.id,
+      latitude: gpsData.latitude,
+      longitude: gpsData.longitude,
+      speed: gpsData.speed,
+      heading: gpsData.heading,
+      accuracy: gpsData.accuracy,
+      timestamp: gpsData.timestamp,
+      is_replayed: replayed,
+      received_at: new Date(receivedAt).toISOString()
+    });
+
+    // Fixes older than the live position are stored for history only, broadcasting
+    // them would move the marker backwards
+    if (!isLatest) return;
 
     // Emit to connected clients with enhanced data
     const updateData = {
@@ -696,14 +764,15 @@ async function processGPSData(gpsData) {
       timestamp: gpsData.timestamp
     };
     
-    io.emit('gps_update', updateData);
-    console.log(`✅ GPS data processed and broadcasted:`, {
-      device_id: gpsData.device_id,
-      vehicle_id: vehicle.id,
-      coordinates: `${gpsData.latitude}, ${gpsData.longitude}`,
-      speed: `${gpsData.speed} m/s`,
-      clients_notified: io.engine.clientsCount
-    });
+    realtime.emitToVehicle(vehicle.id, 'gps_update', updateData);
+    webhooks.publishPosition(vehicle.organization_id, updateData)
+      .catch((error) => console.error('Error queueing gps_update webhook:', error));
+
+    // Speeding or geofence crossings from hours ago are not live alerts
+    if (replayed) return;
+
+    fuelAnalyser.recordMotion(vehicle.id, location, receivedAt);
+    await healthMonitor.observeFix(vehicle, { valid: gpsData.valid, satellites: gpsData.satellites }, fixTime);
 
     // Check for alerts
     await checkAlerts(vehicle, location);
@@ -712,164 +781,133 @@ async function processGPSData(gpsData) {
   }
 }
 
+const HARSH_EVENT_TITLES = {
+  harsh_acceleration: 'Harsh Acceleration',
+  harsh_braking: 'Harsh Braking',
+  harsh_cornering: 'Harsh Cornering'
+};
+
+/**
+ * @param {DeviceContext['vehicle']} vehicle
+ * @param {LocationRow} location
+ */
 async function checkAlerts(vehicle, location) {
   try {
+    const at = Date.parse(location.timestamp);
+
     // Get vehicle settings
-    const { data: settings } = await supabase
-      .from('vehicle_settings')
-      .select('*')
-      .eq('vehicle_id', vehicle.id)
-      .single();
+    const settings = await ingestion.getVehicleSettings(vehicle.id);
 
-    if (!settings) return;
+    const geofences = await ingestion.getActiveGeofences(vehicle.organization_id);
 
-    // Check speed limit
-    if (settings.enable_speed_alerts && location.speed > settings.max_speed_limit) {
-      await createAlert({
-        user_id: vehicle.user_id,
-        vehicle_id: vehicle.id,
-        alert_type: 'speed_limit',
-        severity: 'high',
-        title: 'Speed Limit Exceeded',
-        message: `Vehicle is traveling at ${location.speed.toFixed(1)} km/h (limit: ${settings.max_speed_limit} km/h)`,
-        location_lat: location.latitude,
-        location_lon: location.longitude,
-        speed: location.speed
+    // Check acceleration, braking and cornering against the previous fix
+    const harshEvents = drivingAnalyser.analyse(vehicle, location);
+    if (harshEvents.length > 0) {
+      const driver = await drivingAnalyser.getActiveDriver(vehicle.id).catch((error) => {
+        console.error('Error loading active driver:', error);
+        return null;
       });
-    }
 
-    // Check geofences
-    const { data: geofences } = await supabase
-      .from('geofences')
-      .select('*')
-      .eq('user_id', vehicle.user_id)
-      .eq('is_active', true);
-
-    if (geofences) {
-      for (const geofence of geofences) {
-        const isInside = checkPointInGeofence(
-          location.latitude,
-          location.longitude,
-          geofence
-        );
-
-        // Check for geofence events
-        const { data: lastEvent } = await supabase
-          .from('geofence_events')
-          .select('*')
-          .eq('vehicle_id', vehicle.id)
-          .eq('geofence_id', geofence.id)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        const wasInside = lastEvent && lastEvent.event_type === 'enter';
-
-        if (isInside && !wasInside) {
-          // Vehicle entered geofence
-          await supabase.from('geofence_events').insert([{
-            vehicle_id: vehicle.id,
-            geofence_id: geofence.id,
-            event_type: 'enter',
-            location_lat: location.latitude,
-            location_lon: location.longitude,
-            speed: location.speed
-          }]);
-
-          if (geofence.alert_on_enter) {
-            await createAlert({
-              user_id: vehicle.user_id,
-              vehicle_id: vehicle.id,
-              alert_type: 'geofence_enter',
-              severity: 'medium',
-              title: 'Geofence Entry',
-              message: `Vehicle entered ${geofence.name}`,
-              geofence_id: geofence.id,
-              location_lat: location.latitude,
-              location_lon: location.longitude
-            });
-          }
-        } else if (!isInside && wasInside) {
-          // Vehicle exited geofence
-          await supabase.from('geofence_events').insert([{
-            vehicle_id: vehicle.id,
-            geofence_id: geofence.id,
-            event_type: 'exit',
-            location_lat: location.latitude,
-            location_lon: location.longitude,
-            speed: location.speed
-          }]);
-
-          if (geofence.alert_on_exit) {
-            await createAlert({
-              user_id: vehicle.user_id,
-              vehicle_id: vehicle.id,
-              alert_type: 'geofence_exit',
-              severity: 'medium',
-              title: 'Geofence Exit',
-              message: `Vehicle exited ${geofence.name}`,
-              geofence_id: geofence.id,
-              location_lat: location.latitude,
-              location_lon: location.longitude
-            });
+      for (const event of harshEvents) {
+        await alertEpisodes.raise({
+          user_id: vehicle.user_id,
+          vehicle_id: vehicle.id,
+          driver_id: driver ? driver.id : null,
+          alert_type: event.type,
+          severity: event.severity,
+          title: HARSH_EVENT_TITLES[event.type],
+          message: `${HARSH_EVENT_TITLES[event.type]} at ${event.value.toFixed(1)} m/s² (limit: ${event.threshold} m/s²)` +
+            (driver && driver.name ? ` by ${driver.name}` : ''),
+          location_lat: location.latitude,
+          location_lon: location.longitude,
+          speed: location.speed,
+          metadata: {
+            value: event.value,
+            threshold: event.threshold,
+            vehicle_type: vehicle.type || null,
+            driver_name: driver ? driver.name : null,
+            fixes: event.fixes
           }
-        }
+        }, { value: event.value, at });
       }
     }
-  } catch (error) {
-    console.error('Error checking alerts:', error);
-  }
-}
 
-function checkPointInGeofence(lat, lon, geofence) {
-  if (geofence.zone_type === 'circle') {
-    const R = 6371000; // Earth radius in meters
-    const dLat = (lat - geofence.center_lat) * Math.PI / 180;
-    const dLon = (lon - geofence.center_lon) * Math.PI / 180;
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(geofence.center_lat * Math.PI / 180) * Math.cos(lat * Math.PI / 180) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-    
-    return distance <= geofence.radius_meters;
-  }
-  
-  return false;
-}
+    // Check engine-on time at the current stop
+    const idle = await idleMonitor.check(vehicle, location);
+    if (idle) {
+      await alertEpisodes.raise({
+        user_id: vehicle.user_id,
+        vehicle_id: vehicle.id,
+        alert_type: 'idle_too_long',
+        severity: 'medium',
+        title: 'Excessive Idling',
+        message: `Vehicle has been idling for ${idle.idleMinutes} min (limit: ${idle.limitMinutes} min)`,
+        location_lat: idle.latitude,
+        location_lon: idle.longitude,
+        metadata: {
+          idle_minutes: idle.idleMinutes,
+          limit_minutes: idle.limitMinutes,
+          arrived_at: new Date(idle.arrivedAt).toISOString()
+        }
+      }, { value: idle.idleMinutes, at });
+    }
 
-async function createAlert(alertData) {
-  try {
-    const { error } = await supabase
-      .from('alerts')
-      .insert([alertData]);
+    // Track geofence membership against the in-memory state and record crossings
+    /** @type {Map<string, string>} */
+    const inside = new Map();
+    /** @type {Map<string, { event: 'enter' | 'exit', name: string }>} */
+    const crossings = new Map();
+    const geofenceState = geofences.length > 0 ? await ingestion.getGeofenceState(vehicle.id) : new Map();
 
-    if (error) throw error;
+    for (const geofence of geofences) {
+      if (geofence.purpose === 'speed_limit') continue;
 
-    // Emit alert to connected clients
-    io.emit('new_alert', alertData);
-  } catch (error) {
-    console.error('Error creating alert:', error);
-  }
-}
+      const isInside = isPointInGeofence(
+        location.latitude,
+        location.longitude,
+        geofence
+      );
+      const wasInside = geofenceState.get(geofence.id) === true;
 
-// WebSocket connection handling
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+      if (isInside) inside.set(geofence.id, geofence.name);
+      if (isInside === wasInside) continue;
 
-  socket.on('subscribe_vehicle', (vehicleId) => {
-    socket.join(`vehicle_${vehicleId}`);
-    console.log(`Client subscribed to vehicle: ${vehicleId}`);
-  });
+      geofenceState.set(geofence.id, isInside);
+      const eventType = isInside ? 'enter' : 'exit';
+      crossings.set(geofence.id, { event: eventType, name: geofence.name });
 
-  socket.on('disconnect', () => {
-    console.log('Client disconnected:', socket.id);
-  });
-});
+      const { error } = await supabase.from('geofence_events').insert([{
+        vehicle_id: vehicle.id,
+        geofence_id: geofence.id,
+        event_type: eventType,
+        location_lat: location.latitude,
+        location_lon: location.longitude,
+        speed: location.speed
+      }]);
+
+      if (error) console.error('Error recording geofence event:', error);
+    }
+
+    // Evaluate the alert rules, speed against the zone the vehicle is in or its own limit
+    const speedLimit = applicableSpeedLimit(location.latitude, location.longitude, geofences, settings);
+    await ruleEngine.observe(vehicle, {
+      at,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      speed: location.speed,
+      speed_limit: speedLimit ? speedLimit.limit : null,
+      speed_limit_zone: speedLimit && speedLimit.zone ? speedLimit.zone.name : null,
+      geofences: inside,
+      crossings
+    });
+  } catch (error) {
+    console.error('Error checking alerts:', error);
+  }
+}
 
 // Start servers
 // Render provides PORT env variable, use it for HTTP/WebSocket
-const HTTP_PORT = process.env.PORT || process.env.GPS_SERVER_PORT || 3001;
+const HTTP_PORT = parseInt(process.env.PORT || process.env.GPS_SERVER_PORT || '3001', 10);
 
 httpServer.listen(HTTP_PORT, '0.0.0.0', () => {
   console.log('Fleet GPS Server Started');
@@ -878,9 +916,33 @@ httpServer.listen(HTTP_PORT, '0.0.0.0', () => {
   console.log(`HTTP/WebSocket server running on port ${HTTP_PORT}`);
   console.log(`TCP GPS server will listen on port ${GPS_PORT}`);
   console.log('========================');
+
+  tripDetector.start();
+  odometer.start();
+  maintenanceScheduler.start();
+  deviceWatchdog.start();
+  alertEpisodes.start();
+  escalation.start();
+  webhooks.start();
 });
 
 // Start TCP server for GPS devices
 tcpServer.listen(GPS_PORT, '0.0.0.0', () => {
   console.log(`TCP GPS server listening on port ${GPS_PORT}`);
 });
+
+// Flush buffered locations before exiting
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, async () => {
+    console.log(`${signal} received, flushing buffered GPS locations...`);
+    tripDetector.stop();
+    odometer.stop();
+    maintenanceScheduler.stop();
+    deviceWatchdog.stop();
+    escalation.stop();
+    webhooks.stop();
+    await ingestion.close();
+    await alertEpisodes.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAlertEpisodes, episodePolicy } from '../lib/alertEpisodes.js';
+import { createFakeSupabase } from './fakeSupabase.js';
+
+const START = Date.parse('2025-06-02T08:00:00Z');
+const MINUTE = 60 * 1000;
+
+/** @param {string} severity */
+const harshBraking = (severity) => ({
+  user_id: 'user-1',
+  organization_id: 'org-1',
+  vehicle_id: 'vehicle-1',
+  alert_type: 'harsh_braking',
+  severity,
+  title: 'Harsh Braking',
+  message: 'Harsh braking',
+});
+
+test('occurrences of an open episode update its row, escalating the severity', async () => {
+  const { client, tables } = createFakeSupabase();
+  const alertEpisodes = createAlertEpisodes(client);
+
+  const episode = await alertEpisodes.raise(harshBraking('medium'), { value: 3.8, at: START });
+  await alertEpisodes.raise(harshBraking('high'), { value: 5.6, at: START + MINUTE });
+  await alertEpisodes.raise(harshBraking('medium'), { value: 4.1, at: START + 2 * MINUTE });
+
+  assert.equal(tables.alerts.length, 1);
+  const [row] = tables.alerts;
+  assert.equal(row.id, episode.alertId);
+  assert.equal(row.episode_key, 'harsh_braking:vehicle');
+  assert.equal(row.status, 'open');
+  assert.equal(row.severity, 'high');
+  assert.equal(row.peak_value, 5.6);
+  assert.equal(row.occurrence_count, 2);
+
+  await alertEpisodes.stop();
+  assert.equal(row.occurrence_count, 3);
+  assert.deepEqual(row.timeline.map((/** @type {{ event: string }} */ entry) => entry.event), ['opened', 'occurred', 'occurred']);
+});
+
+test('scopes separate episodes of the same type', async () => {
+  const { client, tables } = createFakeSupabase();
+  const alertEpisodes = createAlertEpisodes(client);
+
+  await alertEpisodes.raise({ ...harshBraking('medium'), alert_type: 'geofence_exit' }, { scope: 'depot', at: START });
+  await alertEpisodes.raise({ ...harshBraking('medium'), alert_type: 'geofence_exit' }, { scope: 'yard', at: START });
+
+  assert.deepEqual(tables.alerts.map((row) => row.episode_key), ['geofence_exit:depot', 'geofence_exit:yard']);
+});
+
+test('a quiet episode closes, reopens within the cooldown and starts over after it', async () => {
+  const { client, tables } = createFakeSupabase();
+  const alertEpisodes = createAlertEpisodes(client);
+  const { quietMs, cooldownMs } = episodePolicy('harsh_braking');
+
+  const episode = await alertEpisodes.raise(harshBraking('medium'), { at: START });
+  const [row] = tables.alerts;
+  row.is_read = true;
+  row.is_acknowledged = true;
+
+  await alertEpisodes.sweep(START + quietMs - 1);
+  assert.equal(row.status, 'open');
+  await alertEpisodes.sweep(START + quietMs + 1);
+  assert.equal(row.status, 'closed');
+  assert.equal(row.closed_at, new Date(START + quietMs + 1).toISOString());
+
+  // Within the cooldown the same row is reopened and needs attention again
+  const reopenedAt = START + quietMs + cooldownMs;
+  const reopened = await alertEpisodes.raise(harshBraking('medium'), { at: reopenedAt });
+  assert.equal(reopened, episode);
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(row.status, 'open');
+  assert.equal(row.closed_at, null);
+  assert.equal(row.is_read, false);
+  assert.equal(row.is_acknowledged, false);
+  assert.deepEqual(row.timeline.map((/** @type {{ event: string }} */ entry) => entry.event), ['opened', 'closed', 'reopened']);
+
+  // Resolved by the caller, then forgotten once the cooldown has passed
+  await alertEpisodes.resolve(reopened, {}, reopenedAt + MINUTE);
+  await alertEpisodes.sweep(reopenedAt + MINUTE + cooldownMs + 1);
+  const next = await alertEpisodes.raise(harshBraking('medium'), { at: reopenedAt + MINUTE + cooldownMs + 2 });
+  assert.notEqual(next, episode);
+  assert.equal(tables.alerts.length, 2);
+  assert.equal(tables.alerts[1].status, 'open');
+});
+
+test('an occurrence past the cooldown of a closed episode opens a new one', async () => {
+  const { client, tables } = createFakeSupabase();
+  const alertEpisodes = createAlertEpisodes(client);
+  const { cooldownMs } = episodePolicy('speed_limit');
+
+  const episode = await alertEpisodes.raise({ ...harshBraking('high'), alert_type: 'speed_limit' }, { at: START });
+  await alertEpisodes.resolve(episode, {}, START + MINUTE);
+  await alertEpisodes.raise({ ...harshBraking('high'), alert_type: 'speed_limit' }, { at: START + MINUTE + cooldownMs + 1 });
+
+  assert.deepEqual(tables.alerts.map((row) => row.status), ['closed', 'open']);
+});
+
+test('open episodes are resumed on start', async () => {
+  const { client, tables } = createFakeSupabase({
+    alerts: [{
+      id: 'alert-1',
+      vehicle_id: 'vehicle-1',
+      alert_type: 'harsh_braking',
+      episode_key: 'harsh_braking:vehicle',
+      status: 'open',
+      severity: 'medium',
+      last_occurred_at: new Date(Date.now() - MINUTE).toISOString(),
+      occurrence_count: 4,
+      peak_value: '4.2',
+      timeline: [],
+    }],
+  });
+  const alertEpisodes = createAlertEpisodes(client, { sweepIntervalMs: 60 * MINUTE });
+  alertEpisodes.start();
+
+  const episode = await alertEpisodes.raise(harshBraking('medium'), { value: 3.9 });
+  await alertEpisodes.stop();
+
+  assert.equal(episode.alertId, 'alert-1');
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(tables.alerts[0].occurrence_count, 5);
+  assert.equal(tables.alerts[0].peak_value, 4.2);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectHarshEvents, drivingThresholds } from '../lib/driving.js';
+
+/** @typedef {import('../lib/driving.js').DrivingFix} DrivingFix */
+
+const START = Date.parse('2025-06-02T08:00:00Z');
+// Degrees of latitude per meter
+const METERS = 1 / 111320;
+
+/**
+ * @param {number} seconds after START
+ * @param {Partial<DrivingFix>} values
+ * @returns {DrivingFix}
+ */
+const fix = (seconds, values = {}) => ({
+  latitude: 48.1,
+  longitude: 11.5,
+  speed: 50,
+  heading: 0,
+  accuracy: 5,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  ...values,
+});
+
+test('thresholds follow the vehicle type, unknown types use the car ones', () => {
+  assert.equal(drivingThresholds('truck').braking, 2.5);
+  assert.deepEqual(drivingThresholds(undefined), drivingThresholds('car'));
+  assert.deepEqual(drivingThresholds('tractor'), drivingThresholds('car'));
+});
+
+test('a strong deceleration is harsh braking, high severity past 1.5 times the threshold', () => {
+  const car = drivingThresholds('car');
+
+  // 72 -> 45 km/h in 2 s: 3.75 m/s²
+  const [medium] = detectHarshEvents(fix(0, { speed: 72 }), fix(2, { speed: 45, latitude: 48.1 + 40 * METERS }), car);
+  assert.equal(medium.type, 'harsh_braking');
+  assert.equal(medium.value, 3.75);
+  assert.equal(medium.severity, 'medium');
+
+  // 72 -> 27 km/h in 2 s: 6.25 m/s² (threshold 3.5)
+  const [high] = detectHarshEvents(fix(0, { speed: 72 }), fix(2, { speed: 27, latitude: 48.1 + 27 * METERS }), car);
+  assert.equal(high.severity, 'high');
+
+  // The same deceleration is within the limits over 4 s
+  assert.deepEqual(detectHarshEvents(fix(0, { speed: 72 }), fix(4, { speed: 45, latitude: 48.1 + 70 * METERS }), car), []);
+});
+
+test('acceleration is measured against the thresholds of the vehicle class', () => {
+  const previous = fix(0, { speed: 20 });
+  const current = fix(2, { speed: 42, latitude: 48.1 + 17 * METERS });
+
+  // 22 km/h in 2 s: 3.06 m/s²
+  const [car] = detectHarshEvents(previous, current, drivingThresholds('car'));
+  assert.equal(car.type, 'harsh_acceleration');
+  assert.equal(car.severity, 'medium');
+  assert.equal(detectHarshEvents(previous, current, drivingThresholds('bus'))[0].severity, 'high');
+});
+
+test('a sharp turn at speed is harsh cornering, not below the cornering speed', () => {
+  const car = drivingThresholds('car');
+
+  // 54 km/h (15 m/s) turning 45° in 2 s: 5.9 m/s² lateral
+  const events = detectHarshEvents(
+    fix(0, { speed: 54, heading: 0 }),
+    fix(2, { speed: 54, heading: 45, latitude: 48.1 + 28 * METERS }),
+    car
+  );
+  assert.deepEqual(events.map((event) => event.type), ['harsh_cornering']);
+
+  // Headings across north: 350° -> 30° is a 40° turn
+  const acrossNorth = detectHarshEvents(
+    fix(0, { speed: 54, heading: 350 }),
+    fix(2, { speed: 54, heading: 30, latitude: 48.1 + 28 * METERS }),
+    car
+  );
+  assert.equal(acrossNorth[0].type, 'harsh_cornering');
+
+  assert.deepEqual(detectHarshEvents(
+    fix(0, { speed: 15, heading: 0 }),
+    fix(2, { speed: 15, heading: 90, latitude: 48.1 + 8 * METERS }),
+    car
+  ), []);
+});
+
+test('jitter yields no events', () => {
+  const car = drivingThresholds('car');
+  const previous = fix(0, { speed: 72 });
+  const braking = { speed: 36, latitude: 48.1 + 30 * METERS };
+
+  // Fixes too close or too far apart in time
+  assert.deepEqual(detectHarshEvents(previous, fix(0.5, braking), car), []);
+  assert.deepEqual(detectHarshEvents(previous, fix(11, braking), car), []);
+  // Poor accuracy
+  assert.deepEqual(detectHarshEvents(previous, fix(2, { ...braking, accuracy: 50 }), car), []);
+  // A position jump of 1 km in 2 s
+  assert.deepEqual(detectHarshEvents(previous, fix(2, { ...braking, latitude: 48.1 + 1000 * METERS }), car), []);
+  // 100 km/h lost in 2 s is beyond any road vehicle
+  assert.deepEqual(detectHarshEvents(fix(0, { speed: 110 }), fix(2, { speed: 10, latitude: 48.1 + 33 * METERS }), car), []);
+});
@@ -0,0 +1,245 @@
+// In-memory stand-in for the part of the Supabase client the jobs use: from(table) with
+// select, insert, update, upsert and delete, the filters below, order, limit, single and
+// maybeSingle. Column lists and embeds are not interpreted, rows are stored with their
+// embedded resources in place and returned whole. `failNext` makes the next query of a table
+// return an error instead.
+
+/** @typedef {Record<string, any>} Row */
+/** @typedef {{ code: string, message: string }} QueryError */
+
+/**
+ * @typedef {Object} RecordedCall
+ * @property {string} table
+ * @property {'select' | 'insert' | 'update' | 'upsert' | 'delete'} action
+ * @property {Row[]} [values]
+ */
+
+/**
+ * @param {unknown} a
+ * @param {unknown} b
+ */
+const compare = (a, b) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return /** @type {number | string} */ (a) < /** @type {number | string} */ (b) ? -1 : 1;
+};
+
+/** @param {string} list PostgREST list, `(a,b,c)` */
+const parseList = (list) => list.replace(/^\(|\)$/g, '').split(',').filter(Boolean);
+
+class FakeQuery {
+  /**
+   * @param {Row[]} rows
+   * @param {RecordedCall} call
+   * @param {() => string} nextId
+   * @param {QueryError | null} failure
+   */
+  constructor(rows, call, nextId, failure) {
+    this.rows = rows;
+    this.call = call;
+    this.nextId = nextId;
+    this.failure = failure;
+    /** @type {((row: Row) => boolean)[]} */
+    this.filters = [];
+    /** @type {{ column: string, ascending: boolean } | null} */
+    this.ordering = null;
+    /** @type {number | null} */
+    this.limitTo = null;
+    /** @type {'single' | 'maybeSingle' | null} */
+    this.mode = null;
+    /** @type {{ onConflict?: string, ignoreDuplicates?: boolean }} */
+    this.upsertOptions = {};
+  }
+
+  select() {
+    return this;
+  }
+
+  /** @param {Row | Row[]} values */
+  insert(values) {
+    this.call.action = 'insert';
+    this.call.values = [values].flat();
+    return this;
+  }
+
+  /** @param {Row} values */
+  update(values) {
+    this.call.action = 'update';
+    this.call.values = [values];
+    return this;
+  }
+
+  /**
+   * @param {Row | Row[]} values
+   * @param {{ onConflict?: string, ignoreDuplicates?: boolean }} [options]
+   */
+  upsert(values, options = {}) {
+    this.call.action = 'upsert';
+    this.call.values = [values].flat();
+    this.upsertOptions = options;
+    return this;
+  }
+
+  delete() {
+    this.call.action = 'delete';
+    return this;
+  }
+
+  /** @param {(row: Row) => boolean} filter */
+  where(filter) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  /** @param {string} column @param {unknown} value */
+  eq(column, value) { return this.where((row) => row[column] === value); }
+  /** @param {string} column @param {unknown} value */
+  neq(column, value) { return this.where((row) => row[column] !== value); }
+  /** @param {string} column @param {unknown} value */
+  gt(column, value) { return this.where((row) => row[column] != null && compare(row[column], value) > 0); }
+  /** @param {string} column @param {unknown} value */
+  gte(column, value) { return this.where((row) => row[column] != null && compare(row[column], value) >= 0); }
+  /** @param {string} column @param {unknown} value */
+  lt(column, value) { return this.where((row) => row[column] != null && compare(row[column], value) < 0); }
+  /** @param {string} column @param {unknown} value */
+  lte(column, value) { return this.where((row) => row[column] != null && compare(row[column], value) <= 0); }
+  /** @param {string} column @param {unknown[]} values */
+  in(column, values) { return this.where((row) => values.includes(row[column])); }
+  /** @param {string} column @param {unknown} value */
+  is(column, value) { return this.where((row) => (row[column] ?? null) === value); }
+
+  /**
+   * @param {string} column
+   * @param {'is' | 'in'} operator
+   * @param {unknown} value
+   */
+  not(column, operator, value) {
+    if (operator === 'in') {
+      const list = parseList(String(value));
+      return this.where((row) => !list.includes(String(row[column])));
+    }
+    return this.where((row) => (row[column] ?? null) !== value);
+  }
+
+  /**
+   * @param {string} column
+   * @param {{ ascending?: boolean }} [options]
+   */
+  order(column, { ascending = true } = {}) {
+    this.ordering = { column, ascending };
+    return this;
+  }
+
+  /** @param {number} count */
+  limit(count) {
+    this.limitTo = count;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  /** @returns {Row[]} rows written or matched */
+  run() {
+    const matching = () => this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    const values = this.call.values || [];
+
+    switch (this.call.action) {
+      case 'insert': {
+        const inserted = values.map((value) => ({ id: this.nextId(), ...value }));
+        this.rows.push(...inserted);
+        return inserted;
+      }
+      case 'update': {
+        const updated = matching();
+        for (const row of updated) Object.assign(row, values[0]);
+        return updated;
+      }
+      case 'upsert': {
+        const keys = (this.upsertOptions.onConflict || 'id').split(',');
+        return values.flatMap((value) => {
+          const existing = this.rows.find((row) => keys.every((key) => row[key] === value[key]));
+          if (!existing) {
+            const row = { id: this.nextId(), ...value };
+            this.rows.push(row);
+            return [row];
+          }
+          if (this.upsertOptions.ignoreDuplicates) return [];
+          return [Object.assign(existing, value)];
+        });
+      }
+      case 'delete': {
+        const deleted = matching();
+        for (const row of deleted) this.rows.splice(this.rows.indexOf(row), 1);
+        return deleted;
+      }
+      default: {
+        let rows = matching();
+        const ordering = this.ordering;
+        if (ordering) {
+          rows = [...rows].sort((a, b) => compare(a[ordering.column], b[ordering.column]) * (ordering.ascending ? 1 : -1));
+        }
+        return this.limitTo !== null ? rows.slice(0, this.limitTo) : rows;
+      }
+    }
+  }
+
+  /**
+   * @template T
+   * @param {(result: { data: Row[] | Row | null, error: QueryError | null }) => T} onFulfilled
+   * @param {(reason: unknown) => T} [onRejected]
+   */
+  then(onFulfilled, onRejected) {
+    return Promise.resolve().then(() => {
+      if (this.failure) return { data: null, error: this.failure };
+      const rows = this.run();
+      if (this.mode === null) return { data: rows, error: null };
+      if (rows.length > 1 || (rows.length === 0 && this.mode === 'single')) {
+        return { data: null, error: { code: 'PGRST116', message: `${rows.length} rows returned` } };
+      }
+      return { data: rows[0] ?? null, error: null };
+    }).then(onFulfilled, onRejected);
+  }
+}
+
+/**
+ * @param {Record<string, Row[]>} [tables] initial rows per table, kept and changed in place
+ */
+export function createFakeSupabase(tables = {}) {
+  let id = 0;
+  const nextId = () => `id-${++id}`;
+  /** @type {RecordedCall[]} */
+  const calls = [];
+  /** @type {Map<string, QueryError>} */
+  const failures = new Map();
+
+  const client = {
+    /** @param {string} table */
+    from: (table) => {
+      /** @type {RecordedCall} */
+      const call = { table, action: 'select' };
+      calls.push(call);
+      const failure = failures.get(table) ?? null;
+      failures.delete(table);
+      return new FakeQuery(tables[table] ??= [], call, nextId, failure);
+    },
+  };
+
+  return {
+    tables,
+    calls,
+    /** @param {string} table @param {string} [message] */
+    failNext: (table, message = 'connection refused') => {
+      failures.set(table, { code: 'ECONNREFUSED', message });
+    },
+    client: /** @type {import('@supabase/supabase-js').SupabaseClient} */ (/** @type {unknown} */ (client)),
+  };
+}
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAlertEpisodes } from '../lib/alertEpisodes.js';
+import { createFuelAnalyser, medianLevel } from '../lib/fuel.js';
+import { createFakeSupabase } from './fakeSupabase.js';
+
+const START = Date.parse('2025-06-02T08:00:00Z');
+const MINUTE = 60 * 1000;
+const vehicle = { id: 'vehicle-1', user_id: 'user-1' };
+
+/** @param {Record<string, any>} settings */
+const setup = (settings) => {
+  const fake = createFakeSupabase();
+  const fuel = createFuelAnalyser(fake.client, {
+    alertEpisodes: createAlertEpisodes(fake.client),
+    getVehicleSettings: async () => settings,
+  });
+  return { ...fake, fuel };
+};
+
+/**
+ * Feeds one reading per minute from `fromMinute`.
+ * @param {ReturnType<typeof createFuelAnalyser>} fuel
+ * @param {number[]} levels
+ * @param {number} fromMinute
+ */
+const feed = async (fuel, levels, fromMinute) => {
+  /** @type {number[]} */
+  const smoothed = [];
+  for (const [i, level] of levels.entries()) {
+    smoothed.push(await fuel.observe(vehicle, level, START + (fromMinute + i) * MINUTE));
+  }
+  return smoothed;
+};
+
+test('the median smooths out single readings', () => {
+  assert.equal(medianLevel([40, 41, 90, 39, 40]), 40);
+  assert.equal(medianLevel([40, 44]), 42);
+  assert.equal(medianLevel([7]), 7);
+});
+
+test('a rise of the smoothed level is recorded as a refuel once it settles', async () => {
+  const { fuel, tables } = setup({ fuel_tank_capacity_liters: 80 });
+
+  // A slosh to 70% alone does not move the median
+  const smoothed = await feed(fuel, [20, 20, 70, 20, 20], 0);
+  assert.deepEqual(smoothed, [20, 20, 20, 20, 20]);
+
+  await feed(fuel, [45, 70, 70, 70, 70, 70, 70, 70, 70], 5);
+  assert.equal(tables.fuel_events.length, 1);
+  const [event] = tables.fuel_events;
+  assert.equal(event.event_type, 'refuel');
+  assert.equal(event.level_before, 20);
+  assert.equal(event.level_after, 70);
+  assert.equal(event.volume_liters, 40);
+  assert.equal(tables.alerts, undefined);
+});
+
+test('a fall while parked is a drop with a fuel_drop alert', async () => {
+  const { fuel, tables } = setup({ enable_fuel_alerts: true });
+  fuel.recordMotion(vehicle.id, { latitude: 48.1, longitude: 11.5, speed: 0 }, START);
+
+  await feed(fuel, [60, 60, 60, 60, 60, 50, 50, 50, 50, 50, 50, 50, 50], 0);
+
+  assert.equal(tables.fuel_events.length, 1);
+  const [event] = tables.fuel_events;
+  assert.equal(event.event_type, 'drop');
+  assert.equal(event.level_before, 60);
+  assert.equal(event.level_after, 50);
+  assert.equal(event.volume_liters, null);
+  assert.equal(event.location_lat, 48.1);
+
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(tables.alerts[0].alert_type, 'fuel_drop');
+  assert.equal(event.alert_id, tables.alerts[0].id);
+});
+
+test('fuel burnt while driving is not a drop', async () => {
+  const { fuel, tables } = setup({ enable_fuel_alerts: true });
+  fuel.recordMotion(vehicle.id, { latitude: 48.1, longitude: 11.5, speed: 60 }, START);
+
+  await feed(fuel, [60, 60, 58, 56, 54, 52, 50, 50, 50, 50, 50], 0);
+
+  assert.equal(tables.fuel_events, undefined);
+  assert.equal(tables.alerts, undefined);
+});
+
+test('the low fuel alert stays open until the level is back above the threshold and its margin', async () => {
+  const { fuel, tables } = setup({ enable_fuel_alerts: true, low_fuel_threshold_percent: 15 });
+  fuel.recordMotion(vehicle.id, { latitude: 48.1, longitude: 11.5, speed: 60 }, START);
+
+  await feed(fuel, [14, 14, 14], 0);
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(tables.alerts[0].alert_type, 'low_fuel');
+  assert.equal(tables.alerts[0].status, 'open');
+
+  // Noise around the threshold keeps it open
+  await feed(fuel, [16, 16, 16, 16, 16], 3);
+  assert.equal(tables.alerts[0].status, 'open');
+
+  await feed(fuel, [19, 19, 19, 19, 19], 8);
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(tables.alerts[0].status, 'closed');
+});
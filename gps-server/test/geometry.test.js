@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPointInGeofence, isPointInPolygon, normalizePolygonRings, polygonCentroid } from '../../shared/geometry.js';
+
+/** @typedef {import('../../shared/geometry.js').GeoPoint} GeoPoint */
+
+/**
+ * Axis-aligned rectangle ring, counter-clockwise
+ * @param {number} south
+ * @param {number} west
+ * @param {number} north
+ * @param {number} east
+ * @returns {GeoPoint[]}
+ */
+const rectangle = (south, west, north, east) => [
+  { lat: south, lon: west },
+  { lat: south, lon: east },
+  { lat: north, lon: east },
+  { lat: north, lon: west },
+];
+
+test('a polygon crossing the antimeridian contains points on both sides of it', () => {
+  const ring = rectangle(-18, 178, -16, -178);
+
+  assert.equal(isPointInPolygon(-17, 179.5, ring), true);
+  assert.equal(isPointInPolygon(-17, -179.5, ring), true);
+  assert.equal(isPointInPolygon(-17, 180, ring), true);
+  assert.equal(isPointInPolygon(-17, 0, ring), false);
+  assert.equal(isPointInPolygon(-17, 177, ring), false);
+  assert.equal(isPointInPolygon(-17, -177, ring), false);
+
+  const centroid = polygonCentroid(ring);
+  assert.ok(centroid);
+  assert.equal(centroid.lat, -17);
+  assert.equal(Math.abs(centroid.lon), 180);
+});
+
+test('points in a hole are outside the polygon', () => {
+  const rings = [rectangle(0, 0, 10, 10), rectangle(4, 4, 6, 6)];
+
+  assert.equal(isPointInPolygon(5, 5, rings), false);
+  assert.equal(isPointInPolygon(2, 2, rings), true);
+  assert.equal(isPointInPolygon(5, 8, rings), true);
+  assert.equal(isPointInPolygon(5, 12, rings), false);
+});
+
+test('points on an edge or a vertex are inside', () => {
+  const rings = [rectangle(0, 0, 10, 10), rectangle(4, 4, 6, 6)];
+
+  for (const [lat, lon] of [[0, 5], [10, 5], [5, 0], [5, 10], [0, 0], [10, 10], [4, 5], [6, 5], [5, 4], [5, 6]]) {
+    assert.equal(isPointInPolygon(lat, lon, rings), true, `${lat},${lon}`);
+  }
+  assert.equal(isPointInPolygon(5, 1e-6, rings), true);
+  assert.equal(isPointInPolygon(5, -1e-6, rings), false);
+
+  const triangle = [{ lat: 0, lon: 0 }, { lat: 0, lon: 10 }, { lat: 10, lon: 0 }];
+  assert.equal(isPointInPolygon(5, 5, triangle), true);
+  assert.equal(isPointInPolygon(5.1, 5.1, triangle), false);
+});
+
+test('degenerate rings enclose nothing', () => {
+  const line = [{ lat: 0, lon: 0 }, { lat: 5, lon: 5 }, { lat: 10, lon: 10 }];
+  const repeated = [{ lat: 1, lon: 1 }, { lat: 2, lon: 2 }, { lat: 1, lon: 1 }];
+
+  assert.deepEqual(normalizePolygonRings(line), []);
+  assert.deepEqual(normalizePolygonRings(repeated), []);
+  assert.deepEqual(normalizePolygonRings([{ lat: 0, lon: 0 }, { lat: 1, lon: 1 }]), []);
+  assert.equal(isPointInPolygon(5, 5, line), false);
+  assert.equal(isPointInPolygon(1, 1, repeated), false);
+  assert.equal(polygonCentroid(line), null);
+
+  // A degenerate hole is ignored, a degenerate outer ring empties the polygon
+  assert.equal(isPointInPolygon(5, 5, [rectangle(0, 0, 10, 10), line]), true);
+  assert.equal(isPointInPolygon(5, 5, [line, rectangle(0, 0, 10, 10)]), false);
+  assert.equal(isPointInGeofence(5, 5, { zone_type: 'polygon', polygon_coordinates: line }), false);
+  assert.equal(isPointInPolygon(5, 5, []), false);
+  assert.equal(isPointInPolygon(5, 5, null), false);
+});
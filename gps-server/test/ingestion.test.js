@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createIngestionPipeline, validateFix } from '../lib/ingestion.js';
+import { createFakeSupabase } from './fakeSupabase.js';
+
+test('fixes with values that cannot be stored or drawn are rejected', () => {
+  assert.equal(validateFix({ latitude: 48.1, longitude: 11.5, speed: 0, heading: 359, accuracy: 5 }), null);
+  assert.equal(validateFix({ latitude: -90, longitude: 180 }), null);
+
+  assert.equal(validateFix({ latitude: NaN, longitude: 11.5 }), 'Invalid latitude');
+  assert.equal(validateFix({ latitude: 91, longitude: 11.5 }), 'Invalid latitude');
+  assert.equal(validateFix({ latitude: 48.1, longitude: -180.5 }), 'Invalid longitude');
+  assert.equal(validateFix({ latitude: 48.1, longitude: Infinity }), 'Invalid longitude');
+  assert.equal(validateFix({ latitude: 48.1, longitude: 11.5, speed: -1 }), 'Invalid speed');
+  assert.equal(validateFix({ latitude: 48.1, longitude: 11.5, heading: NaN }), 'Invalid heading');
+  assert.equal(validateFix({ latitude: 48.1, longitude: 11.5, accuracy: NaN }), 'Invalid accuracy');
+});
+
+test('failed lookups are not cached', async () => {
+  const { client, failNext } = createFakeSupabase({
+    gps_devices: [{ id: 'device-1', device_id: '356307042441013', vehicle: { id: 'vehicle-1', user_id: 'user-1', organization_id: 'org-1' } }],
+    vehicle_settings: [{ vehicle_id: 'vehicle-1', max_speed_limit: 90 }],
+  });
+  const ingestion = createIngestionPipeline(client);
+
+  try {
+    failNext('gps_devices');
+    await assert.rejects(ingestion.resolveDevice('356307042441013'), { message: 'connection refused' });
+    assert.equal((await ingestion.resolveDevice('356307042441013'))?.vehicle.id, 'vehicle-1');
+    assert.equal(await ingestion.resolveDevice('000000000000000'), null);
+
+    failNext('vehicle_settings');
+    await assert.rejects(ingestion.getVehicleSettings('vehicle-1'));
+    assert.equal((await ingestion.getVehicleSettings('vehicle-1')).max_speed_limit, 90);
+
+    failNext('geofences');
+    await assert.rejects(ingestion.getActiveGeofences('org-1'));
+    assert.deepEqual(await ingestion.getActiveGeofences('org-1'), []);
+  } finally {
+    await ingestion.close();
+  }
+});
+
+test('a fix is taken as the newest while the stored ones cannot be read', async () => {
+  const { client, failNext } = createFakeSupabase({
+    gps_locations: [{ vehicle_id: 'vehicle-1', timestamp: '2025-06-02T08:00:00.000Z' }],
+  });
+  const ingestion = createIngestionPipeline(client);
+
+  try {
+    failNext('gps_locations');
+    assert.equal(await ingestion.advanceLatestFix('vehicle-1', Date.parse('2025-06-02T07:00:00Z')), true);
+    // Read again on the next fix
+    assert.equal(await ingestion.advanceLatestFix('vehicle-1', Date.parse('2025-06-02T07:30:00Z')), false);
+    assert.equal(await ingestion.advanceLatestFix('vehicle-1', Date.parse('2025-06-02T08:30:00Z')), true);
+  } finally {
+    await ingestion.close();
+  }
+});
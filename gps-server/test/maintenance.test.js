@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alertLevel, forecastDue } from '../lib/maintenance.js';
+
+const NOW = Date.parse('2025-06-02T10:00:00Z');
+const plan = { lead_km: 1000, lead_engine_hours: 20, lead_days: 14 };
+
+test('the interval reached first sets the forecast', () => {
+  const forecast = forecastDue(
+    { km: 30000, engineHours: 900, date: '2025-12-01' },
+    { km: 25000, engineHours: 800 },
+    { km: 100, engineHours: 5 },
+    NOW
+  );
+
+  assert.deepEqual(forecast, {
+    date: '2025-06-22',
+    reason: 'engine_hours',
+    remainingKm: 5000,
+    remainingEngineHours: 100,
+    daysLeft: 20,
+  });
+  assert.equal(alertLevel(forecast, plan), null);
+});
+
+test('without usage history only the calendar and the values already reached count', () => {
+  const calendar = forecastDue({ km: 30000, engineHours: null, date: '2025-06-12' }, { km: 25000, engineHours: null }, { km: null, engineHours: null }, NOW);
+  assert.equal(calendar.reason, 'calendar');
+  assert.equal(calendar.daysLeft, 10);
+  assert.equal(calendar.remainingEngineHours, null);
+  assert.equal(alertLevel(calendar, plan), 'due_soon');
+
+  // A vehicle that does not move is not due in a century
+  const idle = forecastDue({ km: 30000, engineHours: null, date: null }, { km: 25000, engineHours: null }, { km: 0, engineHours: null }, NOW);
+  assert.equal(idle.daysLeft, 3 * 365);
+  assert.equal(idle.date, '2028-06-01');
+});
+
+test('a due value already passed is overdue, today', () => {
+  const forecast = forecastDue({ km: 30000, engineHours: 900, date: '2025-09-01' }, { km: 30400, engineHours: 850 }, { km: 100, engineHours: 5 }, NOW);
+
+  assert.equal(forecast.reason, 'km');
+  assert.equal(forecast.daysLeft, 0);
+  assert.equal(forecast.date, '2025-06-02');
+  assert.equal(forecast.remainingKm, -400);
+  assert.equal(alertLevel(forecast, plan), 'overdue');
+
+  const pastDate = forecastDue({ km: null, engineHours: null, date: '2025-05-30' }, { km: 30400, engineHours: null }, { km: 100, engineHours: null }, NOW);
+  assert.equal(pastDate.daysLeft, -3);
+  assert.equal(alertLevel(pastDate, plan), 'overdue');
+});
+
+test('any value within its lead makes the service due soon', () => {
+  const base = { date: '2026-01-01', reason: /** @type {const} */ ('calendar'), remainingKm: 5000, remainingEngineHours: 100, daysLeft: 200 };
+
+  assert.equal(alertLevel(base, plan), null);
+  assert.equal(alertLevel({ ...base, remainingKm: 1000 }, plan), 'due_soon');
+  assert.equal(alertLevel({ ...base, remainingEngineHours: 15 }, plan), 'due_soon');
+  assert.equal(alertLevel({ ...base, daysLeft: 14 }, plan), 'due_soon');
+  assert.equal(alertLevel({ ...base, remainingEngineHours: 0 }, plan), 'overdue');
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addEngineReading, addFix } from '../lib/odometer.js';
+
+/** @typedef {import('../lib/odometer.js').DistanceState} DistanceState */
+/** @typedef {import('../lib/odometer.js').OdometerPoint} OdometerPoint */
+
+const START = Date.parse('2025-06-02T08:00:00Z');
+const MINUTE = 60 * 1000;
+// Degrees of latitude per meter
+const METERS = 1 / 111320;
+
+/**
+ * @param {number} minutes after START
+ * @param {number} northMeters
+ * @param {Partial<OdometerPoint>} [values]
+ * @returns {OdometerPoint}
+ */
+const point = (minutes, northMeters, values = {}) => ({
+  latitude: 48.1 + northMeters * METERS,
+  longitude: 11.5,
+  speed: 50,
+  time: START + minutes * MINUTE,
+  accuracy: 5,
+  ...values,
+});
+
+/** @returns {DistanceState} */
+const emptyState = () => ({ km: 0, last: null, jumps: 0 });
+
+test('distance adds up between kept fixes', () => {
+  const state = emptyState();
+
+  assert.equal(addFix(state, point(0, 0)), false);
+  assert.equal(addFix(state, point(1, 800)), true);
+  assert.equal(addFix(state, point(2, 1600)), true);
+  assert.ok(Math.abs(state.km - 1.6) < 0.005, String(state.km));
+});
+
+test('inaccurate fixes and drift while standing still are not counted', () => {
+  const state = emptyState();
+  addFix(state, point(0, 0, { speed: 0 }));
+
+  assert.equal(addFix(state, point(1, 500, { accuracy: 150 })), false);
+  assert.equal(addFix(state, point(2, 20, { speed: 1 })), false);
+  assert.equal(state.km, 0);
+  // The same move while driving is distance
+  assert.equal(addFix(state, point(3, 20, { speed: 10 })), true);
+  assert.ok(state.km > 0.019);
+});
+
+test('jumps are skipped, after three in a row the new position is taken without distance', () => {
+  const state = emptyState();
+  addFix(state, point(0, 0));
+
+  // 50 km in a minute
+  assert.equal(addFix(state, point(1, 50000)), false);
+  assert.equal(addFix(state, point(2, 50100)), false);
+  assert.equal(state.jumps, 2);
+  // A plausible fix in between resets the count
+  assert.equal(addFix(state, point(3, 800)), true);
+  assert.equal(state.jumps, 0);
+
+  const before = state.km;
+  for (const minutes of [4, 5, 6]) addFix(state, point(minutes, 90000 + minutes * 100));
+  assert.equal(state.km, before);
+  assert.equal(state.last?.time, START + 6 * MINUTE);
+  assert.equal(addFix(state, point(7, 90000 + 1400)), true);
+});
+
+test('engine hours count running time up to the next reading, gaps capped at 30 minutes', () => {
+  /** @type {import('../lib/odometer.js').EngineState} */
+  const state = { hours: 0, status: null, since: null };
+
+  addEngineReading(state, { status: 'on', time: START });
+  addEngineReading(state, { status: 'idle', time: START + 30 * MINUTE });
+  addEngineReading(state, { status: 'off', time: START + 45 * MINUTE });
+  assert.equal(state.hours, 0.75);
+
+  addEngineReading(state, { status: 'off', time: START + 60 * MINUTE });
+  assert.equal(state.hours, 0.75);
+
+  // The tracker went silent for two hours with the engine on
+  addEngineReading(state, { status: 'on', time: START + 60 * MINUTE });
+  addEngineReading(state, { status: 'on', time: START + 180 * MINUTE });
+  assert.equal(state.hours, 1.25);
+
+  // Readings out of order add nothing
+  addEngineReading(state, { status: 'on', time: START + 170 * MINUTE });
+  assert.equal(state.hours, 1.25);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { fetch } from 'undici';
+import { assertPublicUrl, createOutboundAgent, isPrivateAddress } from '../lib/outboundUrl.js';
+
+test('private, loopback and link-local addresses are detected', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test('URLs on private hosts and other schemes are rejected', async () => {
+  for (const url of ['http://127.0.0.1:8025/hook', 'http://[::1]/hook', 'http://169.254.169.254/latest/meta-data', 'http://0x7f000001/', 'ftp://example.com/', 'not a url']) {
+    await assert.rejects(assertPublicUrl(url), url);
+  }
+  assert.equal((await assertPublicUrl('https://8.8.8.8/hook')).href, 'https://8.8.8.8/hook');
+  assert.equal((await assertPublicUrl('http://127.0.0.1:8025/hook', { allowPrivate: true })).port, '8025');
+});
+
+test('a host that rebinds to a private address after the check is not connected to', async () => {
+  let requests = 0;
+  const server = createServer((_req, res) => {
+    requests++;
+    res.end('ok');
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(undefined)));
+  const { port } = /** @type {import('net').AddressInfo} */ (server.address());
+
+  try {
+    let lookups = 0;
+    /** @type {import('../lib/outboundUrl.js').Resolver} */
+    const rebinding = async () => (lookups++ === 0 ? ['93.184.216.34'] : ['127.0.0.1']);
+    const url = await assertPublicUrl(`http://hook.example.test:${port}/`, { resolve: rebinding });
+
+    const agent = createOutboundAgent({ resolve: rebinding });
+    await assert.rejects(fetch(url, { method: 'POST', dispatcher: agent }), (error) => {
+      assert.match(String(/** @type {Error} */ (error).cause), /not a public address/);
+      return true;
+    });
+    await agent.close();
+    assert.equal(lookups, 2);
+    assert.equal(requests, 0);
+
+    // The same lookup path connects when private addresses are allowed
+    const local = createOutboundAgent({ allowPrivate: true, resolve: async () => ['127.0.0.1'] });
+    const response = await fetch(url, { method: 'POST', dispatcher: local });
+    assert.equal(await response.text(), 'ok');
+    await local.close();
+    assert.equal(requests, 1);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,72 @@
+// Fixture driven decoder tests. Every file in fixtures/ is a list of captured device payloads
+// (`hex` for binary protocols, `text` for text protocols) with the messages they decode to.
+// Expected messages only list the fields under test; a case with `error` must be rejected.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { decode } from '../protocols/index.js';
+
+/**
+ * @typedef {Object} Fixture
+ * @property {string} name
+ * @property {string} [hex]
+ * @property {string} [text]
+ * @property {Record<string, unknown>[]} [messages]
+ * @property {string} [remaining] Hex of the bytes kept for the next chunk
+ * @property {string} [error]     Part of the error message of a rejected payload
+ */
+
+const FIXTURES = new URL('./fixtures/', import.meta.url);
+
+/**
+ * Compares the fields of `expected` only, numbers to 7 decimals (coordinates are divided values).
+ * @param {unknown} actual
+ * @param {unknown} expected
+ * @param {string} path
+ */
+function assertMatches(actual, expected, path) {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    assert.ok(Math.abs(actual - expected) < 1e-7, `${path}: expected ${expected}, got ${actual}`);
+    return;
+  }
+
+  if (expected !== null && typeof expected === 'object' && !Array.isArray(expected)) {
+    assert.ok(actual !== null && typeof actual === 'object', `${path}: expected an object, got ${actual}`);
+    for (const [key, value] of Object.entries(expected)) {
+      assertMatches(/** @type {Record<string, unknown>} */ (actual)[key], value, `${path}.${key}`);
+    }
+    return;
+  }
+
+  assert.deepEqual(actual, expected, path);
+}
+
+for (const file of readdirSync(FIXTURES).filter((name) => name.endsWith('.json')).sort()) {
+  const protocol = file.replace(/\.json$/, '');
+  /** @type {Fixture[]} */
+  const fixtures = JSON.parse(readFileSync(new URL(file, FIXTURES), 'utf8'));
+
+  for (const fixture of fixtures) {
+    test(`${protocol}: ${fixture.name}`, () => {
+      const payload = fixture.hex !== undefined
+        ? Buffer.from(fixture.hex, 'hex')
+        : Buffer.from(fixture.text ?? '', 'utf8');
+
+      if (fixture.error) {
+        assert.throws(() => decode(payload), (err) => err instanceof Error && err.message.includes(fixture.error ?? ''));
+        return;
+      }
+
+      const result = decode(payload);
+      const expected = fixture.messages ?? [];
+
+      assert.equal(result.protocol, protocol);
+      assert.equal(result.messages.length, expected.length, 'number of messages');
+      expected.forEach((message, index) => {
+        assertMatches(result.messages[index], { protocol, ...message }, `messages[${index}]`);
+      });
+      assert.equal(result.remaining.toString('hex').toUpperCase(), fixture.remaining ?? '');
+    });
+  }
+}
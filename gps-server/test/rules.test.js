@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateConditions, ruleAlert } from '../lib/rules.js';
+
+/** @typedef {import('../lib/rules.js').RuleGroup} RuleGroup */
+/** @typedef {import('../lib/rules.js').Telemetry} Telemetry */
+/** @typedef {import('../lib/rules.js').AlertRule} AlertRule */
+
+// 2025-06-02 21:30 UTC, 23:30 in Berlin
+const AT = Date.parse('2025-06-02T21:30:00Z');
+
+/** @type {Telemetry} */
+const telemetry = {
+  at: AT,
+  latitude: 48.1,
+  longitude: 11.5,
+  speed: 72,
+  speed_limit: 50,
+  speed_limit_zone: 'Town centre',
+  fuel_percent: 12,
+  battery_voltage: 12.4,
+  engine_status: 'on',
+  geofences: new Map([['depot', 'Depot']]),
+  crossings: new Map([['yard', { event: /** @type {const} */ ('exit'), name: 'Yard' }]]),
+};
+
+test('numeric conditions compare the field, missing values never hold', () => {
+  assert.equal(evaluateConditions({ field: 'speed', op: 'gt', value: 70 }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'speed', op: 'lte', value: 70 }, telemetry), false);
+  assert.equal(evaluateConditions({ field: 'speed_over_limit', op: 'gte', value: '22' }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'speed_over_limit', op: 'gt', value: 22 }, telemetry), false);
+  assert.equal(evaluateConditions({ field: 'fuel_percent', op: 'lt', value: 15 }, telemetry), true);
+
+  assert.equal(evaluateConditions({ field: 'speed_over_limit', op: 'gt', value: 0 }, { ...telemetry, speed_limit: null }), false);
+  assert.equal(evaluateConditions({ field: 'battery_voltage', op: 'lt', value: 20 }, { at: AT }), false);
+  assert.equal(evaluateConditions({ field: 'speed', op: 'gt', value: 'fast' }, telemetry), false);
+  assert.equal(evaluateConditions({ field: 'speed', op: 'between', value: 10 }, telemetry), false);
+});
+
+test('engine, geofence and crossing conditions', () => {
+  assert.equal(evaluateConditions({ field: 'engine_status', op: 'eq', value: 'on' }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'engine_status', op: 'neq', value: 'on' }, telemetry), false);
+  assert.equal(evaluateConditions({ field: 'geofence', op: 'inside', value: 'depot' }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'geofence', op: 'outside', value: 'yard' }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'geofence', op: 'exits', value: 'yard' }, telemetry), true);
+  assert.equal(evaluateConditions({ field: 'geofence', op: 'enters', value: 'yard' }, telemetry), false);
+  // Membership is unknown before the first fix
+  assert.equal(evaluateConditions({ field: 'geofence', op: 'outside', value: 'yard' }, { at: AT }), false);
+});
+
+test('time of day is read in the rule time zone, windows wrap around midnight', () => {
+  const night = { field: 'time_of_day', op: 'between', value: ['22:00', '05:00'] };
+
+  assert.equal(evaluateConditions(night, telemetry, 'UTC'), false);
+  assert.equal(evaluateConditions(night, telemetry, 'Europe/Berlin'), true);
+  assert.equal(evaluateConditions({ ...night, value: ['21:00', '22:00'] }, telemetry, 'UTC'), true);
+  assert.equal(evaluateConditions({ ...night, value: '22:00' }, telemetry, 'Europe/Berlin'), false);
+});
+
+test('groups combine their conditions, nested groups included, empty groups never hold', () => {
+  /** @type {RuleGroup} */
+  const tree = {
+    operator: 'and',
+    conditions: [
+      { field: 'geofence', op: 'outside', value: 'yard' },
+      {
+        operator: 'or',
+        conditions: [
+          { field: 'speed', op: 'gt', value: 100 },
+          { field: 'speed_over_limit', op: 'gt', value: 20 },
+        ],
+      },
+    ],
+  };
+
+  assert.equal(evaluateConditions(tree, telemetry), true);
+  assert.equal(evaluateConditions(tree, { ...telemetry, speed: 60 }), false);
+  assert.equal(evaluateConditions({ operator: 'and', conditions: [] }, telemetry), false);
+  assert.equal(evaluateConditions({ operator: 'or', conditions: [{ operator: 'and', conditions: [] }] }, telemetry), false);
+});
+
+test('the alert describes the conditions that held and for how long', () => {
+  /** @type {AlertRule} */
+  const rule = {
+    id: 'rule-1',
+    user_id: 'user-1',
+    organization_id: 'org-1',
+    name: 'Speeding in town',
+    alert_type: 'speed_limit',
+    severity: 'high',
+    scope_type: 'all',
+    vehicle_id: null,
+    group_id: null,
+    conditions: {
+      operator: 'and',
+      conditions: [
+        { field: 'speed_over_limit', op: 'gt', value: 10 },
+        { field: 'geofence', op: 'inside', value: 'depot' },
+        { field: 'fuel_percent', op: 'lt', value: 5 },
+      ],
+    },
+    duration_seconds: 60,
+    timezone: 'UTC',
+  };
+
+  const alert = ruleAlert(rule, { id: 'vehicle-1', user_id: 'user-1' }, telemetry, AT - 150 * 1000);
+
+  assert.equal(alert.vehicle_id, 'vehicle-1');
+  assert.equal(alert.rule_id, 'rule-1');
+  assert.equal(alert.title, 'Speeding in town');
+  assert.equal(alert.message, '72.0 km/h, 22.0 km/h over the 50 km/h limit in Town centre, inside Depot for 3 min');
+  assert.equal(alert.geofence_id, 'depot');
+  assert.deepEqual(alert.metadata.conditions_met, [
+    '72.0 km/h, 22.0 km/h over the 50 km/h limit in Town centre',
+    'inside Depot',
+  ]);
+  assert.equal(alert.metadata.held_seconds, 150);
+  assert.equal(alert.metadata.held_since, '2025-06-02T21:27:30.000Z');
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDeviceSession } from '../lib/session.js';
+import { crc16Ibm } from '../protocols/crc.js';
+
+const IMEI = '356307042441013';
+
+// Socket stand-in that records what the session answers
+const createSocket = () => {
+  /** @type {Buffer[]} */
+  const written = [];
+  const socket = {
+    remoteAddress: '203.0.113.7',
+    /** @param {Buffer | string} data */
+    write: (data) => written.push(Buffer.from(data)),
+  };
+  return { socket: /** @type {import('net').Socket} */ (/** @type {unknown} */ (socket)), written };
+};
+
+/**
+ * Codec 8 packet of `count` records without IO elements, one second apart.
+ * @param {number} count
+ */
+const avlPacket = (count) => {
+  const records = Array.from({ length: count }, (_, i) => {
+    const record = Buffer.alloc(30);
+    record.writeBigUInt64BE(BigInt(Date.parse('2025-06-02T08:00:00Z') + i * 1000), 0);
+    record.writeInt32BE(115000000, 9);
+    record.writeInt32BE(481000000, 13);
+    record[21] = 9;
+    record.writeUInt16BE(50, 22);
+    return record;
+  });
+  const data = Buffer.concat([Buffer.from([0x08, count]), ...records, Buffer.from([count])]);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 4);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc16Ibm(data));
+  return Buffer.concat([header, data, crc]);
+};
+
+test('a Teltonika packet larger than the garbage limit is buffered until complete', () => {
+  const { socket, written } = createSocket();
+  const session = createDeviceSession(socket);
+
+  const imei = Buffer.concat([Buffer.from([0, IMEI.length]), Buffer.from(IMEI)]);
+  assert.equal(session.receive(imei)[0].device_id, IMEI);
+
+  // 255 records, over 7 KiB, arriving in TCP sized chunks
+  const packet = avlPacket(255);
+  assert.ok(packet.length > 4096);
+  /** @type {import('../protocols/types.js').DecodedMessage[]} */
+  const messages = [];
+  for (let offset = 0; offset < packet.length; offset += 1460) {
+    messages.push(...session.receive(packet.subarray(offset, offset + 1460)));
+  }
+
+  assert.equal(messages.length, 255);
+  assert.ok(messages.every((message) => message.device_id === IMEI));
+  assert.equal(messages[254].timestamp, '2025-06-02T08:04:14.000Z');
+  assert.deepEqual(written.map((ack) => ack.toString('hex')), ['01', '000000ff']);
+});
+
+test('a chunk that fails to decode is dropped with the bytes buffered before it', () => {
+  const { socket } = createSocket();
+  const session = createDeviceSession(socket);
+
+  const corrupt = avlPacket(2);
+  corrupt[corrupt.length - 1] ^= 0xFF;
+  session.receive(corrupt.subarray(0, 20));
+  assert.throws(() => session.receive(corrupt.subarray(20)), /CRC mismatch/);
+
+  assert.equal(session.receive(avlPacket(2)).length, 2);
+});
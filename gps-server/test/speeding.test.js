@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applicableSpeedLimit } from '../lib/speeding.js';
+
+const town = {
+  id: 'town',
+  purpose: 'speed_limit',
+  speed_limit_kmh: 50,
+  zone_type: 'polygon',
+  polygon_coordinates: [
+    { lat: 48.0, lon: 11.0 },
+    { lat: 48.0, lon: 12.0 },
+    { lat: 49.0, lon: 12.0 },
+    { lat: 49.0, lon: 11.0 },
+  ],
+};
+const school = {
+  id: 'school',
+  purpose: 'speed_limit',
+  speed_limit_kmh: '30',
+  zone_type: 'circle',
+  center_lat: 48.5,
+  center_lon: 11.5,
+  radius_meters: 200,
+};
+const depot = {
+  id: 'depot',
+  purpose: 'general',
+  zone_type: 'circle',
+  center_lat: 48.5,
+  center_lon: 11.5,
+  radius_meters: 1000,
+};
+const settings = { enable_speed_alerts: true, max_speed_limit: 90 };
+
+test('the lowest limit of the zones containing the position applies', () => {
+  const limit = applicableSpeedLimit(48.5, 11.5, [depot, town, school], settings);
+  assert.equal(limit?.limit, 30);
+  assert.equal(limit?.source, 'zone');
+  assert.equal(limit?.zone, school);
+
+  assert.equal(applicableSpeedLimit(48.2, 11.2, [depot, town, school], settings)?.limit, 50);
+});
+
+test('outside all zones the vehicle limit applies when speed alerts are on', () => {
+  assert.deepEqual(applicableSpeedLimit(50, 11.5, [town, school], settings), { limit: 90, source: 'vehicle' });
+  assert.equal(applicableSpeedLimit(50, 11.5, [town, school], { enable_speed_alerts: false, max_speed_limit: 90 }), null);
+  assert.equal(applicableSpeedLimit(50, 11.5, [], null), null);
+});
+
+test('zones without a limit or for other purposes are ignored', () => {
+  const unlimited = { ...town, id: 'unlimited', speed_limit_kmh: null };
+  assert.equal(applicableSpeedLimit(48.5, 11.5, [depot, unlimited], null), null);
+});
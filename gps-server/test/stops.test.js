@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterStops, engineOnDuration, stopRow } from '../lib/stops.js';
+
+/** @typedef {import('../lib/trips.js').TripPoint} TripPoint */
+
+const START = Date.parse('2025-06-02T08:00:00Z');
+const MINUTE = 60 * 1000;
+// Degrees of latitude per meter
+const METERS = 1 / 111320;
+
+/**
+ * @param {number} minutes after START
+ * @param {number} speed
+ * @param {number} [northMeters]
+ * @returns {TripPoint}
+ */
+const point = (minutes, speed, northMeters = 0) => ({
+  latitude: 48.1 + northMeters * METERS,
+  longitude: 11.5,
+  speed,
+  time: START + minutes * MINUTE,
+});
+
+/** @param {number} minutes @param {boolean} on */
+const ignition = (minutes, on) => ({ time: START + minutes * MINUTE, on });
+
+test('engine time sums the on periods within the window', () => {
+  const events = [ignition(-5, true), ignition(3, false), ignition(6, true), ignition(20, false)];
+
+  assert.equal(engineOnDuration(events, START, START + 10 * MINUTE), 7 * MINUTE);
+  assert.equal(engineOnDuration(events, START + 4 * MINUTE, START + 5 * MINUTE), 0);
+  assert.equal(engineOnDuration(events, START + 25 * MINUTE, START + 30 * MINUTE), 0);
+});
+
+test('engine time is unknown without ignition data around the window', () => {
+  assert.equal(engineOnDuration([], START, START + MINUTE), null);
+  assert.equal(engineOnDuration([ignition(30, true)], START, START + 10 * MINUTE), null);
+  // A change within the window is enough
+  assert.equal(engineOnDuration([ignition(4, true)], START, START + 10 * MINUTE), 6 * MINUTE);
+});
+
+test('stationary fixes within the radius form one stop with its idle time', () => {
+  const points = [
+    point(0, 40, -500),
+    point(1, 2, 0),
+    point(3, 0, 10),
+    point(5, 1, -10),
+    point(7, 30, 200),
+  ];
+  const stops = clusterStops(points, [ignition(-10, true), ignition(4, false)], { minSpeedKmh: 5, minStopMs: 2 * MINUTE });
+
+  assert.equal(stops.length, 1);
+  const [stop] = stops;
+  assert.equal(stop.arrivedAt, START + MINUTE);
+  assert.equal(stop.departedAt, START + 7 * MINUTE);
+  assert.equal(stop.durationMs, 6 * MINUTE);
+  assert.equal(stop.idleMs, 3 * MINUTE);
+  assert.ok(Math.abs(stop.latitude - 48.1) < 10 * METERS);
+
+  const row = stopRow(stop);
+  assert.equal(row.duration_minutes, 6);
+  assert.equal(row.idle_minutes, 3);
+  assert.equal(row.ended_at, new Date(START + 7 * MINUTE).toISOString());
+});
+
+test('drifting away from the centroid starts a new stop, short stops are dropped', () => {
+  const points = [
+    point(0, 0, 0),
+    point(3, 0, 5),
+    point(6, 0, 300),
+    point(9, 0, 305),
+    point(10, 40, 800),
+    point(11, 0, 1200),
+    point(12, 50, 1600),
+  ];
+  const stops = clusterStops(points, [], { minSpeedKmh: 5, minStopMs: 2 * MINUTE });
+
+  assert.deepEqual(stops.map((stop) => [stop.arrivedAt, stop.departedAt]), [
+    [START, START + 6 * MINUTE],
+    [START + 6 * MINUTE, START + 10 * MINUTE],
+  ]);
+  assert.equal(stops[0].idleMs, null);
+});
+
+test('a stop the vehicle has not left yet is kept however short', () => {
+  const stops = clusterStops([point(0, 40, -300), point(1, 0), point(1.5, 0)], [], { minSpeedKmh: 5, minStopMs: 10 * MINUTE });
+
+  assert.equal(stops.length, 1);
+  assert.equal(stops[0].departedAt, null);
+  assert.equal(stops[0].durationMs, 0.5 * MINUTE);
+});
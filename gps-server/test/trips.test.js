@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { createTripDetector, segmentTrips, tripThresholds } from '../lib/trips.js';
+import { createFakeSupabase } from './fakeSupabase.js';
+
+/** @typedef {import('../lib/trips.js').TripPoint} TripPoint */
+
+const MINUTE = 60 * 1000;
+// Degrees of latitude per meter
+const METERS = 1 / 111320;
+
+/**
+ * One fix per minute over [from, to], moving north at `speed` km/h from `northMeters`.
+ * @param {number} base ms since epoch of minute 0
+ * @param {number} from
+ * @param {number} to
+ * @param {number} speed
+ * @param {number} [northMeters]
+ * @returns {TripPoint[]}
+ */
+const drive = (base, from, to, speed, northMeters = 0) => Array.from({ length: to - from + 1 }, (_, i) => ({
+  latitude: 48.1 + (northMeters + (i * speed * 1000) / 60) * METERS,
+  longitude: 11.5,
+  speed,
+  time: base + (from + i) * MINUTE,
+}));
+
+const BASE = Date.parse('2025-06-02T08:00:00Z');
+const defaults = tripThresholds(null);
+
+test('thresholds come from vehicle_settings, with defaults', () => {
+  assert.deepEqual(defaults, {
+    useIgnition: true,
+    minSpeedKmh: 5,
+    endDwellMs: 5 * MINUTE,
+    minStopMs: 2 * MINUTE,
+    minDistanceKm: 0.3,
+    minDurationMs: 2 * MINUTE,
+  });
+  const custom = tripThresholds({ trip_use_ignition: false, trip_end_dwell_minutes: '10', trip_min_distance_km: null });
+  assert.equal(custom.useIgnition, false);
+  assert.equal(custom.endDwellMs, 10 * MINUTE);
+  assert.equal(custom.minDistanceKm, 0.3);
+});
+
+test('a trip ends after standing still for the dwell time, at the first stationary fix', () => {
+  const points = [
+    ...drive(BASE, 0, 10, 40),
+    ...drive(BASE, 11, 17, 0, 6700),
+    ...drive(BASE, 18, 25, 40, 6700),
+  ];
+  const { trips, openSince } = segmentTrips(points, [], defaults, BASE + 60 * MINUTE);
+
+  assert.equal(openSince, null);
+  assert.deepEqual(trips.map((trip) => [trip.startedAt, trip.endedAt]), [
+    [BASE, BASE + 11 * MINUTE],
+    [BASE + 18 * MINUTE, BASE + 25 * MINUTE],
+  ]);
+  assert.equal(trips[0].maxSpeed, 40);
+  assert.ok(Math.abs(trips[0].distanceKm - 6.67) < 0.05, String(trips[0].distanceKm));
+});
+
+test('ignition off ends a trip, a short stop with the engine on does not', () => {
+  const points = [
+    ...drive(BASE, 0, 10, 40),
+    ...drive(BASE, 11, 13, 0, 6700),
+    ...drive(BASE, 14, 20, 40, 6700),
+  ];
+  const ignition = [{ time: BASE - MINUTE, on: true }, { time: BASE + 20.5 * MINUTE, on: false }];
+  const { trips } = segmentTrips(points, ignition, defaults, BASE + 21 * MINUTE);
+
+  assert.equal(trips.length, 1);
+  assert.equal(trips[0].endedAt, BASE + 20 * MINUTE);
+  assert.equal(trips[0].stops.length, 1);
+  assert.equal(trips[0].stops[0].duration_minutes, 3);
+  assert.equal(trips[0].stops[0].idle_minutes, 3);
+});
+
+test('trips still in progress are left open, noise is dropped', () => {
+  const { trips, openSince } = segmentTrips(drive(BASE, 0, 10, 40), [], defaults, BASE + 12 * MINUTE);
+  assert.deepEqual(trips, []);
+  assert.equal(openSince, BASE);
+
+  // 200 m in one minute
+  const short = segmentTrips([...drive(BASE, 0, 1, 12), ...drive(BASE, 2, 10, 0, 200)], [], defaults, BASE + 60 * MINUTE);
+  assert.deepEqual(short, { trips: [], openSince: null });
+});
+
+test('fixes uploaded late that join two detected trips replace them with one', async () => {
+  const base = Math.floor((Date.now() - 3 * 60 * MINUTE) / MINUTE) * MINUTE;
+  /**
+   * @param {TripPoint[]} points
+   * @param {string} receivedAt
+   */
+  const rows = (points, receivedAt) => points.map((point) => ({
+    vehicle_id: 'vehicle-1',
+    latitude: point.latitude,
+    longitude: point.longitude,
+    speed: point.speed,
+    timestamp: new Date(point.time).toISOString(),
+    received_at: receivedAt,
+  }));
+
+  // The tracker lost coverage between minutes 10 and 40 while driving
+  const { client, tables } = createFakeSupabase({
+    vehicles: [{ id: 'vehicle-1', user_id: 'user-1' }],
+    gps_locations: rows([...drive(base, 0, 9, 40), ...drive(base, 40, 50, 40, 20000)], new Date(base + 50 * MINUTE).toISOString()),
+  });
+  const detector = createTripDetector(client, { getVehicleSettings: async () => null });
+
+  await detector.runOnce();
+  assert.deepEqual(tables.trip_routes.map((route) => route.started_at), [
+    new Date(base).toISOString(),
+    new Date(base + 40 * MINUTE).toISOString(),
+  ]);
+
+  // Nothing new: the routes stay as they are
+  await detector.runOnce();
+  assert.equal(tables.trip_routes.length, 2);
+
+  // It uploads the fixes it stored meanwhile
+  await delay(5);
+  tables.gps_locations.push(...rows(drive(base, 10, 39, 40, 6000), new Date().toISOString()));
+  await delay(5);
+  await detector.runOnce();
+
+  assert.equal(tables.trip_routes.length, 1);
+  const [route] = tables.trip_routes;
+  assert.equal(route.started_at, new Date(base).toISOString());
+  assert.equal(route.ended_at, new Date(base + 50 * MINUTE).toISOString());
+  assert.equal(route.source, 'detected');
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAlertEpisodes } from '../lib/alertEpisodes.js';
+import { createDeviceWatchdog } from '../lib/watchdog.js';
+import { createFakeSupabase } from './fakeSupabase.js';
+
+const MINUTE = 60 * 1000;
+
+test('a silent device is marked offline with an alert, resolved when it reports again', async () => {
+  const silentSince = new Date(Date.now() - 20 * MINUTE).toISOString();
+  const { client, tables } = createFakeSupabase({
+    gps_devices: [
+      {
+        id: 'device-1',
+        device_id: '356307042441013',
+        status: 'active',
+        last_connection: silentSince,
+        vehicle: { id: 'vehicle-1', user_id: 'user-1', name: 'Van 7' },
+      },
+      {
+        id: 'device-2',
+        device_id: '356307042441014',
+        status: 'active',
+        last_connection: new Date().toISOString(),
+        vehicle: { id: 'vehicle-2', user_id: 'user-1', name: 'Van 8' },
+      },
+    ],
+    gps_locations: [
+      { vehicle_id: 'vehicle-1', latitude: 48.1, longitude: 11.5, speed: 0, timestamp: silentSince },
+    ],
+  });
+
+  /** @type {{ vehicleId: string, event: string, payload: Record<string, unknown> }[]} */
+  const emitted = [];
+  const watchdog = createDeviceWatchdog(client, {
+    alertEpisodes: createAlertEpisodes(client),
+    emit: (vehicleId, event, payload) => emitted.push({ vehicleId, event, payload }),
+  });
+
+  await watchdog.runOnce();
+
+  const [offline, online] = tables.gps_devices;
+  assert.equal(offline.status, 'inactive');
+  assert.equal(online.status, 'active');
+  assert.equal(tables.alerts.length, 1);
+  const [alert] = tables.alerts;
+  assert.equal(alert.alert_type, 'no_gps_signal');
+  assert.equal(alert.episode_key, 'no_gps_signal:offline');
+  assert.equal(alert.message, 'Van 7 has not reported for 20 min, last position 48.10000, 11.50000');
+  assert.deepEqual(emitted.map((entry) => [entry.vehicleId, entry.payload.status]), [['vehicle-1', 'inactive']]);
+
+  // Still silent: nothing new
+  await watchdog.runOnce();
+  assert.equal(tables.alerts.length, 1);
+  assert.equal(alert.status, 'open');
+
+  // Ingestion marks the device active on its next packet
+  offline.status = 'active';
+  offline.last_connection = new Date().toISOString();
+  await watchdog.runOnce();
+
+  assert.equal(alert.status, 'closed');
+  assert.equal(alert.message, 'Tracker reporting again');
+  assert.deepEqual(emitted.map((entry) => [entry.vehicleId, entry.payload.status]), [['vehicle-1', 'inactive'], ['vehicle-1', 'active']]);
+});
@@ -0,0 +1,30 @@
+export type GeoPoint = { lat: number; lon: number };
+
+// A single ring, or an outer ring followed by holes
+export type PolygonCoordinates = GeoPoint[] | GeoPoint[][];
+
+export type GeofenceShape = {
+  zone_type: 'circle' | 'polygon';
+  center_lat?: number | null;
+  center_lon?: number | null;
+  radius_meters?: number | null;
+  polygon_coordinates?: PolygonCoordinates | null;
+};
+
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number;
+
+export function normalizePolygonRings(coordinates: PolygonCoordinates | null | undefined): GeoPoint[][];
+
+export function isPointInPolygon(lat: number, lon: number, coordinates: PolygonCoordinates | null | undefined): boolean;
+
+export function isPointInCircle(
+  lat: number,
+  lon: number,
+  centerLat: number,
+  centerLon: number,
+  radiusMeters: number
+): boolean;
+
+export function isPointInGeofence(lat: number, lon: number, geofence: GeofenceShape): boolean;
+
+export function polygonCentroid(coordinates: PolygonCoordinates | null | undefined): GeoPoint | null;
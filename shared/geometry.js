@@ -0,0 +1,157 @@
+// Geometry helpers shared by the GPS server and the web app.
+// Types live in geometry.d.ts next to this file.
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Distance (about 0.1 mm) under which a point counts as lying on a polygon edge
+const EDGE_TOLERANCE_DEGREES = 1e-9;
+
+const toRadians = (degrees) => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates, in meters
+export function haversineDistance(lat1, lon1, lat2, lon2) {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+            Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
+// Accepts either a single ring or a list of rings (outer ring first, holes after).
+// Rings without area are dropped; without its outer ring the polygon is empty.
+export function normalizePolygonRings(coordinates) {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) return [];
+  const rings = Array.isArray(coordinates[0]) ? coordinates : [coordinates];
+  if (!hasArea(rings[0])) return [];
+  return rings.filter(hasArea);
+}
+
+// Fewer than 3 vertices, repeated vertices or vertices on one line enclose nothing
+function hasArea(ring) {
+  if (!Array.isArray(ring) || ring.length < 3) return false;
+
+  const unwrapped = unwrapRing(ring, ring[0].lon);
+  let doubleArea = 0;
+  for (let i = 0, j = unwrapped.length - 1; i < unwrapped.length; j = i++) {
+    doubleArea += unwrapped[j].lon * unwrapped[i].lat - unwrapped[i].lon * unwrapped[j].lat;
+  }
+
+  return Math.abs(doubleArea) > EDGE_TOLERANCE_DEGREES * EDGE_TOLERANCE_DEGREES;
+}
+
+// Rewrites longitudes so consecutive vertices never jump more than 180°.
+// A ring crossing the antimeridian (e.g. 179° -> -179°) becomes continuous (179° -> 181°).
+function unwrapRing(ring, referenceLon) {
+  const unwrapped = [];
+  let previous = referenceLon;
+
+  for (const point of ring) {
+    let lon = point.lon;
+    while (lon - previous > 180) lon -= 360;
+    while (lon - previous < -180) lon += 360;
+    unwrapped.push({ lat: point.lat, lon });
+    previous = lon;
+  }
+
+  return unwrapped;
+}
+
+// Even-odd ray casting on an already unwrapped ring
+function isPointInRing(lat, lon, ring) {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+
+    if ((a.lat > lat) !== (b.lat > lat)) {
+      const crossingLon = a.lon + (lat - a.lat) * (b.lon - a.lon) / (b.lat - a.lat);
+      if (lon < crossingLon) inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Whether the point lies on an edge of an already unwrapped ring
+function isPointOnRing(lat, lon, ring) {
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[j];
+    const b = ring[i];
+    const length = Math.hypot(b.lat - a.lat, b.lon - a.lon);
+    const cross = (b.lon - a.lon) * (lat - a.lat) - (b.lat - a.lat) * (lon - a.lon);
+
+    if (Math.abs(cross) <= EDGE_TOLERANCE_DEGREES * Math.max(length, 1) &&
+        lat >= Math.min(a.lat, b.lat) - EDGE_TOLERANCE_DEGREES && lat <= Math.max(a.lat, b.lat) + EDGE_TOLERANCE_DEGREES &&
+        lon >= Math.min(a.lon, b.lon) - EDGE_TOLERANCE_DEGREES && lon <= Math.max(a.lon, b.lon) + EDGE_TOLERANCE_DEGREES) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Points on the boundary, including the edges of holes, are inside
+export function isPointInPolygon(lat, lon, coordinates) {
+  const rings = normalizePolygonRings(coordinates);
+  if (rings.length === 0) return false;
+
+  const referenceLon = rings[0][0].lon;
+  const [outer, ...holes] = rings.map((ring) => unwrapRing(ring, referenceLon));
+
+  // The unwrapped rings may extend past ±180°, so also try the point shifted by a full turn
+  for (const shift of [0, 360, -360]) {
+    const shiftedLon = lon + shift;
+    if ([outer, ...holes].some((ring) => isPointOnRing(lat, shiftedLon, ring))) return true;
+    if (isPointInRing(lat, shiftedLon, outer)) {
+      return !holes.some((hole) => isPointInRing(lat, shiftedLon, hole));
+    }
+  }
+
+  return false;
+}
+
+export function isPointInCircle(lat, lon, centerLat, centerLon, radiusMeters) {
+  return haversineDistance(lat, lon, centerLat, centerLon) <= radiusMeters;
+}
+
+export function isPointInGeofence(lat, lon, geofence) {
+  if (geofence.zone_type === 'circle') {
+    if (geofence.center_lat == null || geofence.center_lon == null || geofence.radius_meters == null) {
+      return false;
+    }
+    return isPointInCircle(
+      lat,
+      lon,
+      Number(geofence.center_lat),
+      Number(geofence.center_lon),
+      Number(geofence.radius_meters)
+    );
+  }
+
+  if (geofence.zone_type === 'polygon') {
+    return isPointInPolygon(lat, lon, geofence.polygon_coordinates);
+  }
+
+  return false;
+}
+
+// Arithmetic mean of the outer ring, used to place labels and center maps
+export function polygonCentroid(coordinates) {
+  const [outer] = normalizePolygonRings(coordinates);
+  if (!outer) return null;
+
+  const unwrapped = unwrapRing(outer, outer[0].lon);
+  const sum = unwrapped.reduce(
+    (acc, point) => ({ lat: acc.lat + point.lat, lon: acc.lon + point.lon }),
+    { lat: 0, lon: 0 }
+  );
+
+  let lon = sum.lon / unwrapped.length;
+  if (lon > 180) lon -= 360;
+  if (lon < -180) lon += 360;
+
+  return { lat: sum.lat / unwrapped.length, lon };
+}
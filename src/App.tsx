@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { OrganizationProvider, useOrganization } from './contexts/OrganizationContext';
+import { PermissionsProvider, usePermissions } from './contexts/PermissionsContext';
 import { FleetProvider } from './contexts/FleetContext';
 import Auth from './components/Auth';
+import DriverApp from './components/DriverApp';
 import Dashboard from './components/Dashboard';
 import Vehicles from './components/Vehicles';
 import GPSTrackingEnhanced from './components/GPSTrackingEnhanced';
@@ -9,23 +12,35 @@ import Maintenance from './components/Maintenance';
 import Trips from './components/Trips';
 import VehicleAssignments from './components/VehicleAssignments';
 import Drivers from './components/Drivers';
+import DriverScorecards from './components/DriverScorecards';
 import UserRoles from './components/UserRoles';
+import OrganizationSwitcher from './components/OrganizationSwitcher';
 import Alerts from './components/Alerts';
+import AlertRules from './components/AlertRules';
+import EscalationPolicies from './components/EscalationPolicies';
+import Webhooks from './components/Webhooks';
 import FuelMonitoring from './components/FuelMonitoring';
+import Diagnostics from './components/Diagnostics';
 import TripHistory from './components/TripHistory';
 import AddGPSLocation from './components/AddGPSLocation';
 import GPSDeviceConfig from './components/GPSDeviceConfig';
 import SimpleTracking from './components/SimpleTracking';
-import { Truck, LayoutDashboard, MapPin, Wrench, Route, Users, UserCheck, LogOut, Menu, X, Shield, Bell, Droplet, History, Navigation2, Smartphone, Activity } from 'lucide-react';
+import { Truck, LayoutDashboard, MapPin, Wrench, Route, Users, UserCheck, LogOut, Menu, X, Shield, Bell, Droplet, History, Navigation2, Smartphone, Activity, Award, SlidersHorizontal, Siren, Webhook, Stethoscope } from 'lucide-react';
+import { Permissions } from './lib/supabase';
 
-type View = 'dashboard' | 'vehicles' | 'drivers' | 'gps' | 'addgps' | 'gpsdevice' | 'livetracking' | 'maintenance' | 'trips' | 'assignments' | 'roles' | 'alerts' | 'fuel' | 'history';
+type View = 'dashboard' | 'vehicles' | 'drivers' | 'scorecards' | 'gps' | 'addgps' | 'gpsdevice' | 'livetracking' | 'maintenance' | 'trips' | 'assignments' | 'roles' | 'webhooks' | 'alerts' | 'rules' | 'escalation' | 'fuel' | 'diagnostics' | 'history';
+
+// Entries with a permission are hidden from members without it
+type NavItem = { id: View; label: string; icon: typeof Truck; permission?: keyof Permissions };
 
 function AppContent() {
   const { user, loading, signOut } = useAuth();
+  const { organization, role, loading: organizationLoading } = useOrganization();
+  const { can } = usePermissions();
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-  if (loading) {
+  if (loading || (user && organizationLoading)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
@@ -37,22 +52,36 @@ function AppContent() {
     return <Auth />;
   }
 
-  const navigation = [
+  // Drivers get their own app, the admin dashboard stays hidden from them
+  if (role === 'driver') {
+    return <DriverApp key={organization?.id} />;
+  }
+
+  const allNavigation: NavItem[] = [
     { id: 'dashboard' as View, label: 'Dashboard', icon: LayoutDashboard },
-    { id: 'vehicles' as View, label: 'Vehicles', icon: Truck },
-    { id: 'drivers' as View, label: 'Drivers', icon: UserCheck },
+    { id: 'vehicles' as View, label: 'Vehicles', icon: Truck, permission: 'can_view_vehicles' },
+    { id: 'drivers' as View, label: 'Drivers', icon: UserCheck, permission: 'can_view_drivers' },
+    { id: 'scorecards' as View, label: 'Driver Scores', icon: Award, permission: 'can_view_drivers' },
     { id: 'gps' as View, label: 'GPS & Zones', icon: MapPin },
     { id: 'addgps' as View, label: 'Add GPS', icon: Navigation2 },
     { id: 'gpsdevice' as View, label: 'GPS Devices', icon: Smartphone },
     { id: 'livetracking' as View, label: 'Live Tracking', icon: Activity },
     { id: 'alerts' as View, label: 'Alerts', icon: Bell },
+    { id: 'rules' as View, label: 'Alert Rules', icon: SlidersHorizontal },
+    { id: 'escalation' as View, label: 'Escalation', icon: Siren },
     { id: 'fuel' as View, label: 'Fuel Monitor', icon: Droplet },
-    { id: 'history' as View, label: 'Trip History', icon: History },
-    { id: 'maintenance' as View, label: 'Maintenance', icon: Wrench },
-    { id: 'trips' as View, label: 'Trips', icon: Route },
-    { id: 'assignments' as View, label: 'Assignments', icon: Users },
-    { id: 'roles' as View, label: 'User Roles', icon: Shield },
+    { id: 'diagnostics' as View, label: 'Diagnostics', icon: Stethoscope },
+    { id: 'history' as View, label: 'Trip History', icon: History, permission: 'can_view_trips' },
+    { id: 'maintenance' as View, label: 'Maintenance', icon: Wrench, permission: 'can_view_maintenance' },
+    { id: 'trips' as View, label: 'Trips', icon: Route, permission: 'can_view_trips' },
+    { id: 'assignments' as View, label: 'Assignments', icon: Users, permission: 'can_view_drivers' },
+    { id: 'webhooks' as View, label: 'Webhooks', icon: Webhook },
+    { id: 'roles' as View, label: 'User Roles', icon: Shield, permission: 'can_manage_roles' },
   ];
+  const navigation = allNavigation.filter((item) => !item.permission || can(item.permission));
+
+  // A view the user may no longer open, e.g. after switching organization, falls back to the dashboard
+  const activeView = navigation.some((item) => item.id === currentView) ? currentView : 'dashboard';
 
   const handleNavClick = (viewId: View) => {
     setCurrentView(viewId);
@@ -102,13 +131,17 @@ function AppContent() {
             </div>
           </div>
 
-          <nav className="flex-1 p-4 space-y-2 overflow-y-auto mt-20 lg:mt-0">
+          <div className="mt-20 lg:mt-0">
+            <OrganizationSwitcher />
+          </div>
+
+          <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
             {navigation.map((item) => (
               <button
                 key={item.id}
                 onClick={() => handleNavClick(item.id)}
                 className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition font-medium ${
-                  currentView === item.id
+                  activeView === item.id
                     ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20'
                     : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
                 }`}
@@ -142,21 +175,27 @@ function AppContent() {
         )}
 
         <main className="flex-1 overflow-y-auto pt-20 lg:pt-0">
-          <div className="p-4 sm:p-6 lg:p-8">
-            {currentView === 'dashboard' && <Dashboard />}
-            {currentView === 'vehicles' && <Vehicles />}
-            {currentView === 'drivers' && <Drivers />}
-            {currentView === 'gps' && <GPSTrackingEnhanced />}
-            {currentView === 'addgps' && <AddGPSLocation />}
-            {currentView === 'gpsdevice' && <GPSDeviceConfig />}
-            {currentView === 'livetracking' && <SimpleTracking />}
-            {currentView === 'alerts' && <Alerts />}
-            {currentView === 'fuel' && <FuelMonitoring />}
-            {currentView === 'history' && <TripHistory />}
-            {currentView === 'maintenance' && <Maintenance />}
-            {currentView === 'trips' && <Trips />}
-            {currentView === 'assignments' && <VehicleAssignments />}
-            {currentView === 'roles' && <UserRoles />}
+          {/* Views reload their data and reconnect their sockets in another organization */}
+          <div key={organization?.id ?? 'none'} className="p-4 sm:p-6 lg:p-8">
+            {activeView === 'dashboard' && <Dashboard />}
+            {activeView === 'vehicles' && <Vehicles />}
+            {activeView === 'drivers' && <Drivers />}
+            {activeView === 'scorecards' && <DriverScorecards />}
+            {activeView === 'gps' && <GPSTrackingEnhanced />}
+            {activeView === 'addgps' && <AddGPSLocation />}
+            {activeView === 'gpsdevice' && <GPSDeviceConfig />}
+            {activeView === 'livetracking' && <SimpleTracking />}
+            {activeView === 'alerts' && <Alerts />}
+            {activeView === 'rules' && <AlertRules />}
+            {activeView === 'escalation' && <EscalationPolicies />}
+            {activeView === 'webhooks' && <Webhooks />}
+            {activeView === 'fuel' && <FuelMonitoring />}
+            {activeView === 'diagnostics' && <Diagnostics />}
+            {activeView === 'history' && <TripHistory />}
+            {activeView === 'maintenance' && <Maintenance />}
+            {activeView === 'trips' && <Trips />}
+            {activeView === 'assignments' && <VehicleAssignments />}
+            {activeView === 'roles' && <UserRoles />}
           </div>
         </main>
       </div>
@@ -167,9 +206,13 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <FleetProvider>
-        <AppContent />
-      </FleetProvider>
+      <OrganizationProvider>
+        <PermissionsProvider>
+          <FleetProvider>
+            <AppContent />
+          </FleetProvider>
+        </PermissionsProvider>
+      </OrganizationProvider>
     </AuthProvider>
   );
 }
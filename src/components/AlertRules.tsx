@@ -0,0 +1,826 @@
+import { useEffect, useState } from 'react';
+import {
+  supabase,
+  AlertRule,
+  Geofence,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleField,
+  VehicleGroup,
+  VehicleGroupMember,
+} from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useFleet } from '../contexts/FleetContext';
+import {
+  RULE_ALERT_TYPES,
+  RULE_FIELDS,
+  defaultCondition,
+  describeConditions,
+  describeDuration,
+  isConditionGroup,
+} from '../lib/alertRules';
+import { SlidersHorizontal, Plus, Edit2, Trash2, Power, Layers, X, AlertCircle } from 'lucide-react';
+
+type RuleForm = Pick<AlertRule,
+  | 'name'
+  | 'description'
+  | 'alert_type'
+  | 'severity'
+  | 'scope_type'
+  | 'vehicle_id'
+  | 'group_id'
+  | 'conditions'
+  | 'duration_seconds'
+  | 'timezone'
+>;
+
+type DurationUnit = 'seconds' | 'minutes' | 'hours';
+
+const DURATION_UNITS: Record<DurationUnit, number> = { seconds: 1, minutes: 60, hours: 3600 };
+
+const emptyRule = (): RuleForm => ({
+  name: '',
+  description: '',
+  alert_type: 'custom_rule',
+  severity: 'medium',
+  scope_type: 'all',
+  vehicle_id: null,
+  group_id: null,
+  conditions: { operator: 'and', conditions: [defaultCondition('speed')] },
+  duration_seconds: 0,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+});
+
+const inputClass = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+const smallInputClass = 'px-2 py-1.5 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500';
+
+const severityBadge = (severity: AlertRule['severity']) => {
+  switch (severity) {
+    case 'critical':
+      return 'bg-red-500/20 text-red-300';
+    case 'high':
+      return 'bg-orange-500/20 text-orange-300';
+    case 'medium':
+      return 'bg-yellow-500/20 text-yellow-300';
+    default:
+      return 'bg-blue-500/20 text-blue-300';
+  }
+};
+
+export default function AlertRules() {
+  const { user } = useAuth();
+  const { vehicles, getVehicleById } = useFleet();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [groups, setGroups] = useState<VehicleGroup[]>([]);
+  const [members, setMembers] = useState<VehicleGroupMember[]>([]);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(emptyRule);
+  const [durationValue, setDurationValue] = useState(0);
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>('minutes');
+  const [error, setError] = useState('');
+
+  const [showGroupModal, setShowGroupModal] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<VehicleGroup | null>(null);
+  const [groupName, setGroupName] = useState('');
+  const [groupVehicleIds, setGroupVehicleIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (user) loadData();
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      const [rulesResult, groupsResult, membersResult, geofencesResult] = await Promise.all([
+        supabase.from('alert_rules').select('*').order('created_at', { ascending: true }),
+        supabase.from('vehicle_groups').select('*').order('name'),
+        supabase.from('vehicle_group_members').select('*'),
+        supabase.from('geofences').select('*').eq('purpose', 'geofence').order('name'),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (groupsResult.error) throw groupsResult.error;
+      if (membersResult.error) throw membersResult.error;
+      if (geofencesResult.error) throw geofencesResult.error;
+
+      setRules(rulesResult.data || []);
+      setGroups(groupsResult.data || []);
+      setMembers(membersResult.data || []);
+      setGeofences(geofencesResult.data || []);
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRuleModal = (rule: AlertRule | null) => {
+    const form = rule ? {
+      name: rule.name,
+      description: rule.description || '',
+      alert_type: rule.alert_type,
+      severity: rule.severity,
+      scope_type: rule.scope_type,
+      vehicle_id: rule.vehicle_id || null,
+      group_id: rule.group_id || null,
+      conditions: rule.conditions,
+      duration_seconds: rule.duration_seconds,
+      timezone: rule.timezone,
+    } : emptyRule();
+
+    const unit: DurationUnit = form.duration_seconds % 3600 === 0 && form.duration_seconds > 0
+      ? 'hours'
+      : form.duration_seconds % 60 === 0 ? 'minutes' : 'seconds';
+
+    setEditingRule(rule);
+    setRuleForm(form);
+    setDurationUnit(unit);
+    setDurationValue(form.duration_seconds / DURATION_UNITS[unit]);
+    setError('');
+    setShowRuleModal(true);
+  };
+
+  const closeRuleModal = () => {
+    setShowRuleModal(false);
+    setEditingRule(null);
+  };
+
+  const handleRuleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (ruleForm.conditions.conditions.length === 0) {
+      setError('Add at least one condition');
+      return;
+    }
+
+    const rule = {
+      ...ruleForm,
+      vehicle_id: ruleForm.scope_type === 'vehicle' ? ruleForm.vehicle_id : null,
+      group_id: ruleForm.scope_type === 'group' ? ruleForm.group_id : null,
+      duration_seconds: Math.round(durationValue * DURATION_UNITS[durationUnit]),
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase.from('alert_rules').update(rule).eq('id', editingRule.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('alert_rules').insert([{ ...rule, user_id: user?.id }]);
+        if (error) throw error;
+      }
+      closeRuleModal();
+      loadData();
+    } catch (err) {
+      console.error('Error saving alert rule:', err);
+      setError('Failed to save rule');
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      const { error } = await supabase
+        .from('alert_rules')
+        .update({ is_enabled: !rule.is_enabled, updated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Its past alerts are kept.`)) return;
+
+    try {
+      const { error } = await supabase.from('alert_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+    }
+  };
+
+  const openGroupModal = (group: VehicleGroup | null) => {
+    setEditingGroup(group);
+    setGroupName(group ? group.name : '');
+    setGroupVehicleIds(group ? members.filter((m) => m.group_id === group.id).map((m) => m.vehicle_id) : []);
+    setShowGroupModal(true);
+  };
+
+  const handleGroupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      let groupId = editingGroup?.id;
+      if (editingGroup) {
+        const { error } = await supabase
+          .from('vehicle_groups')
+          .update({ name: groupName, updated_at: new Date().toISOString() })
+          .eq('id', editingGroup.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('vehicle_groups')
+          .insert([{ name: groupName, user_id: user?.id }])
+          .select()
+          .single();
+        if (error) throw error;
+        groupId = data.id;
+      }
+
+      const { error: deleteError } = await supabase.from('vehicle_group_members').delete().eq('group_id', groupId);
+      if (deleteError) throw deleteError;
+
+      if (groupVehicleIds.length > 0) {
+        const { error: insertError } = await supabase
+          .from('vehicle_group_members')
+          .insert(groupVehicleIds.map((vehicleId) => ({ group_id: groupId, vehicle_id: vehicleId })));
+        if (insertError) throw insertError;
+      }
+
+      setShowGroupModal(false);
+      loadData();
+    } catch (error) {
+      console.error('Error saving vehicle group:', error);
+    }
+  };
+
+  const deleteGroup = async (group: VehicleGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Rules scoped to it are deleted too.`)) return;
+
+    try {
+      const { error } = await supabase.from('vehicle_groups').delete().eq('id', group.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting vehicle group:', error);
+    }
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    if (rule.scope_type === 'vehicle') return getVehicleById(rule.vehicle_id || '')?.name || 'Unknown vehicle';
+    if (rule.scope_type === 'group') return `Group: ${groups.find((g) => g.id === rule.group_id)?.name || 'Unknown'}`;
+    return 'All vehicles';
+  };
+
+  // Replaces the node at `path` (indexes into nested `conditions`), or removes it when `node` is null
+  const updateNode = (path: number[], node: RuleCondition | RuleConditionGroup | null) => {
+    const update = (group: RuleConditionGroup, depth: number): RuleConditionGroup => {
+      const index = path[depth];
+      const conditions = [...group.conditions];
+      if (depth === path.length - 1) {
+        if (node) conditions[index] = node;
+        else conditions.splice(index, 1);
+      } else {
+        conditions[index] = update(conditions[index] as RuleConditionGroup, depth + 1);
+      }
+      return { ...group, conditions };
+    };
+    setRuleForm({ ...ruleForm, conditions: update(ruleForm.conditions, 0) });
+  };
+
+  const addNode = (path: number[], node: RuleCondition | RuleConditionGroup) => {
+    const add = (group: RuleConditionGroup, depth: number): RuleConditionGroup => {
+      if (depth === path.length) return { ...group, conditions: [...group.conditions, node] };
+      const conditions = [...group.conditions];
+      conditions[path[depth]] = add(conditions[path[depth]] as RuleConditionGroup, depth + 1);
+      return { ...group, conditions };
+    };
+    setRuleForm({ ...ruleForm, conditions: add(ruleForm.conditions, 0) });
+  };
+
+  const setOperator = (path: number[], operator: 'and' | 'or') => {
+    if (path.length === 0) {
+      setRuleForm({ ...ruleForm, conditions: { ...ruleForm.conditions, operator } });
+      return;
+    }
+    const group = path.reduce<RuleConditionGroup>((node, index) => node.conditions[index] as RuleConditionGroup, ruleForm.conditions);
+    updateNode(path, { ...group, operator });
+  };
+
+  const conditionValueInput = (condition: RuleCondition, path: number[]) => {
+    switch (condition.field) {
+      case 'engine_status':
+        return (
+          <select
+            value={condition.value as string}
+            onChange={(e) => updateNode(path, { ...condition, value: e.target.value })}
+            className={smallInputClass}
+          >
+            <option value="on">on</option>
+            <option value="off">off</option>
+            <option value="idle">idle</option>
+          </select>
+        );
+      case 'time_of_day': {
+        const [from, to] = Array.isArray(condition.value) ? condition.value : ['00:00', '00:00'];
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={from}
+              onChange={(e) => updateNode(path, { ...condition, value: [e.target.value, to] })}
+              className={smallInputClass}
+            />
+            <span className="text-slate-400 text-sm">and</span>
+            <input
+              type="time"
+              value={to}
+              onChange={(e) => updateNode(path, { ...condition, value: [from, e.target.value] })}
+              className={smallInputClass}
+            />
+          </div>
+        );
+      }
+      case 'geofence':
+        return (
+          <select
+            value={condition.value as string}
+            onChange={(e) => updateNode(path, { ...condition, value: e.target.value })}
+            className={smallInputClass}
+            required
+          >
+            <option value="">Select geofence</option>
+            {geofences.map((geofence) => (
+              <option key={geofence.id} value={geofence.id}>{geofence.name}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              step="0.1"
+              value={condition.value as number}
+              onChange={(e) => updateNode(path, { ...condition, value: parseFloat(e.target.value) || 0 })}
+              className={`${smallInputClass} w-24`}
+              required
+            />
+            <span className="text-slate-400 text-sm">{RULE_FIELDS[condition.field].unit}</span>
+          </div>
+        );
+    }
+  };
+
+  const conditionRow = (condition: RuleCondition, path: number[]) => (
+    <div key={path.join('.')} className="flex flex-wrap items-center gap-2 bg-slate-900/50 border border-slate-700/50 rounded-lg p-2">
+      <select
+        value={condition.field}
+        onChange={(e) => updateNode(path, defaultCondition(e.target.value as RuleField, geofences))}
+        className={smallInputClass}
+      >
+        {(Object.keys(RULE_FIELDS) as RuleField[]).map((field) => (
+          <option key={field} value={field}>{RULE_FIELDS[field].label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.op}
+        onChange={(e) => updateNode(path, { ...condition, op: e.target.value })}
+        className={smallInputClass}
+      >
+        {RULE_FIELDS[condition.field].ops.map((op) => (
+          <option key={op.value} value={op.value}>{op.label}</option>
+        ))}
+      </select>
+      {conditionValueInput(condition, path)}
+      <button
+        type="button"
+        onClick={() => updateNode(path, null)}
+        className="ml-auto p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition"
+        title="Remove condition"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  const operatorToggle = (group: RuleConditionGroup, path: number[]) => (
+    <div className="flex items-center gap-2 text-sm text-slate-400">
+      <span>Match</span>
+      {(['and', 'or'] as const).map((operator) => (
+        <button
+          key={operator}
+          type="button"
+          onClick={() => setOperator(path, operator)}
+          className={`px-3 py-1 rounded-lg text-xs font-semibold transition ${
+            group.operator === operator ? 'bg-emerald-500 text-white' : 'bg-slate-700 text-slate-400 hover:text-white'
+          }`}
+        >
+          {operator === 'and' ? 'ALL' : 'ANY'}
+        </button>
+      ))}
+      <span>of</span>
+    </div>
+  );
+
+  const conditionGroup = (group: RuleConditionGroup, path: number[]) => (
+    <div className="space-y-2">
+      {operatorToggle(group, path)}
+      {group.conditions.map((node, index) =>
+        isConditionGroup(node) ? (
+          <div key={[...path, index].join('.')} className="border-l-2 border-emerald-500/40 pl-3 py-1 space-y-2">
+            {conditionGroup(node, [...path, index])}
+            <button
+              type="button"
+              onClick={() => updateNode([...path, index], null)}
+              className="text-xs text-slate-400 hover:text-red-400 transition"
+            >
+              Remove group
+            </button>
+          </div>
+        ) : (
+          conditionRow(node, [...path, index])
+        )
+      )}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => addNode(path, defaultCondition('speed'))}
+          className="flex items-center gap-1 text-sm text-emerald-400 hover:text-emerald-300 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Condition
+        </button>
+        {/* Groups nest one level deep, enough for "A AND (B OR C)" */}
+        {path.length === 0 && (
+          <button
+            type="button"
+            onClick={() => addNode(path, { operator: 'or', conditions: [defaultCondition('speed')] })}
+            className="flex items-center gap-1 text-sm text-emerald-400 hover:text-emerald-300 transition"
+          >
+            <Plus className="w-4 h-4" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Alert Rules</h2>
+          <p className="text-slate-400">Conditions on live vehicle data that raise alerts</p>
+        </div>
+        <button
+          onClick={() => openRuleModal(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
+        >
+          <Plus className="w-5 h-5" />
+          New Rule
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-3">
+          {rules.length === 0 ? (
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
+              <SlidersHorizontal className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-white mb-2">No rules yet</h3>
+              <p className="text-slate-400">Create a rule to get alerted about speed, fuel, battery, engine or geofences</p>
+            </div>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.id}
+                className={`bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4 ${rule.is_enabled ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <h3 className="font-semibold text-white">{rule.name}</h3>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${severityBadge(rule.severity)}`}>{rule.severity}</span>
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-slate-700 text-slate-300">
+                        {RULE_ALERT_TYPES.find((t) => t.value === rule.alert_type)?.label || rule.alert_type}
+                      </span>
+                    </div>
+                    {rule.description && <p className="text-sm text-slate-400 mb-1">{rule.description}</p>}
+                    <p className="text-sm text-slate-300">
+                      When {describeConditions(rule.conditions, geofences)} {describeDuration(rule)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">{describeScope(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => toggleRule(rule)}
+                      className={`p-2 rounded-lg transition ${rule.is_enabled ? 'text-emerald-400 hover:bg-emerald-500/10' : 'text-slate-500 hover:bg-slate-700/50'}`}
+                      title={rule.is_enabled ? 'Disable' : 'Enable'}
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openRuleModal(rule)}
+                      className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4 h-fit">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-blue-400" />
+              <h3 className="text-lg font-bold text-white">Vehicle Groups</h3>
+            </div>
+            <button
+              onClick={() => openGroupModal(null)}
+              className="p-1.5 text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition"
+              title="New group"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-sm text-slate-400">Group vehicles to scope rules to several of them at once</p>
+          ) : (
+            <div className="space-y-2">
+              {groups.map((group) => (
+                <div key={group.id} className="flex items-center justify-between bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                  <div>
+                    <p className="text-sm font-semibold text-white">{group.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {members.filter((m) => m.group_id === group.id).length} vehicle(s)
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => openGroupModal(group)}
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteGroup(group)}
+                      className="p-1.5 text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showRuleModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+          <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto my-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-2xl font-bold text-white">{editingRule ? 'Edit Rule' : 'New Rule'}</h3>
+              <button onClick={closeRuleModal} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleRuleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={ruleForm.name}
+                    onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Low fuel at night"
+                    required
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Description</label>
+                  <input
+                    type="text"
+                    value={ruleForm.description || ''}
+                    onChange={(e) => setRuleForm({ ...ruleForm, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Alert Type</label>
+                  <select
+                    value={ruleForm.alert_type}
+                    onChange={(e) => setRuleForm({ ...ruleForm, alert_type: e.target.value as AlertRule['alert_type'] })}
+                    className={inputClass}
+                  >
+                    {RULE_ALERT_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Severity</label>
+                  <select
+                    value={ruleForm.severity}
+                    onChange={(e) => setRuleForm({ ...ruleForm, severity: e.target.value as AlertRule['severity'] })}
+                    className={inputClass}
+                  >
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                    <option value="critical">Critical</option>
+                  </select>
+                </div>
+              </div>
+
+              <section className="space-y-3 pt-4 border-t border-slate-700/50">
+                <h4 className="text-lg font-semibold text-white">Conditions</h4>
+                {conditionGroup(ruleForm.conditions, [])}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">For at least</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={durationValue}
+                        onChange={(e) => setDurationValue(parseFloat(e.target.value) || 0)}
+                        className={inputClass}
+                      />
+                      <select
+                        value={durationUnit}
+                        onChange={(e) => setDurationUnit(e.target.value as DurationUnit)}
+                        className={inputClass}
+                      >
+                        <option value="seconds">seconds</option>
+                        <option value="minutes">minutes</option>
+                        <option value="hours">hours</option>
+                      </select>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">0 raises the alert as soon as the conditions hold. Enters/exits conditions only hold on the crossing fix.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Time Zone</label>
+                    <input
+                      type="text"
+                      value={ruleForm.timezone}
+                      onChange={(e) => setRuleForm({ ...ruleForm, timezone: e.target.value })}
+                      className={inputClass}
+                      placeholder="Europe/Paris"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">Used by time of day conditions</p>
+                  </div>
+                </div>
+              </section>
+
+              <section className="space-y-3 pt-4 border-t border-slate-700/50">
+                <h4 className="text-lg font-semibold text-white">Applies To</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <select
+                    value={ruleForm.scope_type}
+                    onChange={(e) => setRuleForm({ ...ruleForm, scope_type: e.target.value as AlertRule['scope_type'] })}
+                    className={inputClass}
+                  >
+                    <option value="all">All vehicles</option>
+                    <option value="vehicle">One vehicle</option>
+                    <option value="group">Vehicle group</option>
+                  </select>
+                  {ruleForm.scope_type === 'vehicle' && (
+                    <select
+                      value={ruleForm.vehicle_id || ''}
+                      onChange={(e) => setRuleForm({ ...ruleForm, vehicle_id: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select vehicle</option>
+                      {vehicles.map((vehicle) => (
+                        <option key={vehicle.id} value={vehicle.id}>{vehicle.name} ({vehicle.license_plate})</option>
+                      ))}
+                    </select>
+                  )}
+                  {ruleForm.scope_type === 'group' && (
+                    <select
+                      value={ruleForm.group_id || ''}
+                      onChange={(e) => setRuleForm({ ...ruleForm, group_id: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select group</option>
+                      {groups.map((group) => (
+                        <option key={group.id} value={group.id}>{group.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </section>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeRuleModal}
+                  className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+                >
+                  {editingRule ? 'Update Rule' : 'Create Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showGroupModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+          <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-md max-h-[90vh] overflow-y-auto my-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-2xl font-bold text-white">{editingGroup ? 'Edit Group' : 'New Group'}</h3>
+              <button onClick={() => setShowGroupModal(false)} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleGroupSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Vehicles</label>
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {vehicles.map((vehicle) => (
+                    <label key={vehicle.id} className="flex items-center gap-3 text-sm text-slate-300 p-2 hover:bg-slate-700/30 rounded-lg">
+                      <input
+                        type="checkbox"
+                        checked={groupVehicleIds.includes(vehicle.id)}
+                        onChange={(e) => setGroupVehicleIds(e.target.checked
+                          ? [...groupVehicleIds, vehicle.id]
+                          : groupVehicleIds.filter((id) => id !== vehicle.id))}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+                      />
+                      {vehicle.name} <span className="text-slate-500">{vehicle.license_plate}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowGroupModal(false)}
+                  className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+                >
+                  Save Group
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,81 @@
 import { useState, useEffect } from 'react';
-import { supabase, Alert, Vehicle } from '../lib/supabase';
+import { supabase, Alert, AlertNotification, AlertTimelineEntry, Vehicle } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Bell, AlertTriangle, AlertCircle, Info, CheckCircle, Filter, Eye, Trash2 } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { Bell, AlertTriangle, AlertCircle, Info, CheckCircle, Filter, Eye, Trash2, ChevronDown, ChevronUp, History, Siren } from 'lucide-react';
+import { formatDistanceStrict, formatDistanceToNow } from 'date-fns';
+
+// Unit of `peak_value` per alert type
+const PEAK_UNITS: Partial<Record<Alert['alert_type'], string>> = {
+  speed_limit: 'km/h',
+  harsh_acceleration: 'm/s²',
+  harsh_braking: 'm/s²',
+  harsh_cornering: 'm/s²',
+  idle_too_long: 'min',
+  fuel_drop: '%',
+};
+
+const TIMELINE_LABELS: Record<AlertTimelineEntry['event'], string> = {
+  opened: 'Opened',
+  occurred: 'Occurred again',
+  reopened: 'Reopened',
+  closed: 'Closed',
+};
+
+const TIMELINE_COLORS: Record<AlertTimelineEntry['event'], string> = {
+  opened: 'bg-red-400',
+  occurred: 'bg-orange-400',
+  reopened: 'bg-yellow-400',
+  closed: 'bg-emerald-400',
+};
+
+const byLastOccurrence = (a: Alert, b: Alert) =>
+  Date.parse(b.last_occurred_at || b.created_at) - Date.parse(a.last_occurred_at || a.created_at);
 
 export default function Alerts() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'critical'>('all');
+  const [filter, setFilter] = useState<'all' | 'open' | 'unread' | 'critical'>('all');
   const [selectedSeverity, setSelectedSeverity] = useState<string>('all');
+  const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
 
   useEffect(() => {
     loadAlerts();
     loadVehicles();
     
-    // Subscribe to real-time alerts
+    // Subscribe to real-time alerts, episodes are updated in place as they recur and close
     const subscription = supabase
       .channel('alerts_channel')
       .on('postgres_changes', 
-        { event: 'INSERT', schema: 'public', table: 'alerts', filter: `user_id=eq.${user?.id}` },
+        { event: 'INSERT', schema: 'public', table: 'alerts', filter: `organization_id=eq.${organization?.id}` },
         (payload) => {
           setAlerts(prev => [payload.new as Alert, ...prev]);
         }
       )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'alerts', filter: `organization_id=eq.${organization?.id}` },
+        (payload) => {
+          const updated = payload.new as Alert;
+          setAlerts(prev => prev.map(a => a.id === updated.id ? updated : a).sort(byLastOccurrence));
+        }
+      )
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
     };
-  }, [user]);
+  }, [user, organization?.id]);
 
   const loadAlerts = async () => {
     try {
       const { data, error } = await supabase
         .from('alerts')
         .select('*')
-        .order('created_at', { ascending: false })
+        .order('last_occurred_at', { ascending: false })
         .limit(100);
 
       if (error) throw error;
@@ -49,6 +87,29 @@ export default function Alerts() {
     }
   };
 
+  // Escalation log of the expanded alert
+  useEffect(() => {
+    setNotifications([]);
+    if (!expandedAlertId) return;
+
+    const loadNotifications = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('alert_notifications')
+          .select('*')
+          .eq('alert_id', expandedAlertId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setNotifications(data || []);
+      } catch (error) {
+        console.error('Error loading alert notifications:', error);
+      }
+    };
+
+    loadNotifications();
+  }, [expandedAlertId]);
+
   const loadVehicles = async () => {
     try {
       const { data } = await supabase
@@ -139,7 +200,20 @@ export default function Alerts() {
     }
   };
 
+  const formatPeak = (alert: Alert) => {
+    if (alert.peak_value === null || alert.peak_value === undefined) return null;
+    const unit = PEAK_UNITS[alert.alert_type];
+    return `${Number(alert.peak_value).toFixed(1)}${unit ? ` ${unit}` : ''}`;
+  };
+
+  const formatEpisodeDuration = (alert: Alert) => {
+    const start = new Date(alert.first_occurred_at || alert.created_at);
+    const end = alert.status === 'open' ? new Date() : new Date(alert.closed_at || alert.last_occurred_at || alert.created_at);
+    return formatDistanceStrict(end, start);
+  };
+
   const filteredAlerts = alerts.filter(alert => {
+    if (filter === 'open' && alert.status !== 'open') return false;
     if (filter === 'unread' && alert.is_read) return false;
     if (filter === 'critical' && alert.severity !== 'critical') return false;
     if (selectedSeverity !== 'all' && alert.severity !== selectedSeverity) return false;
@@ -147,6 +221,7 @@ export default function Alerts() {
   });
 
   const unreadCount = alerts.filter(a => !a.is_read).length;
+  const openCount = alerts.filter(a => a.status === 'open').length;
   const criticalCount = alerts.filter(a => a.severity === 'critical' && !a.is_acknowledged).length;
 
   if (loading) {
@@ -166,6 +241,10 @@ export default function Alerts() {
         </div>
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
+            <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg px-3 py-2">
+              <span className="text-orange-400 font-semibold">{openCount}</span>
+              <span className="text-slate-400 text-sm ml-1">Ongoing</span>
+            </div>
             <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg px-3 py-2">
               <span className="text-blue-400 font-semibold">{unreadCount}</span>
               <span className="text-slate-400 text-sm ml-1">Unread</span>
@@ -195,6 +274,16 @@ export default function Alerts() {
             >
               All
             </button>
+            <button
+              onClick={() => setFilter('open')}
+              className={`px-3 py-1 rounded-lg text-sm transition ${
+                filter === 'open'
+                  ? 'bg-emerald-500 text-white'
+                  : 'bg-slate-800 text-slate-400 hover:text-white'
+              }`}
+            >
+              Ongoing
+            </button>
             <button
               onClick={() => setFilter('unread')}
               className={`px-3 py-1 rounded-lg text-sm transition ${
@@ -259,6 +348,23 @@ export default function Alerts() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <h3 className="font-semibold text-white">{alert.title}</h3>
+                        {alert.occurrence_count > 1 && (
+                          <span className="px-2 py-0.5 bg-slate-700 text-slate-200 text-xs rounded-full">
+                            ×{alert.occurrence_count}
+                          </span>
+                        )}
+                        {alert.status === 'open' && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 bg-orange-500/20 text-orange-300 text-xs rounded-full">
+                            <span className="w-1.5 h-1.5 bg-orange-400 rounded-full animate-pulse"></span>
+                            Ongoing
+                          </span>
+                        )}
+                        {alert.escalation_level > 0 && !alert.is_acknowledged && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 bg-red-500/20 text-red-300 text-xs rounded-full">
+                            <Siren className="w-3 h-3" />
+                            Escalated
+                          </span>
+                        )}
                         {!alert.is_read && (
                           <span className="px-2 py-0.5 bg-blue-500 text-white text-xs rounded-full">
                             New
@@ -276,12 +382,22 @@ export default function Alerts() {
                           <Bell className="w-3 h-3" />
                           {getVehicleName(alert.vehicle_id)}
                         </span>
+                        {alert.rule_id && alert.metadata?.rule_name && (
+                          <span>Rule: {alert.metadata.rule_name}</span>
+                        )}
                         <span>
-                          {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                          {formatDistanceToNow(new Date(alert.last_occurred_at || alert.created_at), { addSuffix: true })}
                         </span>
-                        {alert.speed && (
-                          <span>Speed: {alert.speed.toFixed(1)} km/h</span>
+                        {alert.occurrence_count > 1 && (
+                          <span>
+                            {alert.status === 'open' ? 'Ongoing for' : 'Lasted'} {formatEpisodeDuration(alert)}
+                          </span>
                         )}
+                        {formatPeak(alert) ? (
+                          <span>Peak: {formatPeak(alert)}</span>
+                        ) : alert.speed ? (
+                          <span>Speed: {alert.speed.toFixed(1)} km/h</span>
+                        ) : null}
                         {alert.location_lat && alert.location_lon && (
                           <span>
                             Location: {alert.location_lat.toFixed(4)}, {alert.location_lon.toFixed(4)}
@@ -291,6 +407,15 @@ export default function Alerts() {
                     </div>
 
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setExpandedAlertId(expandedAlertId === alert.id ? null : alert.id)}
+                        className="p-2 hover:bg-slate-700/50 rounded-lg transition"
+                        title="Timeline"
+                      >
+                        {expandedAlertId === alert.id
+                          ? <ChevronUp className="w-4 h-4 text-slate-400 hover:text-white" />
+                          : <ChevronDown className="w-4 h-4 text-slate-400 hover:text-white" />}
+                      </button>
                       {!alert.is_read && (
                         <button
                           onClick={() => markAsRead(alert.id)}
@@ -319,11 +444,66 @@ export default function Alerts() {
                     </div>
                   </div>
 
-                  {alert.metadata && Object.keys(alert.metadata).length > 0 && (
-                    <div className="mt-2 p-2 bg-slate-900/50 rounded-lg">
-                      <p className="text-xs text-slate-400 font-mono">
-                        {JSON.stringify(alert.metadata, null, 2)}
-                      </p>
+                  {expandedAlertId === alert.id && (
+                    <div className="mt-3 space-y-2">
+                      <div className="p-3 bg-slate-900/50 rounded-lg">
+                        <div className="flex items-center gap-2 mb-3">
+                          <History className="w-4 h-4 text-slate-400" />
+                          <span className="text-sm font-semibold text-white">Timeline</span>
+                        </div>
+                        {(alert.timeline || []).length === 0 ? (
+                          <p className="text-xs text-slate-400">
+                            Single occurrence {new Date(alert.created_at).toLocaleString()}
+                          </p>
+                        ) : (
+                          <div className="border-l border-slate-700 ml-1 space-y-2">
+                            {alert.timeline.map((entry, index) => (
+                              <div key={index} className="relative pl-4">
+                                <span className={`absolute -left-1 top-1.5 w-2 h-2 rounded-full ${TIMELINE_COLORS[entry.event]}`}></span>
+                                <div className="flex items-center justify-between gap-4 text-xs">
+                                  <span className="text-slate-300">{TIMELINE_LABELS[entry.event]}</span>
+                                  <span className="text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+                                </div>
+                                {entry.value !== null && entry.value !== undefined && (
+                                  <p className="text-xs text-slate-400">
+                                    {Number(entry.value).toFixed(1)} {PEAK_UNITS[alert.alert_type] || ''}
+                                  </p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      {notifications.length > 0 && (
+                        <div className="p-3 bg-slate-900/50 rounded-lg">
+                          <div className="flex items-center gap-2 mb-3">
+                            <Siren className="w-4 h-4 text-slate-400" />
+                            <span className="text-sm font-semibold text-white">Escalation</span>
+                          </div>
+                          <div className="space-y-1">
+                            {notifications.map((notification) => (
+                              <div key={notification.id} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                                <span className="text-slate-300">
+                                  Step {notification.step} · {notification.channel} to {notification.recipients.join(', ') || 'nobody'}
+                                </span>
+                                <span className={notification.status === 'sent' ? 'text-emerald-400' : 'text-red-400'}>
+                                  {notification.status === 'sent' ? 'Sent' : `Failed: ${notification.error}`}
+                                </span>
+                                <span className="text-slate-500">{new Date(notification.created_at).toLocaleString()}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {alert.metadata && Object.keys(alert.metadata).length > 0 && (
+                        <div className="p-2 bg-slate-900/50 rounded-lg">
+                          <p className="text-xs text-slate-400 font-mono">
+                            {JSON.stringify(alert.metadata, null, 2)}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
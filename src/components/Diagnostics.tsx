@@ -0,0 +1,481 @@
+import { useState, useEffect } from 'react';
+import { supabase, Alert, Vehicle, VehicleHealth } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Stethoscope, BatteryWarning, Thermometer, Satellite, Signal, Battery, Cpu, AlertTriangle, CheckCircle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { format, formatDistanceToNow } from 'date-fns';
+import { decodeDtc, dtcCodes, DTC_SYSTEM_LABELS } from '../lib/dtc';
+
+type HealthRange = '24h' | '7d' | '30d';
+
+const HEALTH_RANGES: { value: HealthRange; label: string; hours: number }[] = [
+  { value: '24h', label: '24 h', hours: 24 },
+  { value: '7d', label: '7 days', hours: 24 * 7 },
+  { value: '30d', label: '30 days', hours: 24 * 30 },
+];
+
+// Health readings loaded for the charts, the most recent ones when there are more
+const MAX_HEALTH_READINGS = 2000;
+
+// Coolant temperatures above this are shown as overheating
+const ENGINE_OVERHEAT_CELSIUS = 105;
+
+type HealthReading = Pick<VehicleHealth,
+  'battery_voltage' | 'battery_status' | 'battery_level_percent' | 'engine_temperature' | 'engine_status' |
+  'gsm_signal_strength' | 'satellites_count' | 'error_codes' | 'dtc_count' | 'recorded_at'>;
+
+type ChartPoint = { time: number; value: number };
+
+type CodeHistory = { code: string; firstSeen: string; lastSeen: string };
+
+const HEALTH_ALERT_TYPES = ['battery_disconnect', 'no_gps_signal'];
+
+// Health readings of a vehicle and its battery and GPS alerts
+async function fetchDiagnostics(vehicleId: string, range: HealthRange) {
+  const hours = HEALTH_RANGES.find((option) => option.value === range)?.hours ?? 24;
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  const [readings, alerts] = await Promise.all([
+    supabase
+      .from('vehicle_health')
+      .select('battery_voltage, battery_status, battery_level_percent, engine_temperature, engine_status, gsm_signal_strength, satellites_count, error_codes, dtc_count, recorded_at')
+      .eq('vehicle_id', vehicleId)
+      .gte('recorded_at', since)
+      .order('recorded_at', { ascending: false })
+      .limit(MAX_HEALTH_READINGS),
+    supabase
+      .from('alerts')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .in('alert_type', HEALTH_ALERT_TYPES)
+      .gte('last_occurred_at', since)
+      .order('last_occurred_at', { ascending: false })
+      .limit(20),
+  ]);
+
+  if (readings.error) throw readings.error;
+  if (alerts.error) throw alerts.error;
+
+  return {
+    readings: ((readings.data || []) as HealthReading[]).reverse(),
+    alerts: (alerts.data || []) as Alert[],
+  };
+}
+
+// Newest reading with a value for the field, trackers report different fields per packet
+function latest<K extends keyof HealthReading>(readings: HealthReading[], key: K) {
+  for (let i = readings.length - 1; i >= 0; i--) {
+    if (readings[i][key] !== null && readings[i][key] !== undefined) return readings[i];
+  }
+  return null;
+}
+
+function series(readings: HealthReading[], key: 'battery_voltage' | 'engine_temperature'): ChartPoint[] {
+  return readings
+    .filter((reading) => reading[key] !== null && reading[key] !== undefined)
+    .map((reading) => ({ time: Date.parse(reading.recorded_at), value: Number(reading[key]) }));
+}
+
+function codeHistory(readings: HealthReading[]): CodeHistory[] {
+  const history = new Map<string, CodeHistory>();
+  for (const reading of readings) {
+    for (const code of dtcCodes(reading.error_codes)) {
+      const entry = history.get(code);
+      if (entry) entry.lastSeen = reading.recorded_at;
+      else history.set(code, { code, firstSeen: reading.recorded_at, lastSeen: reading.recorded_at });
+    }
+  }
+  return [...history.values()].sort((a, b) => Date.parse(b.lastSeen) - Date.parse(a.lastSeen));
+}
+
+const BATTERY_STATUS_COLORS: Record<string, string> = {
+  good: 'bg-emerald-500/20 text-emerald-400',
+  low: 'bg-yellow-500/20 text-yellow-400',
+  critical: 'bg-red-500/20 text-red-400',
+  disconnected: 'bg-red-500/20 text-red-400',
+};
+
+export default function Diagnostics() {
+  const { user } = useAuth();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [healthRange, setHealthRange] = useState<HealthRange>('24h');
+  const [readings, setReadings] = useState<HealthReading[]>([]);
+  const [healthAlerts, setHealthAlerts] = useState<Alert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadVehicles();
+  }, [user]);
+
+  useEffect(() => {
+    if (!selectedVehicle) return;
+
+    const vehicleId = selectedVehicle.id;
+    let cancelled = false;
+    const load = () => {
+      fetchDiagnostics(vehicleId, healthRange)
+        .then((result) => {
+          if (cancelled) return;
+          setReadings(result.readings);
+          setHealthAlerts(result.alerts);
+        })
+        .catch((error) => console.error('Error loading diagnostics:', error));
+    };
+
+    load();
+
+    const healthSubscription = supabase
+      .channel('vehicle_health_realtime')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'vehicle_health', filter: `vehicle_id=eq.${vehicleId}` },
+        () => load()
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      healthSubscription.unsubscribe();
+    };
+  }, [selectedVehicle, healthRange]);
+
+  const loadVehicles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .eq('status', 'active')
+        .order('name');
+
+      if (error) throw error;
+      setVehicles(data || []);
+      if (data && data.length > 0) {
+        setSelectedVehicle(data[0]);
+      }
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  const battery = latest(readings, 'battery_voltage');
+  const batteryStatus = latest(readings, 'battery_status');
+  const temperature = latest(readings, 'engine_temperature');
+  const satellites = latest(readings, 'satellites_count');
+  const gsm = latest(readings, 'gsm_signal_strength');
+  const trackerBattery = latest(readings, 'battery_level_percent');
+
+  // The newest row reporting trouble codes holds the codes stored now
+  const dtcReading = [...readings].reverse().find((reading) => reading.error_codes != null || reading.dtc_count != null) || null;
+  const activeCodes = dtcReading ? dtcCodes(dtcReading.error_codes) : [];
+  const activeCount = dtcReading ? Math.max(dtcReading.dtc_count ?? 0, activeCodes.length) : 0;
+  const history = codeHistory(readings);
+
+  const voltages = series(readings, 'battery_voltage');
+  const temperatures = series(readings, 'engine_temperature');
+  // 24 V systems are told apart by the voltage itself, as on the GPS server
+  const nominalVoltage = voltages.some((point) => point.value > 18) ? 24 : 12;
+  const timeFormat = healthRange === '24h' ? 'HH:mm' : 'MMM d';
+
+  const overheating = temperature !== null && Number(temperature.engine_temperature) > ENGINE_OVERHEAT_CELSIUS;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white mb-2">Vehicle Diagnostics</h2>
+        <p className="text-slate-400">Battery, engine temperature, GPS reception and trouble codes reported by the trackers</p>
+      </div>
+
+      {vehicles.length === 0 ? (
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
+          <Stethoscope className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No vehicles available</h3>
+          <p className="text-slate-400">Add vehicles to see their diagnostics</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-2 overflow-x-auto pb-2">
+              {vehicles.map((vehicle) => (
+                <button
+                  key={vehicle.id}
+                  onClick={() => setSelectedVehicle(vehicle)}
+                  className={`px-4 py-2 rounded-lg whitespace-nowrap transition ${
+                    selectedVehicle?.id === vehicle.id
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-slate-800 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {vehicle.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {HEALTH_RANGES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setHealthRange(option.value)}
+                  className={`px-3 py-1.5 rounded-lg text-sm transition ${
+                    healthRange === option.value
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-slate-800 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            <div className="bg-gradient-to-br from-blue-500/10 to-blue-600/10 border border-blue-500/20 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-2">
+                <BatteryWarning className="w-8 h-8 text-blue-400" />
+                {batteryStatus?.battery_status && (
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${BATTERY_STATUS_COLORS[batteryStatus.battery_status]}`}>
+                    {batteryStatus.battery_status}
+                  </span>
+                )}
+              </div>
+              <p className="text-2xl font-bold text-white">
+                {battery ? `${Number(battery.battery_voltage).toFixed(1)} V` : '—'}
+              </p>
+              <p className="text-sm text-slate-400">Vehicle Battery</p>
+            </div>
+
+            <div className={`bg-gradient-to-br border rounded-xl p-6 ${
+              overheating ? 'from-red-500/10 to-red-600/10 border-red-500/20' : 'from-orange-500/10 to-orange-600/10 border-orange-500/20'
+            }`}>
+              <div className="flex items-center justify-between mb-2">
+                <Thermometer className={`w-8 h-8 ${overheating ? 'text-red-400' : 'text-orange-400'}`} />
+              </div>
+              <p className="text-2xl font-bold text-white">
+                {temperature ? `${Number(temperature.engine_temperature).toFixed(0)} °C` : '—'}
+              </p>
+              <p className="text-sm text-slate-400">Engine Temperature</p>
+            </div>
+
+            <div className="bg-gradient-to-br from-emerald-500/10 to-emerald-600/10 border border-emerald-500/20 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-2">
+                <Satellite className="w-8 h-8 text-emerald-400" />
+              </div>
+              <p className="text-2xl font-bold text-white">{satellites ? satellites.satellites_count : '—'}</p>
+              <p className="text-sm text-slate-400">GPS Satellites</p>
+            </div>
+
+            <div className="bg-gradient-to-br from-purple-500/10 to-purple-600/10 border border-purple-500/20 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-2">
+                <Signal className="w-8 h-8 text-purple-400" />
+              </div>
+              <p className="text-2xl font-bold text-white">{gsm ? `${gsm.gsm_signal_strength}%` : '—'}</p>
+              <p className="text-sm text-slate-400">GSM Signal</p>
+            </div>
+
+            <div className="bg-gradient-to-br from-slate-500/10 to-slate-600/10 border border-slate-500/20 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-2">
+                <Battery className="w-8 h-8 text-slate-400" />
+              </div>
+              <p className="text-2xl font-bold text-white">
+                {trackerBattery ? `${Number(trackerBattery.battery_level_percent).toFixed(0)}%` : '—'}
+              </p>
+              <p className="text-sm text-slate-400">Tracker Battery</p>
+            </div>
+          </div>
+
+          {readings.length > 0 && (
+            <p className="text-sm text-slate-500">
+              Last report {formatDistanceToNow(new Date(readings[readings.length - 1].recorded_at), { addSuffix: true })}
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Battery Voltage</h3>
+              {voltages.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">No voltage readings in this period</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={voltages}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      stroke="#94a3b8"
+                      tickFormatter={(time) => format(time, timeFormat)}
+                    />
+                    <YAxis domain={['auto', 'auto']} unit=" V" stroke="#94a3b8" />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155' }}
+                      labelStyle={{ color: '#f1f5f9' }}
+                      labelFormatter={(time) => format(Number(time), 'PPp')}
+                      formatter={(value) => [`${Number(value).toFixed(2)} V`, 'Voltage']}
+                    />
+                    <ReferenceLine
+                      y={nominalVoltage === 24 ? 23.6 : 11.8}
+                      stroke="#ef4444"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Critical', fill: '#ef4444', fontSize: 12, position: 'insideBottomRight' }}
+                    />
+                    <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Engine Temperature</h3>
+              {temperatures.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">No temperature readings in this period</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={temperatures}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      stroke="#94a3b8"
+                      tickFormatter={(time) => format(time, timeFormat)}
+                    />
+                    <YAxis domain={['auto', 'auto']} unit=" °C" stroke="#94a3b8" />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155' }}
+                      labelStyle={{ color: '#f1f5f9' }}
+                      labelFormatter={(time) => format(Number(time), 'PPp')}
+                      formatter={(value) => [`${Number(value).toFixed(0)} °C`, 'Coolant']}
+                    />
+                    <ReferenceLine
+                      y={ENGINE_OVERHEAT_CELSIUS}
+                      stroke="#ef4444"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Overheating', fill: '#ef4444', fontSize: 12, position: 'insideTopRight' }}
+                    />
+                    <Line type="monotone" dataKey="value" stroke="#f97316" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Cpu className="w-5 h-5 text-slate-400" />
+                <h3 className="text-lg font-bold text-white">Trouble Codes</h3>
+              </div>
+
+              {!dtcReading ? (
+                <p className="text-center py-8 text-slate-400">The tracker reported no trouble codes in this period</p>
+              ) : activeCount === 0 ? (
+                <div className="flex items-center gap-2 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg text-emerald-400">
+                  <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                  <p className="text-sm">No stored trouble codes · {format(new Date(dtcReading.recorded_at), 'PPp')}</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {activeCodes.length < activeCount && (
+                    <div className="flex items-center gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-400">
+                      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                      <p className="text-sm">{activeCount} stored trouble codes, the tracker does not report which</p>
+                    </div>
+                  )}
+                  {activeCodes.map((code) => {
+                    const decoded = decodeDtc(code);
+                    return (
+                      <div key={code} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-mono font-bold text-red-400">{code}</span>
+                          {decoded && (
+                            <span className="px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-300">
+                              {DTC_SYSTEM_LABELS[decoded.system]} · {decoded.generic ? 'generic' : 'manufacturer'}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-white">
+                          {decoded?.description || (decoded?.generic ? 'Generic code not in the bundled table' : 'Manufacturer specific code, see the service documentation')}
+                        </p>
+                        {decoded?.subsystem && <p className="text-xs text-slate-400 mt-1">{decoded.subsystem}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {history.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-sm font-medium text-slate-300 mb-2">Reported in this period</h4>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-700">
+                          <th className="text-left py-3 px-4 text-slate-400 font-medium">Code</th>
+                          <th className="text-left py-3 px-4 text-slate-400 font-medium">Description</th>
+                          <th className="text-left py-3 px-4 text-slate-400 font-medium">Last seen</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {history.map((entry) => (
+                          <tr key={entry.code} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                            <td className="py-3 px-4 font-mono text-white">{entry.code}</td>
+                            <td className="py-3 px-4 text-slate-300">{decodeDtc(entry.code)?.description || '—'}</td>
+                            <td className="py-3 px-4 text-slate-400 whitespace-nowrap">
+                              {format(new Date(entry.lastSeen), 'MMM d, HH:mm')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Battery and GPS Alerts</h3>
+              {healthAlerts.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">No battery disconnects or GPS outages in this period</p>
+              ) : (
+                <div className="space-y-2">
+                  {healthAlerts.map((alert) => (
+                    <div key={alert.id} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <div className="flex items-center gap-2">
+                          {alert.alert_type === 'battery_disconnect'
+                            ? <BatteryWarning className="w-4 h-4 text-red-400" />
+                            : <Satellite className="w-4 h-4 text-yellow-400" />}
+                          <span className="font-medium text-white">{alert.title}</span>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          alert.status === 'open' ? 'bg-red-500/20 text-red-400' : 'bg-slate-700 text-slate-300'
+                        }`}>
+                          {alert.status === 'open' ? 'Ongoing' : 'Resolved'}
+                        </span>
+                      </div>
+                      <p className="text-sm text-slate-300">{alert.message}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {format(new Date(alert.first_occurred_at), 'MMM d, HH:mm')}
+                        {alert.closed_at && ` – ${format(new Date(alert.closed_at), 'MMM d, HH:mm')}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase, Driver, Trip, Vehicle, VehicleAssignment, VehicleInspection } from '../lib/supabase';
+import { DRIVER_POSITION_INTERVAL_MS, postDriverPosition } from '../lib/driverTracking';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import OrganizationSwitcher from './OrganizationSwitcher';
+import DriverInspection from './DriverInspection';
+import DriverFuelLog from './DriverFuelLog';
+import { Truck, LogOut, Navigation, Play, Square, ClipboardCheck, Fuel, Route, Clock, MapPin, AlertCircle, CheckCircle } from 'lucide-react';
+import { endOfDay, format, formatDistanceToNow, startOfDay } from 'date-fns';
+
+type AssignmentWithVehicle = VehicleAssignment & { vehicle: Vehicle | null };
+
+type DriverData = {
+  driver: Driver | null;
+  assignment: AssignmentWithVehicle | null;
+  trips: Trip[];
+  inspections: VehicleInspection[];
+};
+
+// The member is the drivers row with their email, as current_driver_id() in the database
+async function fetchDriverData(organizationId: string, email: string): Promise<DriverData> {
+  const { data: drivers, error } = await supabase
+    .from('drivers')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (error) throw error;
+  const driver = (drivers || []).find((d) => d.email?.toLowerCase() === email.toLowerCase()) ?? null;
+  if (!driver) return { driver: null, assignment: null, trips: [], inspections: [] };
+
+  const now = new Date();
+  const dayStart = startOfDay(now).toISOString();
+  const dayEnd = endOfDay(now).toISOString();
+
+  const [assignmentRes, tripsRes, inspectionsRes] = await Promise.all([
+    supabase
+      .from('vehicle_assignments')
+      .select('*, vehicle:vehicles(*)')
+      .eq('driver_id', driver.id)
+      .eq('status', 'active')
+      .order('assigned_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    // Today's trips, and a trip still running from an earlier day
+    supabase
+      .from('trips')
+      .select('*')
+      .eq('driver_id', driver.id)
+      .or(`status.eq.in_progress,and(departure_time.gte.${dayStart},departure_time.lte.${dayEnd})`)
+      .order('departure_time', { ascending: true }),
+    supabase
+      .from('vehicle_inspections')
+      .select('*')
+      .eq('driver_id', driver.id)
+      .gte('created_at', dayStart)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (assignmentRes.error) throw assignmentRes.error;
+  if (tripsRes.error) throw tripsRes.error;
+  if (inspectionsRes.error) throw inspectionsRes.error;
+
+  return {
+    driver,
+    assignment: assignmentRes.data,
+    trips: tripsRes.data || [],
+    inspections: inspectionsRes.data || [],
+  };
+}
+
+const TRIP_STATUS_BADGES: Record<Trip['status'], string> = {
+  scheduled: 'bg-blue-500/20 text-blue-400',
+  in_progress: 'bg-emerald-500/20 text-emerald-400',
+  completed: 'bg-slate-500/20 text-slate-400',
+  cancelled: 'bg-red-500/20 text-red-400',
+};
+
+export default function DriverApp() {
+  const { user, signOut } = useAuth();
+  const { organization } = useOrganization();
+  const [data, setData] = useState<DriverData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyTripId, setBusyTripId] = useState<string | null>(null);
+  const [inspectionTrip, setInspectionTrip] = useState<Trip | null | undefined>(undefined);
+  const [showFuelLog, setShowFuelLog] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const [sharing, setSharing] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<number | null>(null);
+  const [lastFix, setLastFix] = useState<GeolocationCoordinates | null>(null);
+  const [trackingError, setTrackingError] = useState('');
+  const lastPostRef = useRef(0);
+
+  const email = user?.email;
+
+  useEffect(() => {
+    if (!organization || !email) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    fetchDriverData(organization.id, email)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        console.error('Error loading driver data:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load your assignment');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organization, email]);
+
+  // Location sharing: every fix from the browser, at most one per interval to the GPS server
+  useEffect(() => {
+    if (!sharing) return;
+    if (!navigator.geolocation) {
+      setTrackingError('This browser cannot share its location');
+      setSharing(false);
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setLastFix(position.coords);
+        const now = Date.now();
+        if (now - lastPostRef.current < DRIVER_POSITION_INTERVAL_MS) return;
+        lastPostRef.current = now;
+
+        postDriverPosition(position)
+          .then(() => {
+            setLastSentAt(Date.now());
+            setTrackingError('');
+          })
+          .catch((err) => setTrackingError(err instanceof Error ? err.message : 'Failed to send your position'));
+      },
+      (err) => setTrackingError(err.message),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [sharing]);
+
+  const reload = async () => {
+    if (!organization || !email) return;
+    setData(await fetchDriverData(organization.id, email));
+  };
+
+  const handleTrip = async (trip: Trip, action: 'start_trip' | 'end_trip') => {
+    setBusyTripId(trip.id);
+    setError('');
+    setNotice('');
+    try {
+      const { error } = await supabase.rpc(action, { p_trip_id: trip.id });
+      if (error) throw error;
+
+      // Share the location while driving
+      setSharing(action === 'start_trip');
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the trip');
+    } finally {
+      setBusyTripId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  const driver = data?.driver ?? null;
+  const assignment = data?.assignment ?? null;
+  const vehicle = assignment?.vehicle ?? null;
+  const trips = data?.trips ?? [];
+  const inspections = data?.inspections ?? [];
+  const inspectedVehicleIds = new Set(inspections.map((i) => i.vehicle_id));
+  const latestInspection = vehicle ? inspections.find((i) => i.vehicle_id === vehicle.id) : undefined;
+  // The inspection is for the vehicle of the trip, or the assigned vehicle from the vehicle card
+  const inspectionVehicleId = inspectionTrip ? inspectionTrip.vehicle_id : vehicle?.id;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="bg-slate-800/95 backdrop-blur-xl border-b border-slate-700/50">
+        <div className="max-w-2xl mx-auto flex items-center justify-between p-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/10 p-2 rounded-lg">
+              <Truck className="w-6 h-6 text-emerald-400" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-white">Fleet Manager</h1>
+              <p className="text-xs text-slate-400">{driver?.name || user?.email}</p>
+            </div>
+          </div>
+          <button
+            onClick={signOut}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+            title="Sign Out"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="max-w-2xl mx-auto pb-4">
+          <OrganizationSwitcher />
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 space-y-4">
+        {notice && (
+          <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-xl p-4 flex items-start gap-3">
+            <CheckCircle className="w-5 h-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+            <p className="text-emerald-300 text-sm">{notice}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!driver ? (
+          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-8 text-center">
+            <Truck className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+            <h2 className="text-lg font-semibold text-white mb-1">No driver profile</h2>
+            <p className="text-slate-400 text-sm">
+              Ask your fleet manager to add a driver with the email {user?.email} to {organization?.name}.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h2 className="text-sm font-medium text-slate-400 mb-3">Your Vehicle</h2>
+              {vehicle ? (
+                <>
+                  <div className="flex items-center gap-3">
+                    <div className="bg-emerald-500/10 p-3 rounded-xl">
+                      <Truck className="w-6 h-6 text-emerald-400" />
+                    </div>
+                    <div>
+                      <p className="text-white font-semibold text-lg">{vehicle.name}</p>
+                      <p className="text-slate-400 text-sm">
+                        {vehicle.make} {vehicle.model} · {vehicle.license_plate}
+                      </p>
+                    </div>
+                  </div>
+                  {assignment && (
+                    <>
+                      {assignment.notes && <p className="text-sm text-slate-400 mt-3">{assignment.notes}</p>}
+                      <p className="text-xs text-slate-500 mt-2">
+                        Assigned {formatDistanceToNow(new Date(assignment.assigned_at), { addSuffix: true })}
+                      </p>
+                    </>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3 mt-4">
+                    <button
+                      onClick={() => setInspectionTrip(null)}
+                      className="flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-3 rounded-xl transition font-medium"
+                    >
+                      <ClipboardCheck className="w-5 h-5" />
+                      Inspection
+                    </button>
+                    <button
+                      onClick={() => setShowFuelLog(true)}
+                      className="flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-3 rounded-xl transition font-medium"
+                    >
+                      <Fuel className="w-5 h-5" />
+                      Fuel Fill-up
+                    </button>
+                  </div>
+
+                  {latestInspection && (
+                    <p className={`flex items-center gap-2 text-sm mt-3 ${latestInspection.passed ? 'text-emerald-400' : 'text-amber-400'}`}>
+                      {latestInspection.passed ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                      {latestInspection.passed ? 'Inspected' : 'Defects reported'} at {format(new Date(latestInspection.created_at), 'HH:mm')}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-slate-400 text-sm">No vehicle is assigned to you right now.</p>
+              )}
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <h2 className="text-white font-semibold flex items-center gap-2">
+                    <Navigation className={`w-5 h-5 ${sharing ? 'text-emerald-400' : 'text-slate-500'}`} />
+                    Location Sharing
+                  </h2>
+                  <p className="text-sm text-slate-400 mt-1">
+                    {sharing
+                      ? lastSentAt
+                        ? `Last sent ${formatDistanceToNow(lastSentAt, { addSuffix: true })}`
+                        : 'Waiting for a position...'
+                      : 'Your position is not being shared'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => {
+                    setTrackingError('');
+                    setSharing(!sharing);
+                  }}
+                  disabled={!vehicle}
+                  className={`px-4 py-2 rounded-lg transition font-medium disabled:opacity-50 ${
+                    sharing
+                      ? 'bg-red-500/10 hover:bg-red-500/20 text-red-400'
+                      : 'bg-emerald-500 hover:bg-emerald-600 text-white'
+                  }`}
+                >
+                  {sharing ? 'Stop' : 'Share'}
+                </button>
+              </div>
+              {sharing && lastFix && (
+                <p className="text-xs text-slate-500 mt-3 flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  {lastFix.latitude.toFixed(5)}, {lastFix.longitude.toFixed(5)} (±{Math.round(lastFix.accuracy)} m)
+                </p>
+              )}
+              {trackingError && <p className="text-sm text-red-400 mt-3">{trackingError}</p>}
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h2 className="text-white font-semibold flex items-center gap-2 mb-4">
+                <Route className="w-5 h-5 text-emerald-400" />
+                Today's Trips
+              </h2>
+
+              {trips.length === 0 ? (
+                <p className="text-slate-400 text-sm">No trips scheduled for you today.</p>
+              ) : (
+                <div className="space-y-3">
+                  {trips.map((trip) => {
+                    const inspected = inspectedVehicleIds.has(trip.vehicle_id);
+                    return (
+                      <div key={trip.id} className="bg-slate-900/50 rounded-lg p-4">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-white font-medium flex items-center gap-2">
+                              <MapPin className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                              <span className="truncate">{trip.destination}</span>
+                            </p>
+                            <p className="text-sm text-slate-400 mt-1 flex items-center gap-2">
+                              <Clock className="w-4 h-4" />
+                              {format(new Date(trip.departure_time), 'HH:mm')} – {format(new Date(trip.arrival_time), 'HH:mm')}
+                            </p>
+                            {trip.started_at && (
+                              <p className="text-xs text-slate-500 mt-1">
+                                Started {format(new Date(trip.started_at), 'HH:mm')}
+                                {trip.ended_at && `, ended ${format(new Date(trip.ended_at), 'HH:mm')}`}
+                              </p>
+                            )}
+                          </div>
+                          <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${TRIP_STATUS_BADGES[trip.status]}`}>
+                            {trip.status.replace('_', ' ')}
+                          </span>
+                        </div>
+
+                        {trip.status === 'scheduled' && (
+                          <div className="mt-3">
+                            {inspected ? (
+                              <button
+                                onClick={() => handleTrip(trip, 'start_trip')}
+                                disabled={busyTripId === trip.id}
+                                className="w-full flex items-center justify-center gap-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white px-4 py-3 rounded-xl transition font-medium"
+                              >
+                                <Play className="w-5 h-5" />
+                                Start Trip
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => setInspectionTrip(trip)}
+                                className="w-full flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-3 rounded-xl transition font-medium"
+                              >
+                                <ClipboardCheck className="w-5 h-5" />
+                                Pre-trip Inspection
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {trip.status === 'in_progress' && (
+                          <button
+                            onClick={() => handleTrip(trip, 'end_trip')}
+                            disabled={busyTripId === trip.id}
+                            className="mt-3 w-full flex items-center justify-center gap-2 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 text-red-400 px-4 py-3 rounded-xl transition font-medium"
+                          >
+                            <Square className="w-5 h-5" />
+                            End Trip
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+
+      {driver && inspectionTrip !== undefined && inspectionVehicleId && (
+        <DriverInspection
+          driverId={driver.id}
+          vehicleId={inspectionVehicleId}
+          tripId={inspectionTrip?.id ?? null}
+          onClose={() => setInspectionTrip(undefined)}
+          onSubmitted={async () => {
+            setInspectionTrip(undefined);
+            setNotice('Inspection submitted');
+            await reload();
+          }}
+        />
+      )}
+
+      {showFuelLog && vehicle && (
+        <DriverFuelLog
+          vehicle={vehicle}
+          onClose={() => setShowFuelLog(false)}
+          onSaved={() => {
+            setShowFuelLog(false);
+            setNotice('Fill-up logged');
+          }}
+        />
+      )}
+    </div>
+  );
+}
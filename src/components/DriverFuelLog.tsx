@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { supabase, Vehicle } from '../lib/supabase';
+import { Fuel } from 'lucide-react';
+
+type DriverFuelLogProps = {
+  vehicle: Vehicle;
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+// Position of the pump, fuel card reconciliation compares it with the station. A fill-up is
+// still saved without it.
+function currentPosition(): Promise<GeolocationPosition | null> {
+  if (!navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: 10000,
+      maximumAge: 60000,
+    });
+  });
+}
+
+export default function DriverFuelLog({ vehicle, onClose, onSaved }: DriverFuelLogProps) {
+  const [formData, setFormData] = useState({
+    fuel_volume_liters: '',
+    cost_per_liter: '',
+    odometer_reading: '',
+    station_name: '',
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const liters = parseFloat(formData.fuel_volume_liters);
+  const pricePerLiter = parseFloat(formData.cost_per_liter);
+  const totalCost = liters > 0 && pricePerLiter > 0 ? liters * pricePerLiter : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(liters > 0)) {
+      setError('Enter the liters filled');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const position = await currentPosition();
+      const { error } = await supabase.from('fuel_logs').insert({
+        vehicle_id: vehicle.id,
+        fuel_volume_liters: liters,
+        cost_per_liter: pricePerLiter > 0 ? pricePerLiter : null,
+        total_cost: totalCost,
+        odometer_reading: formData.odometer_reading ? parseInt(formData.odometer_reading, 10) : null,
+        station_name: formData.station_name.trim() || null,
+        location_lat: position?.coords.latitude ?? null,
+        location_lon: position?.coords.longitude ?? null,
+        source: 'manual',
+        notes: formData.notes.trim() || null,
+        recorded_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log the fill-up');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto my-8">
+        <h3 className="text-2xl font-bold text-white mb-2 flex items-center gap-2">
+          <Fuel className="w-6 h-6 text-emerald-400" />
+          Fuel Fill-up
+        </h3>
+        <p className="text-sm text-slate-400 mb-6">{vehicle.name} · {vehicle.license_plate}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Liters</label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                min="0"
+                required
+                value={formData.fuel_volume_liters}
+                onChange={(e) => setFormData({ ...formData, fuel_volume_liters: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Price per Liter</label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.001"
+                min="0"
+                value={formData.cost_per_liter}
+                onChange={(e) => setFormData({ ...formData, cost_per_liter: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Odometer (km)</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={formData.odometer_reading}
+              onChange={(e) => setFormData({ ...formData, odometer_reading: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Station</label>
+            <input
+              type="text"
+              value={formData.station_name}
+              onChange={(e) => setFormData({ ...formData, station_name: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Notes</label>
+            <textarea
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          {totalCost !== null && (
+            <p className="text-sm text-slate-300">
+              Total: <span className="text-white font-semibold">{totalCost.toFixed(2)}</span>
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-700/50 hover:bg-slate-700 text-white rounded-xl transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-xl transition font-medium"
+            >
+              {saving ? 'Saving...' : 'Log Fill-up'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
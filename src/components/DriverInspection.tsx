@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { supabase, InspectionItem } from '../lib/supabase';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+const CHECKLIST = [
+  'Tires and wheels',
+  'Lights and indicators',
+  'Brakes',
+  'Mirrors and windows',
+  'Wipers and horn',
+  'Oil, coolant and washer fluid',
+  'Seat belts',
+  'Fire extinguisher and first aid kit',
+  'No new body damage',
+];
+
+type DriverInspectionProps = {
+  driverId: string;
+  vehicleId: string;
+  tripId: string | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+};
+
+export default function DriverInspection({ driverId, vehicleId, tripId, onClose, onSubmitted }: DriverInspectionProps) {
+  const [items, setItems] = useState<InspectionItem[]>(CHECKLIST.map((item) => ({ item, ok: true })));
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const defects = items.filter((i) => !i.ok);
+
+  const toggle = (index: number) => {
+    setItems((prev) => prev.map((i, n) => (n === index ? { ...i, ok: !i.ok } : i)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (defects.length > 0 && !notes.trim()) {
+      setError('Describe the defects you found');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const { error } = await supabase.from('vehicle_inspections').insert({
+        vehicle_id: vehicleId,
+        driver_id: driverId,
+        trip_id: tripId,
+        items,
+        passed: defects.length === 0,
+        notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+      onSubmitted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the inspection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto my-8">
+        <h3 className="text-2xl font-bold text-white mb-2">Pre-trip Inspection</h3>
+        <p className="text-sm text-slate-400 mb-6">Tap an item to report a defect.</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {items.map((item, index) => (
+              <button
+                key={item.item}
+                type="button"
+                onClick={() => toggle(index)}
+                className={`w-full flex items-center justify-between gap-3 px-4 py-3 rounded-lg border transition text-left ${
+                  item.ok
+                    ? 'bg-slate-900/50 border-slate-700 text-white'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                }`}
+              >
+                <span>{item.item}</span>
+                {item.ok ? (
+                  <CheckCircle className="w-5 h-5 text-emerald-400 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Notes {defects.length > 0 && <span className="text-red-400">*</span>}
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder={defects.length > 0 ? 'What is wrong?' : 'Optional'}
+              className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-700/50 hover:bg-slate-700 text-white rounded-xl transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-xl transition font-medium"
+            >
+              {defects.length > 0 ? `Submit with ${defects.length} defect${defects.length === 1 ? '' : 's'}` : 'All Good'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase, Alert, TripRoute } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useFleet } from '../contexts/FleetContext';
+import {
+  computeDriverScores,
+  periodRanges,
+  DriverScore,
+  ScorePeriod,
+  SCORE_EVENT_KINDS,
+  SCORE_EVENT_LABELS,
+  SCORED_ALERT_TYPES,
+  MIN_SCORED_DISTANCE_KM,
+} from '../lib/driverScoring';
+import { Award, TrendingUp, AlertTriangle, MapPin, Moon, ChevronRight } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+// Periods shown in the trend chart, the last one is the current week or month
+const TREND_PERIODS = 8;
+
+const scoreColor = (score: number | null) => {
+  if (score === null) return 'text-slate-500';
+  if (score >= 85) return 'text-emerald-400';
+  if (score >= 70) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+// Occurrences rather than alert rows, an alert episode can group several
+const eventCount = (score: DriverScore) =>
+  SCORE_EVENT_KINDS.reduce((total, kind) => total + score.counts[kind], 0);
+
+export default function DriverScorecards() {
+  const { user } = useAuth();
+  const { drivers, vehicleAssignments, getDriverById, getVehicleById } = useFleet();
+  const [period, setPeriod] = useState<ScorePeriod>('week');
+  const [periodIndex, setPeriodIndex] = useState(TREND_PERIODS - 1);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [trips, setTrips] = useState<TripRoute[]>([]);
+  const [selectedDriverId, setSelectedDriverId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const ranges = useMemo(() => periodRanges(period, TREND_PERIODS), [period]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      const from = ranges[0].start.toISOString();
+      const to = ranges[ranges.length - 1].end.toISOString();
+
+      try {
+        const [alertsResult, tripsResult] = await Promise.all([
+          supabase
+            .from('alerts')
+            .select('*')
+            .in('alert_type', SCORED_ALERT_TYPES)
+            .gte('created_at', from)
+            .lt('created_at', to)
+            .order('created_at', { ascending: false })
+            .limit(5000),
+          supabase
+            .from('trip_routes')
+            .select('id, trip_id, vehicle_id, source, started_at, ended_at, total_distance_km, total_duration_minutes, max_speed, stops_count, created_at')
+            .eq('source', 'detected')
+            .gte('started_at', from)
+            .lt('started_at', to)
+            .limit(5000),
+        ]);
+
+        if (alertsResult.error) throw alertsResult.error;
+        if (tripsResult.error) throw tripsResult.error;
+        setAlerts(alertsResult.data || []);
+        setTrips((tripsResult.data || []) as TripRoute[]);
+      } catch (error) {
+        console.error('Error loading driver score data:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, ranges]);
+
+  const scoresByPeriod = useMemo(
+    () => ranges.map((range) => computeDriverScores(range, { alerts, trips, assignments: vehicleAssignments })),
+    [ranges, alerts, trips, vehicleAssignments]
+  );
+
+  const currentScores = scoresByPeriod[periodIndex] || new Map<string, DriverScore>();
+
+  const leaderboard = Array.from(currentScores.values()).sort((a, b) => {
+    if (a.score === null) return b.score === null ? b.distanceKm - a.distanceKm : 1;
+    if (b.score === null) return -1;
+    return b.score - a.score;
+  });
+
+  const selectedScore = selectedDriverId ? currentScores.get(selectedDriverId) : undefined;
+  const selectedDriver = selectedDriverId ? getDriverById(selectedDriverId) : undefined;
+
+  const fleetAverage = (scores: Map<string, DriverScore>) => {
+    const scored = Array.from(scores.values()).filter((score) => score.score !== null);
+    if (scored.length === 0) return null;
+    return Math.round(scored.reduce((sum, score) => sum + (score.score || 0), 0) / scored.length);
+  };
+
+  const trendData = ranges.map((range, index) => ({
+    period: range.label,
+    fleet: fleetAverage(scoresByPeriod[index]),
+    ...(selectedDriverId ? { driver: scoresByPeriod[index].get(selectedDriverId)?.score ?? null } : {}),
+  }));
+
+  const changePeriod = (next: ScorePeriod) => {
+    setPeriod(next);
+    setPeriodIndex(TREND_PERIODS - 1);
+  };
+
+  if (loading && alerts.length === 0 && trips.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Driver Scorecards</h2>
+          <p className="text-slate-400">Safety scores from speeding, harsh driving, idling and night driving</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {(['week', 'month'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => changePeriod(option)}
+              className={`px-4 py-2 rounded-lg text-sm capitalize transition ${
+                period === option ? 'bg-emerald-500 text-white' : 'bg-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              {option === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+          <select
+            value={periodIndex}
+            onChange={(e) => setPeriodIndex(parseInt(e.target.value))}
+            className="px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            {ranges.map((range, index) => (
+              <option key={range.label} value={index}>
+                {period === 'week' ? `Week of ${range.label}` : range.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-4">
+            <Award className="w-5 h-5 text-emerald-400" />
+            <h3 className="text-lg font-bold text-white">Leaderboard</h3>
+          </div>
+
+          {leaderboard.length === 0 ? (
+            <div className="text-center py-8">
+              <Award className="w-12 h-12 text-slate-600 mx-auto mb-2" />
+              <p className="text-slate-400 text-sm">No assigned driving in this period</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {leaderboard.map((score, index) => (
+                <button
+                  key={score.driverId}
+                  onClick={() => setSelectedDriverId(score.driverId)}
+                  className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition ${
+                    selectedDriverId === score.driverId
+                      ? 'bg-emerald-500/20 border border-emerald-500/50'
+                      : 'bg-slate-900/50 border border-slate-700/50 hover:border-slate-600'
+                  }`}
+                >
+                  <span className="w-6 text-slate-500 text-sm font-semibold">{score.score === null ? '-' : index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm font-semibold truncate">{getDriverById(score.driverId)?.name || 'Unknown'}</p>
+                    <p className="text-xs text-slate-400">
+                      {score.distanceKm.toFixed(0)} km • {eventCount(score)} event{eventCount(score) === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <span className={`text-xl font-bold ${scoreColor(score.score)}`}>{score.score ?? '—'}</span>
+                  <ChevronRight className="w-4 h-4 text-slate-500" />
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-slate-500 mt-4">
+            Drivers with less than {MIN_SCORED_DISTANCE_KM} km in the period are not scored. {drivers.length} driver{drivers.length === 1 ? '' : 's'} in the fleet.
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <TrendingUp className="w-5 h-5 text-blue-400" />
+            <h3 className="text-lg font-bold text-white">
+              Score Trend{selectedDriver ? ` • ${selectedDriver.name}` : ''}
+            </h3>
+          </div>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={trendData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="period" stroke="#94a3b8" />
+              <YAxis domain={[0, 100]} stroke="#94a3b8" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155' }}
+                labelStyle={{ color: '#f1f5f9' }}
+              />
+              <Legend />
+              <Line type="monotone" dataKey="fleet" stroke="#64748b" strokeWidth={2} name="Fleet Average" connectNulls />
+              {selectedDriverId && (
+                <Line type="monotone" dataKey="driver" stroke="#10b981" strokeWidth={2} name={selectedDriver?.name || 'Driver'} connectNulls />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {selectedScore && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1 bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+            <h3 className="text-lg font-bold text-white mb-4">Score Breakdown</h3>
+            <div className="space-y-3">
+              <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                <div className="flex items-center gap-2 mb-1">
+                  <MapPin className="w-4 h-4 text-emerald-400" />
+                  <span className="text-slate-400 text-xs">Distance</span>
+                </div>
+                <p className="text-white font-semibold">
+                  {selectedScore.distanceKm.toFixed(1)} km in {selectedScore.trips.length} trip{selectedScore.trips.length === 1 ? '' : 's'}
+                </p>
+              </div>
+
+              <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                <div className="flex items-center gap-2 mb-1">
+                  <Moon className="w-4 h-4 text-purple-400" />
+                  <span className="text-slate-400 text-xs">Night Driving</span>
+                </div>
+                <p className="text-white font-semibold">
+                  {selectedScore.nightHours.toFixed(1)} h of {selectedScore.drivingHours.toFixed(1)} h
+                  <span className="text-slate-400 text-sm font-normal"> (-{selectedScore.penalties.night.toFixed(1)})</span>
+                </p>
+              </div>
+
+              {SCORE_EVENT_KINDS.map((kind) => (
+                <div key={kind} className="flex items-center justify-between text-sm px-1">
+                  <span className="text-slate-300">{SCORE_EVENT_LABELS[kind]}</span>
+                  <span className="text-white">
+                    {selectedScore.counts[kind]}
+                    {selectedScore.counts[kind] > 0 && (
+                      <span className="text-red-400 ml-2">-{selectedScore.penalties[kind].toFixed(1)}</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between pt-3 border-t border-slate-700/50">
+                <span className="text-slate-300 font-medium">Score</span>
+                <span className={`text-2xl font-bold ${scoreColor(selectedScore.score)}`}>{selectedScore.score ?? '—'}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+            <div className="flex items-center gap-2 mb-4">
+              <AlertTriangle className="w-5 h-5 text-orange-400" />
+              <h3 className="text-lg font-bold text-white">Events</h3>
+            </div>
+            {selectedScore.events.length === 0 ? (
+              <p className="text-slate-400 text-sm text-center py-8">No events in this period</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {selectedScore.events.map((event) => (
+                  <div key={event.id} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-white text-sm font-medium">
+                        {event.title}
+                        {event.occurrence_count > 1 && <span className="text-slate-400 font-normal"> ×{event.occurrence_count}</span>}
+                      </span>
+                      <span className="text-xs text-slate-400">{new Date(event.created_at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {getVehicleById(event.vehicle_id)?.name || 'Unknown vehicle'} • {event.message}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
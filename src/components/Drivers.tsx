@@ -2,10 +2,14 @@ import { useEffect, useState } from 'react';
 import { supabase, Driver } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useFleet } from '../contexts/FleetContext';
+import { usePermissions } from '../contexts/PermissionsContext';
 import { User, Plus, Edit2, Trash2, Phone, CreditCard, Calendar, AlertCircle, Route } from 'lucide-react';
 
 export default function Drivers() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const canEdit = can('can_edit_drivers');
+  const canDelete = can('can_delete_drivers');
   const { getDriverAssignment, getDriverTrips, vehicleAssignments, vehicles, createAssignment, completeAssignment, getVehicleById, getVehicleAssignment } = useFleet();
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [loading, setLoading] = useState(true);
@@ -200,13 +204,15 @@ export default function Drivers() {
           <h2 className="text-xl sm:text-2xl font-bold text-white mb-1 sm:mb-2">Drivers</h2>
           <p className="text-sm sm:text-base text-slate-400">Manage your fleet drivers</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base w-full sm:w-auto justify-center"
-        >
-          <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
-          Add Driver
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base w-full sm:w-auto justify-center"
+          >
+            <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
+            Add Driver
+          </button>
+        )}
       </div>
 
       <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
@@ -295,14 +301,20 @@ export default function Drivers() {
         <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
           <User className="w-16 h-16 text-slate-600 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-white mb-2">No drivers yet</h3>
-          <p className="text-slate-400 mb-6">Get started by adding your first driver to the fleet</p>
-          <button
-            onClick={() => setShowModal(true)}
-            className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
-          >
-            <Plus className="w-5 h-5" />
-            Add Your First Driver
-          </button>
+          {canEdit ? (
+            <>
+              <p className="text-slate-400 mb-6">Get started by adding your first driver to the fleet</p>
+              <button
+                onClick={() => setShowModal(true)}
+                className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
+              >
+                <Plus className="w-5 h-5" />
+                Add Your First Driver
+              </button>
+            </>
+          ) : (
+            <p className="text-slate-400">Drivers added to the fleet will show up here</p>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -375,12 +387,14 @@ export default function Drivers() {
                         <Route className="w-4 h-4" />
                         <span className="font-medium">Currently Assigned</span>
                       </div>
-                      <button
-                        onClick={() => handleCompleteAssignment(assignment.id)}
-                        className="px-2 py-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 rounded text-xs font-medium transition"
-                      >
-                        Complete
-                      </button>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleCompleteAssignment(assignment.id)}
+                          className="px-2 py-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 rounded text-xs font-medium transition"
+                        >
+                          Complete
+                        </button>
+                      )}
                     </div>
                     <p className="text-white text-sm mb-1">
                       Vehicle: {getVehicleById(assignment.vehicle_id)?.name || 'Unknown Vehicle'}
@@ -421,12 +435,14 @@ export default function Drivers() {
                         <User className="w-4 h-4" />
                         <span>Available for assignment</span>
                       </div>
-                      <button
-                        onClick={() => handleAssignVehicle(driver)}
-                        className="px-3 py-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 rounded text-xs font-medium transition"
-                      >
-                        Assign Vehicle
-                      </button>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleAssignVehicle(driver)}
+                          className="px-3 py-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 rounded text-xs font-medium transition"
+                        >
+                          Assign Vehicle
+                        </button>
+                      )}
                     </div>
                   </div>
                 ) : null}
@@ -448,31 +464,37 @@ export default function Drivers() {
                   </div>
                 )}
 
-                <div className="flex gap-2 pt-4 border-t border-slate-700/50">
-                  <button
-                    onClick={() => handleEdit(driver)}
-                    className="flex-1 flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition text-sm font-medium"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                    Edit
-                  </button>
-                  {!assignment && driver.status === 'active' && (
-                    <button
-                      onClick={() => handleAssignVehicle(driver)}
-                      className="flex-1 flex items-center justify-center gap-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 px-4 py-2 rounded-lg transition text-sm font-medium"
-                    >
-                      <Route className="w-4 h-4" />
-                      Assign
-                    </button>
-                  )}
-                  <button
-                    onClick={() => handleDelete(driver.id)}
-                    className="flex-1 flex items-center justify-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 px-4 py-2 rounded-lg transition text-sm font-medium"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                    Delete
-                  </button>
-                </div>
+                {(canEdit || canDelete) && (
+                  <div className="flex gap-2 pt-4 border-t border-slate-700/50">
+                    {canEdit && (
+                      <button
+                        onClick={() => handleEdit(driver)}
+                        className="flex-1 flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition text-sm font-medium"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                        Edit
+                      </button>
+                    )}
+                    {canEdit && !assignment && driver.status === 'active' && (
+                      <button
+                        onClick={() => handleAssignVehicle(driver)}
+                        className="flex-1 flex items-center justify-center gap-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 px-4 py-2 rounded-lg transition text-sm font-medium"
+                      >
+                        <Route className="w-4 h-4" />
+                        Assign
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(driver.id)}
+                        className="flex-1 flex items-center justify-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 px-4 py-2 rounded-lg transition text-sm font-medium"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
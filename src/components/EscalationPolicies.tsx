@@ -0,0 +1,498 @@
+import { useEffect, useState } from 'react';
+import { supabase, Alert, EscalationPolicy, EscalationStep, OrganizationMember } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { Siren, Plus, Edit2, Trash2, Power, X, Mail, Webhook, AlertCircle } from 'lucide-react';
+
+type PolicyForm = Pick<EscalationPolicy, 'name' | 'description' | 'severities' | 'timezone' | 'steps'>;
+
+type Recipient = Pick<OrganizationMember, 'user_id' | 'email' | 'role'>;
+
+const SEVERITIES: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+const ROLES: NonNullable<EscalationStep['target_role']>[] = ['admin', 'manager', 'driver', 'viewer'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyStep = (delay: number): EscalationStep => ({
+  delay_minutes: delay,
+  target_type: 'role',
+  target_role: 'manager',
+  target_user_id: null,
+  channel: 'email',
+  webhook_url: null,
+  days: [],
+  from: null,
+  until: null,
+});
+
+const emptyPolicy = (): PolicyForm => ({
+  name: '',
+  description: '',
+  severities: ['critical'],
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  steps: [emptyStep(10)],
+});
+
+const inputClass = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+const smallInputClass = 'px-2 py-1.5 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500';
+
+export default function EscalationPolicies() {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+  const [form, setForm] = useState<PolicyForm>(emptyPolicy);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user && organization) {
+      loadData();
+      loadRecipients(organization.id);
+    }
+  }, [user, organization]);
+
+  const loadData = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('escalation_policies')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setPolicies(data || []);
+    } catch (error) {
+      console.error('Error loading escalation policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRecipients = async (organizationId: string) => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('user_id, email, role')
+      .eq('organization_id', organizationId)
+      .order('email');
+
+    if (error) console.error('Error loading organization members:', error);
+    setRecipients(data || []);
+  };
+
+  const openModal = (policy: EscalationPolicy | null) => {
+    setEditingPolicy(policy);
+    setForm(policy ? {
+      name: policy.name,
+      description: policy.description || '',
+      severities: policy.severities,
+      timezone: policy.timezone,
+      steps: policy.steps,
+    } : emptyPolicy());
+    setError('');
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingPolicy(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (form.severities.length === 0) {
+      setError('Select at least one severity');
+      return;
+    }
+    if (form.steps.length === 0) {
+      setError('Add at least one step');
+      return;
+    }
+
+    // The server walks steps in order, so they are stored by delay
+    const steps = [...form.steps]
+      .sort((a, b) => a.delay_minutes - b.delay_minutes)
+      .map((step) => ({
+        ...step,
+        target_user_id: step.target_type === 'user' ? step.target_user_id : null,
+        target_role: step.target_type === 'role' ? step.target_role : null,
+        webhook_url: step.channel === 'webhook' ? step.webhook_url : null,
+        from: step.from && step.until ? step.from : null,
+        until: step.from && step.until ? step.until : null,
+      }));
+
+    const policy = { ...form, steps, updated_at: new Date().toISOString() };
+
+    try {
+      if (editingPolicy) {
+        const { error } = await supabase.from('escalation_policies').update(policy).eq('id', editingPolicy.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('escalation_policies').insert([{ ...policy, user_id: user?.id }]);
+        if (error) throw error;
+      }
+      closeModal();
+      loadData();
+    } catch (err) {
+      console.error('Error saving escalation policy:', err);
+      setError('Failed to save policy');
+    }
+  };
+
+  const togglePolicy = async (policy: EscalationPolicy) => {
+    try {
+      const { error } = await supabase
+        .from('escalation_policies')
+        .update({ is_enabled: !policy.is_enabled, updated_at: new Date().toISOString() })
+        .eq('id', policy.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error updating escalation policy:', error);
+    }
+  };
+
+  const deletePolicy = async (policy: EscalationPolicy) => {
+    if (!confirm(`Delete the escalation policy "${policy.name}"?`)) return;
+
+    try {
+      const { error } = await supabase.from('escalation_policies').delete().eq('id', policy.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting escalation policy:', error);
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    setForm({ ...form, steps: form.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = form.steps[index].days || [];
+    updateStep(index, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  const describeTarget = (step: EscalationStep) => {
+    if (step.target_type === 'role') return `all ${step.target_role}s`;
+    return recipients.find((r) => r.user_id === step.target_user_id)?.email || 'unknown user';
+  };
+
+  const describeSchedule = (step: EscalationStep) => {
+    const parts = [];
+    if (step.days && step.days.length > 0 && step.days.length < 7) parts.push(step.days.map((d) => WEEKDAYS[d]).join(', '));
+    if (step.from && step.until) parts.push(`${step.from}–${step.until}`);
+    return parts.join(' ');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Escalation</h2>
+          <p className="text-slate-400">Who is notified when an alert is not acknowledged in time</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
+        >
+          <Plus className="w-5 h-5" />
+          New Policy
+        </button>
+      </div>
+
+      {policies.length === 0 ? (
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
+          <Siren className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No escalation policies</h3>
+          <p className="text-slate-400">Unacknowledged alerts stay in the alert list until someone looks at them</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {policies.map((policy) => (
+            <div
+              key={policy.id}
+              className={`bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4 ${policy.is_enabled ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-white">{policy.name}</h3>
+                    {policy.severities.map((severity) => (
+                      <span key={severity} className="px-2 py-0.5 text-xs rounded-full bg-slate-700 text-slate-300">{severity}</span>
+                    ))}
+                  </div>
+                  {policy.description && <p className="text-sm text-slate-400">{policy.description}</p>}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => togglePolicy(policy)}
+                    className={`p-2 rounded-lg transition ${policy.is_enabled ? 'text-emerald-400 hover:bg-emerald-500/10' : 'text-slate-500 hover:bg-slate-700/50'}`}
+                    title={policy.is_enabled ? 'Disable' : 'Enable'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => openModal(policy)}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deletePolicy(policy)}
+                    className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <ol className="space-y-2">
+                {policy.steps.map((step, index) => (
+                  <li key={index} className="flex flex-wrap items-center gap-2 text-sm bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                    <span className="w-6 h-6 flex items-center justify-center rounded-full bg-slate-700 text-xs text-white">{index + 1}</span>
+                    <span className="text-slate-400">After {step.delay_minutes} min</span>
+                    <span className="text-white">{describeTarget(step)}</span>
+                    <span className="flex items-center gap-1 text-slate-400">
+                      {step.channel === 'email' ? <Mail className="w-3 h-3" /> : <Webhook className="w-3 h-3" />}
+                      {step.channel}
+                    </span>
+                    {describeSchedule(step) && (
+                      <span className="text-xs text-slate-500">{describeSchedule(step)} ({policy.timezone})</span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+          <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto my-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-2xl font-bold text-white">{editingPolicy ? 'Edit Policy' : 'New Policy'}</h3>
+              <button onClick={closeModal} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Critical alerts"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Time Zone</label>
+                  <input
+                    type="text"
+                    value={form.timezone}
+                    onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                    className={inputClass}
+                    placeholder="Europe/Paris"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Description</label>
+                  <input
+                    type="text"
+                    value={form.description || ''}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Applies to severities</label>
+                  <div className="flex flex-wrap gap-4">
+                    {SEVERITIES.map((severity) => (
+                      <label key={severity} className="flex items-center gap-2 text-sm text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={form.severities.includes(severity)}
+                          onChange={(e) => setForm({
+                            ...form,
+                            severities: e.target.checked
+                              ? [...form.severities, severity]
+                              : form.severities.filter((s) => s !== severity),
+                          })}
+                          className="w-4 h-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+                        />
+                        {severity}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <section className="space-y-3 pt-4 border-t border-slate-700/50">
+                <div>
+                  <h4 className="text-lg font-semibold text-white">Steps</h4>
+                  <p className="text-xs text-slate-500">
+                    Delays count from the first occurrence of the alert. A step outside its days and hours is skipped,
+                    so steps with the same delay and different hours route to whoever is on call.
+                  </p>
+                </div>
+                {form.steps.map((step, index) => (
+                  <div key={index} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-slate-400">After</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={step.delay_minutes}
+                        onChange={(e) => updateStep(index, { delay_minutes: parseInt(e.target.value) || 0 })}
+                        className={`${smallInputClass} w-20`}
+                      />
+                      <span className="text-sm text-slate-400">min notify</span>
+                      <select
+                        value={step.target_type}
+                        onChange={(e) => updateStep(index, { target_type: e.target.value as EscalationStep['target_type'] })}
+                        className={smallInputClass}
+                      >
+                        <option value="role">every</option>
+                        <option value="user">the user</option>
+                      </select>
+                      {step.target_type === 'role' ? (
+                        <select
+                          value={step.target_role || 'manager'}
+                          onChange={(e) => updateStep(index, { target_role: e.target.value as EscalationStep['target_role'] })}
+                          className={smallInputClass}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <select
+                          value={step.target_user_id || ''}
+                          onChange={(e) => updateStep(index, { target_user_id: e.target.value })}
+                          className={smallInputClass}
+                          required
+                        >
+                          <option value="">Select user</option>
+                          {recipients.map((recipient) => (
+                            <option key={recipient.user_id} value={recipient.user_id}>{recipient.email} ({recipient.role})</option>
+                          ))}
+                        </select>
+                      )}
+                      <span className="text-sm text-slate-400">by</span>
+                      <select
+                        value={step.channel}
+                        onChange={(e) => updateStep(index, { channel: e.target.value as EscalationStep['channel'] })}
+                        className={smallInputClass}
+                      >
+                        <option value="email">email</option>
+                        <option value="webhook">webhook</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                        className="ml-auto p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                        title="Remove step"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {step.channel === 'webhook' && (
+                      <input
+                        type="url"
+                        value={step.webhook_url || ''}
+                        onChange={(e) => updateStep(index, { webhook_url: e.target.value })}
+                        className={`${smallInputClass} w-full`}
+                        placeholder="https://example.com/hooks/fleet"
+                        required
+                      />
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      {WEEKDAYS.map((label, day) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleDay(index, day)}
+                          className={`px-2 py-1 rounded-lg text-xs font-semibold transition ${
+                            step.days?.includes(day) ? 'bg-emerald-500 text-white' : 'bg-slate-700 text-slate-400 hover:text-white'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <input
+                        type="time"
+                        value={step.from || ''}
+                        onChange={(e) => updateStep(index, { from: e.target.value || null })}
+                        className={smallInputClass}
+                      />
+                      <span className="text-slate-400 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={step.until || ''}
+                        onChange={(e) => updateStep(index, { until: e.target.value || null })}
+                        className={smallInputClass}
+                      />
+                      <span className="text-xs text-slate-500">No days or hours means always</span>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => {
+                    const last = form.steps[form.steps.length - 1];
+                    setForm({ ...form, steps: [...form.steps, emptyStep(last ? last.delay_minutes + 15 : 10)] });
+                  }}
+                  className="flex items-center gap-1 text-sm text-emerald-400 hover:text-emerald-300 transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  Step
+                </button>
+              </section>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+                >
+                  {editingPolicy ? 'Update Policy' : 'Create Policy'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,538 @@
+import { useState } from 'react';
+import { supabase, FuelLog, Vehicle, VehicleSettings } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DATE_ORDERS,
+  DECIMAL_SEPARATORS,
+  DateOrder,
+  DecimalSeparator,
+  FIX_WINDOW_MINUTES,
+  FUEL_IMPORT_FIELDS,
+  FUEL_IMPORT_FLAG_LABELS,
+  FuelColumnMapping,
+  FuelImportField,
+  FuelImportFlag,
+  FuelTransaction,
+  NearestFix,
+  guessDecimalSeparator,
+  guessMapping,
+  matchVehicle,
+  parseDelimited,
+  parseWorkbook,
+  readTransactions,
+  reconcile,
+  workbookFormat,
+} from '../lib/fuelImport';
+import { Upload, X, AlertCircle, CheckCircle, AlertTriangle, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+
+type Step = 'upload' | 'mapping' | 'review' | 'done';
+
+type ReviewStatus = 'ready' | 'flagged' | 'unmatched' | 'duplicate' | 'invalid';
+
+type ReviewRow = {
+  transaction: FuelTransaction;
+  vehicle: Vehicle | null;
+  status: ReviewStatus;
+  flags: FuelImportFlag[];
+  distanceMeters: number | null;
+  fix: NearestFix | null;
+};
+
+type Statement = {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+const STATUS_STYLES: Record<ReviewStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-emerald-500/20 text-emerald-400' },
+  flagged: { label: 'Flagged', className: 'bg-orange-500/20 text-orange-400' },
+  unmatched: { label: 'No vehicle', className: 'bg-slate-500/20 text-slate-400' },
+  duplicate: { label: 'Already imported', className: 'bg-slate-500/20 text-slate-400' },
+  invalid: { label: 'Invalid', className: 'bg-red-500/20 text-red-400' },
+};
+
+// Concurrent GPS lookups while reviewing a statement
+const FIX_LOOKUP_BATCH = 8;
+
+const inputClass = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+// GPS fix of the vehicle closest to the purchase time, within FIX_WINDOW_MINUTES
+async function fetchNearestFix(vehicleId: string, at: Date): Promise<NearestFix | null> {
+  const windowMs = FIX_WINDOW_MINUTES * 60 * 1000;
+  const { data, error } = await supabase
+    .from('gps_locations')
+    .select('latitude, longitude, speed, timestamp')
+    .eq('vehicle_id', vehicleId)
+    .gte('timestamp', new Date(at.getTime() - windowMs).toISOString())
+    .lte('timestamp', new Date(at.getTime() + windowMs).toISOString())
+    .order('timestamp')
+    .limit(200);
+
+  if (error) throw error;
+  let nearest: NearestFix | null = null;
+  for (const fix of data || []) {
+    if (!nearest || Math.abs(Date.parse(fix.timestamp) - at.getTime()) < Math.abs(Date.parse(nearest.timestamp) - at.getTime())) {
+      nearest = fix;
+    }
+  }
+  return nearest;
+}
+
+interface FuelCardImportProps {
+  vehicles: Vehicle[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function FuelCardImport({ vehicles, onClose, onImported }: FuelCardImportProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [mapping, setMapping] = useState<FuelColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>('ymd');
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [summary, setSummary] = useState({ imported: 0, flagged: 0, skipped: 0 });
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const workbook = workbookFormat(new Uint8Array(await file.slice(0, 8).arrayBuffer()));
+      if (workbook === 'ole') {
+        setError(`${file.name} is an Excel 97-2003 (XLS) workbook. Open it in your spreadsheet program, save it as XLSX or CSV and choose that file.`);
+        return;
+      }
+
+      let statementData: { headers: string[]; rows: string[][] };
+      if (workbook === 'zip') {
+        try {
+          statementData = await parseWorkbook(file);
+        } catch (err) {
+          console.error('Error reading workbook:', err);
+          setError(`${file.name} could not be read as an XLSX workbook. Save it as XLSX or CSV and choose that file.`);
+          return;
+        }
+      } else {
+        statementData = parseDelimited(await file.text());
+      }
+
+      const { headers, rows } = statementData;
+      if (headers.length < 2 || rows.length === 0) {
+        setError('No columns found. The statement needs a header row: an XLSX workbook (first sheet) or a CSV export (comma, semicolon or tab separated).');
+        return;
+      }
+
+      // The mapping of the last statement with the same columns is taken over
+      const { data: previous } = await supabase
+        .from('fuel_imports')
+        .select('headers, column_mapping, date_order, decimal_separator')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      const sameColumns = (previous || []).find((entry) => entry.headers.join('\u0000') === headers.join('\u0000'));
+      if (sameColumns) {
+        setMapping(sameColumns.column_mapping as FuelColumnMapping);
+        setDateOrder(sameColumns.date_order as DateOrder);
+        setDecimalSeparator(sameColumns.decimal_separator as DecimalSeparator);
+      } else {
+        const guessed = guessMapping(headers);
+        setMapping(guessed);
+        setDateOrder('ymd');
+        setDecimalSeparator(guessDecimalSeparator(rows, guessed));
+      }
+
+      setStatement({ fileName: file.name, headers, rows });
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading fuel statement:', err);
+      setError('Failed to read the file');
+    }
+  };
+
+  const setColumn = (field: FuelImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value, 10);
+    }
+    setMapping(next);
+  };
+
+  const mappingError = (() => {
+    const missing = FUEL_IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+    if (missing.length > 0) return `Map the ${missing.map((field) => field.label.toLowerCase()).join(' and ')} column`;
+    if (mapping.plate === undefined && mapping.card_number === undefined) return 'Map the license plate or card number column';
+    if ((mapping.latitude === undefined) !== (mapping.longitude === undefined)) return 'Map both station coordinates or neither';
+    return '';
+  })();
+
+  const review = async () => {
+    if (!statement) return;
+    setWorking(true);
+    setError('');
+
+    try {
+      const transactions = readTransactions(statement.rows, mapping, dateOrder, decimalSeparator);
+      const matches = transactions.map((transaction) => ({
+        transaction,
+        vehicle: transaction.errors.length === 0 ? matchVehicle(transaction, vehicles) : null,
+      }));
+
+      const vehicleIds = [...new Set(matches.map((match) => match.vehicle?.id).filter((id): id is string => Boolean(id)))];
+      const times = matches.filter((match) => match.vehicle).map((match) => (match.transaction.recordedAt as Date).getTime());
+
+      const settingsByVehicle = new Map<string, VehicleSettings>();
+      const existing = new Set<string>();
+      if (vehicleIds.length > 0) {
+        const [settingsResult, logsResult] = await Promise.all([
+          supabase.from('vehicle_settings').select('*').in('vehicle_id', vehicleIds),
+          supabase
+            .from('fuel_logs')
+            .select('vehicle_id, recorded_at, fuel_volume_liters')
+            .in('vehicle_id', vehicleIds)
+            .gte('recorded_at', new Date(Math.min(...times)).toISOString())
+            .lte('recorded_at', new Date(Math.max(...times)).toISOString()),
+        ]);
+
+        if (settingsResult.error) throw settingsResult.error;
+        if (logsResult.error) throw logsResult.error;
+        for (const settings of settingsResult.data || []) settingsByVehicle.set(settings.vehicle_id, settings);
+        for (const log of logsResult.data || []) {
+          existing.add(`${log.vehicle_id}|${Date.parse(log.recorded_at)}|${Number(log.fuel_volume_liters).toFixed(2)}`);
+        }
+      }
+
+      const rows: ReviewRow[] = [];
+      for (let i = 0; i < matches.length; i += FIX_LOOKUP_BATCH) {
+        const batch = matches.slice(i, i + FIX_LOOKUP_BATCH);
+        rows.push(...await Promise.all(batch.map(async ({ transaction, vehicle }): Promise<ReviewRow> => {
+          const base = { transaction, vehicle, flags: [], distanceMeters: null, fix: null };
+          if (transaction.errors.length > 0) return { ...base, status: 'invalid' };
+          if (!vehicle) return { ...base, status: 'unmatched' };
+
+          const recordedAt = transaction.recordedAt as Date;
+          const key = `${vehicle.id}|${recordedAt.getTime()}|${(transaction.liters as number).toFixed(2)}`;
+          if (existing.has(key)) return { ...base, status: 'duplicate' };
+
+          const fix = await fetchNearestFix(vehicle.id, recordedAt);
+          const { flags, distanceMeters } = reconcile(transaction, settingsByVehicle.get(vehicle.id) || null, fix);
+          return { transaction, vehicle, fix, flags, distanceMeters, status: flags.length > 0 ? 'flagged' : 'ready' };
+        })));
+      }
+
+      setReviewRows(rows);
+      setStep('review');
+    } catch (err) {
+      console.error('Error reconciling fuel statement:', err);
+      setError('Failed to match the transactions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importable = reviewRows.filter((row) => row.status === 'ready' || row.status === 'flagged');
+
+  const handleImport = async () => {
+    if (!statement || importable.length === 0) return;
+    setWorking(true);
+    setError('');
+
+    try {
+      const flagged = importable.filter((row) => row.status === 'flagged').length;
+      const { data: fuelImport, error: importError } = await supabase
+        .from('fuel_imports')
+        .insert([{
+          user_id: user!.id,
+          file_name: statement.fileName,
+          headers: statement.headers,
+          column_mapping: mapping,
+          date_order: dateOrder,
+          decimal_separator: decimalSeparator,
+          row_count: reviewRows.length,
+          imported_count: importable.length,
+          flagged_count: flagged,
+          skipped_count: reviewRows.length - importable.length,
+        }])
+        .select()
+        .single();
+
+      if (importError) throw importError;
+
+      const logs: Partial<FuelLog>[] = importable.map(({ transaction, vehicle, fix, flags, distanceMeters }) => {
+        const hasStation = transaction.latitude !== null && transaction.longitude !== null;
+        return {
+          vehicle_id: (vehicle as Vehicle).id,
+          fuel_volume_liters: transaction.liters as number,
+          cost_per_liter: transaction.pricePerLiter ?? undefined,
+          total_cost: transaction.totalAmount ?? undefined,
+          odometer_reading: transaction.odometer !== null ? Math.round(transaction.odometer) : undefined,
+          location_lat: hasStation ? (transaction.latitude as number) : fix?.latitude,
+          location_lon: hasStation ? (transaction.longitude as number) : fix?.longitude,
+          source: 'manual',
+          notes: transaction.cardNumber ? `Card ${transaction.cardNumber}` : undefined,
+          import_id: fuelImport.id,
+          station_name: transaction.station || null,
+          reconciliation_flags: flags,
+          gps_distance_meters: distanceMeters,
+          recorded_at: (transaction.recordedAt as Date).toISOString(),
+        };
+      });
+
+      const { error: logsError } = await supabase.from('fuel_logs').insert(logs);
+      if (logsError) {
+        // Without its logs the import record would only be noise
+        await supabase.from('fuel_imports').delete().eq('id', fuelImport.id);
+        throw logsError;
+      }
+
+      setSummary({ imported: importable.length, flagged, skipped: reviewRows.length - importable.length });
+      setStep('done');
+      onImported();
+    } catch (err) {
+      console.error('Error importing fuel statement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import the statement');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const preview = statement ? readTransactions(statement.rows.slice(0, 3), mapping, dateOrder, decimalSeparator) : [];
+  const counts = reviewRows.reduce<Record<ReviewStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { ready: 0, flagged: 0, unmatched: 0, duplicate: 0, invalid: 0 }
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto my-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-white">Import Fuel Card Statement</h3>
+            {statement && <p className="text-sm text-slate-400">{statement.fileName} · {statement.rows.length} rows</p>}
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-slate-700 rounded-xl cursor-pointer hover:border-emerald-500 transition">
+            <Upload className="w-10 h-10 text-slate-500" />
+            <span className="text-white font-medium">Choose a statement file</span>
+            <span className="text-sm text-slate-400 text-center">
+              Excel workbook (XLSX, first sheet) or CSV (comma, semicolon or tab separated), with a
+              header row. Save XLS and OpenDocument files as XLSX or CSV first.
+            </span>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'mapping' && statement && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {FUEL_IMPORT_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    {field.label}{field.required && <span className="text-red-400"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setColumn(field.key, e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Not in statement</option>
+                    {statement.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}{statement.rows[0]?.[index] ? ` (e.g. ${statement.rows[0][index]})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Date format</label>
+                <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)} className={inputClass}>
+                  {DATE_ORDERS.map((order) => (
+                    <option key={order.value} value={order.value}>{order.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Number format</label>
+                <select
+                  value={decimalSeparator}
+                  onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator)}
+                  className={inputClass}
+                >
+                  {DECIMAL_SEPARATORS.map((separator) => (
+                    <option key={separator.value} value={separator.value}>{separator.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-slate-300 mb-2">Preview</h4>
+              <div className="space-y-2">
+                {preview.map((transaction) => (
+                  <div key={transaction.row} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3 text-sm flex flex-wrap gap-x-4 gap-y-1">
+                    <span className="text-slate-400">Row {transaction.row}</span>
+                    <span className="text-white">{transaction.recordedAt ? format(transaction.recordedAt, 'PPp') : 'invalid date'}</span>
+                    <span className="text-white">{transaction.plate || transaction.cardNumber || 'no vehicle'}</span>
+                    <span className="text-white">{transaction.liters !== null ? `${transaction.liters} L` : 'no volume'}</span>
+                    {transaction.totalAmount !== null && <span className="text-emerald-400">${transaction.totalAmount.toFixed(2)}</span>}
+                    {transaction.station && <span className="text-slate-400">{transaction.station}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_STYLES) as ReviewStatus[]).filter((status) => counts[status] > 0).map((status) => (
+                <span key={status} className={`px-3 py-1 rounded-full text-sm ${STATUS_STYLES[status].className}`}>
+                  {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Row</th>
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Date</th>
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Vehicle</th>
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Volume</th>
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Amount</th>
+                    <th className="text-left py-2 px-3 text-slate-400 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviewRows.map(({ transaction, vehicle, status, flags, distanceMeters }) => (
+                    <tr key={transaction.row} className="border-b border-slate-700/50 align-top">
+                      <td className="py-2 px-3 text-slate-400">{transaction.row}</td>
+                      <td className="py-2 px-3 text-white whitespace-nowrap">
+                        {transaction.recordedAt ? format(transaction.recordedAt, 'PP p') : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-white">
+                        {vehicle ? vehicle.name : <span className="text-slate-500">{transaction.plate || transaction.cardNumber || '-'}</span>}
+                      </td>
+                      <td className="py-2 px-3 text-white">{transaction.liters !== null ? `${transaction.liters.toFixed(2)} L` : '-'}</td>
+                      <td className="py-2 px-3 text-white">{transaction.totalAmount !== null ? `$${transaction.totalAmount.toFixed(2)}` : '-'}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[status].className}`}>
+                          {STATUS_STYLES[status].label}
+                        </span>
+                        {transaction.errors.length > 0 && (
+                          <p className="text-xs text-red-400 mt-1">{transaction.errors.join(', ')}</p>
+                        )}
+                        {flags.map((flag) => (
+                          <p key={flag} className="text-xs text-orange-400 mt-1">
+                            {FUEL_IMPORT_FLAG_LABELS[flag]}
+                            {flag === 'far_from_station' && distanceMeters !== null && ` (${(distanceMeters / 1000).toFixed(1)} km)`}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="flex flex-col items-center text-center gap-3 py-8">
+            <CheckCircle className="w-12 h-12 text-emerald-400" />
+            <p className="text-white text-lg font-semibold">{summary.imported} fuel purchases imported</p>
+            <div className="flex flex-wrap justify-center gap-4 text-sm text-slate-400">
+              {summary.flagged > 0 && (
+                <span className="flex items-center gap-1 text-orange-400">
+                  <AlertTriangle className="w-4 h-4" />
+                  {summary.flagged} flagged for review
+                </span>
+              )}
+              {summary.skipped > 0 && (
+                <span className="flex items-center gap-1">
+                  <FileText className="w-4 h-4" />
+                  {summary.skipped} rows skipped
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {(error || (step === 'mapping' && mappingError)) && (
+          <div className="flex items-center gap-2 p-3 mt-4 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span className="text-sm">{error || mappingError}</span>
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <div className="flex gap-3 pt-6">
+            {step === 'done' ? (
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+              >
+                Close
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setStep(step === 'review' ? 'mapping' : 'upload')}
+                  disabled={working}
+                  className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition disabled:opacity-50"
+                >
+                  Back
+                </button>
+                {step === 'mapping' ? (
+                  <button
+                    type="button"
+                    onClick={review}
+                    disabled={working || Boolean(mappingError)}
+                    className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition disabled:opacity-50"
+                  >
+                    {working ? 'Matching...' : 'Match Transactions'}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={working || importable.length === 0}
+                    className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition disabled:opacity-50"
+                  >
+                    {working ? 'Importing...' : `Import ${importable.length} Purchases`}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
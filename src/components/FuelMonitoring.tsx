@@ -1,17 +1,113 @@
 import { useState, useEffect } from 'react';
-import { supabase, FuelLog, Vehicle, VehicleSettings } from '../lib/supabase';
+import { supabase, FuelEvent, FuelImport, FuelLog, Vehicle, VehicleOdometer, VehicleSettings } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Fuel, Plus, TrendingUp, TrendingDown, DollarSign, Droplet, Calendar, BarChart3 } from 'lucide-react';
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Fuel, Plus, TrendingUp, TrendingDown, DollarSign, Droplet, Calendar, BarChart3, ArrowUpCircle, AlertTriangle, Upload, FileText, Gauge } from 'lucide-react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot, ReferenceLine } from 'recharts';
+import { format } from 'date-fns';
+import FuelCardImport from './FuelCardImport';
+import { FUEL_IMPORT_FLAG_LABELS } from '../lib/fuelImport';
+import {
+  consumptionIntervals,
+  fleetEfficiency,
+  odometerChecks,
+  summarizeIntervals,
+  ODOMETER_DEVIATION_PERCENT,
+  OUTLIER_DEVIATION_PERCENT,
+  VehicleEfficiency,
+} from '../lib/fuelEfficiency';
+
+type FuelLogRow = FuelLog & { import?: Pick<FuelImport, 'file_name'> | null };
+
+type FuelRange = '24h' | '7d' | '30d';
+
+const FUEL_RANGES: { value: FuelRange; label: string; hours: number }[] = [
+  { value: '24h', label: '24 h', hours: 24 },
+  { value: '7d', label: '7 days', hours: 24 * 7 },
+  { value: '30d', label: '30 days', hours: 24 * 30 },
+];
+
+// Sensor readings loaded for the level chart, the most recent ones when there are more
+const MAX_LEVEL_READINGS = 2000;
+
+type FuelLevelPoint = { time: number; level: number };
+
+// Fuel sensor readings (vehicle_health) and the refuels and drops the GPS server detected in them
+async function fetchFuelLevels(vehicleId: string, range: FuelRange) {
+  const hours = FUEL_RANGES.find((option) => option.value === range)?.hours ?? 24;
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  const [levels, events] = await Promise.all([
+    supabase
+      .from('vehicle_health')
+      .select('fuel_level_percent, recorded_at')
+      .eq('vehicle_id', vehicleId)
+      .not('fuel_level_percent', 'is', null)
+      .gte('recorded_at', since)
+      .order('recorded_at', { ascending: false })
+      .limit(MAX_LEVEL_READINGS),
+    supabase
+      .from('fuel_events')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .gte('ended_at', since)
+      .order('ended_at', { ascending: false }),
+  ]);
+
+  if (levels.error) throw levels.error;
+  if (events.error) throw events.error;
+
+  return {
+    levels: (levels.data || []).reverse().map((row): FuelLevelPoint => ({
+      time: Date.parse(row.recorded_at),
+      level: Number(row.fuel_level_percent),
+    })),
+    events: (events.data || []) as FuelEvent[],
+  };
+}
+
+// Fleet efficiency is computed over the fill-ups of this many days
+const FLEET_EFFICIENCY_DAYS = 90;
+
+// Fill-ups and rated consumption of all vehicles, for the fleet efficiency table
+async function fetchFleetEfficiency(vehicles: Vehicle[]) {
+  const vehicleIds = vehicles.map((vehicle) => vehicle.id);
+  const since = new Date(Date.now() - FLEET_EFFICIENCY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [logs, settings] = await Promise.all([
+    supabase
+      .from('fuel_logs')
+      .select('vehicle_id, recorded_at, fuel_volume_liters, odometer_reading, gps_distance_km')
+      .in('vehicle_id', vehicleIds)
+      .gt('fuel_volume_liters', 0)
+      .gte('recorded_at', since),
+    supabase
+      .from('vehicle_settings')
+      .select('vehicle_id, fuel_consumption_rate_per_100km')
+      .in('vehicle_id', vehicleIds),
+  ]);
+
+  if (logs.error) throw logs.error;
+  if (settings.error) throw settings.error;
+
+  return fleetEfficiency(vehicles, logs.data || [], settings.data || []);
+}
+
+const formatDeviation = (percent: number) => `${percent > 0 ? '+' : ''}${percent.toFixed(0)}%`;
 
 export default function FuelMonitoring() {
   const { user } = useAuth();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
-  const [fuelLogs, setFuelLogs] = useState<FuelLog[]>([]);
-  const [, setVehicleSettings] = useState<VehicleSettings | null>(null);
+  const [fuelLogs, setFuelLogs] = useState<FuelLogRow[]>([]);
+  const [vehicleSettings, setVehicleSettings] = useState<VehicleSettings | null>(null);
+  const [fuelRange, setFuelRange] = useState<FuelRange>('24h');
+  const [fuelLevels, setFuelLevels] = useState<FuelLevelPoint[]>([]);
+  const [fuelEvents, setFuelEvents] = useState<FuelEvent[]>([]);
+  const [odometer, setOdometer] = useState<VehicleOdometer | null>(null);
+  const [fleet, setFleet] = useState<VehicleEfficiency[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   const [formData, setFormData] = useState({
     fuel_volume_liters: 0,
@@ -24,10 +120,34 @@ export default function FuelMonitoring() {
     loadVehicles();
   }, [user]);
 
+  useEffect(() => {
+    if (vehicles.length === 0) return;
+
+    let cancelled = false;
+    fetchFleetEfficiency(vehicles)
+      .then((rows) => {
+        if (!cancelled) setFleet(rows);
+      })
+      .catch((error) => console.error('Error loading fleet efficiency:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicles]);
+
   useEffect(() => {
     if (selectedVehicle) {
       loadFuelLogs(selectedVehicle.id);
       loadVehicleSettings(selectedVehicle.id);
+      supabase
+        .from('vehicle_odometers')
+        .select('*')
+        .eq('vehicle_id', selectedVehicle.id)
+        .maybeSingle()
+        .then(({ data, error }) => {
+          if (error) console.error('Error loading odometer:', error);
+          setOdometer(data);
+        });
     }
     
     // Real-time subscription for fuel logs
@@ -49,6 +169,38 @@ export default function FuelMonitoring() {
     };
   }, [selectedVehicle]);
 
+  useEffect(() => {
+    if (!selectedVehicle) return;
+
+    const vehicleId = selectedVehicle.id;
+    let cancelled = false;
+    const load = () => {
+      fetchFuelLevels(vehicleId, fuelRange)
+        .then(({ levels, events }) => {
+          if (cancelled) return;
+          setFuelLevels(levels);
+          setFuelEvents(events);
+        })
+        .catch((error) => console.error('Error loading fuel levels:', error));
+    };
+
+    load();
+
+    // Refuels and drops are recorded by the GPS server once the level has settled
+    const fuelEventsSubscription = supabase
+      .channel('fuel_events_realtime')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'fuel_events', filter: `vehicle_id=eq.${vehicleId}` },
+        () => load()
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      fuelEventsSubscription.unsubscribe();
+    };
+  }, [selectedVehicle, fuelRange]);
+
   const loadVehicles = async () => {
     try {
       const { data, error } = await supabase
@@ -73,7 +225,7 @@ export default function FuelMonitoring() {
     try {
       const { data, error } = await supabase
         .from('fuel_logs')
-        .select('*')
+        .select('*, import:fuel_imports(file_name)')
         .eq('vehicle_id', vehicleId)
         .order('recorded_at', { ascending: false })
         .limit(50);
@@ -114,7 +266,7 @@ export default function FuelMonitoring() {
           fuel_volume_liters: formData.fuel_volume_liters,
           cost_per_liter: formData.cost_per_liter,
           total_cost: totalCost,
-          odometer_reading: formData.odometer_reading,
+          odometer_reading: formData.odometer_reading || null,
           source: 'manual',
           notes: formData.notes,
           recorded_at: new Date().toISOString(),
@@ -143,35 +295,14 @@ export default function FuelMonitoring() {
     const totalCost = fuelLogs.reduce((sum, log) => sum + (log.total_cost || 0), 0);
     const avgCostPerLiter = totalCost / totalFuel;
 
-    const logsWithOdometer = fuelLogs.filter(log => log.odometer_reading && log.fuel_volume_liters);
-    let avgConsumption = 0;
-    
-    if (logsWithOdometer.length >= 2) {
-      const sorted = [...logsWithOdometer].sort((a, b) => 
-        new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
-      );
-      
-      let totalDistance = 0;
-      let totalFuelForDistance = 0;
-      
-      for (let i = 1; i < sorted.length; i++) {
-        const distance = (sorted[i].odometer_reading || 0) - (sorted[i - 1].odometer_reading || 0);
-        if (distance > 0) {
-          totalDistance += distance;
-          totalFuelForDistance += sorted[i].fuel_volume_liters || 0;
-        }
-      }
-      
-      if (totalDistance > 0) {
-        avgConsumption = (totalFuelForDistance / totalDistance) * 100;
-      }
-    }
+    const consumption = summarizeIntervals(consumptionIntervals(fuelLogs, vehicleSettings?.fuel_consumption_rate_per_100km));
 
     return {
       totalFuel: totalFuel.toFixed(2),
       totalCost: totalCost.toFixed(2),
       avgCostPerLiter: avgCostPerLiter.toFixed(2),
-      avgConsumption: avgConsumption.toFixed(2),
+      avgConsumption: consumption.litersPer100km !== null ? consumption.litersPer100km.toFixed(2) : '-',
+      consumptionFromGps: consumption.gpsShare >= 0.5,
       logCount: fuelLogs.length,
     };
   };
@@ -188,6 +319,10 @@ export default function FuelMonitoring() {
   };
 
   const stats = calculateStats();
+  const ratedConsumption = vehicleSettings?.fuel_consumption_rate_per_100km || null;
+  const intervals = consumptionIntervals(fuelLogs, ratedConsumption).reverse();
+  const driftingChecks = odometerChecks(fuelLogs)
+    .filter((check) => Math.abs(check.deviationPercent) > ODOMETER_DEVIATION_PERCENT);
 
   if (loading) {
     return (
@@ -204,13 +339,23 @@ export default function FuelMonitoring() {
           <h2 className="text-2xl font-bold text-white mb-2">Fuel Monitoring</h2>
           <p className="text-slate-400">Track fuel consumption and costs</p>
         </div>
-        <button
-          onClick={() => setShowAddForm(!showAddForm)}
-          className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
-        >
-          <Plus className="w-5 h-5" />
-          Add Fuel Log
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={vehicles.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl transition font-medium disabled:opacity-50"
+          >
+            <Upload className="w-5 h-5" />
+            Import Statement
+          </button>
+          <button
+            onClick={() => setShowAddForm(!showAddForm)}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
+          >
+            <Plus className="w-5 h-5" />
+            Add Fuel Log
+          </button>
+        </div>
       </div>
 
       {vehicles.length === 0 ? (
@@ -346,8 +491,189 @@ export default function FuelMonitoring() {
                   <Fuel className="w-8 h-8 text-orange-400" />
                 </div>
                 <p className="text-2xl font-bold text-white">{stats.avgConsumption} L/100km</p>
-                <p className="text-sm text-slate-400">Avg Consumption</p>
+                <p className="text-sm text-slate-400">
+                  Avg Consumption{stats.consumptionFromGps ? ' (GPS distance)' : ''}
+                  {ratedConsumption ? ` · rated ${ratedConsumption} L/100km` : ''}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {selectedVehicle && (
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div>
+                  <h3 className="text-lg font-bold text-white">Fuel Level</h3>
+                  <p className="text-sm text-slate-400">Sensor readings with detected refuels and drops while parked</p>
+                </div>
+                <div className="flex gap-2">
+                  {FUEL_RANGES.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setFuelRange(option.value)}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition ${
+                        fuelRange === option.value
+                          ? 'bg-emerald-500 text-white'
+                          : 'bg-slate-800 text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {fuelLevels.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">No fuel sensor readings in this period</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={fuelLevels}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      stroke="#94a3b8"
+                      tickFormatter={(time) => format(time, fuelRange === '24h' ? 'HH:mm' : 'MMM d')}
+                    />
+                    <YAxis domain={[0, 100]} unit="%" stroke="#94a3b8" />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155' }}
+                      labelStyle={{ color: '#f1f5f9' }}
+                      labelFormatter={(time) => format(Number(time), 'PPp')}
+                      formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Fuel level']}
+                    />
+                    {vehicleSettings?.enable_fuel_alerts && (
+                      <ReferenceLine
+                        y={vehicleSettings.low_fuel_threshold_percent}
+                        stroke="#f59e0b"
+                        strokeDasharray="4 4"
+                        label={{ value: 'Low fuel', fill: '#f59e0b', fontSize: 12, position: 'insideBottomRight' }}
+                      />
+                    )}
+                    <Line type="monotone" dataKey="level" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    {fuelEvents.map((event) => (
+                      <ReferenceDot
+                        key={event.id}
+                        x={Date.parse(event.ended_at)}
+                        y={Number(event.level_after)}
+                        r={6}
+                        fill={event.event_type === 'refuel' ? '#10b981' : '#ef4444'}
+                        stroke="#0f172a"
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+
+              {fuelEvents.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {fuelEvents.map((event) => {
+                    const change = Math.abs(Number(event.level_after) - Number(event.level_before));
+                    return (
+                      <div key={event.id} className="flex items-center justify-between bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                        <div className="flex items-center gap-3">
+                          {event.event_type === 'refuel' ? (
+                            <ArrowUpCircle className="w-5 h-5 text-emerald-400" />
+                          ) : (
+                            <AlertTriangle className="w-5 h-5 text-red-400" />
+                          )}
+                          <div>
+                            <p className="text-white font-medium">
+                              {event.event_type === 'refuel' ? 'Refuel' : 'Fuel drop while parked'}
+                            </p>
+                            <p className="text-xs text-slate-400">{format(new Date(event.ended_at), 'PPp')}</p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <p className={`font-semibold ${event.event_type === 'refuel' ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {event.event_type === 'refuel' ? '+' : '−'}
+                            {event.volume_liters != null ? `${Number(event.volume_liters).toFixed(1)} L` : `${change.toFixed(1)}%`}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            {Number(event.level_before).toFixed(0)}% → {Number(event.level_after).toFixed(0)}%
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedVehicle && (
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div>
+                  <h3 className="text-lg font-bold text-white">Consumption Between Fill-ups</h3>
+                  <p className="text-sm text-slate-400">Distance from the GPS track, or the odometer readings before tracking started</p>
+                </div>
+                {odometer && (
+                  <div className="flex items-center gap-3 bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                    <Gauge className="w-6 h-6 text-emerald-400" />
+                    <div>
+                      <p className="text-white font-semibold">{Math.round(odometer.virtual_odometer_km).toLocaleString()} km</p>
+                      <p className="text-xs text-slate-400">
+                        Virtual odometer, calibrated {format(new Date(odometer.calibrated_at), 'MMM d, yyyy')}
+                        {odometer.last_drift_km != null && ` · last drift ${odometer.last_drift_km > 0 ? '+' : ''}${odometer.last_drift_km} km`}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
+
+              {driftingChecks.length > 0 && (
+                <div className="space-y-1 mb-4">
+                  {driftingChecks.slice(-3).map((check) => (
+                    <div key={check.to} className="flex items-center gap-2 text-sm text-orange-400">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      {format(new Date(check.from), 'MMM d')} – {format(new Date(check.to), 'MMM d')}: odometer readings differ by {check.reportedKm.toLocaleString()} km, GPS measured {check.gpsKm.toFixed(0)} km ({formatDeviation(check.deviationPercent)})
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {intervals.length === 0 ? (
+                <p className="text-center py-6 text-slate-400">Consumption is measured from the second fill-up with a known distance</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-slate-700">
+                        <th className="text-left py-3 px-4 text-slate-400 font-medium">Fill-ups</th>
+                        <th className="text-left py-3 px-4 text-slate-400 font-medium">Distance</th>
+                        <th className="text-left py-3 px-4 text-slate-400 font-medium">Fuel</th>
+                        <th className="text-left py-3 px-4 text-slate-400 font-medium">Consumption</th>
+                        <th className="text-left py-3 px-4 text-slate-400 font-medium">vs Rated</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {intervals.map((interval) => (
+                        <tr key={interval.to} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                          <td className="py-3 px-4 text-white">
+                            {format(new Date(interval.from), 'MMM d')} – {format(new Date(interval.to), 'MMM d, yyyy')}
+                          </td>
+                          <td className="py-3 px-4 text-white">
+                            {interval.distanceKm.toFixed(0)} km
+                            <span className="ml-2 text-xs text-slate-400">{interval.basis === 'gps' ? 'GPS' : 'Odometer'}</span>
+                          </td>
+                          <td className="py-3 px-4 text-white">{interval.liters.toFixed(1)} L</td>
+                          <td className="py-3 px-4 text-white font-semibold">{interval.litersPer100km.toFixed(1)} L/100km</td>
+                          <td className={`py-3 px-4 ${
+                            interval.deviationPercent !== null && Math.abs(interval.deviationPercent) > OUTLIER_DEVIATION_PERCENT
+                              ? 'text-orange-400 font-semibold'
+                              : 'text-slate-400'
+                          }`}>
+                            {interval.deviationPercent !== null ? formatDeviation(interval.deviationPercent) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           )}
 
@@ -400,13 +726,14 @@ export default function FuelMonitoring() {
                     <th className="text-left py-3 px-4 text-slate-400 font-medium">Cost/L</th>
                     <th className="text-left py-3 px-4 text-slate-400 font-medium">Total Cost</th>
                     <th className="text-left py-3 px-4 text-slate-400 font-medium">Odometer</th>
+                    <th className="text-left py-3 px-4 text-slate-400 font-medium">Source</th>
                     <th className="text-left py-3 px-4 text-slate-400 font-medium">Notes</th>
                   </tr>
                 </thead>
                 <tbody>
                   {fuelLogs.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="text-center py-8 text-slate-400">
+                      <td colSpan={7} className="text-center py-8 text-slate-400">
                         No fuel logs yet
                       </td>
                     </tr>
@@ -423,6 +750,22 @@ export default function FuelMonitoring() {
                         <td className="py-3 px-4 text-white">${log.cost_per_liter?.toFixed(2)}</td>
                         <td className="py-3 px-4 text-emerald-400 font-semibold">${log.total_cost?.toFixed(2)}</td>
                         <td className="py-3 px-4 text-white">{log.odometer_reading?.toLocaleString()} km</td>
+                        <td className="py-3 px-4 text-sm">
+                          {log.import_id ? (
+                            <div className="flex items-center gap-1 text-slate-300" title={log.station_name || undefined}>
+                              <FileText className="w-4 h-4 text-slate-400" />
+                              {log.import?.file_name || 'Statement'}
+                            </div>
+                          ) : (
+                            <span className="text-slate-400">{log.source === 'sensor' ? 'Sensor' : 'Manual'}</span>
+                          )}
+                          {log.reconciliation_flags?.map((flag) => (
+                            <div key={flag} className="flex items-center gap-1 text-xs text-orange-400 mt-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              {FUEL_IMPORT_FLAG_LABELS[flag]}
+                            </div>
+                          ))}
+                        </td>
                         <td className="py-3 px-4 text-slate-400 text-sm">{log.notes || '-'}</td>
                       </tr>
                     ))
@@ -431,8 +774,71 @@ export default function FuelMonitoring() {
               </table>
             </div>
           </div>
+          {fleet.some((row) => row.litersPer100km !== null) && (
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-6">
+              <h3 className="text-lg font-bold text-white">Fleet Fuel Efficiency</h3>
+              <p className="text-sm text-slate-400 mb-4">
+                Last {FLEET_EFFICIENCY_DAYS} days, against the rated consumption or the fleet median of the same fuel type.
+                Vehicles more than {OUTLIER_DEVIATION_PERCENT}% off are highlighted.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Vehicle</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Distance</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Fuel</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Consumption</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Expected</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Deviation</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...fleet]
+                      .filter((row) => row.litersPer100km !== null)
+                      .sort((a, b) => Math.abs(b.deviationPercent ?? 0) - Math.abs(a.deviationPercent ?? 0))
+                      .map((row) => (
+                        <tr
+                          key={row.vehicle.id}
+                          onClick={() => setSelectedVehicle(row.vehicle)}
+                          className={`border-b border-slate-700/50 cursor-pointer ${
+                            row.outlier ? 'bg-orange-500/10 hover:bg-orange-500/20' : 'hover:bg-slate-700/20'
+                          }`}
+                        >
+                          <td className="py-3 px-4 text-white">
+                            <div className="flex items-center gap-2">
+                              {row.outlier && <AlertTriangle className="w-4 h-4 text-orange-400" />}
+                              {row.vehicle.name}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4 text-white">{row.distanceKm.toFixed(0)} km</td>
+                          <td className="py-3 px-4 text-white">{row.liters.toFixed(1)} L</td>
+                          <td className="py-3 px-4 text-white font-semibold">{row.litersPer100km?.toFixed(1)} L/100km</td>
+                          <td className="py-3 px-4 text-slate-400">
+                            {row.expectedPer100km !== null
+                              ? `${row.expectedPer100km.toFixed(1)} L/100km (${row.expectedBasis === 'rated' ? 'rated' : 'fleet'})`
+                              : '-'}
+                          </td>
+                          <td className={`py-3 px-4 ${row.outlier ? 'text-orange-400 font-semibold' : 'text-slate-400'}`}>
+                            {row.deviationPercent !== null ? formatDeviation(row.deviationPercent) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
         </>
       )}
+
+      {showImport && (
+        <FuelCardImport
+          vehicles={vehicles}
+          onClose={() => setShowImport(false)}
+          onImported={() => selectedVehicle && loadFuelLogs(selectedVehicle.id)}
+        />
+      )}
     </div>
   );
 }
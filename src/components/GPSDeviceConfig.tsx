@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase, Vehicle } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Smartphone, Wifi, Server, Copy, Check, AlertCircle, Info, Play } from 'lucide-react';
+import { Smartphone, Wifi, Server, Copy, Check, AlertCircle, Info, Play, KeyRound, RefreshCw } from 'lucide-react';
 
 interface GPSDevice {
   id: string;
@@ -12,6 +12,8 @@ interface GPSDevice {
   phone_number: string;
   status: 'active' | 'inactive' | 'pending';
   last_connection: string | null;
+  token_hint: string | null;
+  token_rotated_at: string | null;
   created_at: string;
 }
 
@@ -24,6 +26,9 @@ export default function GPSDeviceConfig() {
   const [error, setError] = useState('');
   const [serverStatus, setServerStatus] = useState<'running' | 'stopped' | 'unknown'>('unknown');
   const [copied, setCopied] = useState('');
+  // Token returned by the last rotation, shown once and never loaded again
+  const [revealedToken, setRevealedToken] = useState<{ deviceId: string; token: string } | null>(null);
+  const [rotatingId, setRotatingId] = useState('');
 
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState({
@@ -219,6 +224,28 @@ export default function GPSDeviceConfig() {
     }
   };
 
+  const rotateToken = async (device: GPSDevice) => {
+    if (device.token_hint && !confirm(
+      `Rotate the token of ${device.device_id}? The device is rejected until it is reconfigured with the new token.`
+    )) return;
+
+    setRotatingId(device.id);
+    setError('');
+
+    try {
+      const { data, error } = await supabase.rpc('rotate_gps_device_token', { p_device_id: device.id });
+
+      if (error) throw error;
+      setRevealedToken({ deviceId: device.id, token: data as string });
+      loadDevices();
+    } catch (err) {
+      console.error('Error rotating device token:', err);
+      setError('Failed to generate device token');
+    } finally {
+      setRotatingId('');
+    }
+  };
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     setCopied(label);
@@ -518,6 +545,60 @@ export default function GPSDeviceConfig() {
                         Last connection: {new Date(device.last_connection).toLocaleString()}
                       </p>
                     )}
+
+                    <div className="flex items-center gap-3 mt-3 text-sm">
+                      <KeyRound className="w-4 h-4 text-slate-500" />
+                      {device.token_hint ? (
+                        <span className="text-slate-400">
+                          HTTP token <span className="font-mono text-slate-300">••••{device.token_hint}</span>
+                          {device.token_rotated_at && (
+                            <span className="text-xs text-slate-500"> (issued {new Date(device.token_rotated_at).toLocaleDateString()})</span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-amber-400">No HTTP token, HTTP submissions are rejected</span>
+                      )}
+                      <button
+                        onClick={() => rotateToken(device)}
+                        disabled={rotatingId === device.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-emerald-400 hover:bg-emerald-500/10 rounded transition disabled:opacity-50"
+                      >
+                        <RefreshCw className={`w-3 h-3 ${rotatingId === device.id ? 'animate-spin' : ''}`} />
+                        {device.token_hint ? 'Rotate' : 'Generate'}
+                      </button>
+                    </div>
+
+                    {revealedToken?.deviceId === device.id && (
+                      <div className="mt-3 p-3 bg-amber-500/10 border border-amber-500/50 rounded-lg">
+                        <p className="text-xs text-amber-400 mb-2">
+                          Copy this token now, it will not be shown again. Send it as
+                          {' '}<code className="bg-slate-900/50 px-1 rounded">Authorization: Bearer &lt;token&gt;</code>,
+                          {' '}as a <code className="bg-slate-900/50 px-1 rounded">token</code> URL parameter,
+                          or use it as the key of an HMAC-SHA256 <code className="bg-slate-900/50 px-1 rounded">X-Signature</code>.
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <code className="flex-1 bg-slate-900/50 px-2 py-1 rounded text-xs text-white font-mono break-all">
+                            {revealedToken.token}
+                          </code>
+                          <button
+                            onClick={() => copyToClipboard(revealedToken.token, `token-${device.id}`)}
+                            className="p-1 hover:bg-slate-700 rounded"
+                          >
+                            {copied === `token-${device.id}` ? (
+                              <Check className="w-4 h-4 text-emerald-400" />
+                            ) : (
+                              <Copy className="w-4 h-4 text-slate-400" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => setRevealedToken(null)}
+                            className="px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 rounded"
+                          >
+                            Done
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <button
@@ -557,6 +638,7 @@ export default function GPSDeviceConfig() {
                 <li>Set Device ID to match configured ID</li>
                 <li>Enable GPRS/Data connection</li>
                 <li>Set reporting interval (30-60 seconds)</li>
+                <li>HTTP devices: generate a token and send it with every request</li>
                 <li>Save and restart device</li>
               </ul>
             </div>
@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
-import { MapContainer, TileLayer, Circle, Marker, Popup, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, Circle, Polygon, Marker, Popup, useMapEvents } from 'react-leaflet';
 import { supabase, Vehicle, GPSLocation, Geofence } from '../lib/supabase';
+import { isPointInGeofence, normalizePolygonRings } from '../lib/geometry';
 import { useAuth } from '../contexts/AuthContext';
 import { useFleet } from '../contexts/FleetContext';
 import { MapPin, Navigation, Gauge, Clock, Shield, Plus, Trash2, Check, X, Layers } from 'lucide-react';
@@ -27,6 +28,8 @@ export default function GPSTrackingEnhanced() {
     center_lat: 40.7128,
     center_lon: -74.0060,
     radius_meters: 1000,
+    purpose: 'geofence' as Geofence['purpose'],
+    speed_limit_kmh: 50,
     alert_on_enter: true,
     alert_on_exit: true,
     color: '#10b981',
@@ -107,12 +110,17 @@ export default function GPSTrackingEnhanced() {
   const handleGeofenceSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const zone = {
+      ...geofenceForm,
+      speed_limit_kmh: geofenceForm.purpose === 'speed_limit' ? geofenceForm.speed_limit_kmh : null,
+    };
+
     try {
       if (editingGeofence) {
         const { error } = await supabase
           .from('geofences')
           .update({
-            ...geofenceForm,
+            ...zone,
             updated_at: new Date().toISOString(),
           })
           .eq('id', editingGeofence.id);
@@ -122,7 +130,7 @@ export default function GPSTrackingEnhanced() {
         const { error } = await supabase
           .from('geofences')
           .insert([{
-            ...geofenceForm,
+            ...zone,
             user_id: user?.id,
             zone_type: 'circle',
             is_active: true,
@@ -178,6 +186,8 @@ export default function GPSTrackingEnhanced() {
       center_lat: 40.7128,
       center_lon: -74.0060,
       radius_meters: 1000,
+      purpose: 'geofence',
+      speed_limit_kmh: 50,
       alert_on_enter: true,
       alert_on_exit: true,
       color: '#10b981',
@@ -343,12 +353,44 @@ export default function GPSTrackingEnhanced() {
                           <h3 className="font-bold">{geofence.name}</h3>
                           <p className="text-sm text-gray-600">{geofence.description}</p>
                           <p className="text-xs text-gray-500 mt-1">Radius: {geofence.radius_meters}m</p>
+                          {geofence.purpose === 'speed_limit' && (
+                            <p className="text-xs text-gray-500">Speed limit: {geofence.speed_limit_kmh} km/h</p>
+                          )}
                         </div>
                       </Popup>
                     </Circle>
                   )
                 ))}
 
+                {showGeofences && geofences.map((geofence) => {
+                  if (geofence.zone_type !== 'polygon') return null;
+                  const rings = normalizePolygonRings(geofence.polygon_coordinates);
+                  if (rings.length === 0) return null;
+
+                  return (
+                    <Polygon
+                      key={geofence.id}
+                      positions={rings.map(ring => ring.map(p => [p.lat, p.lon] as [number, number]))}
+                      pathOptions={{
+                        color: geofence.is_active ? geofence.color : '#64748b',
+                        fillColor: geofence.is_active ? geofence.color : '#64748b',
+                        fillOpacity: 0.2,
+                      }}
+                    >
+                      <Popup>
+                        <div className="p-2">
+                          <h3 className="font-bold">{geofence.name}</h3>
+                          <p className="text-sm text-gray-600">{geofence.description}</p>
+                          <p className="text-xs text-gray-500 mt-1">Polygon: {rings[0].length} points</p>
+                          {geofence.purpose === 'speed_limit' && (
+                            <p className="text-xs text-gray-500">Speed limit: {geofence.speed_limit_kmh} km/h</p>
+                          )}
+                        </div>
+                      </Popup>
+                    </Polygon>
+                  );
+                })}
+
                 {/* New Geofence Preview */}
                 {showGeofenceForm && (
                   <Circle
@@ -390,6 +432,42 @@ export default function GPSTrackingEnhanced() {
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Zone Type</label>
+                    <select
+                      value={geofenceForm.purpose}
+                      onChange={(e) => {
+                        const purpose = e.target.value as Geofence['purpose'];
+                        setGeofenceForm({
+                          ...geofenceForm,
+                          purpose,
+                          alert_on_enter: purpose === 'geofence',
+                          alert_on_exit: purpose === 'geofence',
+                          color: purpose === 'speed_limit' ? '#f59e0b' : geofenceForm.color,
+                        });
+                      }}
+                      className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500"
+                    >
+                      <option value="geofence">Geofence</option>
+                      <option value="speed_limit">Speed Limit Zone</option>
+                    </select>
+                  </div>
+
+                  {geofenceForm.purpose === 'speed_limit' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-1">Speed Limit (km/h)</label>
+                      <input
+                        type="number"
+                        value={geofenceForm.speed_limit_kmh}
+                        onChange={(e) => setGeofenceForm({ ...geofenceForm, speed_limit_kmh: parseInt(e.target.value) })}
+                        className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500"
+                        min="5"
+                        max="200"
+                        required
+                      />
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-slate-300 mb-1">Radius (m)</label>
                     <input
@@ -413,26 +491,9 @@ export default function GPSTrackingEnhanced() {
                     />
                   </div>
 
-                  <div className="space-y-2">
-                    <label className="flex items-center gap-2 text-sm text-slate-300">
-                      <input
-                        type="checkbox"
-                        checked={geofenceForm.alert_on_enter}
-                        onChange={(e) => setGeofenceForm({ ...geofenceForm, alert_on_enter: e.target.checked })}
-                        className="rounded border-slate-700 text-emerald-500"
-                      />
-                      Alert on Enter
-                    </label>
-                    <label className="flex items-center gap-2 text-sm text-slate-300">
-                      <input
-                        type="checkbox"
-                        checked={geofenceForm.alert_on_exit}
-                        onChange={(e) => setGeofenceForm({ ...geofenceForm, alert_on_exit: e.target.checked })}
-                        className="rounded border-slate-700 text-emerald-500"
-                      />
-                      Alert on Exit
-                    </label>
-                  </div>
+                  <p className="text-xs text-slate-400">
+                    Entry and exit alerts are set up as geofence conditions under Alert Rules.
+                  </p>
 
                   <button
                     type="submit"
@@ -513,7 +574,13 @@ export default function GPSTrackingEnhanced() {
                               />
                               <h4 className="font-semibold text-white text-sm">{geofence.name}</h4>
                             </div>
-                            <p className="text-xs text-slate-400">{geofence.radius_meters}m radius</p>
+                            <p className="text-xs text-slate-400">
+                              {geofence.zone_type === 'polygon'
+                                ? `${normalizePolygonRings(geofence.polygon_coordinates)[0]?.length || 0} point polygon`
+                                : `${geofence.radius_meters}m radius`}
+                              {geofence.purpose === 'speed_limit' && ` • ${geofence.speed_limit_kmh} km/h limit`}
+                              {geofence.source === 'osm' && ' • OSM'}
+                            </p>
                           </div>
                           <button
                             onClick={() => toggleGeofenceStatus(geofence)}
@@ -580,6 +647,23 @@ export default function GPSTrackingEnhanced() {
                     </div>
                   </div>
 
+                  <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-2">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Shield className="w-4 h-4 text-emerald-400" />
+                      <span className="text-slate-400 text-xs">Inside Zones</span>
+                    </div>
+                    <p className="text-white text-xs">
+                      {geofences
+                        .filter(g => g.is_active && isPointInGeofence(
+                          selectedVehicle.latest_location!.latitude,
+                          selectedVehicle.latest_location!.longitude,
+                          g
+                        ))
+                        .map(g => g.name)
+                        .join(', ') || 'None'}
+                    </p>
+                  </div>
+
                   <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-2">
                     <div className="flex items-center gap-2 mb-1">
                       <Clock className="w-4 h-4 text-amber-400" />
@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, Circle, Marker, Popup, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, Circle, Polygon, Polyline, Marker, Popup, useMapEvents } from 'react-leaflet';
 import { supabase, Geofence, Vehicle } from '../lib/supabase';
+import { GeoPoint, normalizePolygonRings, polygonCentroid } from '../lib/geometry';
 import { useAuth } from '../contexts/AuthContext';
-import { Shield, Plus, Edit2, Trash2, MapPin, AlertCircle, Check, X } from 'lucide-react';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { Shield, Plus, Edit2, Trash2, MapPin, AlertCircle, Check, X, Undo2 } from 'lucide-react';
 import L from 'leaflet';
 
 export default function Geofencing() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const [geofences, setGeofences] = useState<Geofence[]>([]);
   const [, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
@@ -21,6 +24,7 @@ export default function Geofencing() {
     center_lat: 40.7128,
     center_lon: -74.0060,
     radius_meters: 1000,
+    polygon_points: [] as GeoPoint[],
     alert_on_enter: true,
     alert_on_exit: true,
     color: '#10b981',
@@ -31,12 +35,12 @@ export default function Geofencing() {
     loadVehicles();
     
     // Real-time subscription for geofence updates
-    if (!user) return;
+    if (!user || !organization) return;
     
     const geofenceSubscription = supabase
       .channel('geofences_realtime')
       .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'geofences', filter: `user_id=eq.${user.id}` },
+        { event: '*', schema: 'public', table: 'geofences', filter: `organization_id=eq.${organization?.id}` },
         (payload) => {
           console.log('Geofence update received:', payload);
           loadGeofences();
@@ -60,7 +64,7 @@ export default function Geofencing() {
       geofenceSubscription.unsubscribe();
       eventsSubscription.unsubscribe();
     };
-  }, [user]);
+  }, [user, organization]);
 
   const loadGeofences = async () => {
     try {
@@ -91,15 +95,43 @@ export default function Geofencing() {
     }
   };
 
+  const buildGeofencePayload = () => {
+    const { polygon_points, ...fields } = formData;
+
+    if (fields.zone_type === 'circle') {
+      return { ...fields, polygon_coordinates: null };
+    }
+
+    // Holes can't be drawn in this form, keep the ones already stored on the zone
+    const holes = editingGeofence ? normalizePolygonRings(editingGeofence.polygon_coordinates).slice(1) : [];
+    const rings = [polygon_points, ...holes];
+    const centroid = polygonCentroid(rings);
+
+    return {
+      ...fields,
+      center_lat: centroid?.lat ?? fields.center_lat,
+      center_lon: centroid?.lon ?? fields.center_lon,
+      radius_meters: null,
+      polygon_coordinates: holes.length > 0 ? rings : polygon_points,
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (formData.zone_type === 'polygon' && formData.polygon_points.length < 3) {
+      alert('A polygon zone needs at least 3 points');
+      return;
+    }
+
     try {
+      const payload = buildGeofencePayload();
+
       if (editingGeofence) {
         const { error } = await supabase
           .from('geofences')
           .update({
-            ...formData,
+            ...payload,
             updated_at: new Date().toISOString(),
           })
           .eq('id', editingGeofence.id);
@@ -109,7 +141,7 @@ export default function Geofencing() {
         const { error } = await supabase
           .from('geofences')
           .insert([{
-            ...formData,
+            ...payload,
             user_id: user?.id,
           }]);
 
@@ -150,6 +182,7 @@ export default function Geofencing() {
       center_lat: geofence.center_lat || 40.7128,
       center_lon: geofence.center_lon || -74.0060,
       radius_meters: geofence.radius_meters || 1000,
+      polygon_points: normalizePolygonRings(geofence.polygon_coordinates)[0] || [],
       alert_on_enter: geofence.alert_on_enter,
       alert_on_exit: geofence.alert_on_exit,
       color: geofence.color,
@@ -168,6 +201,7 @@ export default function Geofencing() {
       center_lat: 40.7128,
       center_lon: -74.0060,
       radius_meters: 1000,
+      polygon_points: [],
       alert_on_enter: true,
       alert_on_exit: true,
       color: '#10b981',
@@ -191,7 +225,14 @@ export default function Geofencing() {
   function MapClickHandler() {
     useMapEvents({
       click(e: any) {
-        if (showForm) {
+        if (!showForm) return;
+
+        if (formData.zone_type === 'polygon') {
+          setFormData(prev => ({
+            ...prev,
+            polygon_points: [...prev.polygon_points, { lat: e.latlng.lat, lon: e.latlng.lng }],
+          }));
+        } else {
           setFormData(prev => ({
             ...prev,
             center_lat: e.latlng.lat,
@@ -267,7 +308,54 @@ export default function Geofencing() {
                 )
               ))}
 
-              {showForm && (
+              {geofences.map((geofence) => {
+                if (geofence.zone_type !== 'polygon') return null;
+                const rings = normalizePolygonRings(geofence.polygon_coordinates);
+                if (rings.length === 0) return null;
+
+                return (
+                  <Polygon
+                    key={geofence.id}
+                    positions={rings.map(ring => ring.map(p => [p.lat, p.lon] as [number, number]))}
+                    pathOptions={{
+                      color: geofence.is_active ? geofence.color : '#64748b',
+                      fillColor: geofence.is_active ? geofence.color : '#64748b',
+                      fillOpacity: 0.2,
+                    }}
+                  >
+                    <Popup>
+                      <div className="p-2">
+                        <h3 className="font-bold">{geofence.name}</h3>
+                        <p className="text-sm text-gray-600">{geofence.description}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Polygon: {rings[0].length} points{rings.length > 1 && `, ${rings.length - 1} hole(s)`}
+                        </p>
+                      </div>
+                    </Popup>
+                  </Polygon>
+                );
+              })}
+
+              {showForm && formData.zone_type === 'polygon' && formData.polygon_points.length > 0 && (
+                formData.polygon_points.length >= 3 ? (
+                  <Polygon
+                    positions={formData.polygon_points.map(p => [p.lat, p.lon] as [number, number])}
+                    pathOptions={{
+                      color: formData.color,
+                      fillColor: formData.color,
+                      fillOpacity: 0.3,
+                      dashArray: '10, 10',
+                    }}
+                  />
+                ) : (
+                  <Polyline
+                    positions={formData.polygon_points.map(p => [p.lat, p.lon] as [number, number])}
+                    pathOptions={{ color: formData.color, dashArray: '10, 10' }}
+                  />
+                )
+              )}
+
+              {showForm && formData.zone_type === 'circle' && (
                 <Circle
                   center={[formData.center_lat, formData.center_lon]}
                   radius={formData.radius_meters}
@@ -325,19 +413,60 @@ export default function Geofencing() {
 
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">
-                    Radius (meters)
+                    Zone Type
                   </label>
-                  <input
-                    type="number"
-                    value={formData.radius_meters}
-                    onChange={(e) => setFormData({ ...formData, radius_meters: parseInt(e.target.value) })}
+                  <select
+                    value={formData.zone_type}
+                    onChange={(e) => setFormData({ ...formData, zone_type: e.target.value as 'circle' | 'polygon' })}
                     className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-emerald-500"
-                    min="100"
-                    max="50000"
-                    required
-                  />
+                  >
+                    <option value="circle">Circle</option>
+                    <option value="polygon">Polygon</option>
+                  </select>
                 </div>
 
+                {formData.zone_type === 'circle' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      Radius (meters)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.radius_meters}
+                      onChange={(e) => setFormData({ ...formData, radius_meters: parseInt(e.target.value) })}
+                      className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-emerald-500"
+                      min="100"
+                      max="50000"
+                      required
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between bg-slate-900/50 border border-slate-700 rounded-lg px-4 py-2">
+                    <span className="text-sm text-slate-300">
+                      {formData.polygon_points.length} point{formData.polygon_points.length === 1 ? '' : 's'}
+                    </span>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, polygon_points: formData.polygon_points.slice(0, -1) })}
+                        disabled={formData.polygon_points.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded text-xs transition"
+                      >
+                        <Undo2 className="w-3 h-3" />
+                        Undo
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, polygon_points: [] })}
+                        disabled={formData.polygon_points.length === 0}
+                        className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded text-xs transition"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">
                     Color
@@ -374,7 +503,9 @@ export default function Geofencing() {
                 <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
                   <p className="text-xs text-blue-400">
                     <MapPin className="w-4 h-4 inline mr-1" />
-                    Click on the map to set the center point
+                    {formData.zone_type === 'polygon'
+                      ? 'Click on the map to add polygon points in order'
+                      : 'Click on the map to set the center point'}
                   </p>
                 </div>
 
@@ -437,7 +568,11 @@ export default function Geofencing() {
                     </div>
 
                     <div className="flex items-center gap-4 text-xs text-slate-400 mb-3">
-                      <span>Radius: {geofence.radius_meters}m</span>
+                      {geofence.zone_type === 'polygon' ? (
+                        <span>Polygon: {normalizePolygonRings(geofence.polygon_coordinates)[0]?.length || 0} points</span>
+                      ) : (
+                        <span>Radius: {geofence.radius_meters}m</span>
+                      )}
                       {geofence.alert_on_enter && (
                         <span className="flex items-center gap-1">
                           <AlertCircle className="w-3 h-3" />
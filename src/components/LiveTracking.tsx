@@ -2,7 +2,9 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import { supabase } from '../lib/supabase';
-import { io, Socket } from 'socket.io-client';
+import { Socket } from 'socket.io-client';
+import { connectGpsSocket, subscribeVehicles } from '../lib/gpsSocket';
+import { FRESHNESS_TICK_MS, isStale, lastSeen } from '../lib/freshness';
 import { 
   Navigation, 
   Gauge, 
@@ -16,7 +18,7 @@ import {
 import 'leaflet/dist/leaflet.css';
 
 // Fix for default markers in React Leaflet
-delete (L.Icon.Default.prototype as any)._getIconUrl;
+delete (L.Icon.Default.prototype as L.Icon.Default & { _getIconUrl?: () => string })._getIconUrl;
 L.Icon.Default.mergeOptions({
   iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
   iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
@@ -60,6 +62,19 @@ interface VehicleWithLocation extends Vehicle {
   track?: GPSLocation[];
 }
 
+interface GPSUpdateEvent {
+  device_id: string;
+  location: GPSLocation;
+  timestamp: string;
+}
+
+interface DeviceStatusEvent {
+  device_id: string;
+  vehicle_id: string;
+  status: GPSDevice['status'];
+  last_connection: string;
+}
+
 // Custom car icon
 const createCarIcon = (heading: number, isActive: boolean) => {
   const color = isActive ? '#10b981' : '#6b7280';
@@ -101,7 +116,7 @@ const MapUpdater: React.FC<{ vehicles: VehicleWithLocation[], selectedVehicle?:
         .map(v => [v.location!.latitude, v.location!.longitude] as [number, number]);
       
       if (bounds.length > 0) {
-        (map as any).fitBounds(bounds, { padding: [20, 20] });
+        map.fitBounds(bounds, { padding: [20, 20] });
       }
     }
   }, [map, vehicles, selectedVehicle]);
@@ -115,20 +130,25 @@ const LiveTracking: React.FC = () => {
   const [showTracks, setShowTracks] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
   const socketRef = useRef<Socket | null>(null);
+  // The socket is set up once, its gps_update listener calls the latest handler through this ref
+  const gpsUpdateHandlerRef = useRef<(data: GPSUpdateEvent) => void>(() => {});
 
   // Load vehicles and devices
   useEffect(() => {
     loadVehiclesAndDevices();
   }, []);
 
+  // Keep "last seen" ages and stale markers current between updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), FRESHNESS_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   // Setup WebSocket connection
   useEffect(() => {
-    const GPS_SERVER_URL = import.meta.env.VITE_GPS_SERVER_URL || 'https://fleet-admin.onrender.com';
-    
-    socketRef.current = io(GPS_SERVER_URL, {
-      transports: ['websocket', 'polling']
-    });
+    socketRef.current = connectGpsSocket();
 
     socketRef.current.on('connect', () => {
       console.log('Connected to GPS server');
@@ -140,12 +160,25 @@ const LiveTracking: React.FC = () => {
       setIsConnected(false);
     });
 
-    socketRef.current.on('gps_update', (data: { device_id: string; location: GPSLocation; timestamp: string }) => {
+    socketRef.current.on('connect_error', (error) => {
+      console.error('GPS server connection refused:', error.message);
+    });
+
+    socketRef.current.on('gps_update', (data: GPSUpdateEvent) => {
       console.log('GPS update received:', data);
-      handleGPSUpdate(data);
+      gpsUpdateHandlerRef.current(data);
       setLastUpdate(new Date());
     });
 
+    // The GPS server marks silent trackers inactive, and active again when they report
+    socketRef.current.on('device_status', (data: DeviceStatusEvent) => {
+      setVehicles(prev => prev.map(vehicle =>
+        vehicle.device?.device_id === data.device_id
+          ? { ...vehicle, device: { ...vehicle.device, status: data.status, last_connection: data.last_connection } }
+          : vehicle
+      ));
+    });
+
     return () => {
       if (socketRef.current) {
         socketRef.current.disconnect();
@@ -153,6 +186,14 @@ const LiveTracking: React.FC = () => {
     };
   }, []);
 
+  // Follow every vehicle on the map, again after each reconnect
+  const vehicleIdsKey = vehicles.map(v => v.id).join(',');
+  useEffect(() => {
+    if (isConnected && socketRef.current) {
+      subscribeVehicles(socketRef.current, vehicleIdsKey.split(',').filter(Boolean));
+    }
+  }, [isConnected, vehicleIdsKey]);
+
   const loadVehiclesAndDevices = async () => {
     try {
       // Load vehicles
@@ -196,13 +237,14 @@ const LiveTracking: React.FC = () => {
     }
   };
 
-  const handleGPSUpdate = useCallback((data: { device_id: string; location: GPSLocation; timestamp: string }) => {
+  const handleGPSUpdate = useCallback((data: GPSUpdateEvent) => {
     const { device_id, location } = data;
     
     setVehicles(prev => prev.map(vehicle => {
       if (vehicle.device?.device_id === device_id) {
         return {
           ...vehicle,
+          device: vehicle.device && { ...vehicle.device, status: 'active', last_connection: new Date().toISOString() },
           location: {
             ...location,
             id: `${device_id}-${Date.now()}`,
@@ -220,7 +262,11 @@ const LiveTracking: React.FC = () => {
       }
       return vehicle;
     }));
-  };
+  }, [showTracks]);
+
+  useEffect(() => {
+    gpsUpdateHandlerRef.current = handleGPSUpdate;
+  }, [handleGPSUpdate]);
 
   const loadTrackHistory = async (deviceId: string) => {
     try {
@@ -318,7 +364,7 @@ const LiveTracking: React.FC = () => {
                     selectedVehicle === vehicle.id
                       ? 'bg-emerald-500/20 border-emerald-500/50'
                       : 'bg-slate-800/50 border-slate-700/50 hover:bg-slate-700/50'
-                  }`}
+                  } ${vehicle.location && isStale(vehicle.location.timestamp, now) ? 'opacity-60 grayscale' : ''}`}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
@@ -350,6 +396,12 @@ const LiveTracking: React.FC = () => {
                         <div className="text-xs text-slate-500 mt-1">
                           {new Date(vehicle.location.timestamp).toLocaleString()}
                         </div>
+                        {isStale(vehicle.location.timestamp, now) && (
+                          <div className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+                            <Clock className="w-3 h-3" />
+                            Last seen {lastSeen(vehicle.location.timestamp, now)}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -376,7 +428,9 @@ const LiveTracking: React.FC = () => {
             {vehicles.map((vehicle) => {
               if (!vehicle.location) return null;
               
-              const isActive = vehicle.device?.status === 'active';
+              // Silent trackers and fixes too old to be the current position are greyed out
+              const stale = isStale(vehicle.location.timestamp, now);
+              const isActive = vehicle.device?.status === 'active' && !stale;
               
               return (
                 <React.Fragment key={vehicle.id}>
@@ -384,6 +438,7 @@ const LiveTracking: React.FC = () => {
                   <Marker
                     position={[vehicle.location.latitude, vehicle.location.longitude]}
                     icon={createCarIcon(vehicle.location.heading, isActive)}
+                    opacity={stale ? 0.6 : 1}
                   >
                     <Popup>
                       <div className="text-slate-900">
@@ -402,6 +457,11 @@ const LiveTracking: React.FC = () => {
                           <div className="text-xs text-slate-600">
                             {new Date(vehicle.location.timestamp).toLocaleString()}
                           </div>
+                          {stale && (
+                            <div className="text-xs font-medium text-amber-600">
+                              Last seen {lastSeen(vehicle.location.timestamp, now)}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </Popup>
@@ -463,6 +523,9 @@ const LiveTracking: React.FC = () => {
                     <div className="font-medium text-xs">
                       {new Date(selectedVehicleData.location.timestamp).toLocaleTimeString()}
                     </div>
+                    <div className={`text-xs ${isStale(selectedVehicleData.location.timestamp, now) ? 'text-amber-400' : 'text-slate-500'}`}>
+                      {lastSeen(selectedVehicleData.location.timestamp, now)}
+                    </div>
                   </div>
                 </div>
               </div>
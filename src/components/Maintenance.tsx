@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
-import { supabase, Vehicle, MaintenanceRecord } from '../lib/supabase';
+import { supabase, Vehicle, MaintenancePlan, MaintenanceRecord, VehicleOdometer } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useFleet } from '../contexts/FleetContext';
-import { Wrench, Plus, Calendar, DollarSign, User, FileText, AlertCircle, Route, Clock } from 'lucide-react';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { Wrench, Plus, Calendar, DollarSign, User, FileText, AlertCircle, Route, Clock, Gauge, ClipboardList } from 'lucide-react';
+import MaintenancePlans from './MaintenancePlans';
 
 type MaintenanceWithVehicle = MaintenanceRecord & {
   vehicle?: Vehicle;
@@ -10,11 +12,16 @@ type MaintenanceWithVehicle = MaintenanceRecord & {
 
 export default function Maintenance() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const canEdit = can('can_edit_maintenance');
   const { getVehicleTrips } = useFleet();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [maintenance, setMaintenance] = useState<MaintenanceWithVehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
+  const [showPlans, setShowPlans] = useState(false);
+  const [plans, setPlans] = useState<Pick<MaintenancePlan, 'id' | 'name'>[]>([]);
+  const [odometers, setOdometers] = useState<Record<string, VehicleOdometer>>({});
   const [filter, setFilter] = useState<'all' | 'scheduled' | 'in_progress' | 'completed'>('all');
   const [formData, setFormData] = useState({
     vehicle_id: '',
@@ -35,16 +42,20 @@ export default function Maintenance() {
 
   const loadData = async () => {
     try {
-      const [vehiclesRes, maintenanceRes] = await Promise.all([
+      const [vehiclesRes, maintenanceRes, plansRes, odometersRes] = await Promise.all([
         supabase.from('vehicles').select('*').order('name'),
         supabase
           .from('maintenance_records')
           .select('*, vehicle:vehicles(*)')
           .order('scheduled_date', { ascending: false }),
+        supabase.from('maintenance_plans').select('id, name'),
+        supabase.from('vehicle_odometers').select('*'),
       ]);
 
       setVehicles(vehiclesRes.data || []);
       setMaintenance((maintenanceRes.data as MaintenanceWithVehicle[]) || []);
+      setPlans(plansRes.data || []);
+      setOdometers(Object.fromEntries((odometersRes.data || []).map((odometer: VehicleOdometer) => [odometer.vehicle_id, odometer])));
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -82,9 +93,16 @@ export default function Maintenance() {
         updated_at: new Date().toISOString(),
       };
 
-      if (status === 'completed' && !maintenance.find(m => m.id === id)?.completed_date) {
+      const record = maintenance.find(m => m.id === id);
+      const odometer = record ? odometers[record.vehicle_id] : undefined;
+      if (status === 'completed' && !record?.completed_date) {
         updateData.completed_date = new Date().toISOString().split('T')[0];
       }
+      // The next service of a plan counts from the readings of the completed one
+      if (status === 'completed' && odometer) {
+        if (!record?.odometer_reading) updateData.odometer_reading = Math.round(odometer.virtual_odometer_km);
+        if (record?.engine_hours == null && odometer.engine_status_at) updateData.engine_hours = odometer.engine_hours;
+      }
 
       const { error } = await supabase
         .from('maintenance_records')
@@ -92,6 +110,14 @@ export default function Maintenance() {
         .eq('id', id);
 
       if (error) throw error;
+
+      const odometerReading = updateData.odometer_reading ?? record?.odometer_reading;
+      if (status === 'completed' && record && odometerReading) {
+        await supabase
+          .from('vehicle_settings')
+          .update({ last_maintenance_km: odometerReading, updated_at: new Date().toISOString() })
+          .eq('vehicle_id', record.vehicle_id);
+      }
       loadData();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -124,8 +150,9 @@ export default function Maintenance() {
     const scheduledDate = new Date(m.scheduled_date);
     const now = new Date();
     const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-    return m.status === 'scheduled' && scheduledDate >= now && scheduledDate <= thirtyDaysFromNow;
+    return m.status === 'scheduled' && ((scheduledDate >= now && scheduledDate <= thirtyDaysFromNow) || m.alert_level);
   });
+  const overdueCount = upcomingMaintenance.filter(m => m.alert_level === 'overdue').length;
 
   if (loading) {
     return (
@@ -142,14 +169,25 @@ export default function Maintenance() {
           <h2 className="text-xl sm:text-2xl font-bold text-white mb-1 sm:mb-2">Maintenance</h2>
           <p className="text-sm sm:text-base text-slate-400">Schedule and track vehicle maintenance</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base w-full sm:w-auto justify-center"
-        >
-          <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
-          <span className="hidden sm:inline">Schedule Maintenance</span>
-          <span className="sm:hidden">Schedule</span>
-        </button>
+        {canEdit && (
+          <div className="flex gap-2 w-full sm:w-auto">
+            <button
+              onClick={() => setShowPlans(true)}
+              className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition text-sm sm:text-base flex-1 sm:flex-none justify-center"
+            >
+              <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5" />
+              Service Plans
+            </button>
+            <button
+              onClick={() => setShowModal(true)}
+              className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base flex-1 sm:flex-none justify-center"
+            >
+              <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
+              <span className="hidden sm:inline">Schedule Maintenance</span>
+              <span className="sm:hidden">Schedule</span>
+            </button>
+          </div>
+        )}
       </div>
 
       {upcomingMaintenance.length > 0 && (
@@ -162,6 +200,7 @@ export default function Maintenance() {
               </p>
               <p className="text-sm text-amber-300/80">
                 You have maintenance scheduled in the next 30 days
+                {overdueCount > 0 && `, ${overdueCount} overdue`}
               </p>
             </div>
           </div>
@@ -191,11 +230,13 @@ export default function Maintenance() {
             No maintenance records
           </h3>
           <p className="text-slate-400 mb-6">
-            {filter === 'all'
+            {filter !== 'all'
+              ? `No ${filter.replace('_', ' ')} maintenance records`
+              : canEdit
               ? 'Start by scheduling maintenance for your vehicles'
-              : `No ${filter.replace('_', ' ')} maintenance records`}
+              : 'Scheduled maintenance will show up here'}
           </p>
-          {filter === 'all' && (
+          {filter === 'all' && canEdit && (
             <button
               onClick={() => setShowModal(true)}
               className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
@@ -229,6 +270,18 @@ export default function Maintenance() {
                     <span className="px-3 py-1 bg-slate-700/50 rounded-full text-xs text-slate-300 capitalize">
                       {record.type}
                     </span>
+                    {record.plan_id && (
+                      <span className="px-3 py-1 bg-purple-500/20 rounded-full text-xs text-purple-400">
+                        {plans.find(p => p.id === record.plan_id)?.name || 'Service plan'}
+                      </span>
+                    )}
+                    {record.alert_level && record.status !== 'completed' && record.status !== 'cancelled' && (
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        record.alert_level === 'overdue' ? 'bg-red-500/20 text-red-400' : 'bg-amber-500/20 text-amber-400'
+                      }`}>
+                        {record.alert_level === 'overdue' ? 'Overdue' : 'Due soon'}
+                      </span>
+                    )}
                   </div>
                   <p className="text-slate-300 mb-3">{record.description}</p>
 
@@ -264,11 +317,64 @@ export default function Maintenance() {
                     return null;
                   })()}
 
+                  {record.plan_id && record.status !== 'completed' && record.status !== 'cancelled' && (() => {
+                    const odometer = odometers[record.vehicle_id];
+                    const remainingKm = record.due_km != null && odometer ? record.due_km - odometer.virtual_odometer_km : null;
+                    const remainingHours = record.due_engine_hours != null && odometer?.engine_status_at
+                      ? record.due_engine_hours - odometer.engine_hours
+                      : null;
+                    return (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3 p-3 bg-slate-900/50 border border-slate-700/50 rounded-lg text-sm">
+                        {record.due_km != null && (
+                          <div className="flex items-center gap-2">
+                            <Gauge className="w-4 h-4 text-slate-400" />
+                            <div>
+                              <p className="text-slate-500 text-xs">Due at</p>
+                              <p className="text-white">
+                                {Math.round(record.due_km).toLocaleString()} km
+                                {remainingKm !== null && (
+                                  <span className={remainingKm <= 0 ? 'text-red-400' : 'text-slate-400'}>
+                                    {' '}({remainingKm <= 0 ? `${Math.round(-remainingKm).toLocaleString()} km over` : `${Math.round(remainingKm).toLocaleString()} km left`})
+                                  </span>
+                                )}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                        {record.due_engine_hours != null && (
+                          <div className="flex items-center gap-2">
+                            <Clock className="w-4 h-4 text-slate-400" />
+                            <div>
+                              <p className="text-slate-500 text-xs">Due at engine hours</p>
+                              <p className="text-white">
+                                {Math.round(record.due_engine_hours).toLocaleString()} h
+                                {remainingHours !== null && (
+                                  <span className={remainingHours <= 0 ? 'text-red-400' : 'text-slate-400'}>
+                                    {' '}({remainingHours <= 0 ? `${Math.round(-remainingHours)} h over` : `${Math.round(remainingHours)} h left`})
+                                  </span>
+                                )}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                        {record.due_date && (
+                          <div className="flex items-center gap-2">
+                            <Calendar className="w-4 h-4 text-slate-400" />
+                            <div>
+                              <p className="text-slate-500 text-xs">Due by</p>
+                              <p className="text-white">{new Date(record.due_date).toLocaleDateString()}</p>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+
                   <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
                     <div className="flex items-center gap-2 text-sm">
                       <Calendar className="w-4 h-4 text-slate-400" />
                       <div>
-                        <p className="text-slate-500 text-xs">Scheduled</p>
+                        <p className="text-slate-500 text-xs">{record.auto_generated && record.status === 'scheduled' ? 'Forecast' : 'Scheduled'}</p>
                         <p className="text-white">{new Date(record.scheduled_date).toLocaleDateString()}</p>
                       </div>
                     </div>
@@ -318,7 +424,7 @@ export default function Maintenance() {
                 </div>
               </div>
 
-              {record.status !== 'completed' && record.status !== 'cancelled' && (
+              {canEdit && record.status !== 'completed' && record.status !== 'cancelled' && (
                 <div className="flex gap-2 pt-4 border-t border-slate-700/50">
                   {record.status === 'scheduled' && (
                     <button
@@ -349,6 +455,10 @@ export default function Maintenance() {
         </div>
       )}
 
+      {showPlans && (
+        <MaintenancePlans onClose={() => setShowPlans(false)} onChanged={loadData} />
+      )}
+
       {showModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
           <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto my-8">
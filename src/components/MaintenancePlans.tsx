@@ -0,0 +1,345 @@
+import { useEffect, useState } from 'react';
+import { supabase, MaintenancePlan } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Plus, Edit2, Trash2, AlertCircle, Gauge, Clock, Calendar } from 'lucide-react';
+
+type PlanForm = {
+  name: string;
+  description: string;
+  vehicle_type: string;
+  maintenance_type: MaintenancePlan['maintenance_type'];
+  interval_km: string;
+  interval_engine_hours: string;
+  interval_days: string;
+  lead_km: string;
+  lead_engine_hours: string;
+  lead_days: string;
+};
+
+const VEHICLE_TYPES = [
+  { value: 'truck', label: 'Truck' },
+  { value: 'van', label: 'Van' },
+  { value: 'car', label: 'Car' },
+  { value: 'bus', label: 'Bus' },
+  { value: 'trailer', label: 'Trailer' },
+];
+
+const EMPTY_FORM: PlanForm = {
+  name: '',
+  description: '',
+  vehicle_type: '',
+  maintenance_type: 'routine',
+  interval_km: '',
+  interval_engine_hours: '',
+  interval_days: '',
+  lead_km: '1000',
+  lead_engine_hours: '20',
+  lead_days: '14',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const toInteger = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+
+async function fetchPlans() {
+  const { data, error } = await supabase.from('maintenance_plans').select('*').order('name');
+  if (error) {
+    console.error('Error loading maintenance plans:', error);
+    return [];
+  }
+  return (data || []) as MaintenancePlan[];
+}
+
+type MaintenancePlansProps = {
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+export default function MaintenancePlans({ onClose, onChanged }: MaintenancePlansProps) {
+  const { user } = useAuth();
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [editing, setEditing] = useState<MaintenancePlan | 'new' | null>(null);
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadPlans = async () => setPlans(await fetchPlans());
+
+  useEffect(() => {
+    fetchPlans().then(setPlans);
+  }, []);
+
+  const startEdit = (plan: MaintenancePlan | 'new') => {
+    setEditing(plan);
+    setError(null);
+    setForm(plan === 'new' ? EMPTY_FORM : {
+      name: plan.name,
+      description: plan.description || '',
+      vehicle_type: plan.vehicle_type || '',
+      maintenance_type: plan.maintenance_type,
+      interval_km: plan.interval_km?.toString() || '',
+      interval_engine_hours: plan.interval_engine_hours?.toString() || '',
+      interval_days: plan.interval_days?.toString() || '',
+      lead_km: plan.lead_km.toString(),
+      lead_engine_hours: plan.lead_engine_hours.toString(),
+      lead_days: plan.lead_days.toString(),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editing) return;
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      vehicle_type: form.vehicle_type || null,
+      maintenance_type: form.maintenance_type,
+      interval_km: toInteger(form.interval_km),
+      interval_engine_hours: toInteger(form.interval_engine_hours),
+      interval_days: toInteger(form.interval_days),
+      lead_km: toInteger(form.lead_km) ?? 0,
+      lead_engine_hours: toInteger(form.lead_engine_hours) ?? 0,
+      lead_days: toInteger(form.lead_days) ?? 0,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!data.interval_km && !data.interval_engine_hours && !data.interval_days) {
+      setError('Set at least one interval');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const { error } = editing === 'new'
+        ? await supabase.from('maintenance_plans').insert([{ ...data, user_id: user.id }])
+        : await supabase.from('maintenance_plans').update(data).eq('id', editing.id);
+
+      if (error) throw error;
+      setEditing(null);
+      await loadPlans();
+      onChanged();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (plan: MaintenancePlan) => {
+    const { error } = await supabase
+      .from('maintenance_plans')
+      .update({ is_active: !plan.is_active, updated_at: new Date().toISOString() })
+      .eq('id', plan.id);
+
+    if (error) {
+      console.error('Error updating maintenance plan:', error);
+      return;
+    }
+    await loadPlans();
+  };
+
+  const deletePlan = async (plan: MaintenancePlan) => {
+    if (!confirm(`Delete the plan "${plan.name}"? Its maintenance records are kept.`)) return;
+
+    const { error } = await supabase.from('maintenance_plans').delete().eq('id', plan.id);
+    if (error) {
+      console.error('Error deleting maintenance plan:', error);
+      return;
+    }
+    await loadPlans();
+    onChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto my-8">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-2xl font-bold text-white">Service Plans</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-400 mb-6">
+          Recurring maintenance per vehicle type. The upcoming service is scheduled from the GPS odometer and
+          engine hours, whichever interval is reached first.
+        </p>
+
+        {editing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Oil change"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Vehicle Type</label>
+                <select
+                  value={form.vehicle_type}
+                  onChange={(e) => setForm({ ...form, vehicle_type: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All vehicles</option>
+                  {VEHICLE_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-300 mb-2">Description (optional)</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Type</label>
+                <select
+                  value={form.maintenance_type}
+                  onChange={(e) => setForm({ ...form, maintenance_type: e.target.value as MaintenancePlan['maintenance_type'] })}
+                  className={inputClass}
+                >
+                  <option value="routine">Routine</option>
+                  <option value="inspection">Inspection</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-300 mb-2">Interval (at least one)</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Every km</label>
+                  <input type="number" min="1" value={form.interval_km} onChange={(e) => setForm({ ...form, interval_km: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Every engine hours</label>
+                  <input type="number" min="1" value={form.interval_engine_hours} onChange={(e) => setForm({ ...form, interval_engine_hours: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Every days</label>
+                  <input type="number" min="1" value={form.interval_days} onChange={(e) => setForm({ ...form, interval_days: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-300 mb-2">Alert ahead of time</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">km before</label>
+                  <input type="number" min="0" value={form.lead_km} onChange={(e) => setForm({ ...form, lead_km: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Engine hours before</label>
+                  <input type="number" min="0" value={form.lead_engine_hours} onChange={(e) => setForm({ ...form, lead_engine_hours: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Days before</label>
+                  <input type="number" min="0" value={form.lead_days} onChange={(e) => setForm({ ...form, lead_days: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editing === 'new' ? 'Create Plan' : 'Save Plan'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="space-y-3 mb-4">
+              {plans.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">No service plans yet</p>
+              ) : (
+                plans.map((plan) => (
+                  <div key={plan.id} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <p className="font-semibold text-white">{plan.name}</p>
+                        <span className="px-2 py-0.5 bg-slate-700/50 rounded-full text-xs text-slate-300 capitalize">
+                          {plan.vehicle_type || 'All vehicles'}
+                        </span>
+                        {!plan.is_active && (
+                          <span className="px-2 py-0.5 bg-slate-500/20 rounded-full text-xs text-slate-400">Paused</span>
+                        )}
+                      </div>
+                      {plan.description && <p className="text-sm text-slate-400 mb-1">{plan.description}</p>}
+                      <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+                        {plan.interval_km && <span className="flex items-center gap-1"><Gauge className="w-3 h-3" />{plan.interval_km.toLocaleString()} km</span>}
+                        {plan.interval_engine_hours && <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{plan.interval_engine_hours.toLocaleString()} h</span>}
+                        {plan.interval_days && <span className="flex items-center gap-1"><Calendar className="w-3 h-3" />{plan.interval_days} days</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => toggleActive(plan)}
+                        className="px-3 py-1 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-300 transition"
+                      >
+                        {plan.is_active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => startEdit(plan)}
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deletePlan(plan)}
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <button
+              onClick={() => startEdit('new')}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+            >
+              <Plus className="w-5 h-5" />
+              New Plan
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { Building2, Plus, Check, X } from 'lucide-react';
+
+export default function OrganizationSwitcher() {
+  const { memberships, organization, switchOrganization, createOrganization } = useOrganization();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSwitch = async (organizationId: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await switchOrganization(organizationId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch organization');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      await createOrganization(name.trim());
+      setName('');
+      setCreating(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create organization');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="px-4 pt-4">
+      <label className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+        <Building2 className="w-4 h-4" />
+        Organization
+      </label>
+
+      {creating ? (
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Organization name"
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="p-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-lg transition"
+            title="Create"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setCreating(false)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+            title="Cancel"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </form>
+      ) : (
+        <div className="flex items-center gap-2">
+          <select
+            value={organization?.id ?? ''}
+            disabled={busy || memberships.length === 0}
+            onChange={(e) => handleSwitch(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500"
+          >
+            {memberships.length === 0 && <option value="">No organization</option>}
+            {memberships.map((m) => (
+              <option key={m.organization.id} value={m.organization.id}>
+                {m.organization.name} ({m.role})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setCreating(true)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+            title="New organization"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import { io, Socket } from 'socket.io-client';
+import { Socket } from 'socket.io-client';
+import { connectGpsSocket, subscribeVehicles } from '../lib/gpsSocket';
+import { FRESHNESS_TICK_MS, isStale, lastSeen } from '../lib/freshness';
 import { 
   Navigation, 
   Gauge, 
   Clock, 
-  Battery, 
   Signal,
   Car,
   MapPin,
@@ -51,12 +52,20 @@ interface VehicleWithLocation extends Vehicle {
   track?: GPSLocation[];
 }
 
+interface DeviceStatusEvent {
+  device_id: string;
+  vehicle_id: string;
+  status: GPSDevice['status'];
+  last_connection: string;
+}
+
 const SimpleTracking: React.FC = () => {
   const [vehicles, setVehicles] = useState<VehicleWithLocation[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [isTracking, setIsTracking] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const socketRef = useRef<Socket | null>(null);
 
   // Load vehicles and devices
@@ -64,14 +73,16 @@ const SimpleTracking: React.FC = () => {
     loadVehiclesAndDevices();
   }, []);
 
+  // Keep "last seen" ages and stale vehicles current between updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), FRESHNESS_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   // Setup WebSocket connection
   useEffect(() => {
     if (isTracking) {
-      const GPS_SERVER_URL = import.meta.env.VITE_GPS_SERVER_URL || 'https://fleet-admin.onrender.com';
-      
-      socketRef.current = io(GPS_SERVER_URL, {
-        transports: ['websocket', 'polling']
-      });
+      socketRef.current = connectGpsSocket();
 
       socketRef.current.on('connect', () => {
         console.log('Connected to GPS server');
@@ -83,11 +94,24 @@ const SimpleTracking: React.FC = () => {
         setIsConnected(false);
       });
 
+      socketRef.current.on('connect_error', (error) => {
+        console.error('GPS server connection refused:', error.message);
+      });
+
       socketRef.current.on('gps_update', (data: any) => {
         console.log('GPS update received:', data);
         handleGPSUpdate(data);
         setLastUpdate(new Date());
       });
+
+      // The GPS server marks silent trackers inactive, and active again when they report
+      socketRef.current.on('device_status', (data: DeviceStatusEvent) => {
+        setVehicles(prev => prev.map(vehicle =>
+          vehicle.device?.device_id === data.device_id
+            ? { ...vehicle, device: { ...vehicle.device, status: data.status, last_connection: data.last_connection } }
+            : vehicle
+        ));
+      });
     }
 
     return () => {
@@ -98,6 +122,14 @@ const SimpleTracking: React.FC = () => {
     };
   }, [isTracking]);
 
+  // Follow the listed vehicles while tracking, again after each reconnect
+  const vehicleIdsKey = vehicles.map(v => v.id).join(',');
+  useEffect(() => {
+    if (isConnected && socketRef.current) {
+      subscribeVehicles(socketRef.current, vehicleIdsKey.split(',').filter(Boolean));
+    }
+  }, [isConnected, vehicleIdsKey]);
+
   const loadVehiclesAndDevices = async () => {
     try {
       // Load vehicles
@@ -148,6 +180,7 @@ const SimpleTracking: React.FC = () => {
       if (vehicle.device?.device_id === device_id) {
         return {
           ...vehicle,
+          device: vehicle.device && { ...vehicle.device, status: 'active', last_connection: new Date().toISOString() },
           location: {
             ...location,
             id: `${device_id}-${Date.now()}`,
@@ -240,7 +273,7 @@ const SimpleTracking: React.FC = () => {
                     selectedVehicle === vehicle.id
                       ? 'bg-emerald-500/20 border-emerald-500/50'
                       : 'bg-slate-800/50 border-slate-700/50 hover:bg-slate-700/50'
-                  }`}
+                  } ${vehicle.location && isStale(vehicle.location.timestamp, now) ? 'opacity-60 grayscale' : ''}`}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
@@ -271,6 +304,12 @@ const SimpleTracking: React.FC = () => {
                         <div className="text-xs text-slate-500 mt-1">
                           {new Date(vehicle.location.timestamp).toLocaleString()}
                         </div>
+                        {isStale(vehicle.location.timestamp, now) && (
+                          <div className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+                            <Clock className="w-3 h-3" />
+                            Last seen {lastSeen(vehicle.location.timestamp, now)}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -356,6 +395,9 @@ const SimpleTracking: React.FC = () => {
                     <p className="text-lg font-bold text-white">
                       {new Date(selectedVehicleData.location.timestamp).toLocaleTimeString()}
                     </p>
+                    <p className={`text-sm ${isStale(selectedVehicleData.location.timestamp, now) ? 'text-amber-400' : 'text-slate-500'}`}>
+                      {lastSeen(selectedVehicleData.location.timestamp, now)}
+                    </p>
                   </div>
                 </div>
               ) : (
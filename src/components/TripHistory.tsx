@@ -1,17 +1,37 @@
 import { useState, useEffect } from 'react';
 import { MapContainer, TileLayer, Polyline, Marker, Popup } from 'react-leaflet';
-import { supabase, Trip, Vehicle, Driver, GPSLocation } from '../lib/supabase';
+import { supabase, Trip, TripRoute, TripStop, Vehicle, Driver } from '../lib/supabase';
+import { haversineDistance } from '../lib/geometry';
 import { useAuth } from '../contexts/AuthContext';
-import { Route, Play, Pause, SkipBack, SkipForward, Calendar, Clock, MapPin, Gauge } from 'lucide-react';
+import { Route, Play, Pause, SkipBack, SkipForward, Calendar, Clock, MapPin, Gauge, ParkingCircle } from 'lucide-react';
 import L from 'leaflet';
 
+type RoutePoint = {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  speed: number;
+};
+
+const fromRoutePoints = (route: TripRoute): RoutePoint[] =>
+  (route.route_points || []).map((point) => ({
+    latitude: point.lat,
+    longitude: point.lon,
+    timestamp: point.timestamp,
+    speed: point.speed || 0,
+  }));
+
 export default function TripHistory() {
   const { user } = useAuth();
   const [trips, setTrips] = useState<Trip[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [detectedRoutes, setDetectedRoutes] = useState<TripRoute[]>([]);
+  const [listMode, setListMode] = useState<'scheduled' | 'detected'>('scheduled');
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
-  const [routePoints, setRoutePoints] = useState<GPSLocation[]>([]);
+  const [selectedRoute, setSelectedRoute] = useState<TripRoute | null>(null);
+  const [routePoints, setRoutePoints] = useState<RoutePoint[]>([]);
+  const [stops, setStops] = useState<TripStop[]>([]);
   const [loading, setLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentPointIndex, setCurrentPointIndex] = useState(0);
@@ -19,6 +39,7 @@ export default function TripHistory() {
 
   useEffect(() => {
     loadTrips();
+    loadDetectedRoutes();
     loadVehicles();
     loadDrivers();
   }, [user]);
@@ -27,6 +48,21 @@ export default function TripHistory() {
     if (selectedTrip) {
       const loadPoints = async () => {
         try {
+          // Prefer the route recorded for the trip, fall back to the fixes in its time window
+          const { data: route } = await supabase
+            .from('trip_routes')
+            .select('*')
+            .eq('trip_id', selectedTrip.id)
+            .order('started_at', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+
+          if (route && route.route_points?.length > 0) {
+            setRoutePoints(fromRoutePoints(route));
+            setStops(route.stops_data || []);
+            return;
+          }
+
           const { data, error } = await supabase
             .from('gps_locations')
             .select('*')
@@ -37,6 +73,7 @@ export default function TripHistory() {
 
           if (error) throw error;
           setRoutePoints(data || []);
+          setStops([]);
         } catch (error) {
           console.error('Error loading route points:', error);
         }
@@ -48,6 +85,15 @@ export default function TripHistory() {
     }
   }, [selectedTrip]);
 
+  useEffect(() => {
+    if (selectedRoute) {
+      setRoutePoints(fromRoutePoints(selectedRoute));
+      setStops(selectedRoute.stops_data || []);
+      setCurrentPointIndex(0);
+      setIsPlaying(false);
+    }
+  }, [selectedRoute]);
+
   useEffect(() => {
     let interval: NodeJS.Timeout;
     
@@ -84,6 +130,32 @@ export default function TripHistory() {
     }
   };
 
+  const loadDetectedRoutes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('trip_routes')
+        .select('*')
+        .eq('source', 'detected')
+        .order('started_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setDetectedRoutes(data || []);
+    } catch (error) {
+      console.error('Error loading detected trips:', error);
+    }
+  };
+
+  const selectTrip = (trip: Trip) => {
+    setSelectedRoute(null);
+    setSelectedTrip(trip);
+  };
+
+  const selectRoute = (route: TripRoute) => {
+    setSelectedTrip(null);
+    setSelectedRoute(route);
+  };
+
   const loadVehicles = async () => {
     try {
       const { data } = await supabase.from('vehicles').select('*');
@@ -111,7 +183,11 @@ export default function TripHistory() {
     return drivers.find(d => d.id === driverId)?.name || 'Unknown';
   };
 
-  const calculateTripStats = (points: GPSLocation[]) => {
+  const getTripDestination = (tripId: string | null) => {
+    return trips.find(t => t.id === tripId)?.destination;
+  };
+
+  const calculateTripStats = (points: RoutePoint[]) => {
     if (points.length === 0) return null;
 
     let totalDistance = 0;
@@ -122,15 +198,7 @@ export default function TripHistory() {
       const prev = points[i - 1];
       const curr = points[i];
 
-      // Haversine formula for distance
-      const R = 6371; // Earth radius in km
-      const dLat = (curr.latitude - prev.latitude) * Math.PI / 180;
-      const dLon = (curr.longitude - prev.longitude) * Math.PI / 180;
-      const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                Math.cos(prev.latitude * Math.PI / 180) * Math.cos(curr.latitude * Math.PI / 180) *
-                Math.sin(dLon / 2) * Math.sin(dLon / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      totalDistance += R * c;
+      totalDistance += haversineDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude) / 1000;
 
       maxSpeed = Math.max(maxSpeed, curr.speed);
       totalSpeed += curr.speed;
@@ -148,7 +216,22 @@ export default function TripHistory() {
     };
   };
 
-  const stats = routePoints.length > 0 ? calculateTripStats(routePoints) : null;
+  // Detected trips carry the statistics computed by the GPS server
+  const routeStats = (route: TripRoute) => ({
+    distance: (route.total_distance_km || 0).toFixed(2),
+    maxSpeed: (route.max_speed || 0).toFixed(1),
+    avgSpeed: (route.average_speed || 0).toFixed(1),
+    duration: (route.total_duration_minutes || 0).toFixed(0),
+  });
+
+  const stats = selectedRoute
+    ? routeStats(selectedRoute)
+    : routePoints.length > 0 ? calculateTripStats(routePoints) : null;
+
+  const formatDuration = (minutes: number) => {
+    const rounded = Math.round(minutes);
+    return rounded >= 60 ? `${Math.floor(rounded / 60)}h ${rounded % 60}m` : `${rounded} min`;
+  };
 
   const createCustomIcon = (color: string) => {
     return L.divIcon({
@@ -176,8 +259,58 @@ export default function TripHistory() {
         <div className="lg:col-span-1 space-y-4">
           <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
             <h3 className="text-lg font-bold text-white mb-4">Recent Trips</h3>
+            <div className="flex gap-2 mb-4">
+              {(['scheduled', 'detected'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setListMode(mode)}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-sm capitalize transition ${
+                    listMode === mode
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-slate-700 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
             <div className="space-y-2 max-h-96 overflow-y-auto">
-              {trips.length === 0 ? (
+              {listMode === 'detected' ? (
+                detectedRoutes.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Route className="w-12 h-12 text-slate-600 mx-auto mb-2" />
+                    <p className="text-slate-400 text-sm">No detected trips yet</p>
+                  </div>
+                ) : (
+                  detectedRoutes.map((route) => (
+                    <button
+                      key={route.id}
+                      onClick={() => selectRoute(route)}
+                      className={`w-full text-left p-3 rounded-lg transition ${
+                        selectedRoute?.id === route.id
+                          ? 'bg-emerald-500/20 border border-emerald-500/50'
+                          : 'bg-slate-900/50 border border-slate-700/50 hover:border-slate-600'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex-1">
+                          <p className="font-semibold text-white text-sm">
+                            {getTripDestination(route.trip_id) || `${(route.total_distance_km || 0).toFixed(1)} km trip`}
+                          </p>
+                          <p className="text-xs text-slate-400">{getVehicleName(route.vehicle_id || '')}</p>
+                        </div>
+                        <span className="px-2 py-0.5 rounded text-xs bg-purple-500/20 text-purple-400">
+                          {formatDuration(route.total_duration_minutes || 0)}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-slate-400">
+                        <Calendar className="w-3 h-3" />
+                        {route.started_at && new Date(route.started_at).toLocaleString()}
+                      </div>
+                    </button>
+                  ))
+                )
+              ) : trips.length === 0 ? (
                 <div className="text-center py-8">
                   <Route className="w-12 h-12 text-slate-600 mx-auto mb-2" />
                   <p className="text-slate-400 text-sm">No trips found</p>
@@ -186,7 +319,7 @@ export default function TripHistory() {
                 trips.map((trip) => (
                   <button
                     key={trip.id}
-                    onClick={() => setSelectedTrip(trip)}
+                    onClick={() => selectTrip(trip)}
                     className={`w-full text-left p-3 rounded-lg transition ${
                       selectedTrip?.id === trip.id
                         ? 'bg-emerald-500/20 border border-emerald-500/50'
@@ -216,7 +349,7 @@ export default function TripHistory() {
             </div>
           </div>
 
-          {selectedTrip && stats && (
+          {(selectedTrip || selectedRoute) && stats && (
             <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
               <h3 className="text-lg font-bold text-white mb-4">Trip Statistics</h3>
               <div className="space-y-3">
@@ -254,26 +387,76 @@ export default function TripHistory() {
               </div>
             </div>
           )}
+
+          {(selectedTrip || selectedRoute) && stops.length > 0 && (
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+              <h3 className="text-lg font-bold text-white mb-4">Stops</h3>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {stops.map((stop, index) => (
+                  <div key={stop.started_at} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center gap-2">
+                        <ParkingCircle className="w-4 h-4 text-amber-400" />
+                        <span className="text-white text-sm font-medium">Stop {index + 1}</span>
+                      </div>
+                      <span className="text-white text-sm font-semibold">{formatDuration(stop.duration_minutes)}</span>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {new Date(stop.started_at).toLocaleTimeString()} - {new Date(stop.ended_at).toLocaleTimeString()}
+                    </p>
+                    {stop.idle_minutes !== null && stop.idle_minutes !== undefined && (
+                      <p className={`text-xs mt-1 ${stop.idle_minutes > 0 ? 'text-yellow-400' : 'text-slate-500'}`}>
+                        Engine idling {formatDuration(stop.idle_minutes)}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="lg:col-span-3 space-y-4">
-          {selectedTrip ? (
+          {selectedTrip || selectedRoute ? (
             <>
               <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
-                <div className="flex items-center justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-bold text-white">{selectedTrip.destination}</h3>
-                    <p className="text-sm text-slate-400">
-                      {getVehicleName(selectedTrip.vehicle_id)} • {getDriverName(selectedTrip.driver_id)}
-                    </p>
+                {selectedTrip && (
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-bold text-white">{selectedTrip.destination}</h3>
+                      <p className="text-sm text-slate-400">
+                        {getVehicleName(selectedTrip.vehicle_id)} • {getDriverName(selectedTrip.driver_id)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm text-slate-400">Departure</p>
+                      <p className="text-white font-medium">
+                        {new Date(selectedTrip.departure_time).toLocaleString()}
+                      </p>
+                    </div>
                   </div>
-                  <div className="text-right">
-                    <p className="text-sm text-slate-400">Departure</p>
-                    <p className="text-white font-medium">
-                      {new Date(selectedTrip.departure_time).toLocaleString()}
-                    </p>
+                )}
+
+                {selectedRoute && (
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-bold text-white">
+                        {getTripDestination(selectedRoute.trip_id) || 'Detected Trip'}
+                      </h3>
+                      <p className="text-sm text-slate-400">
+                        {getVehicleName(selectedRoute.vehicle_id || '')} • {stops.length} stop{stops.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm text-slate-400">
+                        {selectedRoute.started_at && new Date(selectedRoute.started_at).toLocaleString()}
+                      </p>
+                      <p className="text-white font-medium">
+                        {selectedRoute.ended_at && `until ${new Date(selectedRoute.ended_at).toLocaleTimeString()}`}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {routePoints.length > 0 && (
                   <div className="space-y-4">
@@ -395,6 +578,27 @@ export default function TripHistory() {
                         </Popup>
                       </Marker>
 
+                      {stops.map((stop, index) => (
+                        <Marker
+                          key={`stop-${index}`}
+                          position={[stop.latitude, stop.longitude]}
+                          icon={createCustomIcon('#f59e0b')}
+                        >
+                          <Popup>
+                            <div className="p-2">
+                              <p className="font-bold">Stop {index + 1}</p>
+                              <p className="text-xs">Dwell: {formatDuration(stop.duration_minutes)}</p>
+                              {stop.idle_minutes !== null && stop.idle_minutes !== undefined && (
+                                <p className="text-xs">Idle: {formatDuration(stop.idle_minutes)}</p>
+                              )}
+                              <p className="text-xs">
+                                {new Date(stop.started_at).toLocaleTimeString()} - {new Date(stop.ended_at).toLocaleTimeString()}
+                              </p>
+                            </div>
+                          </Popup>
+                        </Marker>
+                      ))}
+
                       {routePoints[currentPointIndex] && (
                         <Marker
                           position={[
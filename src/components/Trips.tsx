@@ -3,11 +3,14 @@ import { Clock, MapPin, Truck, Plus, Route, Users } from 'lucide-react';
 import { useFleet } from '../contexts/FleetContext';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../contexts/PermissionsContext';
 
 type TripView = 'overview' | 'upcoming' | 'schedule';
 
 export default function Trips() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const canEdit = can('can_edit_trips');
   const { 
     trips, 
     vehicles, 
@@ -37,7 +40,7 @@ export default function Trips() {
     { id: 'overview' as TripView, label: 'Overview' },
     { id: 'upcoming' as TripView, label: 'Upcoming Trip' },
     { id: 'schedule' as TripView, label: 'Schedule Trip' },
-  ];
+  ].filter((item) => item.id !== 'schedule' || canEdit);
 
   const handleScheduleTrip = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -218,14 +221,20 @@ export default function Trips() {
             <div className="text-center py-12 text-slate-400">
               <Route className="w-16 h-16 mx-auto mb-4 opacity-50" />
               <h3 className="text-xl font-semibold text-white mb-2">No Upcoming Trips</h3>
-              <p className="mb-6">Schedule your first trip to get started</p>
-              <button
-                onClick={() => setCurrentView('schedule')}
-                className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
-              >
-                <Plus className="w-5 h-5" />
-                Schedule Trip
-              </button>
+              {canEdit ? (
+                <>
+                  <p className="mb-6">Schedule your first trip to get started</p>
+                  <button
+                    onClick={() => setCurrentView('schedule')}
+                    className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Schedule Trip
+                  </button>
+                </>
+              ) : (
+                <p>Scheduled trips will show up here</p>
+              )}
             </div>
           </div>
         </div>
@@ -487,7 +496,7 @@ export default function Trips() {
 
       {currentView === 'overview' && renderOverview()}
       {currentView === 'upcoming' && renderUpcomingTrip()}
-      {currentView === 'schedule' && renderScheduleTrip()}
+      {currentView === 'schedule' && canEdit && renderScheduleTrip()}
     </div>
   );
 }
@@ -1,248 +1,175 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, OrganizationMember, OrganizationRole, Permissions } from '../lib/supabase';
+import { DEFAULT_PERMISSIONS, permissionOverrides, resolvePermissions } from '../lib/permissions';
 import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { usePermissions } from '../contexts/PermissionsContext';
 import { Shield, UserPlus, Edit2, Trash2, Check, X, AlertCircle, Search } from 'lucide-react';
 
-type Role = 'admin' | 'manager' | 'driver' | 'viewer';
-
-interface Permissions {
-  can_view_vehicles: boolean;
-  can_edit_vehicles: boolean;
-  can_delete_vehicles: boolean;
-  can_view_drivers: boolean;
-  can_edit_drivers: boolean;
-  can_delete_drivers: boolean;
-  can_view_trips: boolean;
-  can_edit_trips: boolean;
-  can_delete_trips: boolean;
-  can_view_maintenance: boolean;
-  can_edit_maintenance: boolean;
-  can_manage_roles: boolean;
-}
+type Role = OrganizationRole;
 
-interface UserRole {
-  id: string;
-  user_id: string;
-  email: string;
-  role: Role;
-  permissions: Permissions;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+async function fetchMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
 
-const defaultPermissions: Record<Role, Permissions> = {
-  admin: {
-    can_view_vehicles: true,
-    can_edit_vehicles: true,
-    can_delete_vehicles: true,
-    can_view_drivers: true,
-    can_edit_drivers: true,
-    can_delete_drivers: true,
-    can_view_trips: true,
-    can_edit_trips: true,
-    can_delete_trips: true,
-    can_view_maintenance: true,
-    can_edit_maintenance: true,
-    can_manage_roles: true,
-  },
-  manager: {
-    can_view_vehicles: true,
-    can_edit_vehicles: true,
-    can_delete_vehicles: false,
-    can_view_drivers: true,
-    can_edit_drivers: true,
-    can_delete_drivers: false,
-    can_view_trips: true,
-    can_edit_trips: true,
-    can_delete_trips: false,
-    can_view_maintenance: true,
-    can_edit_maintenance: true,
-    can_manage_roles: false,
-  },
-  driver: {
-    can_view_vehicles: true,
-    can_edit_vehicles: false,
-    can_delete_vehicles: false,
-    can_view_drivers: false,
-    can_edit_drivers: false,
-    can_delete_drivers: false,
-    can_view_trips: true,
-    can_edit_trips: false,
-    can_delete_trips: false,
-    can_view_maintenance: true,
-    can_edit_maintenance: false,
-    can_manage_roles: false,
-  },
-  viewer: {
-    can_view_vehicles: true,
-    can_edit_vehicles: false,
-    can_delete_vehicles: false,
-    can_view_drivers: true,
-    can_edit_drivers: false,
-    can_delete_drivers: false,
-    can_view_trips: true,
-    can_edit_trips: false,
-    can_delete_trips: false,
-    can_view_maintenance: true,
-    can_edit_maintenance: false,
-    can_manage_roles: false,
-  },
-};
+  if (error) throw error;
+  return data || [];
+}
 
 export default function UserRoles() {
   const { user } = useAuth();
-  const [userRoles, setUserRoles] = useState<UserRole[]>([]);
+  const { organization, refreshOrganizations } = useOrganization();
+  const { can } = usePermissions();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [selectedUserRole, setSelectedUserRole] = useState<UserRole | null>(null);
-  const [currentUserRole, setCurrentUserRole] = useState<UserRole | null>(null);
+  const [selectedMember, setSelectedMember] = useState<OrganizationMember | null>(null);
 
   const [formEmail, setFormEmail] = useState('');
   const [formRole, setFormRole] = useState<Role>('viewer');
-  const [formPermissions, setFormPermissions] = useState<Permissions>(defaultPermissions.viewer);
+  const [formPermissions, setFormPermissions] = useState<Permissions>(DEFAULT_PERMISSIONS.viewer);
   const [formIsActive, setFormIsActive] = useState(true);
 
   useEffect(() => {
-    fetchUserRoles();
-    fetchCurrentUserRole();
-  }, []);
-
-  const fetchCurrentUserRole = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (error) throw error;
-      setCurrentUserRole(data);
-    } catch (err) {
-      console.error('Error fetching current user role:', err);
-    }
-  };
-
-  const fetchUserRoles = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setUserRoles(data || []);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch user roles');
-    } finally {
-      setLoading(false);
-    }
+    if (!organization) return;
+    let cancelled = false;
+
+    fetchMembers(organization.id)
+      .then((rows) => {
+        if (!cancelled) setMembers(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch members');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organization]);
+
+  const reloadMembers = async () => {
+    if (!organization) return;
+    setMembers(await fetchMembers(organization.id));
   };
 
   const handleAddUser = async () => {
+    if (!organization) return;
+
     try {
       setError(null);
-      
-      const { data: authUsers, error: authError } = await supabase.auth.admin.listUsers();
-      
-      if (authError) {
-        setError('Unable to verify user. Please ensure the email is registered.');
-        return;
-      }
-
-      const existingUser = authUsers.users.find(u => u.email === formEmail);
-      
-      if (!existingUser) {
-        setError('User with this email does not exist. Please ensure they are registered first.');
-        return;
-      }
-
-      const { error } = await supabase
-        .from('user_roles')
-        .insert({
-          user_id: existingUser.id,
-          email: formEmail,
-          role: formRole,
-          permissions: formPermissions,
-          is_active: formIsActive,
-          created_by: user?.id,
-        });
+      const { error } = await supabase.rpc('add_organization_member', {
+        p_organization_id: organization.id,
+        p_email: formEmail.trim(),
+        p_role: formRole,
+      });
 
       if (error) throw error;
 
-      await fetchUserRoles();
+      // The member starts with the defaults of the role, then gets the edited permissions
+      const rows = await fetchMembers(organization.id);
+      const added = rows.find((m) => m.email?.toLowerCase() === formEmail.trim().toLowerCase());
+      const overrides = permissionOverrides(formRole, formPermissions);
+      if (added && (Object.keys(overrides).length > 0 || !formIsActive)) {
+        const { error: updateError } = await supabase
+          .from('organization_members')
+          .update({ permissions: overrides, is_active: formIsActive })
+          .eq('organization_id', organization.id)
+          .eq('user_id', added.user_id);
+
+        if (updateError) throw updateError;
+      }
+
+      await reloadMembers();
       setIsAddModalOpen(false);
       resetForm();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add user role');
+      setError(err instanceof Error ? err.message : 'Failed to add member');
     }
   };
 
   const handleUpdateUser = async () => {
-    if (!selectedUserRole) return;
+    if (!selectedMember) return;
+
+    // Members cannot lock themselves out, another role manager has to do it
+    if (selectedMember.user_id === user?.id && (!formIsActive || !formPermissions.can_manage_roles)) {
+      setError('You cannot deactivate yourself or remove your own permission to manage roles');
+      return;
+    }
 
     try {
       setError(null);
       const { error } = await supabase
-        .from('user_roles')
+        .from('organization_members')
         .update({
           role: formRole,
-          permissions: formPermissions,
+          permissions: permissionOverrides(formRole, formPermissions),
           is_active: formIsActive,
         })
-        .eq('id', selectedUserRole.id);
+        .eq('organization_id', selectedMember.organization_id)
+        .eq('user_id', selectedMember.user_id);
 
       if (error) throw error;
 
-      await fetchUserRoles();
+      await reloadMembers();
+      if (selectedMember.user_id === user?.id) await refreshOrganizations();
       setIsEditModalOpen(false);
-      setSelectedUserRole(null);
+      setSelectedMember(null);
       resetForm();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update user role');
+      setError(err instanceof Error ? err.message : 'Failed to update member');
     }
   };
 
-  const handleDeleteUser = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this user role?')) return;
+  const handleDeleteUser = async (member: OrganizationMember) => {
+    if (member.user_id === user?.id) {
+      setError('Ask another role manager to remove you from the organization');
+      return;
+    }
+    if (!confirm(`Remove ${member.email || 'this member'} from ${organization?.name}?`)) return;
 
     try {
       setError(null);
       const { error } = await supabase
-        .from('user_roles')
+        .from('organization_members')
         .delete()
-        .eq('id', id);
+        .eq('organization_id', member.organization_id)
+        .eq('user_id', member.user_id);
 
       if (error) throw error;
-      await fetchUserRoles();
+      await reloadMembers();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete user role');
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
     }
   };
 
-  const openEditModal = (userRole: UserRole) => {
-    setSelectedUserRole(userRole);
-    setFormEmail(userRole.email);
-    setFormRole(userRole.role);
-    setFormPermissions(userRole.permissions);
-    setFormIsActive(userRole.is_active);
+  const openEditModal = (member: OrganizationMember) => {
+    setSelectedMember(member);
+    setFormEmail(member.email || '');
+    setFormRole(member.role);
+    setFormPermissions(resolvePermissions(member.role, member.permissions));
+    setFormIsActive(member.is_active);
     setIsEditModalOpen(true);
   };
 
   const resetForm = () => {
     setFormEmail('');
     setFormRole('viewer');
-    setFormPermissions(defaultPermissions.viewer);
+    setFormPermissions(DEFAULT_PERMISSIONS.viewer);
     setFormIsActive(true);
   };
 
   const handleRoleChange = (role: Role) => {
     setFormRole(role);
-    setFormPermissions(defaultPermissions[role]);
+    setFormPermissions(DEFAULT_PERMISSIONS[role]);
   };
 
   const togglePermission = (key: keyof Permissions) => {
@@ -252,9 +179,9 @@ export default function UserRoles() {
     }));
   };
 
-  const filteredUserRoles = userRoles.filter(ur =>
-    (ur.email?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-    (ur.role?.toLowerCase() || '').includes(searchTerm.toLowerCase())
+  const filteredMembers = members.filter(m =>
+    (m.email?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
+    (m.role?.toLowerCase() || '').includes(searchTerm.toLowerCase())
   );
 
   const getRoleBadgeColor = (role: Role) => {
@@ -272,9 +199,9 @@ export default function UserRoles() {
     }
   };
 
-  const isAdmin = currentUserRole?.role === 'admin' && currentUserRole?.is_active;
+  const isAdmin = can('can_manage_roles');
 
-  if (loading) {
+  if (!organization || loading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
@@ -292,7 +219,7 @@ export default function UserRoles() {
             </div>
             User Roles Management
           </h1>
-          <p className="text-slate-400 mt-2">Manage user roles and permissions</p>
+          <p className="text-slate-400 mt-2">Manage the members of {organization.name} and their permissions</p>
         </div>
         {isAdmin && (
           <button
@@ -300,7 +227,7 @@ export default function UserRoles() {
             className="flex items-center gap-2 px-4 py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
           >
             <UserPlus className="w-5 h-5" />
-            Add User Role
+            Add Member
           </button>
         )}
       </div>
@@ -341,25 +268,28 @@ export default function UserRoles() {
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700/50">
-              {filteredUserRoles.length === 0 ? (
+              {filteredMembers.length === 0 ? (
                 <tr>
                   <td colSpan={isAdmin ? 5 : 4} className="px-6 py-12 text-center text-slate-400">
-                    No user roles found
+                    No members found
                   </td>
                 </tr>
               ) : (
-                filteredUserRoles.map((userRole) => (
-                  <tr key={userRole.id} className="hover:bg-slate-700/30 transition">
+                filteredMembers.map((member) => (
+                  <tr key={member.user_id} className="hover:bg-slate-700/30 transition">
                     <td className="px-6 py-4">
-                      <div className="text-white font-medium">{userRole.email}</div>
+                      <div className="text-white font-medium">
+                        {member.email || member.user_id}
+                        {member.user_id === user?.id && <span className="text-slate-500 text-sm font-normal ml-2">(you)</span>}
+                      </div>
                     </td>
                     <td className="px-6 py-4">
-                      <span className={`inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium border ${getRoleBadgeColor(userRole.role)}`}>
-                        {userRole.role.charAt(0).toUpperCase() + userRole.role.slice(1)}
+                      <span className={`inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium border ${getRoleBadgeColor(member.role)}`}>
+                        {member.role.charAt(0).toUpperCase() + member.role.slice(1)}
                       </span>
                     </td>
                     <td className="px-6 py-4">
-                      {userRole.is_active ? (
+                      {member.is_active ? (
                         <span className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium bg-green-500/20 text-green-400 border border-green-500/30">
                           <Check className="w-4 h-4" />
                           Active
@@ -372,22 +302,22 @@ export default function UserRoles() {
                       )}
                     </td>
                     <td className="px-6 py-4 text-slate-400">
-                      {new Date(userRole.created_at).toLocaleDateString()}
+                      {new Date(member.created_at).toLocaleDateString()}
                     </td>
                     {isAdmin && (
                       <td className="px-6 py-4">
                         <div className="flex items-center justify-end gap-2">
                           <button
-                            onClick={() => openEditModal(userRole)}
+                            onClick={() => openEditModal(member)}
                             className="p-2 text-blue-400 hover:text-blue-300 hover:bg-blue-500/10 rounded-lg transition"
                             title="Edit"
                           >
                             <Edit2 className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => handleDeleteUser(userRole.id)}
+                            onClick={() => handleDeleteUser(member)}
                             className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition"
-                            title="Delete"
+                            title="Remove"
                           >
                             <Trash2 className="w-4 h-4" />
                           </button>
@@ -406,7 +336,7 @@ export default function UserRoles() {
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-slate-800 rounded-xl border border-slate-700/50 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-slate-700/50">
-              <h2 className="text-2xl font-bold text-white">Add User Role</h2>
+              <h2 className="text-2xl font-bold text-white">Add Member</h2>
             </div>
             <div className="p-6 space-y-4">
               <div>
@@ -416,7 +346,7 @@ export default function UserRoles() {
                   value={formEmail}
                   onChange={(e) => setFormEmail(e.target.value)}
                   className="w-full px-4 py-3 bg-slate-900/50 border border-slate-700/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
-                  placeholder="user@example.com"
+                  placeholder="Email of a registered user"
                 />
               </div>
               <div>
@@ -477,18 +407,18 @@ export default function UserRoles() {
                 onClick={handleAddUser}
                 className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition"
               >
-                Add User
+                Add Member
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {isEditModalOpen && selectedUserRole && (
+      {isEditModalOpen && selectedMember && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-slate-800 rounded-xl border border-slate-700/50 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-slate-700/50">
-              <h2 className="text-2xl font-bold text-white">Edit User Role</h2>
+              <h2 className="text-2xl font-bold text-white">Edit Member</h2>
             </div>
             <div className="p-6 space-y-4">
               <div>
@@ -548,7 +478,7 @@ export default function UserRoles() {
               <button
                 onClick={() => {
                   setIsEditModalOpen(false);
-                  setSelectedUserRole(null);
+                  setSelectedMember(null);
                   resetForm();
                 }}
                 className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-white rounded-lg transition"
@@ -559,7 +489,7 @@ export default function UserRoles() {
                 onClick={handleUpdateUser}
                 className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition"
               >
-                Update User
+                Update Member
               </button>
             </div>
           </div>
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { supabase, Vehicle, VehicleSettings as VehicleSettingsRow } from '../lib/supabase';
+import { Settings, Gauge, Route, Timer, X, AlertCircle } from 'lucide-react';
+
+type SettingsForm = Pick<VehicleSettingsRow,
+  | 'max_speed_limit'
+  | 'enable_speed_alerts'
+  | 'max_idle_time_minutes'
+  | 'enable_idle_alerts'
+  | 'enable_trip_detection'
+  | 'trip_use_ignition'
+  | 'trip_min_speed_kmh'
+  | 'trip_end_dwell_minutes'
+  | 'trip_min_stop_minutes'
+  | 'trip_min_distance_km'
+  | 'trip_min_duration_minutes'
+>;
+
+// Same defaults as the vehicle_settings columns, used until a row exists
+const DEFAULT_SETTINGS: SettingsForm = {
+  max_speed_limit: 120,
+  enable_speed_alerts: true,
+  max_idle_time_minutes: 30,
+  enable_idle_alerts: true,
+  enable_trip_detection: true,
+  trip_use_ignition: true,
+  trip_min_speed_kmh: 5,
+  trip_end_dwell_minutes: 5,
+  trip_min_stop_minutes: 2,
+  trip_min_distance_km: 0.3,
+  trip_min_duration_minutes: 2,
+};
+
+interface VehicleSettingsProps {
+  vehicle: Vehicle;
+  onClose: () => void;
+}
+
+export default function VehicleSettings({ vehicle, onClose }: VehicleSettingsProps) {
+  const [formData, setFormData] = useState<SettingsForm>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('vehicle_settings')
+          .select('*')
+          .eq('vehicle_id', vehicle.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          const settings = { ...DEFAULT_SETTINGS };
+          for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof SettingsForm)[]) {
+            if (data[key] !== null && data[key] !== undefined) {
+              (settings as Record<string, unknown>)[key] = data[key];
+            }
+          }
+          setFormData(settings);
+        }
+      } catch (err) {
+        console.error('Error loading vehicle settings:', err);
+        setError('Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [vehicle.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const { error } = await supabase
+        .from('vehicle_settings')
+        .upsert(
+          { vehicle_id: vehicle.id, ...formData, updated_at: new Date().toISOString() },
+          { onConflict: 'vehicle_id' }
+        );
+
+      if (error) throw error;
+      onClose();
+    } catch (err) {
+      console.error('Error saving vehicle settings:', err);
+      setError('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (key: keyof SettingsForm, label: string, hint: string, step = '1') => (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-2">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={formData[key] as number}
+        onChange={(e) => setFormData({ ...formData, [key]: parseFloat(e.target.value) || 0 })}
+        className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        required
+      />
+      <p className="text-xs text-slate-500 mt-1">{hint}</p>
+    </div>
+  );
+
+  const toggleField = (key: keyof SettingsForm, label: string) => (
+    <label className="flex items-center gap-3 text-sm text-slate-300">
+      <input
+        type="checkbox"
+        checked={formData[key] as boolean}
+        onChange={(e) => setFormData({ ...formData, [key]: e.target.checked })}
+        className="w-4 h-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto my-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <Settings className="w-6 h-6 text-emerald-400" />
+            <div>
+              <h3 className="text-2xl font-bold text-white">Vehicle Settings</h3>
+              <p className="text-sm text-slate-400">{vehicle.name} • {vehicle.license_plate}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-400"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <section className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-orange-400" />
+                <h4 className="text-lg font-semibold text-white">Speed</h4>
+              </div>
+              {toggleField('enable_speed_alerts', 'Alert when the vehicle exceeds the speed limit')}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {numberField('max_speed_limit', 'Speed Limit (km/h)', 'Limit outside speed-limit zones, checked by the Speeding alert rule')}
+              </div>
+            </section>
+
+            <section className="space-y-4 pt-4 border-t border-slate-700/50">
+              <div className="flex items-center gap-2">
+                <Timer className="w-5 h-5 text-yellow-400" />
+                <h4 className="text-lg font-semibold text-white">Idling</h4>
+              </div>
+              {toggleField('enable_idle_alerts', 'Alert when the vehicle stands still with the engine running')}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {numberField('max_idle_time_minutes', 'Maximum Idle Time (min)', 'Requires a tracker that reports ignition')}
+              </div>
+            </section>
+
+            <section className="space-y-4 pt-4 border-t border-slate-700/50">
+              <div className="flex items-center gap-2">
+                <Route className="w-5 h-5 text-blue-400" />
+                <h4 className="text-lg font-semibold text-white">Trip Detection</h4>
+              </div>
+              {toggleField('enable_trip_detection', 'Detect trips automatically from GPS data')}
+              {toggleField('trip_use_ignition', 'End trips when the tracker reports ignition off')}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {numberField('trip_min_speed_kmh', 'Moving Speed (km/h)', 'At or above this speed the vehicle is driving', '0.5')}
+                {numberField('trip_end_dwell_minutes', 'Trip Ends After (min)', 'Standing still or silent this long ends the trip')}
+                {numberField('trip_min_stop_minutes', 'Minimum Stop (min)', 'Shorter standstills are not listed as stops')}
+                {numberField('trip_min_distance_km', 'Minimum Distance (km)', 'Shorter trips are ignored as GPS noise', '0.1')}
+                {numberField('trip_min_duration_minutes', 'Minimum Duration (min)', 'Shorter trips are ignored')}
+              </div>
+            </section>
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
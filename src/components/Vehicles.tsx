@@ -2,15 +2,21 @@ import { useEffect, useState } from 'react';
 import { supabase, Vehicle } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useFleet } from '../contexts/FleetContext';
-import { Truck, Plus, Edit2, Trash2, Gauge, Fuel, Calendar, Route, User } from 'lucide-react';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { Truck, Plus, Edit2, Trash2, Gauge, Fuel, Calendar, Route, User, Settings } from 'lucide-react';
+import VehicleSettings from './VehicleSettings';
 
 export default function Vehicles() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const canEdit = can('can_edit_vehicles');
+  const canDelete = can('can_delete_vehicles');
   const { getVehicleTrips, getDriverById, trips, getVehicleAssignment, vehicleAssignments } = useFleet();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+  const [settingsVehicle, setSettingsVehicle] = useState<Vehicle | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     type: 'truck',
@@ -19,6 +25,7 @@ export default function Vehicles() {
     year: new Date().getFullYear(),
     vin: '',
     license_plate: '',
+    fuel_card_number: '',
     status: 'active' as 'active' | 'maintenance' | 'inactive',
     odometer: 0,
     fuel_type: 'diesel',
@@ -50,13 +57,13 @@ export default function Vehicles() {
       if (editingVehicle) {
         const { error } = await supabase
           .from('vehicles')
-          .update({ ...formData, updated_at: new Date().toISOString() })
+          .update({ ...formData, fuel_card_number: formData.fuel_card_number || null, updated_at: new Date().toISOString() })
           .eq('id', editingVehicle.id);
         if (error) throw error;
       } else {
         const { error } = await supabase
           .from('vehicles')
-          .insert([{ ...formData, user_id: user!.id }]);
+          .insert([{ ...formData, fuel_card_number: formData.fuel_card_number || null, user_id: user!.id }]);
         if (error) throw error;
       }
 
@@ -78,6 +85,7 @@ export default function Vehicles() {
       year: vehicle.year,
       vin: vehicle.vin,
       license_plate: vehicle.license_plate,
+      fuel_card_number: vehicle.fuel_card_number || '',
       status: vehicle.status,
       odometer: vehicle.odometer,
       fuel_type: vehicle.fuel_type,
@@ -109,6 +117,7 @@ export default function Vehicles() {
       year: new Date().getFullYear(),
       vin: '',
       license_plate: '',
+      fuel_card_number: '',
       status: 'active',
       odometer: 0,
       fuel_type: 'diesel',
@@ -130,27 +139,35 @@ export default function Vehicles() {
           <h2 className="text-xl sm:text-2xl font-bold text-white mb-1 sm:mb-2">Vehicles</h2>
           <p className="text-sm sm:text-base text-slate-400">Manage your fleet vehicles</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base w-full sm:w-auto justify-center"
-        >
-          <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
-          Add Vehicle
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition shadow-lg shadow-emerald-500/20 text-sm sm:text-base w-full sm:w-auto justify-center"
+          >
+            <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
+            Add Vehicle
+          </button>
+        )}
       </div>
 
       {vehicles.length === 0 ? (
         <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
           <Truck className="w-16 h-16 text-slate-600 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-white mb-2">No vehicles yet</h3>
-          <p className="text-slate-400 mb-6">Get started by adding your first vehicle to the fleet</p>
-          <button
-            onClick={() => setShowModal(true)}
-            className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
-          >
-            <Plus className="w-5 h-5" />
-            Add Your First Vehicle
-          </button>
+          {canEdit ? (
+            <>
+              <p className="text-slate-400 mb-6">Get started by adding your first vehicle to the fleet</p>
+              <button
+                onClick={() => setShowModal(true)}
+                className="inline-flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-6 py-3 rounded-xl transition"
+              >
+                <Plus className="w-5 h-5" />
+                Add Your First Vehicle
+              </button>
+            </>
+          ) : (
+            <p className="text-slate-400">Vehicles added to the fleet will show up here</p>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -291,27 +308,46 @@ export default function Vehicles() {
                 return null;
               })()}
 
-              <div className="flex gap-2 pt-4 border-t border-slate-700/50">
-                <button
-                  onClick={() => handleEdit(vehicle)}
-                  className="flex-1 flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition text-sm font-medium"
-                >
-                  <Edit2 className="w-4 h-4" />
-                  Edit
-                </button>
-                <button
-                  onClick={() => handleDelete(vehicle.id)}
-                  className="flex-1 flex items-center justify-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 px-4 py-2 rounded-lg transition text-sm font-medium"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  Delete
-                </button>
-              </div>
+              {(canEdit || canDelete) && (
+                <div className="flex gap-2 pt-4 border-t border-slate-700/50">
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => handleEdit(vehicle)}
+                        className="flex-1 flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition text-sm font-medium"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setSettingsVehicle(vehicle)}
+                        className="flex items-center justify-center gap-2 bg-slate-700/50 hover:bg-slate-700 text-white px-3 py-2 rounded-lg transition text-sm font-medium"
+                        title="Vehicle settings"
+                      >
+                        <Settings className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDelete(vehicle.id)}
+                      className="flex-1 flex items-center justify-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 px-4 py-2 rounded-lg transition text-sm font-medium"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
       )}
 
+      {settingsVehicle && (
+        <VehicleSettings vehicle={settingsVehicle} onClose={() => setSettingsVehicle(null)} />
+      )}
+
       {showModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
           <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto my-8">
@@ -415,6 +451,19 @@ export default function Vehicles() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Fuel Card Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.fuel_card_number}
+                    onChange={(e) => setFormData({ ...formData, fuel_card_number: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    placeholder="Matched against fuel card statements"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">
                     Status
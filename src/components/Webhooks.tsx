@@ -0,0 +1,504 @@
+import { useEffect, useState } from 'react';
+import { supabase, WebhookDelivery, WebhookSubscription } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { WEBHOOK_EVENT_GROUPS, generateWebhookSecret } from '../lib/webhooks';
+import { Webhook, Plus, Edit2, Trash2, Power, X, Eye, EyeOff, Copy, RefreshCw, RotateCcw, Send, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type SubscriptionForm = Pick<WebhookSubscription, 'name' | 'url' | 'event_types'>;
+
+const emptySubscription = (): SubscriptionForm => ({ name: '', url: '', event_types: [] });
+
+const inputClass = 'w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  delivered: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+};
+
+type DeliveryFilter = 'all' | WebhookDelivery['status'];
+
+// Latest 50 deliveries of a subscription
+async function fetchDeliveries(subscriptionId: string, status: DeliveryFilter): Promise<WebhookDelivery[]> {
+  try {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('subscription_id', subscriptionId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (status !== 'all') query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error loading webhook deliveries:', error);
+    return [];
+  }
+}
+
+export default function Webhooks() {
+  const { user } = useAuth();
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<DeliveryFilter>('all');
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(emptySubscription);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) loadSubscriptions();
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedId) fetchDeliveries(selectedId, statusFilter).then(setDeliveries);
+    else setDeliveries([]);
+  }, [selectedId, statusFilter]);
+
+  const loadSubscriptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_subscriptions')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setSubscriptions(data || []);
+      setSelectedId((current) => current ?? data?.[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading webhook subscriptions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDeliveries = async (subscriptionId: string, status: DeliveryFilter) => {
+    setDeliveries(await fetchDeliveries(subscriptionId, status));
+  };
+
+  const openModal = (subscription: WebhookSubscription | null) => {
+    setEditing(subscription);
+    setForm(subscription
+      ? { name: subscription.name, url: subscription.url, event_types: subscription.event_types }
+      : emptySubscription());
+    setError('');
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!/^https?:\/\//.test(form.url)) {
+      setError('The URL must start with http:// or https://');
+      return;
+    }
+    if (form.event_types.length === 0) {
+      setError('Select at least one event');
+      return;
+    }
+
+    try {
+      if (editing) {
+        const { error } = await supabase
+          .from('webhook_subscriptions')
+          .update({ ...form, updated_at: new Date().toISOString() })
+          .eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('webhook_subscriptions')
+          .insert([{ ...form, user_id: user?.id }])
+          .select()
+          .single();
+        if (error) throw error;
+        setSelectedId(data.id);
+        setRevealedSecretId(data.id);
+      }
+      setShowModal(false);
+      loadSubscriptions();
+    } catch (err) {
+      console.error('Error saving webhook subscription:', err);
+      setError('Failed to save webhook');
+    }
+  };
+
+  const toggleSubscription = async (subscription: WebhookSubscription) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_subscriptions')
+        .update({ is_enabled: !subscription.is_enabled, updated_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+
+      if (error) throw error;
+      loadSubscriptions();
+    } catch (error) {
+      console.error('Error updating webhook subscription:', error);
+    }
+  };
+
+  const deleteSubscription = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Delete the webhook "${subscription.name}" and its delivery log?`)) return;
+
+    try {
+      const { error } = await supabase.from('webhook_subscriptions').delete().eq('id', subscription.id);
+      if (error) throw error;
+      if (selectedId === subscription.id) setSelectedId(null);
+      loadSubscriptions();
+    } catch (error) {
+      console.error('Error deleting webhook subscription:', error);
+    }
+  };
+
+  const rotateSecret = async (subscription: WebhookSubscription) => {
+    if (!confirm('Rotate the signing secret? The receiver must be updated with the new one.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('webhook_subscriptions')
+        .update({ secret: generateWebhookSecret(), updated_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+
+      if (error) throw error;
+      setRevealedSecretId(subscription.id);
+      loadSubscriptions();
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+    }
+  };
+
+  // Replays and pings are new pending deliveries, sent by the GPS server within seconds
+  const queueDelivery = async (subscription: WebhookSubscription, delivery: Pick<WebhookDelivery, 'event_type' | 'event_id' | 'payload'> & { replay_of?: string }) => {
+    try {
+      const { error } = await supabase.from('webhook_deliveries').insert([{
+        ...delivery,
+        subscription_id: subscription.id,
+        user_id: user?.id,
+      }]);
+
+      if (error) throw error;
+      loadDeliveries(subscription.id, statusFilter);
+    } catch (error) {
+      console.error('Error queueing webhook delivery:', error);
+    }
+  };
+
+  const sendTest = (subscription: WebhookSubscription) => {
+    const eventId = crypto.randomUUID();
+    queueDelivery(subscription, {
+      event_type: 'ping',
+      event_id: eventId,
+      payload: { id: eventId, type: 'ping', created_at: new Date().toISOString(), data: { message: 'Test delivery' } },
+    });
+  };
+
+  const replay = (subscription: WebhookSubscription, delivery: WebhookDelivery) => {
+    queueDelivery(subscription, {
+      event_type: delivery.event_type,
+      event_id: delivery.event_id,
+      payload: delivery.payload,
+      replay_of: delivery.id,
+    });
+  };
+
+  const toggleEvent = (value: string) => {
+    setForm({
+      ...form,
+      event_types: form.event_types.includes(value)
+        ? form.event_types.filter((t) => t !== value)
+        : [...form.event_types, value],
+    });
+  };
+
+  const selected = subscriptions.find((s) => s.id === selectedId) || null;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Webhooks</h2>
+          <p className="text-slate-400">Signed HTTP callbacks to dispatch, ERP and other systems</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl transition font-medium"
+        >
+          <Plus className="w-5 h-5" />
+          New Webhook
+        </button>
+      </div>
+
+      {subscriptions.length === 0 ? (
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-12 text-center">
+          <Webhook className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No webhooks</h3>
+          <p className="text-slate-400">Subscribe a URL to positions, alerts, geofence, trip or assignment events</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            {subscriptions.map((subscription) => (
+              <div
+                key={subscription.id}
+                onClick={() => setSelectedId(subscription.id)}
+                className={`bg-slate-800/50 backdrop-blur-sm border rounded-xl p-4 cursor-pointer transition ${
+                  selectedId === subscription.id ? 'border-emerald-500/50' : 'border-slate-700/50 hover:border-slate-600'
+                } ${subscription.is_enabled ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-white truncate">{subscription.name}</h3>
+                    <p className="text-xs text-slate-400 truncate">{subscription.url}</p>
+                    <p className="text-xs text-slate-500 mt-1">{subscription.event_types.length} event type(s)</p>
+                  </div>
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => toggleSubscription(subscription)}
+                      className={`p-1.5 rounded-lg transition ${subscription.is_enabled ? 'text-emerald-400 hover:bg-emerald-500/10' : 'text-slate-500 hover:bg-slate-700/50'}`}
+                      title={subscription.is_enabled ? 'Disable' : 'Enable'}
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openModal(subscription)}
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteSubscription(subscription)}
+                      className="p-1.5 text-red-400 hover:bg-red-500/10 rounded-lg transition"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="lg:col-span-2 space-y-4">
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+                <h3 className="text-lg font-bold text-white mb-3">Signing Secret</h3>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700/50 rounded-lg text-sm text-slate-300 font-mono truncate">
+                    {revealedSecretId === selected.id ? selected.secret : '•'.repeat(32)}
+                  </code>
+                  <button
+                    onClick={() => setRevealedSecretId(revealedSecretId === selected.id ? null : selected.id)}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                    title={revealedSecretId === selected.id ? 'Hide' : 'Reveal'}
+                  >
+                    {revealedSecretId === selected.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(selected.secret)}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                    title="Copy"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => rotateSecret(selected)}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                    title="Rotate"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  Each request carries <code>X-Fleet-Signature: sha256=HMAC(secret, timestamp + "." + body)</code> with
+                  the timestamp of <code>X-Fleet-Timestamp</code>.
+                </p>
+              </div>
+
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h3 className="text-lg font-bold text-white">Deliveries</h3>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(['all', 'pending', 'delivered', 'failed'] as const).map((status) => (
+                      <button
+                        key={status}
+                        onClick={() => setStatusFilter(status)}
+                        className={`px-3 py-1 rounded-lg text-xs font-medium transition ${
+                          statusFilter === status ? 'bg-emerald-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => loadDeliveries(selected.id, statusFilter)}
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                      title="Refresh"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => sendTest(selected)}
+                      className="flex items-center gap-1 px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs font-medium transition"
+                    >
+                      <Send className="w-3 h-3" />
+                      Send test
+                    </button>
+                  </div>
+                </div>
+
+                {deliveries.length === 0 ? (
+                  <p className="text-sm text-slate-400">No deliveries yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {deliveries.map((delivery) => (
+                      <div key={delivery.id} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3">
+                        <div className="flex flex-wrap items-center gap-3 text-sm">
+                          <button
+                            onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                            className="font-mono text-white hover:text-emerald-400 transition"
+                          >
+                            {delivery.event_type}
+                          </button>
+                          <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                          {delivery.replay_of && <span className="text-xs text-slate-500">replay</span>}
+                          <span className="text-xs text-slate-400">
+                            {delivery.attempts} attempt(s){delivery.response_status ? ` · HTTP ${delivery.response_status}` : ''}
+                          </span>
+                          <span className="text-xs text-slate-500 ml-auto">
+                            {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                          </span>
+                          <button
+                            onClick={() => replay(selected, delivery)}
+                            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition"
+                            title="Replay"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {delivery.last_error && (
+                          <p className="text-xs text-red-400 mt-1 truncate">{delivery.last_error}</p>
+                        )}
+                        {delivery.status === 'pending' && delivery.attempts > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Next attempt {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                          </p>
+                        )}
+                        {expandedDeliveryId === delivery.id && (
+                          <pre className="mt-2 p-2 bg-slate-950/50 rounded-lg text-xs text-slate-400 overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 overflow-y-auto">
+          <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto my-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-2xl font-bold text-white">{editing ? 'Edit Webhook' : 'New Webhook'}</h3>
+              <button onClick={() => setShowModal(false)} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g. Dispatch system"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">URL</label>
+                <input
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  className={inputClass}
+                  placeholder="https://erp.example.com/hooks/fleet"
+                  required
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Must be reachable from the internet; local and private network addresses are refused.
+                </p>
+              </div>
+              <div className="space-y-4">
+                <label className="block text-sm font-medium text-slate-300">Events</label>
+                {WEBHOOK_EVENT_GROUPS.map((group) => (
+                  <div key={group.label}>
+                    <p className="text-xs font-semibold text-slate-400 uppercase mb-2">{group.label}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {group.events.map((event) => (
+                        <label key={event.value} className="flex items-center gap-2 text-sm text-slate-300">
+                          <input
+                            type="checkbox"
+                            checked={form.event_types.includes(event.value)}
+                            onChange={() => toggleEvent(event.value)}
+                            className="w-4 h-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+                          />
+                          {event.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-semibold rounded-xl transition"
+                >
+                  {editing ? 'Update Webhook' : 'Create Webhook'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -140,7 +140,6 @@ export default function WorldMap({
       `}</style>
 
       <MapContainer
-        // @ts-expect-error - center prop type
         center={[20, 0]}
         zoom={2}
         minZoom={2}
@@ -152,7 +151,6 @@ export default function WorldMap({
       >
         <TileLayer
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          // @ts-expect-error - attribution prop type
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           maxZoom={18}
           minZoom={2}
@@ -178,7 +176,6 @@ export default function WorldMap({
             <Marker
               key={vehicle.id}
               position={[latitude, longitude]}
-              // @ts-expect-error - icon prop type
               icon={customIcon}
               eventHandlers={{
                 click: () => onVehicleSelect(vehicle),
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { supabase, Vehicle, Driver, Trip, MaintenanceRecord, GPSLocation, VehicleAssignment } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { useOrganization } from './OrganizationContext';
 
 interface FleetContextType {
   vehicles: Vehicle[];
@@ -46,6 +47,8 @@ const FleetContext = createContext<FleetContextType | undefined>(undefined);
 
 export function FleetProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
   
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
@@ -64,14 +67,14 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
   });
 
   const refreshVehicles = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, vehicles: true }));
     try {
       const { data, error } = await supabase
         .from('vehicles')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('organization_id', organizationId)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -81,17 +84,17 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, vehicles: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshDrivers = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, drivers: true }));
     try {
       const { data, error } = await supabase
         .from('drivers')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('organization_id', organizationId)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -101,17 +104,17 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, drivers: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshTrips = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, trips: true }));
     try {
       const { data, error } = await supabase
         .from('trips')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('organization_id', organizationId)
         .order('departure_time', { ascending: true });
       
       if (error) throw error;
@@ -121,16 +124,17 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, trips: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshMaintenance = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, maintenance: true }));
     try {
       const { data, error } = await supabase
         .from('maintenance_records')
         .select('*')
+        .eq('organization_id', organizationId)
         .order('scheduled_date', { ascending: false });
       
       if (error) throw error;
@@ -140,17 +144,18 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, maintenance: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshGPS = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, gps: true }));
     try {
-      // Get latest GPS location for each vehicle
+      // Get latest GPS location for each vehicle of the organization
       const { data, error } = await supabase
         .from('gps_locations')
-        .select('*')
+        .select('*, vehicles!inner()')
+        .eq('vehicles.organization_id', organizationId)
         .order('timestamp', { ascending: false });
       
       if (error) throw error;
@@ -169,16 +174,17 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, gps: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshAssignments = useCallback(async () => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     setLoading(prev => ({ ...prev, assignments: true }));
     try {
       const { data, error } = await supabase
         .from('vehicle_assignments')
         .select('*')
+        .eq('organization_id', organizationId)
         .order('assigned_at', { ascending: false });
       
       if (error) throw error;
@@ -188,7 +194,7 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(prev => ({ ...prev, assignments: false }));
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const refreshAll = useCallback(async () => {
     await Promise.all([
@@ -269,19 +275,19 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     vehicleAssignments.find(a => a.driver_id === driverId && a.status === 'active');
 
   useEffect(() => {
-    if (user) {
+    if (user && organizationId) {
       refreshAll();
     }
-  }, [user, refreshAll]);
+  }, [user, organizationId, refreshAll]);
 
   useEffect(() => {
-    if (!user) return;
+    if (!user || !organizationId) return;
 
     const subscriptions = [
       supabase
         .channel('vehicles_changes')
         .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'vehicles', filter: `user_id=eq.${user.id}` },
+          { event: '*', schema: 'public', table: 'vehicles', filter: `organization_id=eq.${organizationId}` },
           () => refreshVehicles()
         )
         .subscribe(),
@@ -289,7 +295,7 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
       supabase
         .channel('trips_changes')
         .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'trips', filter: `user_id=eq.${user.id}` },
+          { event: '*', schema: 'public', table: 'trips', filter: `organization_id=eq.${organizationId}` },
           () => refreshTrips()
         )
         .subscribe(),
@@ -297,7 +303,7 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
       supabase
         .channel('drivers_changes')
         .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'drivers', filter: `user_id=eq.${user.id}` },
+          { event: '*', schema: 'public', table: 'drivers', filter: `organization_id=eq.${organizationId}` },
           () => refreshDrivers()
         )
         .subscribe(),
@@ -305,12 +311,13 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
       supabase
         .channel('maintenance_changes')
         .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'maintenance_records' },
+          { event: '*', schema: 'public', table: 'maintenance_records', filter: `organization_id=eq.${organizationId}` },
           () => refreshMaintenance()
         )
         .subscribe(),
       
-      // Real-time GPS location updates
+      // Real-time GPS location updates; there is no organization column, RLS only sends the
+      // locations of the current organization's vehicles
       supabase
         .channel('gps_locations_changes')
         .on('postgres_changes', 
@@ -323,7 +330,7 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
       supabase
         .channel('assignments_changes')
         .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'vehicle_assignments' },
+          { event: '*', schema: 'public', table: 'vehicle_assignments', filter: `organization_id=eq.${organizationId}` },
           () => refreshAssignments()
         )
         .subscribe(),
@@ -332,7 +339,7 @@ export function FleetProvider({ children }: { children: React.ReactNode }) {
     return () => {
       subscriptions.forEach(sub => sub.unsubscribe());
     };
-  }, [user, refreshVehicles, refreshTrips, refreshDrivers, refreshMaintenance, refreshGPS, refreshAssignments]);
+  }, [user, organizationId, refreshVehicles, refreshTrips, refreshDrivers, refreshMaintenance, refreshGPS, refreshAssignments]);
 
   const value: FleetContextType = {
     vehicles,
@@ -0,0 +1,116 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase, toOne, Organization, OrganizationRole, Permissions } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+export type Membership = {
+  organization: Organization;
+  role: OrganizationRole;
+  permissions: Partial<Permissions>;
+  is_current: boolean;
+};
+
+type OrganizationContextType = {
+  memberships: Membership[];
+  organization: Organization | null;
+  role: OrganizationRole | null;
+  // Admins and managers change fleet data, drivers and viewers only read it
+  canEdit: boolean;
+  loading: boolean;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  createOrganization: (name: string) => Promise<void>;
+  refreshOrganizations: () => Promise<void>;
+};
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+async function fetchMemberships(userId: string): Promise<Membership[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, permissions, is_current, created_at, organization:organizations(*)')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).flatMap((row) => {
+    const organization: Organization | null = toOne(row.organization);
+    if (!organization) return [];
+    return [{
+      organization,
+      role: row.role as OrganizationRole,
+      permissions: row.permissions || {},
+      is_current: row.is_current,
+    }];
+  });
+}
+
+// Same choice as current_organization_id() in the database, which scopes the RLS policies
+function currentMembership(memberships: Membership[]): Membership | null {
+  return memberships.find((m) => m.is_current) ?? memberships[0] ?? null;
+}
+
+export function OrganizationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshOrganizations = useCallback(async () => {
+    if (!user) {
+      setMemberships([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setMemberships(await fetchMemberships(user.id));
+    } catch (error) {
+      console.error('Error loading organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshOrganizations();
+  }, [refreshOrganizations]);
+
+  const switchOrganization = async (organizationId: string) => {
+    const { error } = await supabase.rpc('switch_organization', { p_organization_id: organizationId });
+    if (error) throw error;
+    setMemberships((prev) => prev.map((m) => ({ ...m, is_current: m.organization.id === organizationId })));
+  };
+
+  const createOrganization = async (name: string) => {
+    const { error } = await supabase.rpc('create_organization', { p_name: name });
+    if (error) throw error;
+    await refreshOrganizations();
+  };
+
+  const current = currentMembership(memberships);
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        memberships,
+        organization: current?.organization ?? null,
+        role: current?.role ?? null,
+        canEdit: current?.role === 'admin' || current?.role === 'manager',
+        loading,
+        switchOrganization,
+        createOrganization,
+        refreshOrganizations,
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+}
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { Permissions } from '../lib/supabase';
+import { NO_PERMISSIONS, resolvePermissions } from '../lib/permissions';
+import { useOrganization } from './OrganizationContext';
+
+type PermissionsContextType = {
+  // Permissions of the user in the current organization; the RLS policies check the same ones
+  permissions: Permissions;
+  can: (permission: keyof Permissions) => boolean;
+};
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function PermissionsProvider({ children }: { children: ReactNode }) {
+  const { memberships, organization } = useOrganization();
+
+  const membership = memberships.find((m) => m.organization.id === organization?.id);
+  const permissions = membership ? resolvePermissions(membership.role, membership.permissions) : NO_PERMISSIONS;
+
+  return (
+    <PermissionsContext.Provider value={{ permissions, can: (permission) => permissions[permission] }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,112 @@
+import { Alert, AlertRule, Geofence, RuleCondition, RuleConditionGroup, RuleField } from './supabase';
+
+// Condition fields of alert rules, evaluated by the GPS server (gps-server/lib/rules.js)
+
+export type RuleFieldDefinition = {
+  label: string;
+  unit?: string;
+  ops: { value: string; label: string }[];
+};
+
+const NUMERIC_OPS = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+];
+
+export const RULE_FIELDS: Record<RuleField, RuleFieldDefinition> = {
+  speed: { label: 'Speed', unit: 'km/h', ops: NUMERIC_OPS },
+  speed_over_limit: { label: 'Speed over limit', unit: 'km/h', ops: NUMERIC_OPS },
+  fuel_percent: { label: 'Fuel level', unit: '%', ops: NUMERIC_OPS },
+  battery_voltage: { label: 'Battery voltage', unit: 'V', ops: NUMERIC_OPS },
+  engine_status: {
+    label: 'Engine',
+    ops: [
+      { value: 'eq', label: 'is' },
+      { value: 'neq', label: 'is not' },
+    ],
+  },
+  time_of_day: { label: 'Time of day', ops: [{ value: 'between', label: 'between' }] },
+  geofence: {
+    label: 'Geofence',
+    ops: [
+      { value: 'inside', label: 'is inside' },
+      { value: 'outside', label: 'is outside' },
+      { value: 'enters', label: 'enters' },
+      { value: 'exits', label: 'exits' },
+    ],
+  },
+};
+
+export const RULE_ALERT_TYPES: { value: Alert['alert_type']; label: string }[] = [
+  { value: 'custom_rule', label: 'Custom' },
+  { value: 'speed_limit', label: 'Speeding' },
+  { value: 'geofence_enter', label: 'Geofence entry' },
+  { value: 'geofence_exit', label: 'Geofence exit' },
+  { value: 'low_fuel', label: 'Low fuel' },
+  { value: 'engine_on', label: 'Engine on' },
+  { value: 'engine_off', label: 'Engine off' },
+  { value: 'battery_disconnect', label: 'Battery' },
+];
+
+export const isConditionGroup = (node: RuleCondition | RuleConditionGroup): node is RuleConditionGroup =>
+  Array.isArray((node as RuleConditionGroup).conditions);
+
+/**
+ * A condition on `field` with a sensible starting value.
+ */
+export function defaultCondition(field: RuleField, geofences: Geofence[] = []): RuleCondition {
+  switch (field) {
+    case 'speed':
+      return { field, op: 'gt', value: 100 };
+    case 'speed_over_limit':
+      return { field, op: 'gt', value: 0 };
+    case 'fuel_percent':
+      return { field, op: 'lt', value: 15 };
+    case 'battery_voltage':
+      return { field, op: 'lt', value: 11.5 };
+    case 'engine_status':
+      return { field, op: 'eq', value: 'on' };
+    case 'time_of_day':
+      return { field, op: 'between', value: ['22:00', '05:00'] };
+    case 'geofence':
+      return { field, op: 'inside', value: geofences[0]?.id || '' };
+  }
+}
+
+function describeCondition(condition: RuleCondition, geofences: Geofence[]): string {
+  const definition = RULE_FIELDS[condition.field];
+  const op = definition.ops.find((o) => o.value === condition.op)?.label || condition.op;
+
+  if (condition.field === 'time_of_day' && Array.isArray(condition.value)) {
+    return `time between ${condition.value[0]} and ${condition.value[1]}`;
+  }
+  if (condition.field === 'geofence') {
+    const name = geofences.find((g) => g.id === condition.value)?.name || 'unknown geofence';
+    return `${op} ${name}`;
+  }
+  return `${definition.label.toLowerCase()} ${op} ${condition.value}${definition.unit ? ` ${definition.unit}` : ''}`;
+}
+
+/**
+ * One-line summary of a condition tree, e.g. "speed > 100 km/h AND (fuel level < 15 % OR ...)".
+ */
+export function describeConditions(group: RuleConditionGroup, geofences: Geofence[], nested = false): string {
+  const parts = group.conditions.map((node) =>
+    isConditionGroup(node) ? describeConditions(node, geofences, true) : describeCondition(node, geofences)
+  );
+  const text = parts.join(group.operator === 'or' ? ' OR ' : ' AND ');
+  return nested && parts.length > 1 ? `(${text})` : text;
+}
+
+/**
+ * "for 5 min" style suffix of a rule's duration, empty when it fires at once.
+ */
+export function describeDuration(rule: Pick<AlertRule, 'duration_seconds'>): string {
+  const seconds = rule.duration_seconds;
+  if (!seconds) return '';
+  if (seconds % 3600 === 0) return `for ${seconds / 3600} h`;
+  if (seconds % 60 === 0) return `for ${seconds / 60} min`;
+  return `for ${seconds} s`;
+}
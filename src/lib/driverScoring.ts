@@ -0,0 +1,216 @@
+import { Alert, TripRoute, VehicleAssignment } from './supabase';
+
+// Driver safety scores. Alerts and detected trips are attributed to the driver assigned to the
+// vehicle at the time, events are normalised per 100 km driven and subtracted from 100.
+
+export type ScorePeriod = 'week' | 'month';
+
+export type PeriodRange = {
+  start: Date;
+  end: Date;
+  label: string;
+};
+
+export type ScoreEventKind = 'speeding' | 'harsh_braking' | 'harsh_acceleration' | 'harsh_cornering' | 'idle';
+
+export type DriverScore = {
+  driverId: string;
+  distanceKm: number;
+  drivingHours: number;
+  nightHours: number;
+  counts: Record<ScoreEventKind, number>;
+  penalties: Record<ScoreEventKind | 'night', number>;
+  // null when the driver drove too little in the period to be scored
+  score: number | null;
+  events: Alert[];
+  trips: TripRoute[];
+};
+
+export const SCORE_EVENT_KINDS: ScoreEventKind[] = ['speeding', 'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle'];
+
+export const SCORE_EVENT_LABELS: Record<ScoreEventKind, string> = {
+  speeding: 'Speeding',
+  harsh_braking: 'Harsh Braking',
+  harsh_acceleration: 'Harsh Acceleration',
+  harsh_cornering: 'Harsh Cornering',
+  idle: 'Excessive Idling',
+};
+
+export const SCORED_ALERT_TYPES: Alert['alert_type'][] = [
+  'speed_limit', 'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+];
+
+const ALERT_KINDS: Partial<Record<Alert['alert_type'], ScoreEventKind>> = {
+  speed_limit: 'speeding',
+  harsh_braking: 'harsh_braking',
+  harsh_acceleration: 'harsh_acceleration',
+  harsh_cornering: 'harsh_cornering',
+  idle_too_long: 'idle',
+};
+
+// Points deducted per event and 100 km
+const EVENT_WEIGHTS: Record<ScoreEventKind, number> = {
+  speeding: 5,
+  harsh_braking: 4,
+  harsh_acceleration: 3,
+  harsh_cornering: 4,
+  idle: 2,
+};
+// Points deducted when all driving happens at night, proportionally less otherwise
+const NIGHT_WEIGHT = 20;
+// Night is 22:00 to 05:00 local time
+const NIGHT_START_HOUR = 22;
+const NIGHT_END_HOUR = 5;
+// Drivers with less distance in a period get no score
+export const MIN_SCORED_DISTANCE_KM = 10;
+
+/**
+ * The last `count` weeks (starting Monday) or months up to the one containing `anchor`, oldest first.
+ */
+export function periodRanges(period: ScorePeriod, count: number, anchor = new Date()): PeriodRange[] {
+  const ranges: PeriodRange[] = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    let start: Date;
+    let end: Date;
+
+    if (period === 'week') {
+      start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - i * 7);
+      end = new Date(start);
+      end.setDate(end.getDate() + 7);
+    } else {
+      start = new Date(anchor.getFullYear(), anchor.getMonth() - i, 1);
+      end = new Date(anchor.getFullYear(), anchor.getMonth() - i + 1, 1);
+    }
+
+    ranges.push({
+      start,
+      end,
+      label: period === 'week'
+        ? start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+        : start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' }),
+    });
+  }
+
+  return ranges;
+}
+
+/**
+ * Driver assigned to the vehicle at `time`, the most recent assignment wins when they overlap.
+ */
+export function assignedDriverAt(assignments: VehicleAssignment[], vehicleId: string, time: number): string | null {
+  let best: VehicleAssignment | null = null;
+
+  for (const assignment of assignments) {
+    if (assignment.vehicle_id !== vehicleId) continue;
+    if (Date.parse(assignment.assigned_at) > time) continue;
+    if (assignment.returned_at && Date.parse(assignment.returned_at) <= time) continue;
+    if (!best || assignment.assigned_at > best.assigned_at) best = assignment;
+  }
+
+  return best ? best.driver_id : null;
+}
+
+/**
+ * Hours of [start, end] falling between NIGHT_START_HOUR and NIGHT_END_HOUR.
+ */
+export function nightHours(start: number, end: number): number {
+  let overlapMs = 0;
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - 1);
+
+  while (day.getTime() < end) {
+    const nightStart = new Date(day);
+    nightStart.setHours(NIGHT_START_HOUR);
+    const nightEnd = new Date(day);
+    nightEnd.setDate(nightEnd.getDate() + 1);
+    nightEnd.setHours(NIGHT_END_HOUR);
+
+    overlapMs += Math.max(0, Math.min(end, nightEnd.getTime()) - Math.max(start, nightStart.getTime()));
+    day.setDate(day.getDate() + 1);
+  }
+
+  return overlapMs / 3600000;
+}
+
+const emptyScore = (driverId: string): DriverScore => ({
+  driverId,
+  distanceKm: 0,
+  drivingHours: 0,
+  nightHours: 0,
+  counts: { speeding: 0, harsh_braking: 0, harsh_acceleration: 0, harsh_cornering: 0, idle: 0 },
+  penalties: { speeding: 0, harsh_braking: 0, harsh_acceleration: 0, harsh_cornering: 0, idle: 0, night: 0 },
+  score: null,
+  events: [],
+  trips: [],
+});
+
+/**
+ * Scores of every driver with trips or events in the period.
+ */
+export function computeDriverScores(
+  range: PeriodRange,
+  data: { alerts: Alert[]; trips: TripRoute[]; assignments: VehicleAssignment[] }
+): Map<string, DriverScore> {
+  const scores = new Map<string, DriverScore>();
+  const from = range.start.getTime();
+  const to = range.end.getTime();
+
+  const scoreOf = (driverId: string) => {
+    let score = scores.get(driverId);
+    if (!score) {
+      score = emptyScore(driverId);
+      scores.set(driverId, score);
+    }
+    return score;
+  };
+
+  for (const trip of data.trips) {
+    if (!trip.vehicle_id || !trip.started_at || !trip.ended_at) continue;
+    const start = Date.parse(trip.started_at);
+    const end = Date.parse(trip.ended_at);
+    if (start < from || start >= to) continue;
+
+    const driverId = assignedDriverAt(data.assignments, trip.vehicle_id, start);
+    if (!driverId) continue;
+
+    const score = scoreOf(driverId);
+    score.trips.push(trip);
+    score.distanceKm += trip.total_distance_km || 0;
+    score.drivingHours += (end - start) / 3600000;
+    score.nightHours += nightHours(start, end);
+  }
+
+  for (const alert of data.alerts) {
+    const kind = ALERT_KINDS[alert.alert_type];
+    if (!kind) continue;
+    const time = Date.parse(alert.created_at);
+    if (time < from || time >= to) continue;
+
+    const driverId = alert.driver_id || assignedDriverAt(data.assignments, alert.vehicle_id, time);
+    if (!driverId) continue;
+
+    const score = scoreOf(driverId);
+    score.events.push(alert);
+    // An episode stands for all its occurrences
+    score.counts[kind] += alert.occurrence_count || 1;
+  }
+
+  for (const score of scores.values()) {
+    if (score.distanceKm < MIN_SCORED_DISTANCE_KM) continue;
+
+    let total = 0;
+    for (const kind of SCORE_EVENT_KINDS) {
+      score.penalties[kind] = (score.counts[kind] / score.distanceKm) * 100 * EVENT_WEIGHTS[kind];
+      total += score.penalties[kind];
+    }
+    score.penalties.night = score.drivingHours > 0 ? (score.nightHours / score.drivingHours) * NIGHT_WEIGHT : 0;
+    total += score.penalties.night;
+
+    score.score = Math.max(0, Math.round(100 - total));
+  }
+
+  return scores;
+}
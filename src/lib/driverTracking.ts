@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+import { GPS_SERVER_URL } from './gpsSocket';
+
+// The driver app posts at most one fix per interval, watchPosition fires on every small move
+export const DRIVER_POSITION_INTERVAL_MS = 10 * 1000;
+
+// Sends a browser Geolocation fix to the GPS server, which stores it for the vehicle assigned
+// to the signed-in driver. Throws with the server's reason when the fix is rejected.
+export async function postDriverPosition(position: GeolocationPosition): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  const { coords } = position;
+  const response = await fetch(`${GPS_SERVER_URL}/driver/position`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      // m/s from the browser, km/h like the trackers
+      speed: coords.speed !== null ? coords.speed * 3.6 : 0,
+      heading: coords.heading ?? 0,
+      accuracy: coords.accuracy,
+      timestamp: new Date(position.timestamp).toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `GPS server answered ${response.status}`);
+  }
+}
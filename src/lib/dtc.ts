@@ -0,0 +1,199 @@
+// Diagnostic trouble codes (OBD-II, SAE J2012). A code is a letter for the system and four
+// characters: generic or manufacturer specific, the subsystem and the fault. The descriptions of
+// common generic codes are bundled below; other codes are described from their structure only,
+// manufacturer specific ones need the vehicle's service documentation.
+
+export type DtcSystem = 'powertrain' | 'chassis' | 'body' | 'network';
+
+export type DecodedDtc = {
+  code: string;
+  system: DtcSystem;
+  // SAE defined meaning, the same on every vehicle
+  generic: boolean;
+  subsystem: string | null;
+  description: string | null;
+};
+
+const DTC_PATTERN = /^[PCBU][0-3][0-9A-F]{3}$/;
+
+const SYSTEMS: Record<string, DtcSystem> = { P: 'powertrain', C: 'chassis', B: 'body', U: 'network' };
+
+export const DTC_SYSTEM_LABELS: Record<DtcSystem, string> = {
+  powertrain: 'Powertrain',
+  chassis: 'Chassis',
+  body: 'Body',
+  network: 'Network',
+};
+
+// Third character of P0, P1 and P2 codes
+const POWERTRAIN_SUBSYSTEMS: Record<string, string> = {
+  '0': 'Fuel and air metering, auxiliary emission controls',
+  '1': 'Fuel and air metering',
+  '2': 'Fuel and air metering (injector circuit)',
+  '3': 'Ignition system or misfire',
+  '4': 'Auxiliary emission controls',
+  '5': 'Vehicle speed, idle control and auxiliary inputs',
+  '6': 'Computer and output circuits',
+  '7': 'Transmission',
+  '8': 'Transmission',
+  '9': 'Transmission',
+  A: 'Hybrid propulsion',
+};
+
+const DESCRIPTIONS: Record<string, string> = {
+  P0010: 'Camshaft position actuator circuit (bank 1)',
+  P0011: 'Camshaft position timing over-advanced or system performance (bank 1)',
+  P0016: 'Crankshaft / camshaft position correlation (bank 1 sensor A)',
+  P0030: 'HO2S heater control circuit (bank 1 sensor 1)',
+  P0087: 'Fuel rail / system pressure too low',
+  P0088: 'Fuel rail / system pressure too high',
+  P0100: 'Mass air flow circuit malfunction',
+  P0101: 'Mass air flow circuit range / performance',
+  P0102: 'Mass air flow circuit low input',
+  P0103: 'Mass air flow circuit high input',
+  P0106: 'Manifold absolute pressure circuit range / performance',
+  P0107: 'Manifold absolute pressure circuit low input',
+  P0108: 'Manifold absolute pressure circuit high input',
+  P0110: 'Intake air temperature circuit malfunction',
+  P0112: 'Intake air temperature circuit low input',
+  P0113: 'Intake air temperature circuit high input',
+  P0115: 'Engine coolant temperature circuit malfunction',
+  P0116: 'Engine coolant temperature circuit range / performance',
+  P0117: 'Engine coolant temperature circuit low input',
+  P0118: 'Engine coolant temperature circuit high input',
+  P0120: 'Throttle position sensor circuit malfunction',
+  P0121: 'Throttle position sensor circuit range / performance',
+  P0122: 'Throttle position sensor circuit low input',
+  P0123: 'Throttle position sensor circuit high input',
+  P0128: 'Coolant thermostat below regulating temperature',
+  P0130: 'O2 sensor circuit malfunction (bank 1 sensor 1)',
+  P0131: 'O2 sensor circuit low voltage (bank 1 sensor 1)',
+  P0132: 'O2 sensor circuit high voltage (bank 1 sensor 1)',
+  P0133: 'O2 sensor circuit slow response (bank 1 sensor 1)',
+  P0134: 'O2 sensor circuit no activity detected (bank 1 sensor 1)',
+  P0135: 'O2 sensor heater circuit malfunction (bank 1 sensor 1)',
+  P0141: 'O2 sensor heater circuit malfunction (bank 1 sensor 2)',
+  P0171: 'System too lean (bank 1)',
+  P0172: 'System too rich (bank 1)',
+  P0174: 'System too lean (bank 2)',
+  P0175: 'System too rich (bank 2)',
+  P0191: 'Fuel rail pressure sensor circuit range / performance',
+  P0200: 'Injector circuit malfunction',
+  P0201: 'Injector circuit malfunction (cylinder 1)',
+  P0202: 'Injector circuit malfunction (cylinder 2)',
+  P0203: 'Injector circuit malfunction (cylinder 3)',
+  P0204: 'Injector circuit malfunction (cylinder 4)',
+  P0217: 'Engine overheat condition',
+  P0219: 'Engine overspeed condition',
+  P0234: 'Turbocharger overboost condition',
+  P0299: 'Turbocharger underboost condition',
+  P0300: 'Random / multiple cylinder misfire detected',
+  P0301: 'Cylinder 1 misfire detected',
+  P0302: 'Cylinder 2 misfire detected',
+  P0303: 'Cylinder 3 misfire detected',
+  P0304: 'Cylinder 4 misfire detected',
+  P0305: 'Cylinder 5 misfire detected',
+  P0306: 'Cylinder 6 misfire detected',
+  P0325: 'Knock sensor 1 circuit malfunction',
+  P0335: 'Crankshaft position sensor A circuit malfunction',
+  P0340: 'Camshaft position sensor circuit malfunction',
+  P0380: 'Glow plug / heater circuit A malfunction',
+  P0400: 'Exhaust gas recirculation flow malfunction',
+  P0401: 'Exhaust gas recirculation flow insufficient',
+  P0402: 'Exhaust gas recirculation flow excessive',
+  P0403: 'Exhaust gas recirculation circuit malfunction',
+  P0420: 'Catalyst system efficiency below threshold (bank 1)',
+  P0430: 'Catalyst system efficiency below threshold (bank 2)',
+  P0440: 'Evaporative emission control system malfunction',
+  P0441: 'Evaporative emission control system incorrect purge flow',
+  P0442: 'Evaporative emission control system leak detected (small leak)',
+  P0455: 'Evaporative emission control system leak detected (large leak)',
+  P0456: 'Evaporative emission control system leak detected (very small leak)',
+  P0462: 'Fuel level sensor circuit low input',
+  P0463: 'Fuel level sensor circuit high input',
+  P0500: 'Vehicle speed sensor malfunction',
+  P0505: 'Idle control system malfunction',
+  P0506: 'Idle control system RPM lower than expected',
+  P0507: 'Idle control system RPM higher than expected',
+  P0520: 'Engine oil pressure sensor / switch circuit malfunction',
+  P0524: 'Engine oil pressure too low',
+  P0562: 'System voltage low',
+  P0563: 'System voltage high',
+  P0600: 'Serial communication link malfunction',
+  P0601: 'Internal control module memory checksum error',
+  P0603: 'Internal control module keep alive memory (KAM) error',
+  P0606: 'Control module processor fault',
+  P0700: 'Transmission control system malfunction',
+  P0705: 'Transmission range sensor circuit malfunction',
+  P0715: 'Input / turbine speed sensor circuit malfunction',
+  P0720: 'Output speed sensor circuit malfunction',
+  P0730: 'Incorrect gear ratio',
+  P0740: 'Torque converter clutch circuit malfunction',
+  P0750: 'Shift solenoid A malfunction',
+  P0841: 'Transmission fluid pressure sensor / switch A circuit range / performance',
+  P2002: 'Diesel particulate filter efficiency below threshold (bank 1)',
+  P2135: 'Throttle / pedal position sensor A / B voltage correlation',
+  P2463: 'Diesel particulate filter soot accumulation',
+  C0035: 'Left front wheel speed sensor circuit',
+  C0040: 'Right front wheel speed sensor circuit',
+  C0045: 'Left rear wheel speed sensor circuit',
+  C0050: 'Right rear wheel speed sensor circuit',
+  C0110: 'ABS pump motor circuit malfunction',
+  C0121: 'ABS valve relay circuit malfunction',
+  C0265: 'ABS motor relay circuit open',
+  B0001: 'Driver frontal stage 1 deployment control',
+  B0100: 'Electronic frontal sensor 1',
+  B1000: 'Electronic control unit malfunction',
+  U0001: 'High speed CAN communication bus',
+  U0100: 'Lost communication with ECM / PCM A',
+  U0101: 'Lost communication with TCM',
+  U0121: 'Lost communication with anti-lock brake system (ABS) control module',
+  U0140: 'Lost communication with body control module',
+  U0155: 'Lost communication with instrument panel cluster (IPC) control module',
+};
+
+// Generic (SAE) ranges: P0, P2 and P34-P39, and B0, B3, C0, C3, U0, U3
+function isGeneric(code: string): boolean {
+  const [system, first, second] = code;
+  if (system === 'P') return first === '0' || first === '2' || (first === '3' && second >= '4');
+  return first === '0' || first === '3';
+}
+
+/**
+ * Normalized code, or null when it is not a valid trouble code.
+ */
+export function normalizeDtc(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  return DTC_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * System, range and description of a trouble code, null when it is not a valid code.
+ */
+export function decodeDtc(code: string): DecodedDtc | null {
+  const normalized = normalizeDtc(code);
+  if (!normalized) return null;
+
+  const system = SYSTEMS[normalized[0]];
+  const subsystem = system === 'powertrain' && normalized[1] !== '3'
+    ? POWERTRAIN_SUBSYSTEMS[normalized[2]] ?? null
+    : null;
+
+  return {
+    code: normalized,
+    system,
+    generic: isGeneric(normalized),
+    subsystem,
+    description: DESCRIPTIONS[normalized] ?? null,
+  };
+}
+
+/**
+ * Trouble codes of a vehicle_health row, which stores them as a JSON array.
+ */
+export function dtcCodes(errorCodes: unknown): string[] {
+  if (!Array.isArray(errorCodes)) return [];
+  return errorCodes
+    .map((code) => (typeof code === 'string' ? normalizeDtc(code) : null))
+    .filter((code): code is string => code !== null);
+}
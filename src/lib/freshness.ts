@@ -0,0 +1,20 @@
+import { formatDistanceStrict } from 'date-fns';
+
+// Live views grey out vehicles whose last fix is older than this. The GPS server marks a tracker
+// inactive only after a longer silence (DEVICE_OFFLINE_MS), trackers keep sending heartbeats
+// without fixes while parked.
+export const STALE_FIX_MINUTES = 10;
+
+// How often live views refresh the "last seen" ages
+export const FRESHNESS_TICK_MS = 30 * 1000;
+
+export function isStale(timestamp: string | null | undefined, now: number): boolean {
+  if (!timestamp) return true;
+  return now - Date.parse(timestamp) > STALE_FIX_MINUTES * 60 * 1000;
+}
+
+export function lastSeen(timestamp: string | null | undefined, now: number): string {
+  if (!timestamp) return 'never';
+  const time = Math.min(Date.parse(timestamp), now);
+  return formatDistanceStrict(time, now, { addSuffix: true });
+}
@@ -0,0 +1,186 @@
+import { FuelLog, Vehicle, VehicleSettings } from './supabase';
+
+// Fuel efficiency from the virtual odometer. The GPS server stamps each fuel log with the
+// filtered GPS distance of the vehicle at its time (gps_distance_km), so the distance between
+// two fill-ups is a subtraction; logs from before tracking started fall back to the reported
+// odometer readings. Consumption is measured full-to-full: the liters of a fill-up replace
+// what was burnt since the previous one.
+
+export type EfficiencyLog = Pick<FuelLog, 'recorded_at' | 'fuel_volume_liters' | 'odometer_reading' | 'gps_distance_km'>;
+
+export type ConsumptionInterval = {
+  from: string;
+  to: string;
+  distanceKm: number;
+  liters: number;
+  litersPer100km: number;
+  basis: 'gps' | 'odometer';
+  // Against the rated consumption of the vehicle, null when it has none
+  deviationPercent: number | null;
+};
+
+export type OdometerCheck = {
+  from: string;
+  to: string;
+  reportedKm: number;
+  gpsKm: number;
+  deviationPercent: number;
+};
+
+export type VehicleEfficiency = {
+  vehicle: Vehicle;
+  distanceKm: number;
+  liters: number;
+  litersPer100km: number | null;
+  expectedPer100km: number | null;
+  // Rated consumption of the vehicle, or the fleet median of its fuel type
+  expectedBasis: 'rated' | 'fleet' | null;
+  deviationPercent: number | null;
+  outlier: boolean;
+};
+
+// Fill-ups closer than this are added to the next interval (topping up)
+export const MIN_INTERVAL_KM = 20;
+// Consumption further than this from the expected rate is an outlier
+export const OUTLIER_DEVIATION_PERCENT = 25;
+// Reported and GPS distance further apart than this point at a wrong reading or a tracker gap
+export const ODOMETER_DEVIATION_PERCENT = 5;
+
+const byTime = (a: { recorded_at: string }, b: { recorded_at: string }) =>
+  Date.parse(a.recorded_at) - Date.parse(b.recorded_at);
+
+const deviation = (value: number, expected: number | null | undefined) =>
+  expected ? ((value - expected) / expected) * 100 : null;
+
+/**
+ * Distance between two fill-ups, from the GPS stamps when both have one.
+ */
+function distanceBetween(from: EfficiencyLog, to: EfficiencyLog): { km: number; basis: 'gps' | 'odometer' } | null {
+  if (from.gps_distance_km != null && to.gps_distance_km != null) {
+    return { km: Number(to.gps_distance_km) - Number(from.gps_distance_km), basis: 'gps' };
+  }
+  if (from.odometer_reading && to.odometer_reading) {
+    return { km: to.odometer_reading - from.odometer_reading, basis: 'odometer' };
+  }
+  return null;
+}
+
+/**
+ * Consumption between consecutive fill-ups, oldest first.
+ */
+export function consumptionIntervals(logs: EfficiencyLog[], ratedPer100km?: number | null): ConsumptionInterval[] {
+  const fillUps = logs.filter((log) => (log.fuel_volume_liters || 0) > 0).sort(byTime);
+  const intervals: ConsumptionInterval[] = [];
+  if (fillUps.length === 0) return intervals;
+
+  let anchor = fillUps[0];
+  let liters = 0;
+
+  for (const log of fillUps.slice(1)) {
+    liters += log.fuel_volume_liters || 0;
+    const distance = distanceBetween(anchor, log);
+
+    if (!distance || distance.km < 0) {
+      // Not measurable, start over from this fill-up
+      anchor = log;
+      liters = 0;
+    } else if (distance.km >= MIN_INTERVAL_KM) {
+      const litersPer100km = (liters / distance.km) * 100;
+      intervals.push({
+        from: anchor.recorded_at,
+        to: log.recorded_at,
+        distanceKm: distance.km,
+        liters,
+        litersPer100km,
+        basis: distance.basis,
+        deviationPercent: deviation(litersPer100km, ratedPer100km),
+      });
+      anchor = log;
+      liters = 0;
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Overall consumption of the intervals.
+ */
+export function summarizeIntervals(intervals: ConsumptionInterval[]) {
+  const distanceKm = intervals.reduce((sum, interval) => sum + interval.distanceKm, 0);
+  const liters = intervals.reduce((sum, interval) => sum + interval.liters, 0);
+  return {
+    distanceKm,
+    liters,
+    litersPer100km: distanceKm > 0 ? (liters / distanceKm) * 100 : null,
+    gpsShare: distanceKm > 0
+      ? intervals.filter((interval) => interval.basis === 'gps').reduce((sum, interval) => sum + interval.distanceKm, 0) / distanceKm
+      : 0,
+  };
+}
+
+/**
+ * Reported odometer distance between consecutive readings against the GPS distance.
+ */
+export function odometerChecks(logs: EfficiencyLog[]): OdometerCheck[] {
+  const readings = logs.filter((log) => log.odometer_reading && log.gps_distance_km != null).sort(byTime);
+  const checks: OdometerCheck[] = [];
+
+  for (let i = 1; i < readings.length; i++) {
+    const reportedKm = (readings[i].odometer_reading || 0) - (readings[i - 1].odometer_reading || 0);
+    const gpsKm = Number(readings[i].gps_distance_km) - Number(readings[i - 1].gps_distance_km);
+    if (reportedKm <= 0) continue;
+    checks.push({
+      from: readings[i - 1].recorded_at,
+      to: readings[i].recorded_at,
+      reportedKm,
+      gpsKm,
+      deviationPercent: ((gpsKm - reportedKm) / reportedKm) * 100,
+    });
+  }
+
+  return checks;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Consumption of every vehicle against its rated consumption or, without one, the median of
+ * the other vehicles with the same fuel type.
+ */
+export function fleetEfficiency(
+  vehicles: Vehicle[],
+  logs: (EfficiencyLog & { vehicle_id: string })[],
+  settings: Pick<VehicleSettings, 'vehicle_id' | 'fuel_consumption_rate_per_100km'>[]
+): VehicleEfficiency[] {
+  const measured = vehicles.map((vehicle) => {
+    const rated = settings.find((s) => s.vehicle_id === vehicle.id)?.fuel_consumption_rate_per_100km || null;
+    const summary = summarizeIntervals(consumptionIntervals(logs.filter((log) => log.vehicle_id === vehicle.id), rated));
+    return { vehicle, rated, ...summary };
+  });
+
+  return measured.map(({ vehicle, rated, distanceKm, liters, litersPer100km }): VehicleEfficiency => {
+    const fleetMedian = median(measured
+      .filter((other) => other.vehicle.id !== vehicle.id && other.vehicle.fuel_type === vehicle.fuel_type)
+      .map((other) => other.litersPer100km)
+      .filter((value): value is number => value !== null));
+    const expectedPer100km = rated || fleetMedian;
+    const deviationPercent = litersPer100km !== null ? deviation(litersPer100km, expectedPer100km) : null;
+
+    return {
+      vehicle,
+      distanceKm,
+      liters,
+      litersPer100km,
+      expectedPer100km,
+      expectedBasis: rated ? 'rated' : fleetMedian !== null ? 'fleet' : null,
+      deviationPercent,
+      outlier: deviationPercent !== null && Math.abs(deviationPercent) > OUTLIER_DEVIATION_PERCENT,
+    };
+  });
+}
@@ -0,0 +1,367 @@
+import { readSheet, type CellValue } from 'read-excel-file/browser';
+import { haversineDistance } from './geometry';
+import { FuelLog, Vehicle, VehicleSettings } from './supabase';
+
+// Fuel card statement import. A statement is read as delimited text (comma, semicolon or tab,
+// as exported by card providers or saved from a spreadsheet) or from the first sheet of an XLSX
+// workbook; older XLS and OpenDocument workbooks have to be saved as XLSX or CSV first. Its
+// columns are mapped onto
+// FUEL_IMPORT_FIELDS, and each transaction is matched to a vehicle by license plate or fuel
+// card number and checked against the GPS position of the vehicle at purchase time.
+
+export type FuelImportField =
+  | 'date' | 'time' | 'plate' | 'card_number' | 'liters' | 'price_per_liter'
+  | 'total_amount' | 'station' | 'latitude' | 'longitude' | 'odometer';
+
+// Column index per field, missing fields are not in the statement
+export type FuelColumnMapping = Partial<Record<FuelImportField, number>>;
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export type DecimalSeparator = '.' | ',';
+
+export type FuelImportFlag = NonNullable<FuelLog['reconciliation_flags']>[number];
+
+export type FuelTransaction = {
+  row: number;
+  recordedAt: Date | null;
+  plate: string;
+  cardNumber: string;
+  liters: number | null;
+  pricePerLiter: number | null;
+  totalAmount: number | null;
+  station: string;
+  latitude: number | null;
+  longitude: number | null;
+  odometer: number | null;
+  errors: string[];
+};
+
+export type NearestFix = {
+  latitude: number;
+  longitude: number;
+  speed: number;
+  timestamp: string;
+};
+
+export const FUEL_IMPORT_FIELDS: { key: FuelImportField; label: string; required?: boolean; aliases: RegExp }[] = [
+  { key: 'date', label: 'Date', required: true, aliases: /date|datum|fecha/i },
+  { key: 'time', label: 'Time', aliases: /time|heure|hora|zeit/i },
+  { key: 'plate', label: 'License plate', aliases: /plate|registration|reg\.? ?no|kennzeichen|immatriculation|matricula/i },
+  { key: 'card_number', label: 'Card number', aliases: /card/i },
+  { key: 'liters', label: 'Liters', required: true, aliases: /lit(er|re)s?|volume|quantity|qty|menge/i },
+  { key: 'price_per_liter', label: 'Price per liter', aliases: /unit price|price per|price\/l|ppl|prix unitaire/i },
+  { key: 'total_amount', label: 'Total amount', aliases: /total|amount|betrag|montant|importe/i },
+  { key: 'station', label: 'Station', aliases: /station|site|merchant|location|address/i },
+  { key: 'latitude', label: 'Station latitude', aliases: /^lat(itude)?$/i },
+  { key: 'longitude', label: 'Station longitude', aliases: /^(lon|lng|long|longitude)$/i },
+  { key: 'odometer', label: 'Odometer', aliases: /odometer|mileage|km|kilom/i },
+];
+
+export const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+  { value: '.', label: 'Decimal point (1,234.56)' },
+  { value: ',', label: 'Decimal comma (1.234,56)' },
+];
+
+// Fields read as numbers, their columns decide the decimal separator
+const NUMERIC_FIELDS: FuelImportField[] = ['liters', 'price_per_liter', 'total_amount', 'latitude', 'longitude', 'odometer'];
+
+export const DATE_ORDERS: { value: DateOrder; label: string }[] = [
+  { value: 'ymd', label: 'Year-Month-Day (2025-10-31)' },
+  { value: 'dmy', label: 'Day/Month/Year (31/10/2025)' },
+  { value: 'mdy', label: 'Month/Day/Year (10/31/2025)' },
+];
+
+export const FUEL_IMPORT_FLAG_LABELS: Record<FuelImportFlag, string> = {
+  no_gps: 'No GPS position at purchase time',
+  far_from_station: 'Vehicle not near the station',
+  vehicle_moving: 'Vehicle was moving',
+  over_capacity: 'Volume exceeds tank capacity',
+};
+
+// A purchase further than this from the station is flagged
+export const STATION_RADIUS_METERS = 500;
+// The GPS fix closest to the purchase time is searched within this many minutes
+export const FIX_WINDOW_MINUTES = 15;
+// A vehicle at or above this speed at purchase time was not refuelling
+const MOVING_SPEED_KMH = 5;
+
+/**
+ * Kind of spreadsheet workbook from the first bytes of a file: a ZIP archive (XLSX, or ODS), an
+ * OLE compound file (XLS), or null for text.
+ */
+export function workbookFormat(header: Uint8Array): 'zip' | 'ole' | null {
+  const startsWith = (signature: number[]) => signature.every((byte, i) => header[i] === byte);
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) return 'zip';
+  if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+  return null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Text of a workbook cell as it would appear in a CSV export. Dates hold the wall-clock time of
+// the cell in UTC and are written Year-Month-Day, numbers keep the dot as decimal separator.
+function cellText(value: CellValue | null): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const date = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+    const seconds = value.getUTCHours() * 3600 + value.getUTCMinutes() * 60 + value.getUTCSeconds();
+    return seconds === 0 ? date : `${date} ${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`;
+  }
+  return String(value);
+}
+
+/**
+ * Rows of the first sheet of an XLSX workbook, as parseDelimited() returns them for text.
+ */
+export async function parseWorkbook(file: Blob): Promise<{ headers: string[]; rows: string[][] }> {
+  const data = await readSheet(file);
+  const records = data.map((row) => row.map(cellText));
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+/**
+ * Parses delimited text (RFC 4180 quoting), detecting the delimiter from the header line.
+ */
+export function parseDelimited(text: string): { headers: string[]; rows: string[][] } {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+/**
+ * Best guess of the column of each field from the header names.
+ */
+export function guessMapping(headers: string[]): FuelColumnMapping {
+  const mapping: FuelColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of FUEL_IMPORT_FIELDS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && field.aliases.test(header));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Decimal separator of the numeric columns of a statement, decided from all their values: with
+ * both separators the last one is decimal, a repeated one groups thousands, and a single one is
+ * decimal unless three digits follow it ("1,234" may be either and decides nothing). Without a
+ * deciding value the decimal point is assumed.
+ */
+export function guessDecimalSeparator(rows: string[][], mapping: FuelColumnMapping): DecimalSeparator {
+  let points = 0;
+  let commas = 0;
+  const vote = (separator: DecimalSeparator) => (separator === ',' ? commas++ : points++);
+
+  for (const field of NUMERIC_FIELDS) {
+    const index = mapping[field];
+    if (index === undefined) continue;
+
+    for (const row of rows) {
+      const text = (row[index] || '').replace(/[^\d,.]/g, '');
+      const lastComma = text.lastIndexOf(',');
+      const lastDot = text.lastIndexOf('.');
+      if (lastComma >= 0 && lastDot >= 0) {
+        vote(lastComma > lastDot ? ',' : '.');
+        continue;
+      }
+
+      const separator = lastComma >= 0 ? ',' : lastDot >= 0 ? '.' : null;
+      if (!separator) continue;
+      if (text.indexOf(separator) !== text.lastIndexOf(separator)) {
+        vote(separator === ',' ? '.' : ',');
+      } else if (!/[.,]\d{3}$/.test(text)) {
+        vote(separator);
+      }
+    }
+  }
+
+  return commas > points ? ',' : '.';
+}
+
+/**
+ * Number from a statement cell: "1.234,56" or "45,3 L" with a decimal comma, "1,234.56" or
+ * "$ 61.20" with a decimal point.
+ */
+export function parseAmount(value: string | undefined, decimal: DecimalSeparator = '.'): number | null {
+  if (!value) return null;
+  let text = value.replace(/[^\d,.-]/g, '');
+  if (text === '') return null;
+
+  text = decimal === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  const number = parseFloat(text);
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Local date and time of a transaction, the time may also be part of the date cell. Dates
+ * starting with a four-digit year are Year-Month-Day whatever the order of the statement.
+ */
+export function parseDateTime(dateValue: string | undefined, timeValue: string | undefined, order: DateOrder): Date | null {
+  if (!dateValue) return null;
+  const [datePart, ...rest] = dateValue.trim().split(/[ T]+/);
+  const parts = datePart.split(/[-/.]/).map((part) => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  let [year, month, day] = parts;
+  const yearFirst = /^\d{4}[-/.]/.test(datePart);
+  if (order === 'dmy' && !yearFirst) [day, month, year] = parts;
+  if (order === 'mdy' && !yearFirst) [month, day, year] = parts;
+  if (year < 100) year += 2000;
+
+  const time = (timeValue || rest.join(' ') || '00:00').match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?/i);
+  let hours = time ? parseInt(time[1], 10) : 0;
+  const minutes = time ? parseInt(time[2], 10) : 0;
+  const seconds = time && time[3] ? parseInt(time[3], 10) : 0;
+  if (time && time[4]) hours = (hours % 12) + (time[4].toLowerCase() === 'pm' ? 12 : 0);
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Transactions of the statement rows, with the problems that prevent importing them.
+ */
+export function readTransactions(
+  rows: string[][],
+  mapping: FuelColumnMapping,
+  order: DateOrder,
+  decimal: DecimalSeparator
+): FuelTransaction[] {
+  const cell = (row: string[], field: FuelImportField) =>
+    mapping[field] === undefined ? undefined : row[mapping[field] as number]?.trim();
+  const amount = (row: string[], field: FuelImportField) => parseAmount(cell(row, field), decimal);
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const recordedAt = parseDateTime(cell(row, 'date'), cell(row, 'time'), order);
+    const liters = amount(row, 'liters');
+    let pricePerLiter = amount(row, 'price_per_liter');
+    let totalAmount = amount(row, 'total_amount');
+
+    if (!recordedAt) errors.push('Invalid date');
+    if (liters === null || liters <= 0) errors.push('Invalid volume');
+    if (liters && liters > 0) {
+      if (pricePerLiter === null && totalAmount !== null) pricePerLiter = Math.round((totalAmount / liters) * 1000) / 1000;
+      if (totalAmount === null && pricePerLiter !== null) totalAmount = Math.round(pricePerLiter * liters * 100) / 100;
+    }
+
+    return {
+      row: index + 2,
+      recordedAt,
+      plate: cell(row, 'plate') || '',
+      cardNumber: cell(row, 'card_number') || '',
+      liters,
+      pricePerLiter,
+      totalAmount,
+      station: cell(row, 'station') || '',
+      latitude: amount(row, 'latitude'),
+      longitude: amount(row, 'longitude'),
+      odometer: amount(row, 'odometer'),
+      errors,
+    };
+  });
+}
+
+const normalizeIdentifier = (value: string | null | undefined) => (value || '').toUpperCase().replace(/[^A-Z0-9*]/g, '');
+
+/**
+ * Vehicle of a transaction: same license plate, or same fuel card number. Masked card numbers
+ * ("**** 1234") match on their visible trailing digits.
+ */
+export function matchVehicle(transaction: FuelTransaction, vehicles: Vehicle[]): Vehicle | null {
+  const plate = normalizeIdentifier(transaction.plate);
+  if (plate) {
+    const vehicle = vehicles.find((v) => normalizeIdentifier(v.license_plate) === plate);
+    if (vehicle) return vehicle;
+  }
+
+  const card = normalizeIdentifier(transaction.cardNumber);
+  if (!card) return null;
+  const masked = /[*X]/.test(card);
+  const suffix = card.replace(/^.*[*X]/, '');
+
+  return vehicles.find((v) => {
+    const vehicleCard = normalizeIdentifier(v.fuel_card_number);
+    if (!vehicleCard) return false;
+    return masked ? suffix.length >= 4 && vehicleCard.endsWith(suffix) : vehicleCard === card;
+  }) || null;
+}
+
+/**
+ * Flags of a matched transaction. Without station coordinates the position cannot be
+ * compared, a vehicle driving at purchase time is flagged instead.
+ */
+export function reconcile(
+  transaction: FuelTransaction,
+  settings: Pick<VehicleSettings, 'fuel_tank_capacity_liters'> | null,
+  fix: NearestFix | null
+): { flags: FuelImportFlag[]; distanceMeters: number | null } {
+  const flags: FuelImportFlag[] = [];
+  let distanceMeters: number | null = null;
+
+  const capacity = settings?.fuel_tank_capacity_liters;
+  if (capacity && transaction.liters !== null && transaction.liters > capacity) flags.push('over_capacity');
+
+  if (!fix) {
+    flags.push('no_gps');
+  } else if (transaction.latitude !== null && transaction.longitude !== null) {
+    distanceMeters = Math.round(haversineDistance(fix.latitude, fix.longitude, transaction.latitude, transaction.longitude));
+    if (distanceMeters > STATION_RADIUS_METERS) flags.push('far_from_station');
+  } else if (fix.speed >= MOVING_SPEED_KMH) {
+    flags.push('vehicle_moving');
+  }
+
+  return { flags, distanceMeters };
+}
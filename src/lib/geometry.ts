@@ -0,0 +1,2 @@
+// The geometry helpers are shared with the GPS server, see shared/geometry.js
+export * from '../../shared/geometry';
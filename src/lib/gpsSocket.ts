@@ -0,0 +1,25 @@
+import { io, Socket } from 'socket.io-client';
+import { supabase } from './supabase';
+
+export const GPS_SERVER_URL = import.meta.env.VITE_GPS_SERVER_URL || 'https://fleet-admin.onrender.com';
+
+// Socket.IO connection to the GPS server, authenticated with the Supabase session.
+// The token is read on every (re)connection so a refreshed session keeps working.
+export function connectGpsSocket(): Socket {
+  return io(GPS_SERVER_URL, {
+    transports: ['websocket', 'polling'],
+    auth: (cb) => {
+      supabase.auth.getSession().then(({ data: { session } }) => {
+        cb({ token: session?.access_token });
+      });
+    },
+  });
+}
+
+// Joins the rooms of the given vehicles. The server skips vehicles the user may not see,
+// rooms are lost on reconnect so call this again after every `connect`.
+export function subscribeVehicles(socket: Socket, vehicleIds: string[]) {
+  if (vehicleIds.length > 0) {
+    socket.emit('subscribe_vehicles', vehicleIds);
+  }
+}
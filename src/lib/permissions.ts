@@ -0,0 +1,90 @@
+import { OrganizationRole, Permissions } from './supabase';
+
+// Same as role_permissions() in the database
+export const DEFAULT_PERMISSIONS: Record<OrganizationRole, Permissions> = {
+  admin: {
+    can_view_vehicles: true,
+    can_edit_vehicles: true,
+    can_delete_vehicles: true,
+    can_view_drivers: true,
+    can_edit_drivers: true,
+    can_delete_drivers: true,
+    can_view_trips: true,
+    can_edit_trips: true,
+    can_delete_trips: true,
+    can_view_maintenance: true,
+    can_edit_maintenance: true,
+    can_manage_roles: true,
+  },
+  manager: {
+    can_view_vehicles: true,
+    can_edit_vehicles: true,
+    can_delete_vehicles: false,
+    can_view_drivers: true,
+    can_edit_drivers: true,
+    can_delete_drivers: false,
+    can_view_trips: true,
+    can_edit_trips: true,
+    can_delete_trips: false,
+    can_view_maintenance: true,
+    can_edit_maintenance: true,
+    can_manage_roles: false,
+  },
+  driver: {
+    can_view_vehicles: true,
+    can_edit_vehicles: false,
+    can_delete_vehicles: false,
+    can_view_drivers: false,
+    can_edit_drivers: false,
+    can_delete_drivers: false,
+    can_view_trips: true,
+    can_edit_trips: false,
+    can_delete_trips: false,
+    can_view_maintenance: true,
+    can_edit_maintenance: false,
+    can_manage_roles: false,
+  },
+  viewer: {
+    can_view_vehicles: true,
+    can_edit_vehicles: false,
+    can_delete_vehicles: false,
+    can_view_drivers: true,
+    can_edit_drivers: false,
+    can_delete_drivers: false,
+    can_view_trips: true,
+    can_edit_trips: false,
+    can_delete_trips: false,
+    can_view_maintenance: true,
+    can_edit_maintenance: false,
+    can_manage_roles: false,
+  },
+};
+
+export const NO_PERMISSIONS: Permissions = {
+  can_view_vehicles: false,
+  can_edit_vehicles: false,
+  can_delete_vehicles: false,
+  can_view_drivers: false,
+  can_edit_drivers: false,
+  can_delete_drivers: false,
+  can_view_trips: false,
+  can_edit_trips: false,
+  can_delete_trips: false,
+  can_view_maintenance: false,
+  can_edit_maintenance: false,
+  can_manage_roles: false,
+};
+
+export function resolvePermissions(role: OrganizationRole, overrides: Partial<Permissions> | null | undefined): Permissions {
+  return { ...DEFAULT_PERMISSIONS[role], ...overrides };
+}
+
+// Overrides stored for a member: the permissions that differ from the defaults of the role
+export function permissionOverrides(role: OrganizationRole, permissions: Permissions): Partial<Permissions> {
+  const defaults = DEFAULT_PERMISSIONS[role];
+  const overrides: Partial<Permissions> = {};
+  for (const key of Object.keys(permissions) as (keyof Permissions)[]) {
+    if (permissions[key] !== defaults[key]) overrides[key] = permissions[key];
+  }
+  return overrides;
+}
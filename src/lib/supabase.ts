@@ -1,13 +1,64 @@
 import { createClient } from '@supabase/supabase-js';
+import type { PolygonCoordinates } from './geometry';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Embedded relations such as `organization:organizations(*)`: without generated database types
+// every embed is typed as an array, but a to-one relation arrives as a row or null
+export function toOne<T>(embed: T | T[] | null | undefined): T | null {
+  if (Array.isArray(embed)) return embed[0] ?? null;
+  return embed ?? null;
+}
+
+export type OrganizationRole = 'admin' | 'manager' | 'driver' | 'viewer';
+
+// Checked by the dashboard and by the policies of vehicles, drivers, trips and maintenance_records
+export type Permissions = {
+  can_view_vehicles: boolean;
+  can_edit_vehicles: boolean;
+  can_delete_vehicles: boolean;
+  can_view_drivers: boolean;
+  can_edit_drivers: boolean;
+  can_delete_drivers: boolean;
+  can_view_trips: boolean;
+  can_edit_trips: boolean;
+  can_delete_trips: boolean;
+  can_view_maintenance: boolean;
+  can_edit_maintenance: boolean;
+  can_manage_roles: boolean;
+};
+
+export type Organization = {
+  id: string;
+  name: string;
+  // Created for every account, holds the data the user owned before organizations
+  is_personal: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type OrganizationMember = {
+  organization_id: string;
+  user_id: string;
+  email: string | null;
+  role: OrganizationRole;
+  // Overrides of the defaults of the role
+  permissions: Partial<Permissions>;
+  // Inactive members keep their membership but lose access to the organization
+  is_active: boolean;
+  // Organization the member works in, picked in the switcher
+  is_current: boolean;
+  created_at: string;
+};
+
 export type Vehicle = {
   id: string;
   user_id: string;
+  organization_id: string;
   name: string;
   type: string;
   make: string;
@@ -15,6 +66,7 @@ export type Vehicle = {
   year: number;
   vin: string;
   license_plate: string;
+  fuel_card_number?: string | null;
   status: 'active' | 'maintenance' | 'inactive';
   odometer: number;
   fuel_type: string;
@@ -31,21 +83,51 @@ export type GPSLocation = {
   heading: number;
   accuracy: number;
   timestamp: string;
+  is_replayed?: boolean;
+  received_at?: string;
   created_at: string;
 };
 
 export type MaintenanceRecord = {
   id: string;
   vehicle_id: string;
+  organization_id?: string;
   type: 'routine' | 'repair' | 'inspection';
   description: string;
   status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
   scheduled_date: string;
   completed_date?: string;
   odometer_reading?: number;
+  engine_hours?: number | null;
   cost?: number;
   technician?: string;
   notes?: string;
+  plan_id?: string | null;
+  auto_generated?: boolean;
+  due_km?: number | null;
+  due_engine_hours?: number | null;
+  due_date?: string | null;
+  alert_level?: 'due_soon' | 'overdue' | null;
+  alert_id?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MaintenancePlan = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  vehicle_type?: string | null;
+  maintenance_type: 'routine' | 'inspection';
+  interval_km?: number | null;
+  interval_engine_hours?: number | null;
+  interval_days?: number | null;
+  lead_km: number;
+  lead_engine_hours: number;
+  lead_days: number;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 };
@@ -53,6 +135,7 @@ export type MaintenanceRecord = {
 export type Driver = {
   id: string;
   user_id: string;
+  organization_id: string;
   name: string;
   email: string;
   phone: string;
@@ -66,6 +149,7 @@ export type Driver = {
 export type VehicleAssignment = {
   id: string;
   vehicle_id: string;
+  organization_id?: string;
   driver_id: string;
   trip_id?: string;
   assigned_at: string;
@@ -80,6 +164,7 @@ export type VehicleAssignment = {
 export type Trip = {
   id: string;
   user_id: string;
+  organization_id: string;
   destination: string;
   departure_time: string;
   arrival_time: string;
@@ -90,20 +175,47 @@ export type Trip = {
   estimated_duration?: number;
   actual_duration?: number;
   notes?: string;
+  // Set when the driver starts and ends the trip in the driver app
+  started_at?: string | null;
+  ended_at?: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type InspectionItem = {
+  item: string;
+  ok: boolean;
+};
+
+// Pre-trip checklist submitted from the driver app
+export type VehicleInspection = {
+  id: string;
+  organization_id: string;
+  user_id: string | null;
+  vehicle_id: string;
+  driver_id: string;
+  trip_id: string | null;
+  items: InspectionItem[];
+  passed: boolean;
+  notes: string | null;
+  created_at: string;
+};
+
 export type Geofence = {
   id: string;
   user_id: string;
+  organization_id: string;
   name: string;
   description?: string;
   zone_type: 'circle' | 'polygon';
   center_lat?: number;
   center_lon?: number;
   radius_meters?: number;
-  polygon_coordinates?: { lat: number; lon: number }[];
+  polygon_coordinates?: PolygonCoordinates;
+  purpose: 'geofence' | 'speed_limit';
+  speed_limit_kmh?: number | null;
+  source?: 'manual' | 'osm';
+  osm_way_id?: number | null;
   alert_on_enter: boolean;
   alert_on_exit: boolean;
   is_active: boolean;
@@ -115,28 +227,178 @@ export type Geofence = {
 export type Alert = {
   id: string;
   user_id: string;
+  organization_id: string;
   vehicle_id: string;
-  alert_type: 'speed_limit' | 'geofence_enter' | 'geofence_exit' | 'low_fuel' | 
-    'engine_off' | 'engine_on' | 'harsh_braking' | 'harsh_acceleration' | 
-    'idle_too_long' | 'maintenance_due' | 'battery_disconnect' | 'no_gps_signal';
+  alert_type: 'speed_limit' | 'geofence_enter' | 'geofence_exit' | 'low_fuel' | 'fuel_drop' |
+    'engine_off' | 'engine_on' | 'harsh_braking' | 'harsh_acceleration' | 'harsh_cornering' |
+    'idle_too_long' | 'maintenance_due' | 'battery_disconnect' | 'no_gps_signal' | 'custom_rule';
   severity: 'low' | 'medium' | 'high' | 'critical';
   title: string;
   message: string;
+  driver_id?: string | null;
+  rule_id?: string | null;
   geofence_id?: string;
   location_lat?: number;
   location_lon?: number;
   speed?: number;
   metadata?: Record<string, any>;
+  episode_key?: string | null;
+  status: 'open' | 'closed';
+  first_occurred_at: string;
+  last_occurred_at: string;
+  closed_at?: string | null;
+  occurrence_count: number;
+  peak_value?: number | null;
+  timeline: AlertTimelineEntry[];
   is_read: boolean;
   is_acknowledged: boolean;
   acknowledged_at?: string;
   acknowledged_by?: string;
+  escalation_policy_id?: string | null;
+  escalation_level: number;
+  escalated_at?: string | null;
+  created_at: string;
+};
+
+export type AlertTimelineEntry = {
+  at: string;
+  event: 'opened' | 'occurred' | 'reopened' | 'closed';
+  value: number | null;
+};
+
+export type VehicleGroup = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type VehicleGroupMember = {
+  group_id: string;
+  vehicle_id: string;
+  created_at: string;
+};
+
+export type RuleField =
+  | 'speed'
+  | 'speed_over_limit'
+  | 'fuel_percent'
+  | 'battery_voltage'
+  | 'engine_status'
+  | 'time_of_day'
+  | 'geofence';
+
+export type RuleCondition = {
+  field: RuleField;
+  op: string;
+  // number, engine status, ['HH:MM', 'HH:MM'] or geofence id depending on the field
+  value: number | string | [string, string];
+};
+
+export type RuleConditionGroup = {
+  operator: 'and' | 'or';
+  conditions: (RuleCondition | RuleConditionGroup)[];
+};
+
+export type AlertRule = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  is_enabled: boolean;
+  alert_type: Alert['alert_type'];
+  severity: Alert['severity'];
+  scope_type: 'all' | 'vehicle' | 'group';
+  vehicle_id?: string | null;
+  group_id?: string | null;
+  // Geofence whose alert_on_enter / alert_on_exit flag turns the rule on and off
+  geofence_id?: string | null;
+  conditions: RuleConditionGroup;
+  duration_seconds: number;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type EscalationStep = {
+  delay_minutes: number;
+  target_type: 'user' | 'role';
+  target_user_id?: string | null;
+  target_role?: 'admin' | 'manager' | 'driver' | 'viewer' | null;
+  channel: 'email' | 'webhook';
+  webhook_url?: string | null;
+  days?: number[];
+  from?: string | null;
+  until?: string | null;
+};
+
+export type EscalationPolicy = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  is_enabled: boolean;
+  severities: Alert['severity'][];
+  timezone: string;
+  steps: EscalationStep[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type AlertNotification = {
+  id: string;
+  alert_id: string;
+  user_id: string;
+  organization_id: string;
+  policy_id?: string | null;
+  step: number;
+  channel: EscalationStep['channel'];
+  recipients: string[];
+  status: 'sent' | 'failed';
+  error?: string | null;
+  created_at: string;
+};
+
+export type WebhookSubscription = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  url: string;
+  secret: string;
+  event_types: string[];
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  organization_id: string;
+  event_type: string;
+  event_id: string;
+  payload: { id: string; type: string; created_at: string; data: Record<string, unknown> };
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  response_status?: number | null;
+  last_error?: string | null;
+  delivered_at?: string | null;
+  replay_of?: string | null;
   created_at: string;
 };
 
 export type FuelLog = {
   id: string;
   vehicle_id: string;
+  organization_id?: string;
   fuel_level_percent?: number;
   fuel_volume_liters?: number;
   fuel_consumed_liters?: number;
@@ -147,13 +409,71 @@ export type FuelLog = {
   cost_per_liter?: number;
   total_cost?: number;
   notes?: string;
+  import_id?: string | null;
+  station_name?: string | null;
+  reconciliation_flags?: ('no_gps' | 'far_from_station' | 'vehicle_moving' | 'over_capacity')[];
+  gps_distance_meters?: number | null;
+  gps_distance_km?: number | null;
   recorded_at: string;
   created_at: string;
 };
 
+export type VehicleOdometer = {
+  vehicle_id: string;
+  user_id: string;
+  organization_id: string;
+  gps_distance_km: number;
+  last_fix_at?: string | null;
+  tracking_since?: string | null;
+  calibration_km: number;
+  calibration_gps_km?: number | null;
+  calibrated_at: string;
+  last_reported_km?: number | null;
+  last_drift_km?: number | null;
+  virtual_odometer_km: number;
+  engine_hours: number;
+  engine_status?: string | null;
+  engine_status_at?: string | null;
+  updated_at: string;
+};
+
+export type FuelImport = {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  file_name: string;
+  headers: string[];
+  column_mapping: Record<string, number>;
+  date_order: 'ymd' | 'dmy' | 'mdy';
+  decimal_separator: '.' | ',';
+  row_count: number;
+  imported_count: number;
+  flagged_count: number;
+  skipped_count: number;
+  created_at: string;
+};
+
+export type FuelEvent = {
+  id: string;
+  vehicle_id: string;
+  user_id: string;
+  organization_id: string;
+  event_type: 'refuel' | 'drop';
+  level_before: number;
+  level_after: number;
+  volume_liters?: number | null;
+  location_lat?: number | null;
+  location_lon?: number | null;
+  started_at: string;
+  ended_at: string;
+  alert_id?: string | null;
+  created_at: string;
+};
+
 export type VehicleSettings = {
   id: string;
   vehicle_id: string;
+  organization_id?: string;
   max_speed_limit: number;
   enable_speed_alerts: boolean;
   fuel_tank_capacity_liters?: number;
@@ -165,13 +485,39 @@ export type VehicleSettings = {
   maintenance_interval_km: number;
   last_maintenance_km?: number;
   enable_maintenance_alerts: boolean;
+  enable_trip_detection: boolean;
+  trip_use_ignition: boolean;
+  trip_min_speed_kmh: number;
+  trip_end_dwell_minutes: number;
+  trip_min_stop_minutes: number;
+  trip_min_distance_km: number;
+  trip_min_duration_minutes: number;
   created_at: string;
   updated_at: string;
 };
 
+export type TripStop = {
+  latitude: number;
+  longitude: number;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  idle_minutes: number | null;
+};
+
 export type TripRoute = {
   id: string;
-  trip_id: string;
+  trip_id: string | null;
+  vehicle_id?: string;
+  user_id?: string;
+  organization_id?: string;
+  source: 'manual' | 'detected';
+  started_at?: string;
+  ended_at?: string;
+  start_latitude?: number;
+  start_longitude?: number;
+  end_latitude?: number;
+  end_longitude?: number;
   route_points: { lat: number; lon: number; timestamp: string; speed: number }[];
   total_distance_km?: number;
   total_duration_minutes?: number;
@@ -180,7 +526,7 @@ export type TripRoute = {
   fuel_consumed_liters?: number;
   fuel_cost?: number;
   stops_count: number;
-  stops_data?: any;
+  stops_data?: TripStop[];
   created_at: string;
 };
 
@@ -204,11 +550,15 @@ export type VehicleHealth = {
   engine_temperature?: number;
   battery_voltage?: number;
   battery_status?: 'good' | 'low' | 'critical' | 'disconnected';
+  battery_level_percent?: number;
   odometer_reading?: number;
   fuel_level_percent?: number;
   gps_signal_strength?: number;
+  gsm_signal_strength?: number;
   satellites_count?: number;
-  error_codes?: any;
+  // Diagnostic trouble codes reported over OBD / CAN, e.g. "P0301"
+  error_codes?: string[] | null;
+  dtc_count?: number | null;
   recorded_at: string;
   created_at: string;
 };
@@ -0,0 +1,58 @@
+import { Alert } from './supabase';
+
+// Events of webhook subscriptions, queued by database triggers and the GPS server
+// (gps-server/lib/webhooks.js)
+
+export type WebhookEventType = { value: string; label: string };
+
+const ALERT_TYPE_LABELS: Record<Alert['alert_type'], string> = {
+  speed_limit: 'Speeding',
+  geofence_enter: 'Geofence entry',
+  geofence_exit: 'Geofence exit',
+  low_fuel: 'Low fuel',
+  fuel_drop: 'Fuel drop (possible theft)',
+  engine_off: 'Engine off',
+  engine_on: 'Engine on',
+  harsh_braking: 'Harsh braking',
+  harsh_acceleration: 'Harsh acceleration',
+  harsh_cornering: 'Harsh cornering',
+  idle_too_long: 'Idling',
+  maintenance_due: 'Maintenance due',
+  battery_disconnect: 'Battery disconnect',
+  no_gps_signal: 'No GPS signal',
+  custom_rule: 'Custom rule',
+};
+
+export const WEBHOOK_EVENT_GROUPS: { label: string; events: WebhookEventType[] }[] = [
+  {
+    label: 'Tracking',
+    events: [
+      { value: 'gps_update', label: 'Live position (every fix)' },
+      { value: 'geofence.enter', label: 'Geofence entered' },
+      { value: 'geofence.exit', label: 'Geofence left' },
+    ],
+  },
+  {
+    label: 'Trips & assignments',
+    events: [
+      { value: 'trip.status_changed', label: 'Scheduled trip status changed' },
+      { value: 'trip.completed', label: 'Trip detected and completed' },
+      { value: 'assignment.changed', label: 'Vehicle assignment changed' },
+    ],
+  },
+  {
+    label: 'Alerts (new or reopened)',
+    events: (Object.keys(ALERT_TYPE_LABELS) as Alert['alert_type'][]).map((type) => ({
+      value: `alert.${type}`,
+      label: ALERT_TYPE_LABELS[type],
+    })),
+  },
+];
+
+/**
+ * Random hex secret for signing, 32 bytes like the database default.
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
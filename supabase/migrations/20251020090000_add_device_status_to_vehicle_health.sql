@@ -0,0 +1,20 @@
+/*
+  # Device status fields on vehicle health
+
+  ## Overview
+  GT06 heartbeat (0x13) and alarm (0x16) packets report the tracker's battery level and
+  GSM signal alongside the ignition state. The GPS server now records them in `vehicle_health`.
+
+  ## 1. Changed Tables
+
+  ### `vehicle_health`
+  - `battery_level_percent` (decimal, nullable) - Tracker battery level reported by the device (0-100)
+  - `gsm_signal_strength` (integer, nullable) - GSM signal strength as a percentage (0-100)
+
+  ## 2. Important Notes
+  - `engine_status` is filled from the reported ignition (ACC) state
+  - Existing rows keep NULL for the new columns
+*/
+
+ALTER TABLE vehicle_health ADD COLUMN IF NOT EXISTS battery_level_percent DECIMAL(5, 2);
+ALTER TABLE vehicle_health ADD COLUMN IF NOT EXISTS gsm_signal_strength INTEGER;
@@ -0,0 +1,24 @@
+/*
+  # Store-and-forward fields on GPS locations
+
+  ## Overview
+  Trackers that lose GSM coverage buffer their fixes and upload them when they reconnect.
+  The GPS server now keeps the time reported by the device in `timestamp` and records
+  when the fix actually reached the server, so backlog uploads can be told apart from live data.
+
+  ## 1. Changed Tables
+
+  ### `gps_locations`
+  - `is_replayed` (boolean, default false) - Fix was uploaded late: flagged as historical by the
+    device, older than the newest fix already stored for the vehicle, or received long after it was taken
+  - `received_at` (timestamptz, default now()) - Time the server received the fix
+
+  ## 2. Important Notes
+  - Replayed fixes are stored for trip history but do not trigger speed or geofence alerts
+  - Existing rows are considered live (`is_replayed = false`, `received_at = created_at`)
+*/
+
+ALTER TABLE gps_locations ADD COLUMN IF NOT EXISTS is_replayed BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE gps_locations ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ DEFAULT now() NOT NULL;
+
+UPDATE gps_locations SET received_at = created_at WHERE received_at > created_at;
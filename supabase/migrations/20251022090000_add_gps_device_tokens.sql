@@ -0,0 +1,75 @@
+/*
+  # Per-device ingestion tokens
+
+  ## Overview
+  The GPS server's HTTP endpoints used to accept positions for any `device_id` from any host.
+  Every GPS device now gets a rotatable secret that HTTP devices present as a bearer token or
+  use to sign their requests (HMAC-SHA256). The secret is generated in the database and
+  returned once, the browser can never read it back.
+
+  ## 1. New Tables
+
+  ### `gps_device_tokens`
+  - `gps_device_id` (uuid, primary key) - References gps_devices, removed with the device
+  - `secret` (text) - 64 hex characters, read by the GPS server with the service role key
+  - `created_at` (timestamptz) - When the secret was issued
+
+  ## 2. Changed Tables
+
+  ### `gps_devices`
+  - `token_hint` (text, nullable) - Last 4 characters of the current token, for display
+  - `token_rotated_at` (timestamptz, nullable) - When the current token was issued
+
+  ## 3. Functions
+  - `rotate_gps_device_token(p_device_id uuid)` - Issues a new secret for a device owned by the
+    caller, replacing the previous one, and returns it
+
+  ## 4. Security
+  - RLS is enabled on `gps_device_tokens` without any policy, and table privileges are revoked
+    from `anon` and `authenticated`: only the service role and the function above touch secrets
+  - Devices without a token are rejected by the HTTP endpoints once the server runs with
+    device authentication enabled (the default)
+*/
+
+ALTER TABLE gps_devices ADD COLUMN IF NOT EXISTS token_hint TEXT;
+ALTER TABLE gps_devices ADD COLUMN IF NOT EXISTS token_rotated_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS gps_device_tokens (
+  gps_device_id UUID PRIMARY KEY REFERENCES gps_devices(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE gps_device_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON gps_device_tokens FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION rotate_gps_device_token(p_device_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM gps_devices WHERE id = p_device_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'GPS device not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Two random UUIDs give 244 random bits without depending on pgcrypto
+  v_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO gps_device_tokens (gps_device_id, secret)
+  VALUES (p_device_id, v_token)
+  ON CONFLICT (gps_device_id) DO UPDATE SET secret = EXCLUDED.secret, created_at = now();
+
+  UPDATE gps_devices
+  SET token_hint = right(v_token, 4), token_rotated_at = now()
+  WHERE id = p_device_id;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rotate_gps_device_token(UUID) FROM public, anon;
+GRANT EXECUTE ON FUNCTION rotate_gps_device_token(UUID) TO authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Automatic trip detection
+
+  ## Overview
+  Trips used to exist only when someone scheduled them in the Trips page. The GPS server now
+  cuts each vehicle's GPS fixes into trips using ignition, speed and dwell-time rules and stores
+  them in `trip_routes`. Detected trips are linked to the scheduled trip of the same vehicle whose
+  departure/arrival window overlaps them.
+
+  ## 1. Changed Tables
+
+  ### `trip_routes`
+  - `vehicle_id` (uuid, nullable) - Vehicle that drove the route
+  - `user_id` (uuid, nullable) - Owner of the vehicle, for RLS
+  - `source` (text, default 'manual') - 'detected' for routes written by the GPS server
+  - `started_at`, `ended_at` (timestamptz, nullable) - First and last fix of the trip
+  - `start_latitude`, `start_longitude`, `end_latitude`, `end_longitude` (decimal, nullable)
+  - `trip_id` stays nullable: detected trips without a matching schedule have no trip
+
+  ### `vehicle_settings`
+  - `enable_trip_detection` (boolean, default true)
+  - `trip_use_ignition` (boolean, default true) - End trips when the tracker reports ignition off
+  - `trip_min_speed_kmh` (decimal, default 5) - Speed at or above which the vehicle is moving
+  - `trip_end_dwell_minutes` (integer, default 5) - Time below that speed (or without fixes) that ends a trip
+  - `trip_min_stop_minutes` (integer, default 2) - Shorter standstills inside a trip are not recorded as stops
+  - `trip_min_distance_km` (decimal, default 0.3) - Shorter trips are discarded as GPS noise
+  - `trip_min_duration_minutes` (integer, default 2) - Shorter trips are discarded
+
+  ## 2. Security
+  - Owners can read detected routes of their vehicles through `user_id`
+  - Routes are written by the GPS server with the service role key
+
+  ## 3. Important Notes
+  - `(vehicle_id, started_at)` is unique so a trip is never recorded twice, manual routes have no
+    vehicle_id and are not affected
+*/
+
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE CASCADE;
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'manual' NOT NULL CHECK (source IN ('manual', 'detected'));
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS start_latitude DECIMAL(10, 8);
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS start_longitude DECIMAL(11, 8);
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS end_latitude DECIMAL(10, 8);
+ALTER TABLE trip_routes ADD COLUMN IF NOT EXISTS end_longitude DECIMAL(11, 8);
+ALTER TABLE trip_routes ALTER COLUMN trip_id DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_routes_vehicle_started ON trip_routes(vehicle_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_trip_routes_user_started ON trip_routes(user_id, started_at DESC);
+
+DROP POLICY IF EXISTS "Users can view detected routes for own vehicles" ON trip_routes;
+CREATE POLICY "Users can view detected routes for own vehicles"
+  ON trip_routes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS enable_trip_detection BOOLEAN DEFAULT true;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_use_ignition BOOLEAN DEFAULT true;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_min_speed_kmh DECIMAL(5, 2) DEFAULT 5;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_end_dwell_minutes INTEGER DEFAULT 5;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_min_stop_minutes INTEGER DEFAULT 2;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_min_distance_km DECIMAL(6, 2) DEFAULT 0.3;
+ALTER TABLE vehicle_settings ADD COLUMN IF NOT EXISTS trip_min_duration_minutes INTEGER DEFAULT 2;
@@ -0,0 +1,32 @@
+/*
+  # Harsh driving alerts
+
+  ## Overview
+  The GPS server derives acceleration, braking and cornering from consecutive fixes and raises
+  alerts when they exceed the thresholds of the vehicle class. Alerts are attributed to the
+  driver of the vehicle's active assignment.
+
+  ## 1. Changed Tables
+
+  ### `alerts`
+  - `alert_type` also accepts 'harsh_cornering'
+  - `driver_id` (uuid, nullable) - Driver assigned to the vehicle when the alert was raised
+
+  ## 2. Important Notes
+  - The fixes an event was derived from are stored in `metadata.fixes`, together with the
+    measured value and threshold in m/s²
+*/
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+  'speed_limit', 'geofence_enter', 'geofence_exit',
+  'low_fuel', 'engine_off', 'engine_on',
+  'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+  'maintenance_due', 'battery_disconnect', 'no_gps_signal'
+));
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_driver_created
+  ON alerts(driver_id, created_at DESC)
+  WHERE driver_id IS NOT NULL;
@@ -0,0 +1,35 @@
+/*
+  # Speed-limit zones
+
+  ## Overview
+  Speeding used to be checked against a single `max_speed_limit` per vehicle. Geofences can now
+  be speed-limit zones carrying the limit that applies inside them, drawn in the dashboard or
+  imported from an OpenStreetMap extract. The GPS server checks each fix against the lowest
+  limit of the zones it lies in and falls back to the vehicle limit elsewhere.
+
+  ## 1. Changed Tables
+
+  ### `geofences`
+  - `purpose` (text, default 'geofence') - 'speed_limit' for speed-limit zones, which raise no
+    enter/exit events
+  - `speed_limit_kmh` (integer, nullable) - Limit inside a speed-limit zone
+  - `source` (text, default 'manual') - 'osm' for zones imported by scripts/import-osm-speed-limits.js
+  - `osm_way_id` (bigint, nullable) - Imported OSM way, unique per user so re-imports update in place
+
+  ## 2. Important Notes
+  - A speeding alert now covers a whole episode: `metadata` holds the limit and its source, the
+    peak speed, how far over, start, end and duration, and is updated until the vehicle slows down
+*/
+
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS purpose TEXT DEFAULT 'geofence' NOT NULL
+  CHECK (purpose IN ('geofence', 'speed_limit'));
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS speed_limit_kmh INTEGER CHECK (speed_limit_kmh > 0);
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'manual' NOT NULL
+  CHECK (source IN ('manual', 'osm'));
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS osm_way_id BIGINT;
+
+ALTER TABLE geofences DROP CONSTRAINT IF EXISTS geofences_speed_limit_check;
+ALTER TABLE geofences ADD CONSTRAINT geofences_speed_limit_check
+  CHECK (purpose <> 'speed_limit' OR speed_limit_kmh IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofences_user_osm_way ON geofences(user_id, osm_way_id);
@@ -0,0 +1,57 @@
+/*
+  # Alert episodes
+
+  ## Overview
+  The GPS server no longer inserts one alert per qualifying fix. A lasting or repeating
+  condition of a vehicle (speeding in a zone, harsh braking, entering a geofence...) is one
+  alert row, an episode, that is opened, updated with every occurrence and closed after a
+  quiet period. Within a per-type cooldown after closing, a new occurrence reopens the same
+  row instead of inserting another.
+
+  ## 1. Changed Tables
+
+  ### `alerts`
+  - `episode_key` (text, nullable) - Alert type and scope (e.g. 'speed_limit:<zone id>'),
+    unique per vehicle among open episodes
+  - `status` (text) - 'open' or 'closed'
+  - `first_occurred_at` (timestamptz) - First occurrence
+  - `last_occurred_at` (timestamptz) - Latest occurrence
+  - `closed_at` (timestamptz, nullable) - When the episode was closed
+  - `occurrence_count` (integer) - Occurrences grouped in the episode
+  - `peak_value` (numeric, nullable) - Highest measured value (km/h, m/s², minutes... by type)
+  - `timeline` (jsonb) - Opened/occurred/reopened/closed entries with their time and value
+
+  ## 2. Important Notes
+  - Existing alerts become closed single-occurrence episodes
+  - The timeline keeps the first entry and the 49 most recent ones
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS episode_key TEXT;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'closed'
+  CHECK (status IN ('open', 'closed'));
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS first_occurred_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_occurred_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 1
+  CHECK (occurrence_count > 0);
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS peak_value NUMERIC;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS timeline JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE alerts
+SET first_occurred_at = COALESCE(first_occurred_at, created_at),
+    last_occurred_at = COALESCE(last_occurred_at, created_at),
+    closed_at = COALESCE(closed_at, created_at)
+WHERE first_occurred_at IS NULL OR last_occurred_at IS NULL;
+
+ALTER TABLE alerts ALTER COLUMN first_occurred_at SET DEFAULT now();
+ALTER TABLE alerts ALTER COLUMN first_occurred_at SET NOT NULL;
+ALTER TABLE alerts ALTER COLUMN last_occurred_at SET DEFAULT now();
+ALTER TABLE alerts ALTER COLUMN last_occurred_at SET NOT NULL;
+
+-- One open episode per vehicle and key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open_episode
+  ON alerts(vehicle_id, episode_key)
+  WHERE status = 'open' AND episode_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_user_last_occurred
+  ON alerts(user_id, last_occurred_at DESC);
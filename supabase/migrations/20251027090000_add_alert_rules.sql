@@ -0,0 +1,176 @@
+/*
+  # Configurable alert rules
+
+  ## Overview
+  Speed and geofence alerts were hard-coded in the GPS server. Alerts are now described by
+  rules: conditions over live telemetry combined with AND/OR, a duration the conditions must
+  hold for, a scope (all vehicles, one vehicle or a vehicle group) and a severity. The GPS
+  server evaluates the enabled rules of the owner on every fix and status packet, and every
+  alert raised by a rule references it.
+
+  ## 1. New Tables
+
+  ### `vehicle_groups`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner
+  - `name` (text), `description` (text, nullable)
+
+  ### `vehicle_group_members`
+  - `group_id` (uuid) - References vehicle_groups, removed with the group
+  - `vehicle_id` (uuid) - References vehicles, removed with the vehicle
+
+  ### `alert_rules`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner
+  - `name` (text) - Alert title
+  - `description` (text, nullable)
+  - `is_enabled` (boolean, default true)
+  - `alert_type` (text, default 'custom_rule') - Type of the alerts raised, so that rules can
+    stand in for the built-in types (e.g. 'speed_limit' counts towards driver scores)
+  - `severity` (text) - low, medium, high or critical
+  - `scope_type` (text) - 'all', 'vehicle' or 'group', with `vehicle_id` / `group_id`
+  - `conditions` (jsonb) - Condition tree:
+    `{ "operator": "and" | "or", "conditions": [ { "field", "op", "value" } | <tree> ] }`
+    Fields: speed, speed_over_limit, fuel_percent, battery_voltage (numbers, ops gt/gte/lt/lte),
+    engine_status (eq/neq 'on' | 'off' | 'idle'), time_of_day (between ["HH:MM", "HH:MM"]),
+    geofence (inside/outside/enters/exits a geofence id)
+  - `duration_seconds` (integer, default 0) - How long the conditions must hold before alerting
+  - `timezone` (text, default 'UTC') - IANA time zone of time_of_day conditions
+
+  ## 2. Changed Tables
+
+  ### `alerts`
+  - `alert_type` also accepts 'custom_rule'
+  - `rule_id` (uuid, nullable) - Rule that raised the alert
+
+  ## 3. Security
+  - Owners manage their own groups, memberships and rules
+  - The GPS server reads rules with the service role key
+
+  ## 4. Important Notes
+  - Existing behaviour is carried over as rules: one "Speeding" rule per user with vehicles
+    (speed over the zone or vehicle limit for 10 s), and one entry/exit rule per geofence with
+    `alert_on_enter` / `alert_on_exit` set. The two flags are no longer read by the server.
+*/
+
+CREATE TABLE IF NOT EXISTS vehicle_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS vehicle_group_members (
+  group_id uuid REFERENCES vehicle_groups(id) ON DELETE CASCADE NOT NULL,
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (group_id, vehicle_id)
+);
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  is_enabled boolean DEFAULT true NOT NULL,
+  alert_type text DEFAULT 'custom_rule' NOT NULL,
+  severity text DEFAULT 'medium' NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  scope_type text DEFAULT 'all' NOT NULL CHECK (scope_type IN ('all', 'vehicle', 'group')),
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE,
+  group_id uuid REFERENCES vehicle_groups(id) ON DELETE CASCADE,
+  conditions jsonb NOT NULL,
+  duration_seconds integer DEFAULT 0 NOT NULL CHECK (duration_seconds >= 0),
+  timezone text DEFAULT 'UTC' NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT alert_rules_scope_check CHECK (
+    (scope_type = 'all') OR
+    (scope_type = 'vehicle' AND vehicle_id IS NOT NULL) OR
+    (scope_type = 'group' AND group_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_groups_user ON vehicle_groups(user_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_group_members_vehicle ON vehicle_group_members(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user_enabled ON alert_rules(user_id) WHERE is_enabled;
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+  'speed_limit', 'geofence_enter', 'geofence_exit',
+  'low_fuel', 'engine_off', 'engine_on',
+  'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+  'maintenance_due', 'battery_disconnect', 'no_gps_signal', 'custom_rule'
+));
+
+ALTER TABLE alert_rules ADD CONSTRAINT alert_rules_alert_type_check CHECK (alert_type IN (
+  'speed_limit', 'geofence_enter', 'geofence_exit',
+  'low_fuel', 'engine_off', 'engine_on',
+  'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+  'maintenance_due', 'battery_disconnect', 'no_gps_signal', 'custom_rule'
+));
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL;
+
+ALTER TABLE vehicle_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own vehicle groups"
+  ON vehicle_groups FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage members of own vehicle groups"
+  ON vehicle_group_members FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM vehicle_groups
+      WHERE vehicle_groups.id = vehicle_group_members.group_id
+      AND vehicle_groups.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM vehicle_groups
+      WHERE vehicle_groups.id = vehicle_group_members.group_id
+      AND vehicle_groups.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM vehicles
+      WHERE vehicles.id = vehicle_group_members.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage own alert rules"
+  ON alert_rules FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Former fixed checks, as rules
+INSERT INTO alert_rules (user_id, name, description, alert_type, severity, conditions, duration_seconds)
+SELECT DISTINCT v.user_id, 'Speeding',
+  'Speed above the limit of the speed-limit zone, or of the vehicle outside zones',
+  'speed_limit', 'high',
+  '{"operator": "and", "conditions": [{"field": "speed_over_limit", "op": "gt", "value": 0}]}'::jsonb,
+  10
+FROM vehicles v;
+
+INSERT INTO alert_rules (user_id, name, alert_type, severity, conditions)
+SELECT g.user_id, 'Entered ' || g.name, 'geofence_enter', 'medium',
+  jsonb_build_object('operator', 'and', 'conditions',
+    jsonb_build_array(jsonb_build_object('field', 'geofence', 'op', 'enters', 'value', g.id)))
+FROM geofences g
+WHERE g.alert_on_enter AND COALESCE(g.purpose, 'geofence') = 'geofence';
+
+INSERT INTO alert_rules (user_id, name, alert_type, severity, conditions)
+SELECT g.user_id, 'Left ' || g.name, 'geofence_exit', 'medium',
+  jsonb_build_object('operator', 'and', 'conditions',
+    jsonb_build_array(jsonb_build_object('field', 'geofence', 'op', 'exits', 'value', g.id)))
+FROM geofences g
+WHERE g.alert_on_exit AND COALESCE(g.purpose, 'geofence') = 'geofence';
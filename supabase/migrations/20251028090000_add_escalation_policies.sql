@@ -0,0 +1,96 @@
+/*
+  # Alert escalation policies
+
+  ## Overview
+  An alert that is not acknowledged within a set time notifies a person or role, then the
+  next one in a chain. Policies apply per severity, and each step can be restricted to
+  weekdays and hours so that alerts reach whoever is on call. The GPS server runs the
+  escalation and delivers by email (SMTP) or webhook.
+
+  ## 1. New Tables
+
+  ### `escalation_policies`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner; applies to the owner's alerts
+  - `name` (text), `description` (text, nullable)
+  - `is_enabled` (boolean, default true)
+  - `severities` (text[]) - Alert severities the policy applies to
+  - `timezone` (text, default 'UTC') - IANA time zone of the step schedules
+  - `steps` (jsonb) - Ordered by delay:
+    `[{ "delay_minutes", "target_type": "user" | "role", "target_user_id", "target_role",
+        "channel": "email" | "webhook", "webhook_url", "days": [0-6], "from": "HH:MM", "until": "HH:MM" }]`
+    `delay_minutes` counts from the first occurrence of the alert; `days` (0 = Sunday) and
+    `from`/`until` are optional, a step out of its schedule is passed over
+
+  ### `alert_notifications`
+  - `id` (uuid, primary key)
+  - `alert_id` (uuid) - Escalated alert
+  - `user_id` (uuid) - Owner of the alert
+  - `policy_id` (uuid, nullable) - Policy of the step
+  - `step` (integer) - 1-based step number
+  - `channel` (text) - 'email' or 'webhook'
+  - `recipients` (text[]) - Email addresses, or the webhook URL
+  - `status` (text) - 'sent' or 'failed', with `error`
+
+  ## 2. Changed Tables
+
+  ### `alerts`
+  - `escalation_policy_id` (uuid, nullable) - Policy escalating the alert
+  - `escalation_level` (integer, default 0) - Steps handled so far
+  - `escalated_at` (timestamptz, nullable) - Last step handled
+
+  ## 3. Security
+  - Owners manage their policies and read their notification log
+  - Notifications are written by the GPS server with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  is_enabled boolean DEFAULT true NOT NULL,
+  severities text[] DEFAULT ARRAY['critical'] NOT NULL
+    CHECK (severities <@ ARRAY['low', 'medium', 'high', 'critical']),
+  timezone text DEFAULT 'UTC' NOT NULL,
+  steps jsonb DEFAULT '[]'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS alert_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid REFERENCES alerts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  policy_id uuid REFERENCES escalation_policies(id) ON DELETE SET NULL,
+  step integer NOT NULL,
+  channel text NOT NULL,
+  recipients text[] DEFAULT '{}' NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_escalation_policies_user_enabled ON escalation_policies(user_id) WHERE is_enabled;
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_alert ON alert_notifications(alert_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_alerts_unacknowledged
+  ON alerts(user_id, first_occurred_at)
+  WHERE NOT is_acknowledged;
+
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own escalation policies"
+  ON escalation_policies FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own alert notifications"
+  ON alert_notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
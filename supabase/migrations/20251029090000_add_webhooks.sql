@@ -0,0 +1,249 @@
+/*
+  # Outbound webhooks
+
+  ## Overview
+  External systems (dispatch, ERP) subscribe to fleet events with a URL. Every matching event
+  becomes a delivery row that the GPS server POSTs, signed with the subscription secret, and
+  retries with exponential backoff until it is accepted or gives up. The delivery log is kept
+  and any delivery can be replayed from the Webhooks page.
+
+  ## 1. New Tables
+
+  ### `webhook_subscriptions`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner; only the owner's events are delivered
+  - `name` (text), `url` (text)
+  - `secret` (text) - HMAC-SHA256 key of the `X-Fleet-Signature` header
+  - `event_types` (text[]) - Subscribed events:
+    gps_update, alert.<alert type>, geofence.enter, geofence.exit, trip.status_changed,
+    trip.completed, assignment.changed
+  - `is_enabled` (boolean, default true)
+
+  ### `webhook_deliveries`
+  - `id` (uuid, primary key)
+  - `subscription_id` (uuid) - Target subscription
+  - `user_id` (uuid) - Owner
+  - `event_type` (text), `event_id` (uuid) - One event id is shared by the deliveries of an event
+  - `payload` (jsonb) - Body sent: `{ id, type, created_at, data }`
+  - `status` (text) - 'pending', 'delivered' or 'failed' (attempts exhausted)
+  - `attempts` (integer), `next_attempt_at` (timestamptz) - Retry schedule
+  - `response_status` (integer, nullable), `last_error` (text, nullable) - Last attempt
+  - `delivered_at` (timestamptz, nullable)
+  - `replay_of` (uuid, nullable) - Delivery this one replays
+
+  ## 2. Event Sources
+  - Table changes are queued by triggers through `enqueue_webhook_event()`:
+    alerts (new and reopened episodes), geofence_events, trips (status changes),
+    trip_routes (detected trips) and vehicle_assignments (any change)
+  - `gps_update` is queued by the GPS server for live fixes, without a trigger on the high
+    volume gps_locations table
+
+  ## 3. Security
+  - Owners manage their subscriptions, read their deliveries and may insert deliveries of
+    their own subscriptions (replays and test pings)
+  - The GPS server sends deliveries with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  -- Two random UUIDs give 244 random bits without depending on pgcrypto
+  secret text DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '') NOT NULL,
+  event_types text[] DEFAULT '{}' NOT NULL,
+  is_enabled boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES webhook_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL,
+  event_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer DEFAULT 0 NOT NULL,
+  next_attempt_at timestamptz DEFAULT now() NOT NULL,
+  response_status integer,
+  last_error text,
+  delivered_at timestamptz,
+  replay_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user_enabled ON webhook_subscriptions(user_id) WHERE is_enabled;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_created
+  ON webhook_deliveries(subscription_id, created_at DESC);
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own webhook subscriptions"
+  ON webhook_subscriptions FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can queue deliveries of own subscriptions"
+  ON webhook_deliveries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND attempts = 0
+    AND EXISTS (
+      SELECT 1 FROM webhook_subscriptions
+      WHERE webhook_subscriptions.id = webhook_deliveries.subscription_id
+      AND webhook_subscriptions.user_id = auth.uid()
+    )
+  );
+
+-- Queues one delivery per enabled subscription of the owner to the event type
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_user_id UUID, p_event_type TEXT, p_data JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO webhook_deliveries (subscription_id, user_id, event_type, event_id, payload)
+  SELECT s.id, s.user_id, p_event_type, v_event_id,
+    jsonb_build_object('id', v_event_id, 'type', p_event_type, 'created_at', now(), 'data', p_data)
+  FROM webhook_subscriptions s
+  WHERE s.user_id = p_user_id
+  AND s.is_enabled
+  AND p_event_type = ANY(s.event_types);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION webhook_alert_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (OLD.status = 'closed' AND NEW.status = 'open') THEN
+    PERFORM enqueue_webhook_event(NEW.user_id, 'alert.' || NEW.alert_type,
+      jsonb_build_object('action', CASE WHEN TG_OP = 'INSERT' THEN 'opened' ELSE 'reopened' END)
+        || (to_jsonb(NEW) - 'timeline'));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_geofence_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    (SELECT user_id FROM vehicles WHERE id = NEW.vehicle_id),
+    'geofence.' || NEW.event_type,
+    to_jsonb(NEW) || jsonb_build_object('geofence_name', (SELECT name FROM geofences WHERE id = NEW.geofence_id))
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_trip_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.user_id, 'trip.status_changed',
+    jsonb_build_object('previous_status', OLD.status) || to_jsonb(NEW));
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_trip_route_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.user_id, 'trip.completed', to_jsonb(NEW) - 'route_points' - 'stops_data');
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_assignment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row vehicle_assignments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(
+    (SELECT user_id FROM vehicles WHERE id = v_row.vehicle_id),
+    'assignment.changed',
+    jsonb_build_object('action', lower(TG_OP)) || to_jsonb(v_row)
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alerts_webhook_trigger ON alerts;
+CREATE TRIGGER alerts_webhook_trigger
+  AFTER INSERT OR UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_alert_event();
+
+DROP TRIGGER IF EXISTS geofence_events_webhook_trigger ON geofence_events;
+CREATE TRIGGER geofence_events_webhook_trigger
+  AFTER INSERT ON geofence_events
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_geofence_event();
+
+DROP TRIGGER IF EXISTS trips_webhook_trigger ON trips;
+CREATE TRIGGER trips_webhook_trigger
+  AFTER UPDATE OF status ON trips
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION webhook_trip_status_event();
+
+DROP TRIGGER IF EXISTS trip_routes_webhook_trigger ON trip_routes;
+CREATE TRIGGER trip_routes_webhook_trigger
+  AFTER INSERT ON trip_routes
+  FOR EACH ROW
+  WHEN (NEW.source = 'detected')
+  EXECUTE FUNCTION webhook_trip_route_event();
+
+DROP TRIGGER IF EXISTS vehicle_assignments_webhook_trigger ON vehicle_assignments;
+CREATE TRIGGER vehicle_assignments_webhook_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON vehicle_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_assignment_event();
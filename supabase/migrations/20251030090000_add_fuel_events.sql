@@ -0,0 +1,76 @@
+/*
+  # Fuel events
+
+  ## Overview
+  The GPS server smooths the fuel level readings of the vehicles (`vehicle_health.fuel_level_percent`)
+  and detects refuels and sudden drops while the vehicle is parked, a possible siphoning or leak.
+  Each one is stored with the levels before and after, and shown on the fuel chart. Drops raise
+  a `fuel_drop` alert and a level below `low_fuel_threshold_percent` a `low_fuel` alert when
+  `enable_fuel_alerts` is set.
+
+  ## 1. New Tables
+
+  ### `fuel_events`
+  - `id` (uuid, primary key)
+  - `vehicle_id` (uuid) - Vehicle
+  - `user_id` (uuid) - Owner of the vehicle
+  - `event_type` (text) - 'refuel' or 'drop'
+  - `level_before`, `level_after` (numeric) - Smoothed fuel level in percent
+  - `volume_liters` (numeric, nullable) - Change in liters, when the tank capacity is known
+  - `location_lat`, `location_lon` (numeric, nullable) - Last position of the vehicle
+  - `started_at`, `ended_at` (timestamptz) - When the level started and stopped changing
+  - `alert_id` (uuid, nullable) - fuel_drop alert of a drop
+
+  ## 2. Changed Tables
+
+  ### `alerts`, `alert_rules`
+  - `alert_type` also accepts 'fuel_drop'
+
+  ## 3. Security
+  - Owners read the events of their vehicles
+  - Events are written by the GPS server with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS fuel_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('refuel', 'drop')),
+  level_before numeric(5, 2) NOT NULL,
+  level_after numeric(5, 2) NOT NULL,
+  volume_liters numeric(8, 2),
+  location_lat numeric(10, 8),
+  location_lon numeric(11, 8),
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz NOT NULL,
+  alert_id uuid REFERENCES alerts(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_events_vehicle_ended ON fuel_events(vehicle_id, ended_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_health_fuel
+  ON vehicle_health(vehicle_id, recorded_at DESC)
+  WHERE fuel_level_percent IS NOT NULL;
+
+ALTER TABLE fuel_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own fuel events"
+  ON fuel_events FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+  'speed_limit', 'geofence_enter', 'geofence_exit',
+  'low_fuel', 'fuel_drop', 'engine_off', 'engine_on',
+  'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+  'maintenance_due', 'battery_disconnect', 'no_gps_signal', 'custom_rule'
+));
+
+ALTER TABLE alert_rules DROP CONSTRAINT IF EXISTS alert_rules_alert_type_check;
+ALTER TABLE alert_rules ADD CONSTRAINT alert_rules_alert_type_check CHECK (alert_type IN (
+  'speed_limit', 'geofence_enter', 'geofence_exit',
+  'low_fuel', 'fuel_drop', 'engine_off', 'engine_on',
+  'harsh_braking', 'harsh_acceleration', 'harsh_cornering', 'idle_too_long',
+  'maintenance_due', 'battery_disconnect', 'no_gps_signal', 'custom_rule'
+));
@@ -0,0 +1,70 @@
+/*
+  # Fuel card statement imports
+
+  ## Overview
+  Fuel purchases can be imported from fuel card statements (CSV) instead of being typed in one by
+  one. The Fuel page maps the statement columns, matches each transaction to a vehicle by license
+  plate or card number, and compares it with the GPS position of the vehicle at purchase time.
+  Matched transactions become fuel_logs that keep a reference to their statement, with the
+  reconciliation problems found.
+
+  ## 1. New Tables
+
+  ### `fuel_imports`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner
+  - `file_name` (text) - Imported statement
+  - `headers` (text[]) - Header row of the statement
+  - `column_mapping` (jsonb) - Column index per field (date, time, plate, card_number, liters,
+    price_per_liter, total_amount, station, latitude, longitude, odometer), offered again for
+    the next statement with the same headers
+  - `date_order` (text) - 'ymd', 'dmy' or 'mdy'
+  - `row_count`, `imported_count`, `flagged_count`, `skipped_count` (integer) - Summary; skipped
+    rows had no matching vehicle, invalid values or were already imported
+
+  ## 2. Changed Tables
+
+  ### `vehicles`
+  - `fuel_card_number` (text, nullable) - Card matched against statements
+
+  ### `fuel_logs`
+  - `import_id` (uuid, nullable) - Statement of an imported purchase, deleting the import deletes its logs
+  - `station_name` (text, nullable)
+  - `reconciliation_flags` (text[]) - 'no_gps', 'far_from_station', 'vehicle_moving', 'over_capacity'
+  - `gps_distance_meters` (numeric, nullable) - Distance between the vehicle and the station
+
+  ## 3. Security
+  - Owners manage their imports; deleting one removes its fuel logs through the foreign key
+*/
+
+CREATE TABLE IF NOT EXISTS fuel_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  file_name text NOT NULL,
+  headers text[] DEFAULT '{}' NOT NULL,
+  column_mapping jsonb DEFAULT '{}'::jsonb NOT NULL,
+  date_order text DEFAULT 'ymd' NOT NULL CHECK (date_order IN ('ymd', 'dmy', 'mdy')),
+  row_count integer DEFAULT 0 NOT NULL,
+  imported_count integer DEFAULT 0 NOT NULL,
+  flagged_count integer DEFAULT 0 NOT NULL,
+  skipped_count integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS fuel_card_number TEXT;
+
+ALTER TABLE fuel_logs ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES fuel_imports(id) ON DELETE CASCADE;
+ALTER TABLE fuel_logs ADD COLUMN IF NOT EXISTS station_name TEXT;
+ALTER TABLE fuel_logs ADD COLUMN IF NOT EXISTS reconciliation_flags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE fuel_logs ADD COLUMN IF NOT EXISTS gps_distance_meters NUMERIC(10, 1);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_imports_user_created ON fuel_imports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fuel_logs_import ON fuel_logs(import_id) WHERE import_id IS NOT NULL;
+
+ALTER TABLE fuel_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own fuel imports"
+  ON fuel_imports FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
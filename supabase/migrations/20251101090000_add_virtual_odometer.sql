@@ -0,0 +1,96 @@
+/*
+  # Virtual odometer
+
+  ## Overview
+  The GPS server adds up the filtered distance between the stored fixes of each vehicle, and
+  calibrates it with the reported odometer readings (vehicles.odometer when tracking starts, then
+  the odometer_reading of fuel logs). Fuel logs are stamped with the GPS distance at their time,
+  so that the Fuel page computes the consumption between fill-ups from the GPS track instead of
+  manually entered odometer readings.
+
+  ## 1. New Tables
+
+  ### `vehicle_odometers`
+  - `vehicle_id` (uuid, primary key)
+  - `user_id` (uuid) - Owner of the vehicle
+  - `gps_distance_km` (numeric) - Filtered GPS distance since tracking started
+  - `last_latitude`, `last_longitude` (numeric, nullable) - Last fix counted
+  - `last_fix_at` (timestamptz, nullable) - Fixes up to this time have been processed
+  - `tracking_since` (timestamptz, nullable) - First fix processed
+  - `calibration_km` (numeric) - Latest reported odometer reading
+  - `calibration_gps_km` (numeric, nullable) - GPS distance at that reading, null until the
+    server has processed the fixes up to its time
+  - `calibrated_at` (timestamptz) - Time of that reading
+  - `last_reported_km`, `last_drift_km` (numeric, nullable) - Previous recalibration: the reading
+    and its difference to the virtual odometer
+  - `virtual_odometer_km` (numeric, generated) - calibration_km plus the GPS distance since
+
+  ### `odometer_snapshots`
+  - `vehicle_id` (uuid), `bucket` (timestamptz) - Primary key, 15-minute periods with movement
+  - `at` (timestamptz) - Last fix of the period
+  - `gps_distance_km` (numeric) - GPS distance at that fix
+
+  ## 2. Changed Tables
+
+  ### `fuel_logs`
+  - `gps_distance_km` (numeric, nullable) - GPS distance of the vehicle at `recorded_at`, null
+    before tracking started
+
+  ## 3. Security
+  - Owners read the odometers and snapshots of their vehicles
+  - Both are written by the GPS server with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS vehicle_odometers (
+  vehicle_id uuid PRIMARY KEY REFERENCES vehicles(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  gps_distance_km numeric(12, 3) DEFAULT 0 NOT NULL,
+  last_latitude numeric(10, 8),
+  last_longitude numeric(11, 8),
+  last_fix_at timestamptz,
+  tracking_since timestamptz,
+  calibration_km numeric(12, 1) DEFAULT 0 NOT NULL,
+  calibration_gps_km numeric(12, 3),
+  calibrated_at timestamptz DEFAULT now() NOT NULL,
+  last_reported_km numeric(12, 1),
+  last_drift_km numeric(12, 1),
+  virtual_odometer_km numeric(12, 1) GENERATED ALWAYS AS (
+    calibration_km + gps_distance_km - COALESCE(calibration_gps_km, gps_distance_km)
+  ) STORED,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS odometer_snapshots (
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE NOT NULL,
+  bucket timestamptz NOT NULL,
+  at timestamptz NOT NULL,
+  gps_distance_km numeric(12, 3) NOT NULL,
+  PRIMARY KEY (vehicle_id, bucket)
+);
+
+ALTER TABLE fuel_logs ADD COLUMN IF NOT EXISTS gps_distance_km NUMERIC(12, 3);
+
+CREATE INDEX IF NOT EXISTS idx_odometer_snapshots_vehicle_at ON odometer_snapshots(vehicle_id, at);
+CREATE INDEX IF NOT EXISTS idx_fuel_logs_unstamped
+  ON fuel_logs(vehicle_id, recorded_at)
+  WHERE gps_distance_km IS NULL;
+
+ALTER TABLE vehicle_odometers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE odometer_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own vehicle odometers"
+  ON vehicle_odometers FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own odometer snapshots"
+  ON odometer_snapshots FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM vehicles
+      WHERE vehicles.id = odometer_snapshots.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,93 @@
+/*
+  # Preventive maintenance plans
+
+  ## Overview
+  Service plans define recurring maintenance per vehicle type, with a kilometer, engine hour and
+  calendar interval; the first one reached is due. The GPS server keeps one upcoming
+  maintenance_records row per plan and vehicle, computed from the virtual odometer and the engine
+  hours, with a forecast date from the average daily usage of the last 30 days. It raises a
+  `maintenance_due` alert when the service is within the lead distance, hours or days of the plan,
+  and again once it is overdue. Completing the record schedules the next one from its readings.
+
+  ## 1. New Tables
+
+  ### `maintenance_plans`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner
+  - `name` (text), `description` (text, nullable)
+  - `vehicle_type` (text, nullable) - Vehicles of this type (vehicles.type), all when null
+  - `maintenance_type` (text) - Type of the generated records, 'routine' or 'inspection'
+  - `interval_km`, `interval_engine_hours`, `interval_days` (integer, nullable) - At least one
+  - `lead_km`, `lead_engine_hours`, `lead_days` (integer) - How early the alert is raised
+  - `is_active` (boolean)
+
+  ## 2. Changed Tables
+
+  ### `maintenance_records`
+  - `plan_id` (uuid, nullable) - Plan of a generated record
+  - `auto_generated` (boolean) - Created by the GPS server, its scheduled_date is the forecast
+  - `due_km`, `due_engine_hours` (numeric, nullable), `due_date` (date, nullable) - Due values
+  - `engine_hours` (numeric, nullable) - Engine hours at the time of the maintenance
+  - `alert_level` (text, nullable) - 'due_soon' or 'overdue', the last alert raised
+  - `alert_id` (uuid, nullable) - That alert
+
+  ### `vehicle_odometers`
+  - `engine_hours` (numeric) - Running time from the ignition states in vehicle_health
+  - `engine_status`, `engine_status_at` - Last ignition state counted
+
+  ### `odometer_snapshots`
+  - `engine_hours` (numeric) - Engine hours at the snapshot
+
+  ## 3. Security
+  - Owners manage their plans; generated records follow the existing maintenance_records policies
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  vehicle_type text,
+  maintenance_type text DEFAULT 'routine' NOT NULL CHECK (maintenance_type IN ('routine', 'inspection')),
+  interval_km integer CHECK (interval_km > 0),
+  interval_engine_hours integer CHECK (interval_engine_hours > 0),
+  interval_days integer CHECK (interval_days > 0),
+  lead_km integer DEFAULT 1000 NOT NULL,
+  lead_engine_hours integer DEFAULT 20 NOT NULL,
+  lead_days integer DEFAULT 14 NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (interval_km IS NOT NULL OR interval_engine_hours IS NOT NULL OR interval_days IS NOT NULL)
+);
+
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES maintenance_plans(id) ON DELETE SET NULL;
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS auto_generated BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS due_km NUMERIC(12, 1);
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS due_engine_hours NUMERIC(10, 2);
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS engine_hours NUMERIC(10, 2);
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS alert_level TEXT CHECK (alert_level IN ('due_soon', 'overdue'));
+ALTER TABLE maintenance_records ADD COLUMN IF NOT EXISTS alert_id UUID REFERENCES alerts(id) ON DELETE SET NULL;
+
+ALTER TABLE vehicle_odometers ADD COLUMN IF NOT EXISTS engine_hours NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE vehicle_odometers ADD COLUMN IF NOT EXISTS engine_status TEXT;
+ALTER TABLE vehicle_odometers ADD COLUMN IF NOT EXISTS engine_status_at TIMESTAMPTZ;
+
+ALTER TABLE odometer_snapshots ADD COLUMN IF NOT EXISTS engine_hours NUMERIC(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_plans_user ON maintenance_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_records_plan
+  ON maintenance_records(plan_id, vehicle_id)
+  WHERE plan_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vehicle_health_engine_status
+  ON vehicle_health(vehicle_id, recorded_at)
+  WHERE engine_status IS NOT NULL;
+
+ALTER TABLE maintenance_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own maintenance plans"
+  ON maintenance_plans FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
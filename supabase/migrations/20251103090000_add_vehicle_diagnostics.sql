@@ -0,0 +1,27 @@
+/*
+  # Vehicle diagnostics
+
+  ## Overview
+  The GPS server records the OBD / CAN values reported by the trackers (coolant temperature,
+  odometer, diagnostic trouble codes) in `vehicle_health`, along with the satellites of the last
+  fix and a battery status rated from the vehicle voltage. The Diagnostics page charts them per
+  vehicle and decodes the trouble codes. Loss of external power and of the GPS position raise
+  battery_disconnect and no_gps_signal alerts.
+
+  ## 1. Changed Tables
+
+  ### `vehicle_health`
+  - `dtc_count` (integer, nullable) - Number of stored trouble codes reported by the vehicle
+  - `error_codes` (jsonb) - Now an array of trouble codes, e.g. `["P0301", "P0420"]`
+  - `engine_temperature`, `odometer_reading`, `satellites_count` - Now filled by the GPS server
+
+  ## 2. Important Notes
+  - Trackers that only report the number of trouble codes leave `error_codes` NULL
+  - Existing rows keep NULL for the new column
+*/
+
+ALTER TABLE vehicle_health ADD COLUMN IF NOT EXISTS dtc_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_health_error_codes
+  ON vehicle_health(vehicle_id, recorded_at DESC)
+  WHERE error_codes IS NOT NULL OR dtc_count > 0;
@@ -0,0 +1,670 @@
+/*
+  # Organizations
+
+  ## Overview
+  Fleet data used to belong to the user who created it, so dispatchers of the same company could
+  not share a fleet. Data now belongs to an organization; users are members of one or more
+  organizations with a role and work in one of them at a time (the org switcher of the
+  dashboard). Every user keeps a personal organization, which receives the data they owned
+  before this migration.
+
+  ## 1. New Tables
+
+  ### `organizations`
+  - `id` (uuid, primary key)
+  - `name` (text)
+  - `is_personal` (boolean) - Created for a user on sign up, one per user
+  - `created_by` (uuid, nullable)
+
+  ### `organization_members`
+  - `organization_id`, `user_id` (uuid, primary key)
+  - `email` (text) - Copied from the account when the member is added
+  - `role` (text) - 'admin', 'manager', 'driver' or 'viewer'
+  - `is_current` (boolean) - Organization the member is working in, one per user
+
+  ## 2. Changed Tables
+  - `organization_id` (uuid) added to vehicles, drivers, trips, geofences, gps_devices, alerts,
+    alert_rules, vehicle_groups, escalation_policies, alert_notifications, webhook_subscriptions,
+    webhook_deliveries, fuel_events, fuel_imports, vehicle_odometers, maintenance_plans,
+    trip_routes, fuel_logs, maintenance_records, vehicle_assignments and vehicle_settings
+  - Existing rows move to the organization of their vehicle, else to the personal organization
+    of their `user_id`
+  - `user_id` stays as the creator of a row
+
+  ## 3. Functions
+  - `current_organization_id()` - Organization the caller works in
+  - `is_organization_member(org)`, `is_organization_admin(org)`, `can_edit_organization(org)`
+  - `switch_organization(org)`, `create_organization(name)` and
+    `add_organization_member(org, email, role)` for the dashboard
+  - `enqueue_webhook_event` now takes the organization of the event
+
+  ## 4. Security
+  - Members see the data of their current organization, so queries without an organization
+    filter follow the switcher; admins and managers change it, drivers and viewers only read
+  - GPS positions, health, odometer snapshots and geofence events are visible through their vehicle
+  - Tables written by the GPS server (fuel_events, vehicle_odometers, alert_notifications,
+    trip_routes, webhook_deliveries) stay read only, apart from webhook redeliveries
+  - Only admins add, change and remove members
+
+  ## 5. Important Notes
+  - Rows inserted without `organization_id` get the organization of their vehicle (or alert,
+    subscription, trip), else the caller's current organization, else the personal
+    organization of their `user_id`; the GPS server keeps inserting `user_id` only
+  - Every existing policy on the tables above is replaced
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  is_personal boolean DEFAULT false NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text,
+  role text DEFAULT 'viewer' NOT NULL CHECK (role IN ('admin', 'manager', 'driver', 'viewer')),
+  is_current boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_personal ON organizations(created_by) WHERE is_personal;
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_current ON organization_members(user_id) WHERE is_current;
+
+-- Membership checks run inside policies, they bypass the policies of organization_members
+CREATE OR REPLACE FUNCTION is_organization_member(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_admin(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_organization(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role IN ('admin', 'manager')
+  );
+$$;
+
+-- The organization picked in the switcher, else the oldest membership
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members
+  WHERE user_id = auth.uid()
+  ORDER BY is_current DESC, created_at ASC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION ensure_personal_organization(p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT id INTO v_organization_id FROM organizations WHERE created_by = p_user_id AND is_personal;
+  IF v_organization_id IS NOT NULL THEN
+    RETURN v_organization_id;
+  END IF;
+
+  INSERT INTO organizations (name, is_personal, created_by)
+  VALUES (COALESCE(NULLIF(split_part(p_email, '@', 1), ''), 'My') || '''s fleet', true, p_user_id)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role, is_current)
+  VALUES (
+    v_organization_id, p_user_id, p_email, 'admin',
+    NOT EXISTS (SELECT 1 FROM organization_members WHERE user_id = p_user_id AND is_current)
+  )
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  RETURN v_organization_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION ensure_personal_organization(UUID, TEXT) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_personal_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM ensure_personal_organization(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auth_users_personal_organization_trigger ON auth.users;
+CREATE TRIGGER auth_users_personal_organization_trigger
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_personal_organization();
+
+CREATE OR REPLACE FUNCTION switch_organization(p_organization_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Organization not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Two statements, the unique index is checked row by row
+  UPDATE organization_members SET is_current = false
+  WHERE user_id = auth.uid() AND is_current AND organization_id <> p_organization_id;
+
+  UPDATE organization_members SET is_current = true
+  WHERE user_id = auth.uid() AND organization_id = p_organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Organization name is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_organization_id, auth.uid(), (SELECT email FROM auth.users WHERE id = auth.uid()), 'admin');
+
+  PERFORM switch_organization(v_organization_id);
+  RETURN v_organization_id;
+END;
+$$;
+
+-- Adds an existing account, or changes the role of a member
+CREATE OR REPLACE FUNCTION add_organization_member(p_organization_id UUID, p_email TEXT, p_role TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user auth.users%ROWTYPE;
+BEGIN
+  IF NOT is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can add members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_user FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user.id IS NULL THEN
+    RAISE EXCEPTION 'No account with email %', p_email USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (p_organization_id, v_user.id, v_user.email, p_role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION switch_organization(UUID) FROM public, anon;
+REVOKE ALL ON FUNCTION create_organization(TEXT) FROM public, anon;
+REVOKE ALL ON FUNCTION add_organization_member(UUID, TEXT, TEXT) FROM public, anon;
+GRANT EXECUTE ON FUNCTION switch_organization(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_organization_member(UUID, TEXT, TEXT) TO authenticated;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id));
+
+CREATE POLICY "Admins can update their organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(id))
+  WITH CHECK (is_organization_admin(id));
+
+CREATE POLICY "Admins can delete shared organizations"
+  ON organizations FOR DELETE
+  TO authenticated
+  USING (is_organization_admin(id) AND NOT is_personal);
+
+CREATE POLICY "Members can view members of their organizations"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Admins can change members"
+  ON organization_members FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(organization_id))
+  WITH CHECK (is_organization_admin(organization_id));
+
+CREATE POLICY "Admins can remove members, members can leave"
+  ON organization_members FOR DELETE
+  TO authenticated
+  USING (is_organization_admin(organization_id) OR user_id = auth.uid());
+
+-- Personal organizations of the existing accounts
+DO $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  FOR v_user IN SELECT id, email FROM auth.users LOOP
+    PERFORM ensure_personal_organization(v_user.id, v_user.email);
+  END LOOP;
+END $$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'vehicles', 'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules',
+    'vehicle_groups', 'escalation_policies', 'alert_notifications', 'webhook_subscriptions',
+    'webhook_deliveries', 'fuel_events', 'fuel_imports', 'vehicle_odometers', 'maintenance_plans',
+    'trip_routes', 'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE', v_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(organization_id)', 'idx_' || v_table || '_organization', v_table);
+  END LOOP;
+END $$;
+
+-- Existing rows: vehicles go to the personal organization of their owner, rows of a vehicle
+-- follow it, the others go to the personal organization of their user_id
+UPDATE vehicles SET organization_id = o.id
+FROM organizations o
+WHERE o.created_by = vehicles.user_id AND o.is_personal AND vehicles.organization_id IS NULL;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'trips', 'gps_devices', 'alerts', 'fuel_events', 'vehicle_odometers', 'trip_routes',
+    'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings'
+  ] LOOP
+    EXECUTE format(
+      'UPDATE %I t SET organization_id = v.organization_id FROM vehicles v WHERE v.id = t.vehicle_id AND t.organization_id IS NULL',
+      v_table
+    );
+  END LOOP;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules', 'vehicle_groups',
+    'escalation_policies', 'webhook_subscriptions', 'fuel_events', 'fuel_imports',
+    'vehicle_odometers', 'maintenance_plans', 'trip_routes'
+  ] LOOP
+    EXECUTE format(
+      'UPDATE %I t SET organization_id = o.id FROM organizations o WHERE o.created_by = t.user_id AND o.is_personal AND t.organization_id IS NULL',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+UPDATE trip_routes SET organization_id = t.organization_id
+FROM trips t
+WHERE t.id = trip_routes.trip_id AND trip_routes.organization_id IS NULL;
+
+UPDATE alert_notifications SET organization_id = a.organization_id
+FROM alerts a
+WHERE a.id = alert_notifications.alert_id AND alert_notifications.organization_id IS NULL;
+
+UPDATE webhook_deliveries SET organization_id = s.organization_id
+FROM webhook_subscriptions s
+WHERE s.id = webhook_deliveries.subscription_id AND webhook_deliveries.organization_id IS NULL;
+
+-- Fills organization_id of new rows, see the notes above
+CREATE OR REPLACE FUNCTION set_organization_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+BEGIN
+  IF NEW.organization_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_row := to_jsonb(NEW);
+  IF v_row->>'vehicle_id' IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id FROM vehicles WHERE id = (v_row->>'vehicle_id')::uuid;
+  ELSIF v_row->>'alert_id' IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id FROM alerts WHERE id = (v_row->>'alert_id')::uuid;
+  ELSIF v_row->>'subscription_id' IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id FROM webhook_subscriptions WHERE id = (v_row->>'subscription_id')::uuid;
+  ELSIF v_row->>'trip_id' IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id FROM trips WHERE id = (v_row->>'trip_id')::uuid;
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := current_organization_id();
+  END IF;
+
+  IF NEW.organization_id IS NULL AND v_row->>'user_id' IS NOT NULL THEN
+    SELECT id INTO NEW.organization_id FROM organizations
+    WHERE created_by = (v_row->>'user_id')::uuid AND is_personal;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+  v_policy RECORD;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'vehicles', 'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules',
+    'vehicle_groups', 'escalation_policies', 'alert_notifications', 'webhook_subscriptions',
+    'webhook_deliveries', 'fuel_events', 'fuel_imports', 'vehicle_odometers', 'maintenance_plans',
+    'trip_routes', 'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', v_table || '_organization_trigger', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE INSERT ON %I FOR EACH ROW EXECUTE FUNCTION set_organization_id()',
+      v_table || '_organization_trigger', v_table
+    );
+  END LOOP;
+
+  -- Policies keyed on user_id, from the migrations and the setup scripts
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = ANY(ARRAY[
+      'vehicles', 'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules',
+      'vehicle_groups', 'escalation_policies', 'alert_notifications', 'webhook_subscriptions',
+      'webhook_deliveries', 'fuel_events', 'fuel_imports', 'vehicle_odometers', 'maintenance_plans',
+      'trip_routes', 'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings',
+      'gps_locations', 'vehicle_health', 'odometer_snapshots', 'geofence_events', 'vehicle_group_members'
+    ])
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'vehicles', 'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules',
+    'vehicle_groups', 'escalation_policies', 'alert_notifications', 'webhook_subscriptions',
+    'webhook_deliveries', 'fuel_events', 'fuel_imports', 'vehicle_odometers', 'maintenance_plans',
+    'trip_routes', 'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (organization_id = current_organization_id())',
+      'Members can view organization ' || replace(v_table, '_', ' '), v_table
+    );
+  END LOOP;
+
+  -- The other tables are written by the GPS server
+  FOREACH v_table IN ARRAY ARRAY[
+    'vehicles', 'drivers', 'trips', 'geofences', 'gps_devices', 'alerts', 'alert_rules',
+    'vehicle_groups', 'escalation_policies', 'webhook_subscriptions', 'fuel_imports',
+    'maintenance_plans', 'fuel_logs', 'maintenance_records', 'vehicle_assignments', 'vehicle_settings'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR ALL TO authenticated
+        USING (organization_id = current_organization_id() AND can_edit_organization(organization_id))
+        WITH CHECK (organization_id = current_organization_id() AND can_edit_organization(organization_id))',
+      'Editors can manage organization ' || replace(v_table, '_', ' '), v_table
+    );
+  END LOOP;
+
+  FOREACH v_table IN ARRAY ARRAY['gps_locations', 'vehicle_health', 'odometer_snapshots', 'geofence_events'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (EXISTS (
+        SELECT 1 FROM vehicles WHERE vehicles.id = %I.vehicle_id AND vehicles.organization_id = current_organization_id()
+      ))',
+      'Members can view ' || replace(v_table, '_', ' ') || ' of organization vehicles', v_table, v_table
+    );
+  END LOOP;
+END $$;
+
+-- Positions sent from the browser tracker and the simulator
+CREATE POLICY "Editors can insert locations of organization vehicles"
+  ON gps_locations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM vehicles
+      WHERE vehicles.id = gps_locations.vehicle_id
+      AND vehicles.organization_id = current_organization_id()
+      AND can_edit_organization(vehicles.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can view members of organization vehicle groups"
+  ON vehicle_group_members FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM vehicle_groups
+      WHERE vehicle_groups.id = vehicle_group_members.group_id
+      AND vehicle_groups.organization_id = current_organization_id()
+    )
+  );
+
+CREATE POLICY "Editors can manage members of organization vehicle groups"
+  ON vehicle_group_members FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM vehicle_groups
+      WHERE vehicle_groups.id = vehicle_group_members.group_id
+      AND vehicle_groups.organization_id = current_organization_id()
+      AND can_edit_organization(vehicle_groups.organization_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM vehicle_groups
+      WHERE vehicle_groups.id = vehicle_group_members.group_id
+      AND vehicle_groups.organization_id = current_organization_id()
+      AND can_edit_organization(vehicle_groups.organization_id)
+    )
+  );
+
+-- Redeliveries of a past event, as in 20251029090000_add_webhooks
+CREATE POLICY "Editors can queue deliveries of organization subscriptions"
+  ON webhook_deliveries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = current_organization_id()
+    AND can_edit_organization(organization_id)
+    AND status = 'pending'
+    AND attempts = 0
+    AND EXISTS (
+      SELECT 1 FROM webhook_subscriptions
+      WHERE webhook_subscriptions.id = webhook_deliveries.subscription_id
+      AND webhook_subscriptions.organization_id = webhook_deliveries.organization_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION rotate_gps_device_token(p_device_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM gps_devices WHERE id = p_device_id AND can_edit_organization(organization_id)) THEN
+    RAISE EXCEPTION 'GPS device not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Two random UUIDs give 244 random bits without depending on pgcrypto
+  v_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO gps_device_tokens (gps_device_id, secret)
+  VALUES (p_device_id, v_token)
+  ON CONFLICT (gps_device_id) DO UPDATE SET secret = EXCLUDED.secret, created_at = now();
+
+  UPDATE gps_devices
+  SET token_hint = right(v_token, 4), token_rotated_at = now()
+  WHERE id = p_device_id;
+
+  RETURN v_token;
+END;
+$$;
+
+-- The parameter is renamed, CREATE OR REPLACE cannot do that
+DROP FUNCTION IF EXISTS enqueue_webhook_event(UUID, TEXT, JSONB);
+
+-- Queues one delivery per enabled subscription of the organization to the event type
+CREATE FUNCTION enqueue_webhook_event(p_organization_id UUID, p_event_type TEXT, p_data JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO webhook_deliveries (subscription_id, user_id, organization_id, event_type, event_id, payload)
+  SELECT s.id, s.user_id, s.organization_id, p_event_type, v_event_id,
+    jsonb_build_object('id', v_event_id, 'type', p_event_type, 'created_at', now(), 'data', p_data)
+  FROM webhook_subscriptions s
+  WHERE s.organization_id = p_organization_id
+  AND s.is_enabled
+  AND p_event_type = ANY(s.event_types);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION webhook_alert_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (OLD.status = 'closed' AND NEW.status = 'open') THEN
+    PERFORM enqueue_webhook_event(NEW.organization_id, 'alert.' || NEW.alert_type,
+      jsonb_build_object('action', CASE WHEN TG_OP = 'INSERT' THEN 'opened' ELSE 'reopened' END)
+        || (to_jsonb(NEW) - 'timeline'));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_geofence_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    (SELECT organization_id FROM vehicles WHERE id = NEW.vehicle_id),
+    'geofence.' || NEW.event_type,
+    to_jsonb(NEW) || jsonb_build_object('geofence_name', (SELECT name FROM geofences WHERE id = NEW.geofence_id))
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_trip_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.organization_id, 'trip.status_changed',
+    jsonb_build_object('previous_status', OLD.status) || to_jsonb(NEW));
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_trip_route_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.organization_id, 'trip.completed', to_jsonb(NEW) - 'route_points' - 'stops_data');
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_assignment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row vehicle_assignments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(
+    (SELECT organization_id FROM vehicles WHERE id = v_row.vehicle_id),
+    'assignment.changed',
+    jsonb_build_object('action', lower(TG_OP)) || to_jsonb(v_row)
+  );
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,217 @@
+/*
+  # Member Permissions
+
+  ## Overview
+  The User Roles page edits a detailed set of permissions (can_edit_vehicles, can_delete_trips,
+  can_manage_roles...) but nothing enforced them: any admin or manager of an organization could
+  delete its vehicles, and the permissions lived in a global `user_roles` table that knows
+  nothing about organizations. Permissions now belong to the organization membership and the
+  policies of vehicles, drivers, trips and maintenance records check them.
+
+  ## 1. Changed Tables
+
+  ### `organization_members`
+  - `permissions` (jsonb) - Overrides of the defaults of the role, empty for a plain role
+  - `is_active` (boolean) - Inactive members keep their membership but lose access to the
+    organization
+
+  ## 2. Functions
+  - `role_permissions(role)` - Default permissions of a role, same as `DEFAULT_PERMISSIONS`
+    in the dashboard
+  - `has_organization_permission(org, permission)` - Permission of the caller in an organization
+  - `is_organization_member`, `is_organization_admin`, `can_edit_organization` and
+    `current_organization_id` ignore inactive memberships
+  - `add_organization_member` needs `can_manage_roles` and resets the overrides of the member
+
+  ## 3. Security
+  - vehicles, drivers and trips: viewing, creating/updating and deleting need the matching
+    `can_view_*`, `can_edit_*` and `can_delete_*` permission
+  - maintenance_records: viewing needs `can_view_maintenance`, every change `can_edit_maintenance`
+  - Adding, changing and removing members needs `can_manage_roles`; members can still leave
+
+  ## 4. Important Notes
+  - The defaults keep the access of 20251104090000_add_organizations: admins and managers edit,
+    drivers and viewers read; only admins delete and manage roles
+  - `user_roles` from setup_user_roles.sql is no longer read by the dashboard
+*/
+
+ALTER TABLE organization_members ADD COLUMN IF NOT EXISTS permissions jsonb DEFAULT '{}'::jsonb NOT NULL;
+ALTER TABLE organization_members ADD COLUMN IF NOT EXISTS is_active boolean DEFAULT true NOT NULL;
+
+CREATE OR REPLACE FUNCTION role_permissions(p_role TEXT)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN '{
+      "can_view_vehicles": true, "can_edit_vehicles": true, "can_delete_vehicles": true,
+      "can_view_drivers": true, "can_edit_drivers": true, "can_delete_drivers": true,
+      "can_view_trips": true, "can_edit_trips": true, "can_delete_trips": true,
+      "can_view_maintenance": true, "can_edit_maintenance": true, "can_manage_roles": true
+    }'::jsonb
+    WHEN 'manager' THEN '{
+      "can_view_vehicles": true, "can_edit_vehicles": true, "can_delete_vehicles": false,
+      "can_view_drivers": true, "can_edit_drivers": true, "can_delete_drivers": false,
+      "can_view_trips": true, "can_edit_trips": true, "can_delete_trips": false,
+      "can_view_maintenance": true, "can_edit_maintenance": true, "can_manage_roles": false
+    }'::jsonb
+    WHEN 'driver' THEN '{
+      "can_view_vehicles": true, "can_edit_vehicles": false, "can_delete_vehicles": false,
+      "can_view_drivers": false, "can_edit_drivers": false, "can_delete_drivers": false,
+      "can_view_trips": true, "can_edit_trips": false, "can_delete_trips": false,
+      "can_view_maintenance": true, "can_edit_maintenance": false, "can_manage_roles": false
+    }'::jsonb
+    ELSE '{
+      "can_view_vehicles": true, "can_edit_vehicles": false, "can_delete_vehicles": false,
+      "can_view_drivers": true, "can_edit_drivers": false, "can_delete_drivers": false,
+      "can_view_trips": true, "can_edit_trips": false, "can_delete_trips": false,
+      "can_view_maintenance": true, "can_edit_maintenance": false, "can_manage_roles": false
+    }'::jsonb
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_organization_permission(p_organization_id UUID, p_permission TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT ((role_permissions(role) || permissions) ->> p_permission)::boolean
+    FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND is_active
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_member(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND is_active
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_admin(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'admin' AND is_active
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_organization(p_organization_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+    AND role IN ('admin', 'manager') AND is_active
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members
+  WHERE user_id = auth.uid() AND is_active
+  ORDER BY is_current DESC, created_at ASC
+  LIMIT 1;
+$$;
+
+-- A new role starts from its defaults, the User Roles page saves the overrides afterwards
+CREATE OR REPLACE FUNCTION add_organization_member(p_organization_id UUID, p_email TEXT, p_role TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user auth.users%ROWTYPE;
+BEGIN
+  IF NOT has_organization_permission(p_organization_id, 'can_manage_roles') THEN
+    RAISE EXCEPTION 'You are not allowed to manage the members of this organization' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_user FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user.id IS NULL THEN
+    RAISE EXCEPTION 'No account with email %', p_email USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (p_organization_id, v_user.id, v_user.email, p_role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role, permissions = '{}'::jsonb;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins can change members" ON organization_members;
+DROP POLICY IF EXISTS "Admins can remove members, members can leave" ON organization_members;
+
+CREATE POLICY "Role managers can change members"
+  ON organization_members FOR UPDATE
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'can_manage_roles'))
+  WITH CHECK (has_organization_permission(organization_id, 'can_manage_roles'));
+
+CREATE POLICY "Role managers can remove members, members can leave"
+  ON organization_members FOR DELETE
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'can_manage_roles') OR user_id = auth.uid());
+
+DO $$
+DECLARE
+  v_table TEXT;
+  v_subject TEXT;
+  v_delete TEXT;
+  v_label TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['vehicles', 'drivers', 'trips', 'maintenance_records'] LOOP
+    v_subject := CASE v_table WHEN 'maintenance_records' THEN 'maintenance' ELSE v_table END;
+    v_delete := CASE v_table WHEN 'maintenance_records' THEN 'can_edit_maintenance' ELSE 'can_delete_' || v_subject END;
+    v_label := replace(v_table, '_', ' ');
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can view organization ' || v_label, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Editors can manage organization ' || v_label, v_table);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated
+        USING (organization_id = current_organization_id() AND has_organization_permission(organization_id, %L))',
+      'Members can view organization ' || v_label, v_table, 'can_view_' || v_subject
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+        WITH CHECK (organization_id = current_organization_id() AND has_organization_permission(organization_id, %L))',
+      'Members can create organization ' || v_label, v_table, 'can_edit_' || v_subject
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated
+        USING (organization_id = current_organization_id() AND has_organization_permission(organization_id, %L))
+        WITH CHECK (organization_id = current_organization_id() AND has_organization_permission(organization_id, %L))',
+      'Members can update organization ' || v_label, v_table, 'can_edit_' || v_subject, 'can_edit_' || v_subject
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+        USING (organization_id = current_organization_id() AND has_organization_permission(organization_id, %L))',
+      'Members can delete organization ' || v_label, v_table, v_delete
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,198 @@
+/*
+  # Driver app
+
+  ## Overview
+  Members with the `driver` role get their own screen instead of the admin dashboard: their
+  active vehicle assignment, today's trips with start and end buttons, a pre-trip inspection
+  checklist, fuel fill-ups and location sharing from the phone's browser to the GPS server.
+  A member is linked to the drivers row of their current organization with the same email.
+  Drivers keep the read-only permissions of their role, the writes of the app go through the
+  functions and policies below.
+
+  ## 1. New Tables
+
+  ### `vehicle_inspections`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid) - Filled from the vehicle
+  - `user_id` (uuid) - Account that submitted the inspection
+  - `vehicle_id`, `driver_id` (uuid)
+  - `trip_id` (uuid, nullable) - Trip the inspection was made for
+  - `items` (jsonb) - Checklist as `[{ "item": "Tires", "ok": true }, ...]`
+  - `passed` (boolean) - Every item was ok
+  - `notes` (text, nullable) - Defects found
+
+  ## 2. Changed Tables
+
+  ### `trips`
+  - `started_at`, `ended_at` (timestamptz, nullable) - When the driver started and ended the trip
+
+  ## 3. Functions
+  - `current_driver_id()` - Drivers row of the caller in their current organization
+  - `current_driver_vehicle_id()` - Vehicle of that driver's active assignment
+  - `start_trip(trip)`, `end_trip(trip)` - For the driver of the trip, or members with
+    `can_edit_trips`; ending a trip records its actual duration in minutes
+
+  ## 4. Security
+  - Drivers can view their own drivers row, even without `can_view_drivers`
+  - Drivers can log manual fuel fill-ups for the vehicle assigned to them
+  - Members view the inspections of their organization, drivers submit their own and editors
+    manage them
+
+  ## 5. Important Notes
+  - Positions from the app go to the GPS server (`POST /driver/position`) with the Supabase
+    access token of the driver, not to gps_locations directly
+*/
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS started_at timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS ended_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_drivers_email ON drivers(organization_id, lower(email));
+
+CREATE TABLE IF NOT EXISTS vehicle_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE NOT NULL,
+  driver_id uuid REFERENCES drivers(id) ON DELETE CASCADE NOT NULL,
+  trip_id uuid REFERENCES trips(id) ON DELETE SET NULL,
+  items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  passed boolean NOT NULL,
+  notes text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspections_vehicle ON vehicle_inspections(vehicle_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspections_driver ON vehicle_inspections(driver_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspections_organization ON vehicle_inspections(organization_id);
+
+DROP TRIGGER IF EXISTS vehicle_inspections_organization_trigger ON vehicle_inspections;
+CREATE TRIGGER vehicle_inspections_organization_trigger
+  BEFORE INSERT ON vehicle_inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION set_organization_id();
+
+CREATE OR REPLACE FUNCTION current_driver_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM drivers
+  WHERE organization_id = current_organization_id()
+  AND lower(email) = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  ORDER BY created_at ASC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION current_driver_vehicle_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT vehicle_id FROM vehicle_assignments
+  WHERE driver_id = current_driver_id() AND status = 'active'
+  ORDER BY assigned_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION start_trip(p_trip_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip trips%ROWTYPE;
+BEGIN
+  SELECT * INTO v_trip FROM trips WHERE id = p_trip_id AND organization_id = current_organization_id();
+  IF v_trip.id IS NULL THEN
+    RAISE EXCEPTION 'Trip not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_trip.driver_id IS DISTINCT FROM current_driver_id()
+    AND NOT has_organization_permission(v_trip.organization_id, 'can_edit_trips') THEN
+    RAISE EXCEPTION 'Only the driver of the trip can start it' USING ERRCODE = '42501';
+  END IF;
+  IF v_trip.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Trip is %', replace(v_trip.status, '_', ' ');
+  END IF;
+
+  UPDATE trips
+  SET status = 'in_progress', started_at = now(), updated_at = now()
+  WHERE id = p_trip_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION end_trip(p_trip_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip trips%ROWTYPE;
+BEGIN
+  SELECT * INTO v_trip FROM trips WHERE id = p_trip_id AND organization_id = current_organization_id();
+  IF v_trip.id IS NULL THEN
+    RAISE EXCEPTION 'Trip not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_trip.driver_id IS DISTINCT FROM current_driver_id()
+    AND NOT has_organization_permission(v_trip.organization_id, 'can_edit_trips') THEN
+    RAISE EXCEPTION 'Only the driver of the trip can end it' USING ERRCODE = '42501';
+  END IF;
+  IF v_trip.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Trip is %', replace(v_trip.status, '_', ' ');
+  END IF;
+
+  UPDATE trips
+  SET status = 'completed',
+      ended_at = now(),
+      actual_duration = round(extract(epoch FROM now() - COALESCE(v_trip.started_at, v_trip.departure_time)) / 60),
+      updated_at = now()
+  WHERE id = p_trip_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_trip(UUID) FROM public, anon;
+REVOKE ALL ON FUNCTION end_trip(UUID) FROM public, anon;
+GRANT EXECUTE ON FUNCTION start_trip(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_trip(UUID) TO authenticated;
+
+CREATE POLICY "Drivers can view their own driver record"
+  ON drivers FOR SELECT
+  TO authenticated
+  USING (id = current_driver_id());
+
+CREATE POLICY "Drivers can log fuel for their assigned vehicle"
+  ON fuel_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    vehicle_id = current_driver_vehicle_id()
+    AND organization_id = current_organization_id()
+    AND source = 'manual'
+    AND import_id IS NULL
+  );
+
+ALTER TABLE vehicle_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization vehicle inspections"
+  ON vehicle_inspections FOR SELECT
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Drivers can submit their own inspections"
+  ON vehicle_inspections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = current_organization_id()
+    AND driver_id = current_driver_id()
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Editors can manage organization vehicle inspections"
+  ON vehicle_inspections FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id() AND can_edit_organization(organization_id))
+  WITH CHECK (organization_id = current_organization_id() AND can_edit_organization(organization_id));
@@ -0,0 +1,159 @@
+/*
+  # Default alert rules
+
+  ## Overview
+  Speeding and geofence alerts are raised by alert rules since the alert rules migration, which
+  created them once for the data of the time. Organizations and geofences created later got no
+  rule, so they raised no speeding or geofence alert. The rules are now maintained by triggers:
+  every new organization gets the "Speeding" rule, and the `alert_on_enter` / `alert_on_exit`
+  flags of a geofence (the checkboxes of the Geofences page) enable or disable its entry and
+  exit rules.
+
+  ## 1. Changed Tables
+
+  ### `alert_rules`
+  - `geofence_id` (uuid, nullable) - Geofence whose `alert_on_enter` / `alert_on_exit` flag
+    maintains the rule, removed with the geofence; at most one rule per geofence and alert type
+
+  ## 2. Triggers
+  - `organizations`: a new organization gets the "Speeding" rule (over the zone or vehicle limit
+    for 10 s, high)
+  - `geofences`: setting a flag creates or enables the entry or exit rule, clearing it disables
+    the rule; speed-limit zones have none. Renaming the geofence renames rules that kept their
+    default name
+
+  ## 3. Important Notes
+  - The rules seeded by the alert rules migration are linked to their geofence; geofences with
+    a flag set and no entry or exit rule referencing them get one
+  - Organizations without any alert rule get the "Speeding" rule, organizations that already
+    configured rules are left as they are
+  - Rules edited in the dashboard keep their conditions, severity and scope; the flags only turn
+    them on and off
+*/
+
+ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS geofence_id UUID REFERENCES geofences(id) ON DELETE CASCADE;
+
+-- Rules seeded from the flags: a single enters/exits condition on the geofence
+UPDATE alert_rules r SET geofence_id = seeded.geofence_id
+FROM (
+  SELECT DISTINCT ON (g.id, rule.alert_type) rule.id AS rule_id, g.id AS geofence_id
+  FROM alert_rules rule
+  JOIN geofences g ON g.organization_id = rule.organization_id
+  WHERE rule.alert_type IN ('geofence_enter', 'geofence_exit')
+    AND rule.conditions->'conditions' = jsonb_build_array(jsonb_build_object(
+      'field', 'geofence',
+      'op', CASE rule.alert_type WHEN 'geofence_enter' THEN 'enters' ELSE 'exits' END,
+      'value', g.id
+    ))
+  ORDER BY g.id, rule.alert_type, rule.created_at
+) seeded
+WHERE r.id = seeded.rule_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_rules_geofence
+  ON alert_rules(geofence_id, alert_type)
+  WHERE geofence_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION create_default_alert_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO alert_rules (organization_id, user_id, name, description, alert_type, severity, conditions, duration_seconds)
+  VALUES (
+    NEW.id, NEW.created_by, 'Speeding',
+    'Speed above the limit of the speed-limit zone, or of the vehicle outside zones',
+    'speed_limit', 'high',
+    '{"operator": "and", "conditions": [{"field": "speed_over_limit", "op": "gt", "value": 0}]}'::jsonb,
+    10
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organizations_default_alert_rules_trigger ON organizations;
+CREATE TRIGGER organizations_default_alert_rules_trigger
+  AFTER INSERT ON organizations
+  FOR EACH ROW EXECUTE FUNCTION create_default_alert_rules();
+
+CREATE OR REPLACE FUNCTION sync_geofence_alert_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_crossing RECORD;
+  v_wanted BOOLEAN;
+BEGIN
+  FOR v_crossing IN
+    SELECT * FROM (VALUES
+      ('geofence_enter', 'enters', 'Entered ', NEW.alert_on_enter),
+      ('geofence_exit', 'exits', 'Left ', NEW.alert_on_exit)
+    ) AS c(alert_type, op, prefix, flag)
+  LOOP
+    v_wanted := COALESCE(v_crossing.flag, false) AND COALESCE(NEW.purpose, 'geofence') = 'geofence';
+
+    IF v_wanted THEN
+      INSERT INTO alert_rules (organization_id, user_id, geofence_id, name, alert_type, severity, conditions)
+      VALUES (
+        NEW.organization_id, NEW.user_id, NEW.id, v_crossing.prefix || NEW.name, v_crossing.alert_type, 'medium',
+        jsonb_build_object('operator', 'and', 'conditions',
+          jsonb_build_array(jsonb_build_object('field', 'geofence', 'op', v_crossing.op, 'value', NEW.id)))
+      )
+      ON CONFLICT (geofence_id, alert_type) WHERE geofence_id IS NOT NULL
+      DO UPDATE SET is_enabled = true, updated_at = now()
+      WHERE NOT alert_rules.is_enabled;
+    ELSE
+      UPDATE alert_rules SET is_enabled = false, updated_at = now()
+      WHERE geofence_id = NEW.id AND alert_type = v_crossing.alert_type AND is_enabled;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.name IS DISTINCT FROM OLD.name THEN
+      UPDATE alert_rules SET name = v_crossing.prefix || NEW.name, updated_at = now()
+      WHERE geofence_id = NEW.id AND alert_type = v_crossing.alert_type AND name = v_crossing.prefix || OLD.name;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS geofences_alert_rules_trigger ON geofences;
+CREATE TRIGGER geofences_alert_rules_trigger
+  AFTER INSERT OR UPDATE OF alert_on_enter, alert_on_exit, name, purpose ON geofences
+  FOR EACH ROW EXECUTE FUNCTION sync_geofence_alert_rules();
+
+-- Organizations created since the alert rules migration, and geofences whose flags have no rule
+INSERT INTO alert_rules (organization_id, user_id, name, description, alert_type, severity, conditions, duration_seconds)
+SELECT o.id, o.created_by, 'Speeding',
+  'Speed above the limit of the speed-limit zone, or of the vehicle outside zones',
+  'speed_limit', 'high',
+  '{"operator": "and", "conditions": [{"field": "speed_over_limit", "op": "gt", "value": 0}]}'::jsonb,
+  10
+FROM organizations o
+WHERE o.created_by IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM alert_rules r WHERE r.organization_id = o.id);
+
+INSERT INTO alert_rules (organization_id, user_id, geofence_id, name, alert_type, severity, conditions)
+SELECT g.organization_id, g.user_id, g.id, c.prefix || g.name, c.alert_type, 'medium',
+  jsonb_build_object('operator', 'and', 'conditions',
+    jsonb_build_array(jsonb_build_object('field', 'geofence', 'op', c.op, 'value', g.id)))
+FROM geofences g
+CROSS JOIN (VALUES
+  ('geofence_enter', 'enters', 'Entered '),
+  ('geofence_exit', 'exits', 'Left ')
+) AS c(alert_type, op, prefix)
+WHERE COALESCE(g.purpose, 'geofence') = 'geofence'
+  AND CASE c.alert_type WHEN 'geofence_enter' THEN g.alert_on_enter ELSE g.alert_on_exit END
+  AND NOT EXISTS (
+    SELECT 1 FROM alert_rules r
+    WHERE r.alert_type = c.alert_type
+      AND (r.geofence_id = g.id OR r.conditions::text LIKE '%' || g.id::text || '%')
+  );
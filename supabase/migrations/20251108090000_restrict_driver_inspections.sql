@@ -0,0 +1,52 @@
+/*
+  # Restrict driver inspections to the assigned vehicle
+
+  ## Overview
+  Drivers could submit an inspection for any vehicle and trip of their organization, as long
+  as it named their own drivers row. An inspection from the driver app is now limited to the
+  vehicle of the driver's active assignment, like manual fuel fill-ups, and to trips of that
+  driver.
+
+  ## 1. Functions
+  - `is_current_driver_trip(trip)` - The trip is in the current organization and driven by
+    `current_driver_id()`; reads trips regardless of the caller's `can_view_trips`
+
+  ## 2. Security
+  - "Drivers can submit their own inspections" also requires
+    `vehicle_id = current_driver_vehicle_id()` and a `trip_id` that is empty or one of the
+    driver's trips
+
+  ## 3. Important Notes
+  - Members who can edit the organization still record inspections for any vehicle through
+    "Editors can manage organization vehicle inspections"
+*/
+
+CREATE OR REPLACE FUNCTION is_current_driver_trip(p_trip_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM trips
+    WHERE id = p_trip_id
+    AND organization_id = current_organization_id()
+    AND driver_id = current_driver_id()
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_current_driver_trip(UUID) FROM public, anon;
+GRANT EXECUTE ON FUNCTION is_current_driver_trip(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Drivers can submit their own inspections" ON vehicle_inspections;
+CREATE POLICY "Drivers can submit their own inspections"
+  ON vehicle_inspections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = current_organization_id()
+    AND driver_id = current_driver_id()
+    AND vehicle_id = current_driver_vehicle_id()
+    AND (trip_id IS NULL OR is_current_driver_trip(trip_id))
+    AND user_id = auth.uid()
+  );
@@ -0,0 +1,77 @@
+/*
+  # Require the driver role for driver rights
+
+  ## Overview
+  `current_driver_id()` linked any member to the drivers row with their email, so an admin,
+  manager or viewer whose address was also on a drivers row got the rights of that driver:
+  starting and ending their trips, logging fuel and submitting inspections as them. The link now
+  needs an active membership with the `driver` role in the current organization, the same rule
+  the GPS server applies to positions from the driver app.
+
+  Inspections from the driver app are made for the assigned vehicle or for the vehicle of one of
+  the driver's trips, which can differ from the assigned one; both are accepted.
+
+  ## 1. Functions
+  - `current_driver_id()` - Also requires an active `organization_members` row of the caller
+    with the `driver` role; `current_driver_vehicle_id()`, `start_trip`, `end_trip` and the
+    driver policies follow
+  - `current_driver_trip_vehicle_id(trip)` - Vehicle of a trip of the current driver, null for
+    other trips
+
+  ## 2. Security
+  - "Drivers can submit their own inspections" accepts the vehicle of the inspected trip as well
+    as the assigned vehicle
+
+  ## 3. Important Notes
+  - Members with other roles keep what their permissions allow, e.g. `can_edit_trips` for
+    starting and ending trips
+*/
+
+CREATE OR REPLACE FUNCTION current_driver_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id FROM drivers d
+  WHERE d.organization_id = current_organization_id()
+  AND lower(d.email) = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM organization_members m
+    WHERE m.organization_id = d.organization_id
+    AND m.user_id = auth.uid()
+    AND m.is_active
+    AND m.role = 'driver'
+  )
+  ORDER BY d.created_at ASC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION current_driver_trip_vehicle_id(p_trip_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT vehicle_id FROM trips
+  WHERE id = p_trip_id
+  AND organization_id = current_organization_id()
+  AND driver_id = current_driver_id();
+$$;
+
+REVOKE ALL ON FUNCTION current_driver_trip_vehicle_id(UUID) FROM public, anon;
+GRANT EXECUTE ON FUNCTION current_driver_trip_vehicle_id(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Drivers can submit their own inspections" ON vehicle_inspections;
+CREATE POLICY "Drivers can submit their own inspections"
+  ON vehicle_inspections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = current_organization_id()
+    AND driver_id = current_driver_id()
+    AND (trip_id IS NULL OR is_current_driver_trip(trip_id))
+    AND (vehicle_id = current_driver_vehicle_id() OR vehicle_id = current_driver_trip_vehicle_id(trip_id))
+    AND user_id = auth.uid()
+  );
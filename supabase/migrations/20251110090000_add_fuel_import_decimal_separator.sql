@@ -0,0 +1,18 @@
+/*
+  # Decimal separator of fuel card statements
+
+  ## Overview
+  Statement amounts were read with a guess per cell, which took the thousands separator of
+  "1,234" for a decimal comma. The separator is now chosen for the whole statement in the
+  mapping step, pre-selected from all values of its numeric columns, and kept with the mapping
+  like the date format.
+
+  ## 1. Changed Tables
+
+  ### `fuel_imports`
+  - `decimal_separator` (text) - '.' or ',', offered again for the next statement with the same
+    headers
+*/
+
+ALTER TABLE fuel_imports ADD COLUMN IF NOT EXISTS decimal_separator text DEFAULT '.' NOT NULL
+  CHECK (decimal_separator IN ('.', ','));